@@ -11,8 +11,17 @@ import LandingPage from "./pages/landing";
 import OnboardingPage from "./pages/onboarding";
 import DashboardPage from "./pages/dashboard";
 import ContractsPage from "./pages/contracts";
+import ContractDetailPage from "./pages/contract-detail";
 import InvoicesPage from "./pages/invoices";
 import InvoiceDetailPage from "./pages/invoice-detail";
+import AccountStatementPage from "./pages/account-statement";
+import AgingReportPage from "./pages/aging-report";
+import OwnerStatementsPage from "./pages/owner-statements";
+import OwnerStatementPage from "./pages/owner-statement";
+import WorkOrdersPage from "./pages/work-orders";
+import WorkOrderDetailPage from "./pages/work-order-detail";
+import InspectionDetailPage from "./pages/inspection-detail";
+import InspectionComparePage from "./pages/inspection-compare";
 import PaymentsPage from "./pages/payments";
 import PropertiesPage from "./pages/properties";
 import ContactsPage from "./pages/contacts";
@@ -20,6 +29,7 @@ import InsurersPage from "./pages/insurers";
 import PoliciesPage from "./pages/policies";
 import OCRInboxPage from "./pages/ocr-inbox";
 import SettingsPage from "./pages/settings";
+import TeamPage from "./pages/team";
 import SearchPage from "./pages/search";
 import NotFound from "./pages/not-found";
 
@@ -47,15 +57,26 @@ function AppRouter() {
       <Route path="/" component={DashboardPage} />
       <Route path="/search" component={SearchPage} />
       <Route path="/contracts" component={ContractsPage} />
+      <Route path="/contracts/:id/statement" component={AccountStatementPage} />
+      <Route path="/contracts/:id/inspections/compare" component={InspectionComparePage} />
+      <Route path="/contracts/:id" component={ContractDetailPage} />
       <Route path="/invoices" component={InvoicesPage} />
       <Route path="/invoices/:id" component={InvoiceDetailPage} />
       <Route path="/payments" component={PaymentsPage} />
+      <Route path="/reports/aging" component={AgingReportPage} />
       <Route path="/properties" component={PropertiesPage} />
       <Route path="/contacts" component={ContactsPage} />
+      <Route path="/contacts/:id/statement" component={AccountStatementPage} />
+      <Route path="/owners" component={OwnerStatementsPage} />
+      <Route path="/owners/:id" component={OwnerStatementPage} />
+      <Route path="/work-orders" component={WorkOrdersPage} />
+      <Route path="/work-orders/:id" component={WorkOrderDetailPage} />
+      <Route path="/inspections/:id" component={InspectionDetailPage} />
       <Route path="/insurers" component={InsurersPage} />
       <Route path="/policies" component={PoliciesPage} />
       <Route path="/ocr-inbox" component={OCRInboxPage} />
       <Route path="/settings" component={SettingsPage} />
+      <Route path="/settings/team" component={TeamPage} />
       <Route component={NotFound} />
     </Switch>
   );
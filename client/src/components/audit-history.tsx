@@ -0,0 +1,156 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AuditAction, AuditLog, User } from '@shared/schema';
+
+interface AuditHistoryProps {
+  entity: string;
+  entityId: string;
+}
+
+type AuditEntry = AuditLog & {
+  actor?: Pick<User, 'id' | 'email' | 'firstName' | 'lastName'> | null;
+};
+
+type AuditMeta = {
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+};
+
+const actionLabels: Record<AuditAction, string> = {
+  create: 'creó',
+  update: 'modificó',
+  delete: 'eliminó',
+  approve: 'aprobó',
+};
+
+const fieldLabels: Record<string, string> = {
+  status: 'Estado',
+  number: 'Número',
+  issueDate: 'Fecha de emisión',
+  dueDate: 'Fecha de vencimiento',
+  subtotal: 'Subtotal',
+  tax: 'Impuestos',
+  withholdings: 'Retenciones',
+  category: 'Categoría',
+  otherCharges: 'Servicios públicos',
+  lateFee: 'Mora',
+  totalAmount: 'Total',
+  amountPaid: 'Pagado',
+  creditedAmount: 'Notas crédito',
+  managementFeeRate: 'Comisión de administración',
+  startDate: 'Fecha de inicio',
+  endDate: 'Fecha de fin',
+  rentAmount: 'Canon',
+  paymentDay: 'Día de pago',
+  lateFeeType: 'Tipo de mora',
+  lateFeeValue: 'Valor de mora',
+  propertyId: 'Propiedad',
+  ownerContactId: 'Propietario',
+  tenantContactId: 'Inquilino',
+  policyId: 'Póliza',
+  taxProfileId: 'Perfil tributario',
+  guarantorContactId: 'Codeudor',
+  promisedPaymentDate: 'Promesa de pago',
+  promiseNote: 'Nota de la promesa',
+  renewedFromContractId: 'Renovación de',
+  depositAmount: 'Depósito en garantía',
+  depositReceivedDate: 'Fecha de recibo del depósito',
+  terminationDate: 'Fecha de terminación',
+  terminationReason: 'Motivo de terminación',
+  notes: 'Notas',
+  title: 'Título',
+  priority: 'Prioridad',
+  providerContactId: 'Proveedor',
+  scheduledDate: 'Fecha programada',
+  completedDate: 'Fecha de terminación',
+  estimatedCost: 'Costo estimado',
+  cost: 'Costo',
+  billedTo: 'Facturado a',
+  inspectionDate: 'Fecha de inspección',
+  inspectorName: 'Inspector',
+  tenantSignedName: 'Firmado por',
+  signedAt: 'Fecha de firma',
+};
+
+// Internal bookkeeping fields that would only add noise to the timeline
+const hiddenFields = new Set(['id', 'tenantId', 'createdAt', 'updatedAt']);
+
+function formatValue(value: unknown): string {
+  if (value == null || value === '') {
+    return '—';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function actorName(entry: AuditEntry) {
+  if (!entry.actor) {
+    return 'Sistema';
+  }
+  const name = [entry.actor.firstName, entry.actor.lastName].filter(Boolean).join(' ');
+  return name || entry.actor.email || entry.actor.id;
+}
+
+export default function AuditHistory({ entity, entityId }: AuditHistoryProps) {
+  const { data: entries = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [`/api/audit-logs?entity=${entity}&entityId=${entityId}`],
+    // Mutations elsewhere on the page keep adding entries
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <div className="animate-spin w-6 h-6 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-8 text-center" data-testid="text-history-empty">
+        No hay cambios registrados
+      </p>
+    );
+  }
+
+  return (
+    <ol className="space-y-4" data-testid="list-history">
+      {entries.map((entry) => {
+        const meta = (entry.meta ?? {}) as AuditMeta;
+        const fields = entry.action === 'update'
+          ? Object.keys(meta.after ?? {}).filter((field) => !hiddenFields.has(field))
+          : [];
+
+        return (
+          <li key={entry.id} className="border-l-2 border-border pl-4" data-testid={`history-entry-${entry.id}`}>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm">
+                <span className="font-medium">{actorName(entry)}</span>{' '}
+                <span className="text-muted-foreground">
+                  {actionLabels[entry.action as AuditAction] ?? entry.action} este registro
+                </span>
+              </p>
+              <time className="text-xs text-muted-foreground whitespace-nowrap">
+                {new Date(entry.createdAt).toLocaleString('es-ES')}
+              </time>
+            </div>
+            {fields.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {fields.map((field) => (
+                  <li key={field} className="text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{fieldLabels[field] ?? field}:</span>{' '}
+                    <span className="line-through">{formatValue(meta.before?.[field])}</span>
+                    {' → '}
+                    <span className="text-foreground">{formatValue(meta.after?.[field])}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
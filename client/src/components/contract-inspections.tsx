@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Link, useLocation } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { inspectionStatusColors, inspectionStatusLabels, inspectionTypeLabels } from '@/lib/inspections';
+import { Columns2, Plus } from 'lucide-react';
+import type { Inspection, InspectionItem, InspectionType } from '@shared/schema';
+
+type InspectionSummary = Omit<Inspection, 'tenantSignature' | 'inspectorSignature'> & {
+  items: Pick<InspectionItem, 'id' | 'condition'>[];
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+function NewInspectionDialog({
+  contractId,
+  defaultType,
+  open,
+  onOpenChange,
+}: {
+  contractId: string;
+  defaultType: InspectionType;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [type, setType] = useState<InspectionType>(defaultType);
+  const [inspectionDate, setInspectionDate] = useState(new Date().toISOString().split('T')[0]);
+  const [inspectorName, setInspectorName] = useState(
+    [user?.firstName, user?.lastName].filter(Boolean).join(' '),
+  );
+  const [notes, setNotes] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/contracts/${contractId}/inspections`, {
+        type,
+        inspectionDate,
+        inspectorName,
+        notes: notes.trim() || null,
+      });
+      return res.json() as Promise<Inspection>;
+    },
+    onSuccess: (inspection) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contractId}/inspections`] });
+      toast({ title: 'Inspección creada' });
+      onOpenChange(false);
+      setLocation(`/inspections/${inspection.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al crear la inspección', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Nueva inspección</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Tipo</Label>
+              <Select value={type} onValueChange={(value) => setType(value as InspectionType)}>
+                <SelectTrigger data-testid="select-inspection-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(inspectionTypeLabels) as InspectionType[]).map((value) => (
+                    <SelectItem key={value} value={value}>{inspectionTypeLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="inspection-date" className="mb-2 block">Fecha</Label>
+              <Input
+                id="inspection-date"
+                type="date"
+                value={inspectionDate}
+                onChange={(e) => setInspectionDate(e.target.value)}
+                data-testid="input-inspection-date"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="inspection-inspector" className="mb-2 block">Inspector</Label>
+            <Input
+              id="inspection-inspector"
+              value={inspectorName}
+              onChange={(e) => setInspectorName(e.target.value)}
+              data-testid="input-inspection-inspector"
+            />
+          </div>
+          <div>
+            <Label htmlFor="inspection-notes" className="mb-2 block">Observaciones</Label>
+            <Textarea
+              id="inspection-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              data-testid="input-inspection-notes"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            El checklist parte de los espacios de la última inspección del contrato, o de uno estándar si es la primera.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!inspectorName.trim() || !inspectionDate || createMutation.isPending}
+            data-testid="button-save-inspection"
+          >
+            Crear
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ContractInspections({ contractId }: { contractId: string }) {
+  const { can } = useAuth();
+  const [createOpen, setCreateOpen] = useState(false);
+
+  const { data: inspections = [] } = useQuery<InspectionSummary[]>({
+    queryKey: [`/api/contracts/${contractId}/inspections`],
+  });
+
+  const hasMoveIn = inspections.some((inspection) => inspection.type === 'move_in');
+  const hasMoveOut = inspections.some((inspection) => inspection.type === 'move_out');
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6" data-testid="card-inspections">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold">Inspecciones</h3>
+        <div className="flex gap-1">
+          {hasMoveIn && hasMoveOut && (
+            <Link href={`/contracts/${contractId}/inspections/compare`}>
+              <Button variant="ghost" size="sm" data-testid="button-compare-inspections">
+                <Columns2 className="w-4 h-4 mr-2" />
+                Comparar entrega y restitución
+              </Button>
+            </Link>
+          )}
+          {can('inspections:manage') && (
+            <Button variant="ghost" size="sm" onClick={() => setCreateOpen(true)} data-testid="button-add-inspection">
+              <Plus className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {inspections.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Este contrato aún no tiene inspecciones</p>
+      ) : (
+        <div className="space-y-3" data-testid="list-inspections">
+          {inspections.map((inspection) => {
+            const rated = inspection.items.filter((item) => item.condition).length;
+            return (
+              <Link key={inspection.id} href={`/inspections/${inspection.id}`}>
+                <div
+                  className="flex items-center justify-between p-3 bg-muted/30 rounded-lg cursor-pointer hover:bg-muted/50"
+                  data-testid={`row-inspection-${inspection.id}`}
+                >
+                  <div>
+                    <p className="font-medium">
+                      {inspectionTypeLabels[inspection.type]} · {formatDate(inspection.inspectionDate)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {inspection.inspectorName} · {rated} de {inspection.items.length} ítems calificados
+                    </p>
+                  </div>
+                  <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${inspectionStatusColors[inspection.status]}`}>
+                    {inspectionStatusLabels[inspection.status]}
+                  </span>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+
+      {createOpen && (
+        <NewInspectionDialog
+          contractId={contractId}
+          defaultType={hasMoveIn ? 'move_out' : 'move_in'}
+          open={createOpen}
+          onOpenChange={setCreateOpen}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Download, Plus, Trash2 } from 'lucide-react';
+import type { DepositEntry, Invoice, InvoiceCharge } from '@shared/schema';
+
+interface DepositLedgerProps {
+  contractId: string;
+  invoices: Invoice[];
+}
+
+export type DepositSummary = {
+  depositAmount: string | null;
+  depositReceivedDate: string | null;
+  received: string;
+  deducted: string;
+  refunded: string;
+  balance: string;
+  entries: DepositEntry[];
+};
+
+const entryTypeLabels: Record<DepositEntry['type'], string> = {
+  receipt: 'Recibo',
+  deduction: 'Descuento',
+  refund: 'Devolución',
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+function DepositEntryDialog({
+  contractId,
+  invoices,
+  open,
+  onOpenChange,
+}: DepositLedgerProps & { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [type, setType] = useState<DepositEntry['type']>('receipt');
+  const [amount, setAmount] = useState('');
+  const [entryDate, setEntryDate] = useState(new Date().toISOString().split('T')[0]);
+  const [description, setDescription] = useState('');
+  const [invoiceId, setInvoiceId] = useState('');
+  const [invoiceChargeId, setInvoiceChargeId] = useState('');
+
+  const { data: invoice } = useQuery<Invoice & { charges?: InvoiceCharge[] }>({
+    queryKey: [`/api/invoices/${invoiceId}`],
+    enabled: type === 'deduction' && !!invoiceId,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/contracts/${contractId}/deposit/entries`, {
+      type,
+      amount,
+      entryDate,
+      description,
+      invoiceChargeId: type === 'deduction' && invoiceChargeId ? invoiceChargeId : undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contractId}/deposit`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contractId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payments'] });
+      toast({ title: 'Movimiento registrado' });
+      onOpenChange(false);
+      setAmount('');
+      setDescription('');
+      setInvoiceId('');
+      setInvoiceChargeId('');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al registrar movimiento', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Registrar movimiento del depósito</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Tipo</Label>
+              <Select value={type} onValueChange={(value) => setType(value as DepositEntry['type'])}>
+                <SelectTrigger data-testid="select-deposit-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="receipt">Recibo</SelectItem>
+                  <SelectItem value="deduction">Descuento</SelectItem>
+                  <SelectItem value="refund">Devolución</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="deposit-date" className="mb-2 block">Fecha</Label>
+              <Input
+                id="deposit-date"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+                data-testid="input-deposit-date"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="deposit-amount" className="mb-2 block">Monto</Label>
+            <Input
+              id="deposit-amount"
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              data-testid="input-deposit-amount"
+            />
+          </div>
+          <div>
+            <Label htmlFor="deposit-description" className="mb-2 block">Descripción</Label>
+            <Input
+              id="deposit-description"
+              placeholder={type === 'deduction' ? 'Ej. Reparación de pintura' : ''}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              data-testid="input-deposit-description"
+            />
+          </div>
+          {type === 'deduction' && invoices.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Factura (opcional)</Label>
+                <Select value={invoiceId} onValueChange={(value) => { setInvoiceId(value); setInvoiceChargeId(''); }}>
+                  <SelectTrigger data-testid="select-deposit-invoice">
+                    <SelectValue placeholder="Sin factura" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {invoices.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{candidate.number}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-2 block">Cargo</Label>
+                <Select value={invoiceChargeId} onValueChange={setInvoiceChargeId} disabled={!invoice?.charges?.length}>
+                  <SelectTrigger data-testid="select-deposit-charge">
+                    <SelectValue placeholder="Seleccionar cargo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(invoice?.charges ?? []).map((charge) => (
+                      <SelectItem key={charge.id} value={charge.id}>
+                        {charge.description} · {formatCurrency(parseFloat(charge.amount))}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {invoiceChargeId && (
+                <p className="col-span-2 text-xs text-muted-foreground">
+                  El descuento se registra como pago de la factura {invoice?.number}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!amount || !description.trim() || !entryDate || createMutation.isPending}
+            data-testid="button-save-deposit-entry"
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function DepositLedger({ contractId, invoices }: DepositLedgerProps) {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const [entryOpen, setEntryOpen] = useState(false);
+  const canManage = can('deposits:manage');
+
+  const { data: deposit } = useQuery<DepositSummary>({
+    queryKey: [`/api/contracts/${contractId}/deposit`],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (entryId: string) => apiRequest('DELETE', `/api/contracts/${contractId}/deposit/entries/${entryId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contractId}/deposit`] });
+      toast({ title: 'Movimiento eliminado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar movimiento', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!deposit) {
+    return null;
+  }
+
+  const pending = deposit.depositAmount ? parseFloat(deposit.depositAmount) - parseFloat(deposit.received) : 0;
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6" data-testid="card-deposit">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">Depósito en garantía</h3>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => { window.location.href = `/api/export/deposits.csv?contractId=${contractId}`; }}
+            data-testid="button-export-deposit"
+          >
+            <Download className="w-4 h-4" />
+          </Button>
+          {canManage && (
+            <Button variant="ghost" size="sm" onClick={() => setEntryOpen(true)} data-testid="button-add-deposit-entry">
+              <Plus className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm text-muted-foreground mb-1">Saldo</p>
+          <p className="text-2xl font-bold font-mono" data-testid="text-deposit-balance">
+            {formatCurrency(parseFloat(deposit.balance))}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Pactado {deposit.depositAmount ? formatCurrency(parseFloat(deposit.depositAmount)) : '—'}
+            {deposit.depositReceivedDate && ` · recibido el ${formatDate(deposit.depositReceivedDate)}`}
+          </p>
+          {pending > 0 && (
+            <p className="text-xs text-warning">Pendiente por recibir {formatCurrency(pending)}</p>
+          )}
+        </div>
+
+        {deposit.entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin movimientos</p>
+        ) : (
+          <div className="space-y-2" data-testid="list-deposit-entries">
+            {deposit.entries.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 p-2 bg-muted/30 rounded-lg">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{entry.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entryTypeLabels[entry.type]} · {formatDate(entry.entryDate)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <p className={`font-mono text-sm whitespace-nowrap ${entry.type === 'receipt' ? 'text-success' : ''}`}>
+                    {entry.type === 'receipt' ? '+' : '−'}{formatCurrency(parseFloat(entry.amount))}
+                  </p>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(entry.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-deposit-entry-${entry.id}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canManage && (
+        <DepositEntryDialog contractId={contractId} invoices={invoices} open={entryOpen} onOpenChange={setEntryOpen} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import {
+  describeOffset,
+  dunningChannelDescriptions,
+  dunningChannelLabels,
+  dunningRecipientLabels,
+  dunningStopConditionLabels,
+  dunningTemplateLabels,
+} from '@/lib/dunning';
+import { BellRing, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { DunningChannel, DunningRecipient, DunningStep, DunningStopCondition, DunningTemplate } from '@shared/schema';
+
+function DunningStepDialog({
+  step,
+  open,
+  onOpenChange,
+}: {
+  step?: DunningStep;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState(step?.name ?? '');
+  const [offsetDays, setOffsetDays] = useState(step ? String(step.offsetDays) : '3');
+  const [channel, setChannel] = useState<DunningChannel>(step?.channel ?? 'auto');
+  const [recipient, setRecipient] = useState<DunningRecipient>(step?.recipient ?? 'tenant');
+  const [template, setTemplate] = useState<DunningTemplate>(step?.template ?? 'overdue');
+  const [stopConditions, setStopConditions] = useState<DunningStopCondition[]>(step?.stopConditions ?? ['promise_to_pay']);
+  const [active, setActive] = useState(step?.active ?? true);
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = { name, offsetDays: parseInt(offsetDays, 10) || 0, channel, recipient, template, stopConditions, active };
+      return step
+        ? apiRequest('PATCH', `/api/dunning-steps/${step.id}`, data)
+        : apiRequest('POST', '/api/dunning-steps', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/dunning-steps'] });
+      toast({ title: step ? 'Paso de cobranza actualizado' : 'Paso de cobranza creado' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al guardar paso de cobranza', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggleStopCondition = (condition: DunningStopCondition, checked: boolean) => {
+    setStopConditions((current) =>
+      checked ? [...current, condition] : current.filter((value) => value !== condition),
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{step ? 'Editar paso de cobranza' : 'Nuevo paso de cobranza'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="dunning-step-name" className="mb-2 block">Nombre</Label>
+            <Input
+              id="dunning-step-name"
+              placeholder="Ej. Segundo aviso"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-dunning-step-name"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="dunning-step-offset" className="mb-2 block">Días desde el vencimiento</Label>
+              <Input
+                id="dunning-step-offset"
+                type="number"
+                step="1"
+                value={offsetDays}
+                onChange={(e) => setOffsetDays(e.target.value)}
+                data-testid="input-dunning-step-offset"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {describeOffset(parseInt(offsetDays, 10) || 0)}
+              </p>
+            </div>
+            <div>
+              <Label className="mb-2 block">Destinatario</Label>
+              <Select value={recipient} onValueChange={(value) => setRecipient(value as DunningRecipient)}>
+                <SelectTrigger data-testid="select-dunning-step-recipient">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(dunningRecipientLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label className="mb-2 block">Canal</Label>
+            <Select value={channel} onValueChange={(value) => setChannel(value as DunningChannel)}>
+              <SelectTrigger data-testid="select-dunning-step-channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(dunningChannelLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">{dunningChannelDescriptions[channel]}</p>
+          </div>
+          <div>
+            <Label className="mb-2 block">Plantilla</Label>
+            <Select value={template} onValueChange={(value) => setTemplate(value as DunningTemplate)}>
+              <SelectTrigger data-testid="select-dunning-step-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(dunningTemplateLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="block">No enviar si…</Label>
+            {(Object.keys(dunningStopConditionLabels) as DunningStopCondition[]).map((condition) => (
+              <div key={condition} className="flex items-center gap-2">
+                <Checkbox
+                  id={`dunning-stop-${condition}`}
+                  checked={stopConditions.includes(condition)}
+                  onCheckedChange={(checked) => toggleStopCondition(condition, checked === true)}
+                  data-testid={`checkbox-dunning-stop-${condition}`}
+                />
+                <Label htmlFor={`dunning-stop-${condition}`} className="font-normal">
+                  {dunningStopConditionLabels[condition]}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="dunning-step-active"
+              checked={active}
+              onCheckedChange={(checked) => setActive(checked === true)}
+              data-testid="checkbox-dunning-step-active"
+            />
+            <Label htmlFor="dunning-step-active" className="font-normal">Paso activo</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+            data-testid="button-save-dunning-step"
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function DunningSteps() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canManage = can('dunning:manage');
+  const [editing, setEditing] = useState<DunningStep | undefined>();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: steps = [] } = useQuery<DunningStep[]>({
+    queryKey: ['/api/dunning-steps'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/dunning-steps/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/dunning-steps'] });
+      toast({ title: 'Paso de cobranza eliminado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar paso de cobranza', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openDialog = (step?: DunningStep) => {
+    setEditing(step);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6 mb-8" data-testid="card-dunning-steps">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          <h2 className="text-lg font-semibold">Escalera de cobranza</h2>
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => openDialog()} data-testid="button-add-dunning-step">
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo paso
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Cada factura pendiente recibe el paso que corresponde a los días transcurridos desde su vencimiento, una sola vez.
+        Los pasos omitidos mientras el sistema estaba detenido solo se envían si aún no llega el siguiente.
+      </p>
+      {steps.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No hay pasos de cobranza</p>
+      ) : (
+        <div className="space-y-2" data-testid="list-dunning-steps">
+          {steps.map((step) => (
+            <div
+              key={step.id}
+              className={`flex items-center justify-between gap-2 p-3 bg-muted/30 rounded-lg ${step.active ? '' : 'opacity-60'}`}
+            >
+              <div className="min-w-0">
+                <p className="font-medium truncate">
+                  {step.name}
+                  {!step.active && <span className="ml-2 text-xs text-muted-foreground">(inactivo)</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {describeOffset(step.offsetDays)} · {dunningRecipientLabels[step.recipient]} · {dunningChannelLabels[step.channel]} · {dunningTemplateLabels[step.template]}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openDialog(step)}
+                    data-testid={`button-edit-dunning-step-${step.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(step.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-dunning-step-${step.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && dialogOpen && (
+        <DunningStepDialog
+          key={editing?.id ?? 'new'}
+          step={editing}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { emailTransportDescriptions, emailTransportLabels } from '@/lib/notifications';
+import { Send } from 'lucide-react';
+import { smtpPorts, type EmailSettings, type EmailTransportName } from '@shared/schema';
+
+type PublicEmailSettings = Omit<EmailSettings, 'smtpPassword'> & { hasPassword: boolean };
+
+const PLATFORM = 'platform';
+
+export default function EmailSettingsCard() {
+  const { toast } = useToast();
+  const [transport, setTransport] = useState<EmailTransportName | typeof PLATFORM>(PLATFORM);
+  const [smtpHost, setSmtpHost] = useState('');
+  const [smtpPort, setSmtpPort] = useState('587');
+  const [smtpSecure, setSmtpSecure] = useState(false);
+  const [smtpUser, setSmtpUser] = useState('');
+  const [smtpPassword, setSmtpPassword] = useState('');
+  const [fromEmail, setFromEmail] = useState('');
+  const [fromName, setFromName] = useState('');
+
+  const { data } = useQuery<{ platformTransport: EmailTransportName; transports: EmailTransportName[]; settings: PublicEmailSettings | null }>({
+    queryKey: ['/api/email-settings'],
+  });
+  const settings = data?.settings;
+
+  useEffect(() => {
+    setTransport(settings?.transport ?? PLATFORM);
+    setSmtpHost(settings?.smtpHost ?? '');
+    setSmtpPort(String(settings?.smtpPort ?? 587));
+    setSmtpSecure(settings?.smtpSecure ?? false);
+    setSmtpUser(settings?.smtpUser ?? '');
+    setSmtpPassword('');
+    setFromEmail(settings?.fromEmail ?? '');
+    setFromName(settings?.fromName ?? '');
+  }, [settings]);
+
+  const isSmtp = transport === 'smtp';
+  const payload = () => ({
+    transport,
+    ...(isSmtp && {
+      smtpHost: smtpHost.trim(),
+      smtpPort: parseInt(smtpPort, 10),
+      smtpSecure,
+      smtpUser: smtpUser.trim() || null,
+      ...(smtpPassword && { smtpPassword }),
+    }),
+    fromEmail: transport === 'sendgrid' ? null : fromEmail.trim() || null,
+    fromName: fromName.trim() || null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => transport === PLATFORM
+      ? apiRequest('DELETE', '/api/email-settings')
+      : apiRequest('PUT', '/api/email-settings', payload()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-settings'] });
+      toast({ title: 'Configuración de envío guardada' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al guardar configuración de envío', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/email-settings/verify', payload()),
+    onSuccess: () => {
+      toast({ title: 'Conexión SMTP verificada' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'No se pudo conectar al servidor SMTP', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const smtpComplete = !!smtpHost.trim() && !!parseInt(smtpPort, 10) && !!fromEmail.trim();
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6 mb-8" data-testid="card-email-settings">
+      <div className="flex items-center gap-2 mb-4">
+        <Send className="h-5 w-5" />
+        <h2 className="text-lg font-semibold">Envío de email</h2>
+      </div>
+      <div className="max-w-sm mb-2">
+        <Label className="mb-2 block">Transporte</Label>
+        <Select value={transport} onValueChange={(value) => setTransport(value as EmailTransportName | typeof PLATFORM)}>
+          <SelectTrigger data-testid="select-email-transport">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={PLATFORM}>
+              Predeterminado de la plataforma{data ? ` (${emailTransportLabels[data.platformTransport]})` : ''}
+            </SelectItem>
+            {(data?.transports ?? []).map((name) => (
+              <SelectItem key={name} value={name}>{emailTransportLabels[name]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        {transport === PLATFORM
+          ? 'Los emails salen por el transporte configurado para este entorno.'
+          : emailTransportDescriptions[transport]}
+      </p>
+
+      {isSmtp && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <Label htmlFor="smtp-host" className="mb-2 block">Servidor SMTP</Label>
+            <Input
+              id="smtp-host"
+              placeholder="smtp.sudominio.com"
+              value={smtpHost}
+              onChange={(e) => setSmtpHost(e.target.value)}
+              data-testid="input-smtp-host"
+            />
+          </div>
+          <div>
+            <Label htmlFor="smtp-port" className="mb-2 block">Puerto</Label>
+            <Input
+              id="smtp-port"
+              type="number"
+              list="smtp-ports"
+              value={smtpPort}
+              onChange={(e) => setSmtpPort(e.target.value)}
+              data-testid="input-smtp-port"
+            />
+            <datalist id="smtp-ports">
+              {smtpPorts.map((port) => <option key={port} value={port} />)}
+            </datalist>
+          </div>
+          <div>
+            <Label htmlFor="smtp-user" className="mb-2 block">Usuario</Label>
+            <Input
+              id="smtp-user"
+              autoComplete="off"
+              value={smtpUser}
+              onChange={(e) => setSmtpUser(e.target.value)}
+              data-testid="input-smtp-user"
+            />
+          </div>
+          <div>
+            <Label htmlFor="smtp-password" className="mb-2 block">Contraseña</Label>
+            <Input
+              id="smtp-password"
+              type="password"
+              autoComplete="new-password"
+              placeholder={settings?.hasPassword ? 'Guardada (dejar vacío para conservarla)' : ''}
+              value={smtpPassword}
+              onChange={(e) => setSmtpPassword(e.target.value)}
+              data-testid="input-smtp-password"
+            />
+          </div>
+          <div className="flex items-center gap-2 md:col-span-2">
+            <Checkbox
+              id="smtp-secure"
+              checked={smtpSecure}
+              onCheckedChange={(checked) => setSmtpSecure(checked === true)}
+              data-testid="checkbox-smtp-secure"
+            />
+            <Label htmlFor="smtp-secure" className="font-normal">Conexión TLS directa (puerto 465)</Label>
+          </div>
+        </div>
+      )}
+
+      {transport !== PLATFORM && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          {transport !== 'sendgrid' && (
+            <div>
+              <Label htmlFor="email-from-address" className="mb-2 block">Email del remitente</Label>
+              <Input
+                id="email-from-address"
+                type="email"
+                placeholder="cobranza@sudominio.com"
+                value={fromEmail}
+                onChange={(e) => setFromEmail(e.target.value)}
+                data-testid="input-email-from-address"
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="email-from-name" className="mb-2 block">Nombre del remitente</Label>
+            <Input
+              id="email-from-name"
+              value={fromName}
+              onChange={(e) => setFromName(e.target.value)}
+              data-testid="input-email-from-name"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {isSmtp && (
+          <Button
+            variant="outline"
+            onClick={() => verifyMutation.mutate()}
+            disabled={!smtpComplete || verifyMutation.isPending}
+            data-testid="button-verify-email-settings"
+          >
+            Probar conexión
+          </Button>
+        )}
+        <Button
+          onClick={() => saveMutation.mutate()}
+          disabled={(isSmtp && !smtpComplete) || saveMutation.isPending}
+          data-testid="button-save-email-settings"
+        >
+          Guardar
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { emailTemplateDescriptions, regionalFormatOptions, type EmailTemplateEntry } from '@/lib/emailTemplates';
+import { notificationTemplateLabels } from '@/lib/notifications';
+import { Mail, Pencil } from 'lucide-react';
+import type { Tenant } from '@shared/schema';
+
+type RenderedEmail = { subject: string; html: string; text: string };
+
+function EmailTemplateDialog({
+  template,
+  open,
+  onOpenChange,
+}: {
+  template: EmailTemplateEntry;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [subject, setSubject] = useState(template.subject);
+  const [html, setHtml] = useState(template.html);
+  const [text, setText] = useState(template.text ?? '');
+  const [sampleId, setSampleId] = useState('');
+  const [preview, setPreview] = useState<RenderedEmail | null>(null);
+  const forInsurer = template.key === 'insurer_report';
+
+  const { data: invoices = [] } = useQuery<{ id: string; number: string; tenantContact?: { fullName: string } | null }[]>({
+    queryKey: ['/api/invoices'],
+    enabled: !forInsurer,
+  });
+  const { data: insurers = [] } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ['/api/insurers'],
+    enabled: forInsurer,
+  });
+  const samples = forInsurer
+    ? insurers.map((insurer) => ({ id: insurer.id, label: insurer.name }))
+    : invoices.slice(0, 50).map((invoice) => ({
+      id: invoice.id,
+      label: invoice.tenantContact ? `${invoice.number} · ${invoice.tenantContact.fullName}` : invoice.number,
+    }));
+
+  const draft = { subject, html, text: text.trim() || null };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/email-templates/${template.key}/preview`, {
+        ...draft,
+        ...(forInsurer ? { insurerId: sampleId } : { invoiceId: sampleId }),
+      });
+      return res.json() as Promise<RenderedEmail>;
+    },
+    onSuccess: (rendered) => setPreview(rendered),
+    onError: (error: Error) => {
+      toast({ title: 'Error al generar vista previa', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('PUT', `/api/email-templates/${template.key}`, draft),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      toast({ title: 'Plantilla guardada' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al guardar plantilla', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/email-templates/${template.key}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/email-templates'] });
+      toast({ title: 'Plantilla restaurada' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al restaurar plantilla', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{notificationTemplateLabels[template.key]}</DialogTitle>
+        </DialogHeader>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="email-template-subject" className="mb-2 block">Asunto</Label>
+              <Input
+                id="email-template-subject"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                data-testid="input-email-template-subject"
+              />
+            </div>
+            <div>
+              <Label htmlFor="email-template-html" className="mb-2 block">HTML</Label>
+              <Textarea
+                id="email-template-html"
+                rows={12}
+                className="font-mono text-xs"
+                value={html}
+                onChange={(e) => setHtml(e.target.value)}
+                data-testid="input-email-template-html"
+              />
+            </div>
+            <div>
+              <Label htmlFor="email-template-text" className="mb-2 block">Texto plano (opcional)</Label>
+              <Textarea
+                id="email-template-text"
+                rows={4}
+                className="font-mono text-xs"
+                placeholder="Si se deja vacío, se genera a partir del HTML"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                data-testid="input-email-template-text"
+              />
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground mb-2">
+                Variables disponibles. Use {'{{#variable}}…{{/variable}}'} para mostrar un bloque solo si la variable tiene valor.
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {template.variables.map((name) => (
+                  <code key={name} className="px-1.5 py-0.5 rounded bg-muted text-xs">{`{{${name}}}`}</code>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex gap-2 items-end">
+              <div className="flex-1">
+                <Label className="mb-2 block">{forInsurer ? 'Aseguradora de ejemplo' : 'Factura de ejemplo'}</Label>
+                <Select value={sampleId} onValueChange={setSampleId}>
+                  <SelectTrigger data-testid="select-email-template-sample">
+                    <SelectValue placeholder="Seleccionar..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {samples.map((sample) => (
+                      <SelectItem key={sample.id} value={sample.id}>{sample.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => previewMutation.mutate()}
+                disabled={!sampleId || previewMutation.isPending}
+                data-testid="button-preview-email-template"
+              >
+                Vista previa
+              </Button>
+            </div>
+            {preview ? (
+              <div className="border border-border rounded-lg overflow-hidden" data-testid="email-template-preview">
+                <p className="px-3 py-2 text-sm border-b border-border bg-muted/30">
+                  <span className="text-muted-foreground">Asunto:</span> {preview.subject}
+                </p>
+                <iframe title="Vista previa" sandbox="" srcDoc={preview.html} className="w-full h-80 bg-white" />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                La vista previa usa los datos reales {forInsurer ? 'del reporte del mes anterior de la aseguradora' : 'de la factura'} seleccionada, sin guardar los cambios.
+              </p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          {template.isCustom && (
+            <Button
+              variant="ghost"
+              className="mr-auto"
+              onClick={() => resetMutation.mutate()}
+              disabled={resetMutation.isPending}
+              data-testid="button-reset-email-template"
+            >
+              Restaurar predeterminada
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!subject.trim() || !html.trim() || saveMutation.isPending}
+            data-testid="button-save-email-template"
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function EmailTemplates() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canUpdateTenant = can('tenant:update');
+  const [editing, setEditing] = useState<EmailTemplateEntry | undefined>();
+
+  const { data: templates = [] } = useQuery<EmailTemplateEntry[]>({
+    queryKey: ['/api/email-templates'],
+  });
+  const { data: tenant } = useQuery<Tenant>({
+    queryKey: ['/api/tenants/current'],
+  });
+
+  const formatMutation = useMutation({
+    mutationFn: (format: { locale: string; currency: string }) => apiRequest('PATCH', '/api/tenants/current', format),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tenants/current'] });
+      toast({ title: 'Configuración actualizada exitosamente' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al actualizar configuración', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const format = `${tenant?.locale ?? 'es-CO'}|${tenant?.currency ?? 'COP'}`;
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6 mb-8" data-testid="card-email-templates">
+      <div className="flex items-center gap-2 mb-4">
+        <Mail className="h-5 w-5" />
+        <h2 className="text-lg font-semibold">Plantillas de email</h2>
+      </div>
+      <div className="max-w-sm mb-2">
+        <Label className="mb-2 block">Formato de montos y fechas</Label>
+        <Select
+          value={format}
+          onValueChange={(value) => {
+            const [locale, currency] = value.split('|');
+            formatMutation.mutate({ locale, currency });
+          }}
+          disabled={!canUpdateTenant || formatMutation.isPending}
+        >
+          <SelectTrigger data-testid="select-regional-format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {regionalFormatOptions.some((option) => `${option.locale}|${option.currency}` === format) ? null : (
+              <SelectItem value={format}>{format.replace('|', ' · ')}</SelectItem>
+            )}
+            {regionalFormatOptions.map((option) => (
+              <SelectItem key={`${option.locale}|${option.currency}`} value={`${option.locale}|${option.currency}`}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        Los saldos y fechas de los recordatorios y reportes se escriben con este formato.
+      </p>
+      <div className="space-y-2" data-testid="list-email-templates">
+        {templates.map((template) => (
+          <div key={template.key} className="flex items-center justify-between gap-2 p-3 bg-muted/30 rounded-lg">
+            <div className="min-w-0">
+              <p className="font-medium truncate">
+                {notificationTemplateLabels[template.key]}
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {template.isCustom ? '(personalizada)' : '(predeterminada)'}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">{emailTemplateDescriptions[template.key]}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setEditing(template)}
+              data-testid={`button-edit-email-template-${template.key}`}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <EmailTemplateDialog
+          key={editing.key}
+          template={editing}
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(undefined)}
+        />
+      )}
+    </div>
+  );
+}
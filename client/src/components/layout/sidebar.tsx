@@ -6,7 +6,7 @@ import type { Invoice, Tenant } from '@shared/schema';
 
 export default function Sidebar() {
   const [location] = useLocation();
-  const { tenant: authTenant } = useAuth();
+  const { tenant: authTenant, can } = useAuth();
   const { isOpen, close } = useSidebar();
 
   const { data: tenant } = useQuery<Tenant>({
@@ -26,8 +26,11 @@ export default function Sidebar() {
     { path: '/contracts', icon: 'fa-file-contract', label: 'Contratos' },
     { path: '/invoices', icon: 'fa-file-invoice-dollar', label: 'Facturas', badge: pendingInvoicesCount > 0 ? pendingInvoicesCount : undefined },
     { path: '/payments', icon: 'fa-money-bill-wave', label: 'Pagos' },
+    ...(can('reports:view') ? [{ path: '/reports/aging', icon: 'fa-hourglass-half', label: 'Cartera' }] : []),
     { path: '/properties', icon: 'fa-home', label: 'Propiedades' },
+    ...(can('maintenance:view') ? [{ path: '/work-orders', icon: 'fa-tools', label: 'Mantenimiento' }] : []),
     { path: '/contacts', icon: 'fa-users', label: 'Contactos' },
+    ...(can('owners:view') ? [{ path: '/owners', icon: 'fa-hand-holding-usd', label: 'Propietarios' }] : []),
   ];
 
   const adminItems = [
@@ -37,6 +40,7 @@ export default function Sidebar() {
 
   const settingsItems = [
     { path: '/settings', icon: 'fa-cog', label: 'Ajustes' },
+    ...(can('team:view') ? [{ path: '/settings/team', icon: 'fa-user-group', label: 'Equipo' }] : []),
   ];
 
   const propertiesUsage = authTenant?.propertiesCount || 0;
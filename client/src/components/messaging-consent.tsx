@@ -0,0 +1,98 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { messagingChannelDescriptions, messagingConsentStatusLabels, notificationChannelLabels } from '@/lib/notifications';
+import type { Contact, MessagingChannel, MessagingConsent, MessagingConsentStatus } from '@shared/schema';
+
+const channels: MessagingChannel[] = ['whatsapp', 'sms'];
+
+export default function MessagingConsentDialog({
+  contact,
+  open,
+  onOpenChange,
+}: {
+  contact: Contact;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryKey = [`/api/contacts/${contact.id}/messaging`];
+
+  const { data } = useQuery<{ phone: string | null; consents: MessagingConsent[] }>({
+    queryKey,
+    enabled: open,
+  });
+
+  const consentMutation = useMutation({
+    mutationFn: ({ channel, status }: { channel: MessagingChannel; status: MessagingConsentStatus }) =>
+      apiRequest('PUT', `/api/contacts/${contact.id}/messaging/${channel}`, { status }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: 'Preferencia registrada' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al registrar preferencia', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Mensajería · {contact.fullName}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm">
+          <span className="text-muted-foreground">Número para recordatorios:</span>{' '}
+          {data?.phone ?? <span className="text-destructive">sin teléfono válido</span>}
+        </p>
+        <div className="space-y-3">
+          {channels.map((channel) => {
+            const consent = data?.consents.find((row) => row.channel === channel);
+            const stale = consent && consent.phone !== data?.phone;
+            return (
+              <div key={channel} className="p-3 bg-muted/30 rounded-lg" data-testid={`consent-${channel}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium">{notificationChannelLabels[channel]}</p>
+                  <span className="text-sm">
+                    {consent ? messagingConsentStatusLabels[consent.status] : 'Sin registro'}
+                    {stale && <span className="text-muted-foreground"> (para {consent.phone})</span>}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mb-2">
+                  {messagingChannelDescriptions[channel]}
+                  {consent?.source === 'reply' && ' Excluido por respuesta del contacto.'}
+                </p>
+                {can('contacts:update') && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => consentMutation.mutate({ channel, status: 'opted_in' })}
+                      disabled={!data?.phone || consentMutation.isPending}
+                      data-testid={`button-opt-in-${channel}`}
+                    >
+                      Registrar aceptación
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => consentMutation.mutate({ channel, status: 'opted_out' })}
+                      disabled={!data?.phone || consentMutation.isPending}
+                      data-testid={`button-opt-out-${channel}`}
+                    >
+                      Registrar exclusión
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { chargeCategoryLabels, defaultTaxable, extraChargeCategories } from '@/lib/chargeCategories';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import type { ChargeCategory, Contract, RecurringCharge } from '@shared/schema';
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+function invalidateCharges(contractId: string) {
+  queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contractId}/recurring-charges`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contractId}/invoice-preview`] });
+}
+
+function RecurringChargeDialog({
+  contract,
+  charge,
+  open,
+  onOpenChange,
+}: {
+  contract: Pick<Contract, 'id' | 'startDate'>;
+  charge?: RecurringCharge;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [description, setDescription] = useState(charge?.description ?? '');
+  const [category, setCategory] = useState<ChargeCategory>(charge?.category ?? 'other');
+  const [amount, setAmount] = useState(charge ? String(parseFloat(charge.amount)) : '');
+  const [startDate, setStartDate] = useState(charge?.startDate ?? contract.startDate);
+  const [endDate, setEndDate] = useState(charge?.endDate ?? '');
+  const [taxable, setTaxable] = useState(charge?.taxable ?? defaultTaxable('other'));
+
+  const changeCategory = (value: ChargeCategory) => {
+    setCategory(value);
+    setTaxable(defaultTaxable(value));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = {
+        description,
+        category,
+        amount: Number.parseFloat(amount).toFixed(2),
+        startDate,
+        endDate: endDate || null,
+        taxable,
+      };
+      return charge
+        ? apiRequest('PATCH', `/api/contracts/${contract.id}/recurring-charges/${charge.id}`, data)
+        : apiRequest('POST', `/api/contracts/${contract.id}/recurring-charges`, data);
+    },
+    onSuccess: () => {
+      invalidateCharges(contract.id);
+      toast({ title: charge ? 'Cargo recurrente actualizado' : 'Cargo recurrente creado' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al guardar cargo recurrente', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const valid = description.trim() !== '' && Number.parseFloat(amount) > 0 && !!startDate;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{charge ? 'Editar cargo recurrente' : 'Nuevo cargo recurrente'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="recurring-description" className="mb-2 block">Descripción</Label>
+            <Input
+              id="recurring-description"
+              placeholder="Ej. Cuota de administración"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              data-testid="input-recurring-description"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Categoría</Label>
+              <Select value={category} onValueChange={(value) => changeCategory(value as ChargeCategory)}>
+                <SelectTrigger data-testid="select-recurring-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {extraChargeCategories.map((value) => (
+                    <SelectItem key={value} value={value}>{chargeCategoryLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="recurring-amount" className="mb-2 block">Valor mensual</Label>
+              <Input
+                id="recurring-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-recurring-amount"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="recurring-start" className="mb-2 block">Desde</Label>
+              <Input
+                id="recurring-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="input-recurring-start"
+              />
+            </div>
+            <div>
+              <Label htmlFor="recurring-end" className="mb-2 block">Hasta (opcional)</Label>
+              <Input
+                id="recurring-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                data-testid="input-recurring-end"
+              />
+            </div>
+          </div>
+          {category !== 'tax' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="recurring-taxable"
+                checked={taxable}
+                onCheckedChange={(checked) => setTaxable(checked === true)}
+                data-testid="checkbox-recurring-taxable"
+              />
+              <Label htmlFor="recurring-taxable">Gravado con IVA y retenciones</Label>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Se factura completo en cada mes dentro de su vigencia y por días en los meses parciales del contrato. Los cambios aplican a las facturas que se emitan de aquí en adelante.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!valid || saveMutation.isPending}
+            data-testid="button-save-recurring-charge"
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function RecurringCharges({ contract }: { contract: Pick<Contract, 'id' | 'startDate'> }) {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canManage = can('contracts:update');
+  const [editing, setEditing] = useState<RecurringCharge | undefined>();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: charges = [] } = useQuery<RecurringCharge[]>({
+    queryKey: [`/api/contracts/${contract.id}/recurring-charges`],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (chargeId: string) => apiRequest('DELETE', `/api/contracts/${contract.id}/recurring-charges/${chargeId}`),
+    onSuccess: () => {
+      invalidateCharges(contract.id);
+      toast({ title: 'Cargo recurrente eliminado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar cargo recurrente', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openDialog = (charge?: RecurringCharge) => {
+    setEditing(charge);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6" data-testid="card-recurring-charges">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">Cargos recurrentes</h3>
+        {canManage && (
+          <Button variant="ghost" size="sm" onClick={() => openDialog()} data-testid="button-add-recurring-charge">
+            <Plus className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {charges.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Solo se factura el canon</p>
+      ) : (
+        <div className="space-y-2" data-testid="list-recurring-charges">
+          {charges.map((charge) => (
+            <div key={charge.id} className="flex items-center justify-between gap-2 p-2 bg-muted/30 rounded-lg">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{charge.description}</p>
+                <p className="text-xs text-muted-foreground">
+                  {chargeCategoryLabels[charge.category]} · desde {formatDate(charge.startDate)}
+                  {charge.endDate ? ` hasta ${formatDate(charge.endDate)}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <p className="font-mono text-sm">
+                  {charge.category === 'discount' ? '−' : ''}{formatCurrency(parseFloat(charge.amount))}
+                </p>
+                {canManage && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openDialog(charge)}
+                      data-testid={`button-edit-recurring-charge-${charge.id}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(charge.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-recurring-charge-${charge.id}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && dialogOpen && (
+        <RecurringChargeDialog
+          key={editing?.id ?? 'new'}
+          contract={contract}
+          charge={editing}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+        />
+      )}
+    </div>
+  );
+}
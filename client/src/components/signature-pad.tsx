@@ -0,0 +1,86 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+
+interface SignaturePadProps {
+  onChange: (dataUrl: string | null) => void;
+  testId?: string;
+}
+
+// Freehand signature drawn with mouse, pen or finger; reports a PNG data URL after each stroke
+export default function SignaturePad({ onChange, testId }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (context) {
+      context.lineWidth = 2;
+      context.lineCap = 'round';
+      context.strokeStyle = '#111827';
+    }
+  }, []);
+
+  const pointFor = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((event.clientY - rect.top) * canvas.height) / rect.height,
+    };
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!context) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = pointFor(event);
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (!drawing.current || !context) {
+      return;
+    }
+    const { x, y } = pointFor(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const end = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) {
+      return;
+    }
+    drawing.current = false;
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={400}
+        height={140}
+        className="w-full h-[140px] border border-border rounded-md bg-white touch-none"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+        data-testid={testId}
+      />
+      <Button type="button" variant="ghost" size="sm" className="mt-1" onClick={clear}>
+        Borrar firma
+      </Button>
+    </div>
+  );
+}
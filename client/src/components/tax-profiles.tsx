@@ -0,0 +1,208 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Pencil, Plus, Receipt, Trash2 } from 'lucide-react';
+import type { TaxProfile } from '@shared/schema';
+
+function TaxProfileDialog({
+  profile,
+  open,
+  onOpenChange,
+}: {
+  profile?: TaxProfile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [name, setName] = useState(profile?.name ?? '');
+  const [ivaRate, setIvaRate] = useState(profile ? String(parseFloat(profile.ivaRate)) : '19');
+  const [withholdingRate, setWithholdingRate] = useState(profile ? String(parseFloat(profile.withholdingRate)) : '0');
+  const [icaRate, setIcaRate] = useState(profile ? String(parseFloat(profile.icaRate)) : '0');
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = { name, ivaRate: ivaRate || '0', withholdingRate: withholdingRate || '0', icaRate: icaRate || '0' };
+      return profile
+        ? apiRequest('PATCH', `/api/tax-profiles/${profile.id}`, data)
+        : apiRequest('POST', '/api/tax-profiles', data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-profiles'] });
+      toast({ title: profile ? 'Perfil tributario actualizado' : 'Perfil tributario creado' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al guardar perfil tributario', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{profile ? 'Editar perfil tributario' : 'Nuevo perfil tributario'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="tax-profile-name" className="mb-2 block">Nombre</Label>
+            <Input
+              id="tax-profile-name"
+              placeholder="Ej. Local comercial - Bogotá"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              data-testid="input-tax-profile-name"
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="tax-profile-iva" className="mb-2 block">IVA (%)</Label>
+              <Input
+                id="tax-profile-iva"
+                type="number"
+                step="0.01"
+                value={ivaRate}
+                onChange={(e) => setIvaRate(e.target.value)}
+                data-testid="input-tax-profile-iva"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax-profile-withholding" className="mb-2 block">ReteFuente (%)</Label>
+              <Input
+                id="tax-profile-withholding"
+                type="number"
+                step="0.01"
+                value={withholdingRate}
+                onChange={(e) => setWithholdingRate(e.target.value)}
+                data-testid="input-tax-profile-withholding"
+              />
+            </div>
+            <div>
+              <Label htmlFor="tax-profile-ica" className="mb-2 block">ReteICA (%)</Label>
+              <Input
+                id="tax-profile-ica"
+                type="number"
+                step="0.001"
+                value={icaRate}
+                onChange={(e) => setIcaRate(e.target.value)}
+                data-testid="input-tax-profile-ica"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            El IVA se suma a cada concepto gravado; las retenciones las practica el inquilino y se descuentan del total a pagar.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+            data-testid="button-save-tax-profile"
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function TaxProfiles() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const canManage = can('taxes:manage');
+  const [editing, setEditing] = useState<TaxProfile | undefined>();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: profiles = [] } = useQuery<TaxProfile[]>({
+    queryKey: ['/api/tax-profiles'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/tax-profiles/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tax-profiles'] });
+      toast({ title: 'Perfil tributario eliminado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar perfil tributario', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openDialog = (profile?: TaxProfile) => {
+    setEditing(profile);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6 mb-8" data-testid="card-tax-profiles">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Receipt className="h-5 w-5" />
+          <h2 className="text-lg font-semibold">Impuestos y retenciones</h2>
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => openDialog()} data-testid="button-add-tax-profile">
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo perfil
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Cada contrato se factura con el perfil tributario que tenga asignado. Los contratos sin perfil no llevan IVA ni retenciones.
+      </p>
+      {profiles.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No hay perfiles tributarios</p>
+      ) : (
+        <div className="space-y-2" data-testid="list-tax-profiles">
+          {profiles.map((profile) => (
+            <div key={profile.id} className="flex items-center justify-between gap-2 p-3 bg-muted/30 rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{profile.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  IVA {parseFloat(profile.ivaRate)}% · ReteFuente {parseFloat(profile.withholdingRate)}% · ReteICA {parseFloat(profile.icaRate)}%
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openDialog(profile)}
+                    data-testid={`button-edit-tax-profile-${profile.id}`}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(profile.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-tax-profile-${profile.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && dialogOpen && (
+        <TaxProfileDialog
+          key={editing?.id ?? 'new'}
+          profile={editing}
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import type { Permission } from "@shared/permissions";
 
 interface AuthUser {
   id: string;
@@ -23,6 +24,7 @@ interface AuthTenant {
 interface AuthResponse {
   user: AuthUser;
   tenant: AuthTenant | null;
+  permissions: Permission[];
 }
 
 export function useAuth() {
@@ -31,9 +33,13 @@ export function useAuth() {
     retry: false,
   });
 
+  const permissions = response?.permissions ?? [];
+
   return {
     user: response?.user,
     tenant: response?.tenant,
+    permissions,
+    can: (permission: Permission) => permissions.includes(permission),
     isLoading,
     isAuthenticated: !!response?.user,
     needsOnboarding: response?.user?.needsOnboarding,
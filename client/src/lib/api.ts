@@ -24,7 +24,7 @@ export const api = {
   invoices: {
     list: () => apiRequest("GET", "/api/invoices"),
     get: (id: string) => apiRequest("GET", `/api/invoices/${id}`),
-    remind: (id: string) => apiRequest("POST", `/api/invoices/${id}/remind`),
+    remind: (id: string, channel: string = "auto") => apiRequest("POST", `/api/invoices/${id}/remind`, { channel }),
     recalc: (id: string) => apiRequest("POST", `/api/invoices/${id}/recalc`),
   },
   payments: {
@@ -0,0 +1,21 @@
+import type { ChargeCategory } from '@shared/schema';
+
+export const chargeCategoryLabels: Record<ChargeCategory, string> = {
+  rent: 'Canon de arrendamiento',
+  late_fee: 'Mora',
+  utility: 'Servicios públicos',
+  maintenance: 'Mantenimiento',
+  tax: 'Impuestos',
+  discount: 'Descuentos',
+  deposit: 'Depósito en garantía',
+  other: 'Otros conceptos',
+};
+
+// Categories that can be added by hand or recur on a contract; rent, late fees and
+// deposits are billed from the contract terms and the deposit ledger
+export const extraChargeCategories: ChargeCategory[] = ['utility', 'maintenance', 'tax', 'discount', 'other'];
+
+// Same defaults as the server: utilities pass through at cost, tax lines are never taxed
+export function defaultTaxable(category: ChargeCategory): boolean {
+  return category !== 'utility' && category !== 'tax';
+}
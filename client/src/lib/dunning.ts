@@ -0,0 +1,55 @@
+import type { DunningChannel, DunningEventStatus, DunningRecipient, DunningStopCondition, DunningTemplate } from '@shared/schema';
+
+export const dunningTemplateLabels: Record<DunningTemplate, string> = {
+  friendly: 'Recordatorio amable',
+  due_today: 'Vence hoy',
+  overdue: 'Factura vencida',
+  firm: 'Segundo aviso',
+  final: 'Último aviso',
+  guarantor_notice: 'Aviso al codeudor',
+};
+
+export const dunningChannelLabels: Record<DunningChannel, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+  auto: 'Automático',
+};
+
+export const dunningChannelDescriptions: Record<DunningChannel, string> = {
+  email: 'Solo email; se omite si el contacto no tiene email.',
+  whatsapp: 'Solo WhatsApp; se omite si el contacto no aceptó recibir mensajes por WhatsApp.',
+  sms: 'Solo SMS; se omite si el contacto no tiene un teléfono válido o pidió no recibir SMS.',
+  auto: 'WhatsApp si el contacto lo aceptó; si no, email; si no tiene email, SMS.',
+};
+
+export const dunningRecipientLabels: Record<DunningRecipient, string> = {
+  tenant: 'Inquilino',
+  guarantor: 'Codeudor',
+};
+
+export const dunningStopConditionLabels: Record<DunningStopCondition, string> = {
+  partial_payment: 'Hay un abono parcial',
+  promise_to_pay: 'Hay una promesa de pago vigente',
+};
+
+export const dunningEventStatusLabels: Record<DunningEventStatus, string> = {
+  sent: 'Enviado',
+  skipped: 'Omitido',
+  failed: 'Falló',
+};
+
+export const dunningEventStatusColors: Record<DunningEventStatus, string> = {
+  sent: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+// "5 días antes", "El día del vencimiento", "7 días después"
+export const describeOffset = (offsetDays: number) => {
+  if (offsetDays === 0) {
+    return 'El día del vencimiento';
+  }
+  const days = Math.abs(offsetDays);
+  return `${days} ${days === 1 ? 'día' : 'días'} ${offsetDays < 0 ? 'antes' : 'después'}`;
+};
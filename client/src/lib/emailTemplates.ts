@@ -0,0 +1,33 @@
+import type { EmailTemplateKey } from '@shared/schema';
+
+export interface EmailTemplateEntry {
+  key: EmailTemplateKey;
+  subject: string;
+  html: string;
+  text: string | null;
+  isCustom: boolean;
+  updatedAt: string | null;
+  variables: string[];
+}
+
+export const emailTemplateDescriptions: Record<EmailTemplateKey, string> = {
+  friendly: 'Paso de cobranza antes del vencimiento (D-3, D-5…)',
+  due_today: 'Paso de cobranza el día del vencimiento',
+  overdue: 'Paso de cobranza y recordatorio manual después del vencimiento (D+1)',
+  firm: 'Segundo aviso de cobranza',
+  final: 'Último aviso antes de notificar al codeudor',
+  guarantor_notice: 'Aviso al codeudor; "contact" es el codeudor y "tenant" el inquilino',
+  insurer_report: 'Email mensual a la aseguradora con el reporte en PDF',
+};
+
+// Locale and currency move together; the server accepts any valid pair
+export const regionalFormatOptions: { locale: string; currency: string; label: string }[] = [
+  { locale: 'es-CO', currency: 'COP', label: 'Colombia · $ 1.500.000 (COP)' },
+  { locale: 'es-MX', currency: 'MXN', label: 'México · $1,500,000.00 (MXN)' },
+  { locale: 'es-PE', currency: 'PEN', label: 'Perú · S/ 1,500,000.00 (PEN)' },
+  { locale: 'es-CL', currency: 'CLP', label: 'Chile · $1.500.000 (CLP)' },
+  { locale: 'es-AR', currency: 'ARS', label: 'Argentina · $ 1.500.000,00 (ARS)' },
+  { locale: 'es-EC', currency: 'USD', label: 'Ecuador · $1.500.000,00 (USD)' },
+  { locale: 'es-PA', currency: 'USD', label: 'Panamá · $1,500,000.00 (USD)' },
+  { locale: 'es-ES', currency: 'EUR', label: 'España · 1.500.000,00 € (EUR)' },
+];
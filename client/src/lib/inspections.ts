@@ -0,0 +1,34 @@
+import type { InspectionCondition, InspectionStatus, InspectionType } from '@shared/schema';
+
+export const inspectionTypeLabels: Record<InspectionType, string> = {
+  move_in: 'Entrega',
+  periodic: 'Periódica',
+  move_out: 'Restitución',
+};
+
+export const inspectionStatusLabels: Record<InspectionStatus, string> = {
+  draft: 'Borrador',
+  signed: 'Firmada',
+};
+
+export const inspectionStatusColors: Record<InspectionStatus, string> = {
+  draft: 'bg-yellow-100 text-yellow-800',
+  signed: 'bg-green-100 text-green-800',
+};
+
+// Best to worst, the order the server compares conditions in
+export const inspectionConditionLabels: Record<InspectionCondition, string> = {
+  excellent: 'Excelente',
+  good: 'Bueno',
+  fair: 'Regular',
+  poor: 'Malo',
+  damaged: 'Dañado',
+};
+
+export const inspectionConditionColors: Record<InspectionCondition, string> = {
+  excellent: 'bg-green-100 text-green-800',
+  good: 'bg-blue-100 text-blue-800',
+  fair: 'bg-yellow-100 text-yellow-800',
+  poor: 'bg-orange-100 text-orange-800',
+  damaged: 'bg-red-100 text-red-800',
+};
@@ -0,0 +1,60 @@
+import type { EmailTransportName, MessagingChannel, MessagingConsentStatus, MessagingProviderName, NotificationChannel, NotificationStatus, NotificationTemplate } from '@shared/schema';
+import { dunningTemplateLabels } from '@/lib/dunning';
+
+export const notificationTemplateLabels: Record<NotificationTemplate, string> = {
+  ...dunningTemplateLabels,
+  insurer_report: 'Reporte a aseguradora',
+  account_statement: 'Estado de cuenta',
+  owner_statement: 'Liquidación a propietario',
+  team_invitation: 'Invitación al equipo',
+  contract_expiring: 'Contrato por vencer',
+  contract_expired: 'Contrato vencido',
+};
+
+export const notificationStatusLabels: Record<NotificationStatus, string> = {
+  queued: 'En cola',
+  sent: 'Enviado',
+  failed: 'Falló',
+  bounced: 'Rebotado',
+};
+
+export const notificationStatusColors: Record<NotificationStatus, string> = {
+  queued: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  bounced: 'bg-orange-100 text-orange-800',
+};
+
+export const emailTransportLabels: Record<EmailTransportName, string> = {
+  sendgrid: 'SendGrid',
+  smtp: 'SMTP propio',
+  outbox: 'Bandeja local (no envía)',
+};
+
+export const emailTransportDescriptions: Record<EmailTransportName, string> = {
+  sendgrid: 'Envía desde el remitente verificado de la plataforma y registra entregas y rebotes.',
+  smtp: 'Envía desde el servidor de correo de su dominio. Solo se registra si el servidor aceptó el mensaje.',
+  outbox: 'Guarda cada mensaje como archivo .eml en el servidor sin enviarlo. Útil para pruebas.',
+};
+
+export const notificationChannelLabels: Record<NotificationChannel, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+};
+
+export const messagingProviderLabels: Record<MessagingProviderName, string> = {
+  whatsapp_cloud: 'WhatsApp Cloud API',
+  sms_http: 'Pasarela SMS',
+  stub: 'Simulado (no envía)',
+};
+
+export const messagingChannelDescriptions: Record<MessagingChannel, string> = {
+  whatsapp: 'Los recordatorios por WhatsApp solo se envían con aceptación expresa para el número actual. Si el contacto responde STOP o BAJA queda excluido.',
+  sms: 'Los recordatorios por SMS se envían salvo que el contacto haya pedido no recibirlos.',
+};
+
+export const messagingConsentStatusLabels: Record<MessagingConsentStatus, string> = {
+  opted_in: 'Aceptó',
+  opted_out: 'No desea recibir',
+};
@@ -0,0 +1,34 @@
+import type { SchedulerJob } from '@shared/schema';
+
+export const schedulerJobLabels: Record<SchedulerJob, { title: string; description: string }> = {
+  overdue_status: {
+    title: 'Marcar facturas vencidas',
+    description: 'Cada hora, las facturas con saldo después de su vencimiento pasan a "Vencida".',
+  },
+  late_fee: {
+    title: 'Mora automática',
+    description: 'Una vez al día, desde las 8:00, se aplica la mora pactada en el contrato a las facturas vencidas el día anterior.',
+  },
+  dunning: {
+    title: 'Escalera de cobranza',
+    description: 'Entre las 8:00 y las 20:00 se envía el paso de cobranza que corresponde a cada factura pendiente.',
+  },
+  insurer_reports: {
+    title: 'Reporte mensual a aseguradoras',
+    description: 'Una vez al mes, desde el día 1 a las 7:00, se envía el reporte del mes anterior a cada aseguradora con email de reportes.',
+  },
+};
+
+// Zones offered in settings; the server accepts any IANA zone
+export const timezoneOptions: { value: string; label: string }[] = [
+  { value: 'America/Bogota', label: 'Bogotá (UTC-5)' },
+  { value: 'America/Mexico_City', label: 'Ciudad de México (UTC-6)' },
+  { value: 'America/Lima', label: 'Lima (UTC-5)' },
+  { value: 'America/Guayaquil', label: 'Guayaquil (UTC-5)' },
+  { value: 'America/Panama', label: 'Panamá (UTC-5)' },
+  { value: 'America/Caracas', label: 'Caracas (UTC-4)' },
+  { value: 'America/Santiago', label: 'Santiago' },
+  { value: 'America/Argentina/Buenos_Aires', label: 'Buenos Aires (UTC-3)' },
+  { value: 'America/Sao_Paulo', label: 'São Paulo (UTC-3)' },
+  { value: 'Europe/Madrid', label: 'Madrid' },
+];
@@ -0,0 +1,51 @@
+import type { WorkOrderCategory, WorkOrderPriority, WorkOrderStatus } from '@shared/schema';
+
+export const workOrderCategoryLabels: Record<WorkOrderCategory, string> = {
+  plumbing: 'Plomería',
+  electrical: 'Electricidad',
+  appliances: 'Electrodomésticos',
+  locksmith: 'Cerrajería',
+  painting: 'Pintura',
+  structural: 'Estructura',
+  cleaning: 'Aseo',
+  other: 'Otro',
+};
+
+export const workOrderPriorityLabels: Record<WorkOrderPriority, string> = {
+  low: 'Baja',
+  medium: 'Media',
+  high: 'Alta',
+  urgent: 'Urgente',
+};
+
+export const workOrderPriorityColors: Record<WorkOrderPriority, string> = {
+  low: 'bg-gray-100 text-gray-800',
+  medium: 'bg-blue-100 text-blue-800',
+  high: 'bg-orange-100 text-orange-800',
+  urgent: 'bg-red-100 text-red-800',
+};
+
+export const workOrderStatusLabels: Record<WorkOrderStatus, string> = {
+  open: 'Abierta',
+  assigned: 'Asignada',
+  in_progress: 'En curso',
+  completed: 'Terminada',
+  cancelled: 'Cancelada',
+};
+
+export const workOrderStatusColors: Record<WorkOrderStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  assigned: 'bg-blue-100 text-blue-800',
+  in_progress: 'bg-purple-100 text-purple-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+};
+
+// Same moves the server accepts; completed tickets can only be reopened while unbilled
+export const workOrderTransitions: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  open: ['assigned', 'in_progress', 'completed', 'cancelled'],
+  assigned: ['open', 'in_progress', 'completed', 'cancelled'],
+  in_progress: ['assigned', 'completed', 'cancelled'],
+  completed: ['in_progress'],
+  cancelled: ['open'],
+};
@@ -0,0 +1,334 @@
+import { Fragment, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useRoute, useLocation, Link } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { chargeCategoryLabels } from '@/lib/chargeCategories';
+import { ChevronDown, ChevronRight, Download, Mail } from 'lucide-react';
+import type { ChargeCategory } from '@shared/schema';
+
+type StatementEntryType = 'invoice' | 'late_fee' | 'credit_note' | 'payment';
+
+type StatementEntry = {
+  date: string;
+  type: StatementEntryType;
+  reference: string;
+  description: string;
+  invoiceId: string;
+  contractNumber: string | null;
+  debit: string;
+  credit: string;
+  balance: string;
+  charges?: { description: string; category: ChargeCategory; amount: string }[];
+};
+
+type AccountStatement = {
+  scope: 'contact' | 'contract';
+  contact: { id: string; fullName: string; email: string | null; docType: string | null; docNumber: string | null };
+  contract: { id: string; number: string; property: { name: string; address: string } | null } | null;
+  from: string;
+  to: string;
+  openingBalance: string;
+  totalDebits: string;
+  totalCredits: string;
+  closingBalance: string;
+  entries: StatementEntry[];
+};
+
+const entryTypeLabels: Record<StatementEntryType, string> = {
+  invoice: 'Factura',
+  late_fee: 'Mora',
+  credit_note: 'Nota crédito',
+  payment: 'Pago',
+};
+
+const entryTypeColors: Record<StatementEntryType, string> = {
+  invoice: 'bg-blue-100 text-blue-800',
+  late_fee: 'bg-red-100 text-red-800',
+  credit_note: 'bg-purple-100 text-purple-800',
+  payment: 'bg-green-100 text-green-800',
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+export default function AccountStatementPage() {
+  const [isContactRoute, contactParams] = useRoute('/contacts/:id/statement');
+  const [, contractParams] = useRoute('/contracts/:id/statement');
+  const [, setLocation] = useLocation();
+  const { can } = useAuth();
+  const { toast } = useToast();
+
+  const basePath = isContactRoute ? '/api/contacts' : '/api/contracts';
+  const id = (isContactRoute ? contactParams?.id : contractParams?.id) ?? '';
+  const backPath = isContactRoute ? '/contacts' : `/contracts/${id}`;
+
+  const today = new Date();
+  const [from, setFrom] = useState(`${today.getFullYear()}-01-01`);
+  const [to, setTo] = useState(toDateString(today));
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const query = `from=${from}&to=${to}`;
+  const statementUrl = `${basePath}/${id}/statement`;
+  const validRange = !!from && !!to && from <= to;
+
+  const { data: statement, isLoading, error } = useQuery<AccountStatement>({
+    queryKey: [`${statementUrl}?${query}`],
+    enabled: !!id && validRange,
+  });
+
+  const emailMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `${statementUrl}/email`, { from, to }),
+    onSuccess: () => {
+      toast({ title: 'Estado de cuenta enviado', description: `Se envió a ${statement?.contact.email}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al enviar estado de cuenta', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const toggle = (index: number) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const closingBalance = statement ? parseFloat(statement.closingBalance) : 0;
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-7xl mx-auto">
+            <div className="mb-6">
+              <Button variant="ghost" onClick={() => setLocation(backPath)} className="mb-4" data-testid="button-back">
+                <i className="fas fa-arrow-left mr-2"></i>
+                {isContactRoute ? 'Volver a contactos' : 'Volver al contrato'}
+              </Button>
+              <div className="flex items-start justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold mb-2">Estado de cuenta</h1>
+                  <p className="text-muted-foreground">
+                    {statement?.contact.fullName ?? '—'}
+                    {statement?.contract && (
+                      <>
+                        {' · '}
+                        <Link href={`/contracts/${statement.contract.id}`} className="hover:underline">
+                          {statement.contract.number}
+                        </Link>
+                        {statement.contract.property ? ` · ${statement.contract.property.address}` : ''}
+                      </>
+                    )}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => window.open(`${statementUrl}/csv?${query}`, '_blank')}
+                    disabled={!statement}
+                    data-testid="button-download-csv"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    CSV
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => window.open(`${statementUrl}/pdf?${query}`, '_blank')}
+                    disabled={!statement}
+                    data-testid="button-download-pdf"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    PDF
+                  </Button>
+                  {can('invoices:remind') && (
+                    <Button
+                      onClick={() => emailMutation.mutate()}
+                      disabled={!statement?.contact.email || emailMutation.isPending}
+                      data-testid="button-email-statement"
+                    >
+                      <Mail className="w-4 h-4 mr-2" />
+                      {emailMutation.isPending ? 'Enviando...' : 'Enviar por email'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-card rounded-lg border border-border p-6 mb-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <Label htmlFor="statement-from" className="mb-2 block">Desde</Label>
+                  <Input
+                    id="statement-from"
+                    type="date"
+                    value={from}
+                    onChange={(e) => setFrom(e.target.value)}
+                    data-testid="input-statement-from"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="statement-to" className="mb-2 block">Hasta</Label>
+                  <Input
+                    id="statement-to"
+                    type="date"
+                    value={to}
+                    onChange={(e) => setTo(e.target.value)}
+                    data-testid="input-statement-to"
+                  />
+                </div>
+                {!validRange && (
+                  <p className="text-sm text-destructive">La fecha inicial debe ser anterior a la final</p>
+                )}
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : error || !statement ? (
+              <div className="text-center py-12 text-muted-foreground">
+                {error ? 'No se pudo cargar el estado de cuenta' : ''}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">Saldo inicial</p>
+                    <p className="text-xl font-bold font-mono" data-testid="text-opening-balance">
+                      {formatCurrency(parseFloat(statement.openingBalance))}
+                    </p>
+                  </div>
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">Cargos</p>
+                    <p className="text-xl font-bold font-mono">{formatCurrency(parseFloat(statement.totalDebits))}</p>
+                  </div>
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">Abonos</p>
+                    <p className="text-xl font-bold font-mono text-green-600">{formatCurrency(parseFloat(statement.totalCredits))}</p>
+                  </div>
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">{closingBalance < 0 ? 'Saldo a favor' : 'Saldo final'}</p>
+                    <p
+                      className={`text-xl font-bold font-mono ${closingBalance > 0 ? 'text-destructive' : 'text-green-600'}`}
+                      data-testid="text-closing-balance"
+                    >
+                      {formatCurrency(Math.abs(closingBalance))}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="bg-card rounded-lg border border-border overflow-hidden">
+                  <table className="w-full" data-testid="table-statement">
+                    <thead className="bg-muted/50 border-b border-border">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Fecha</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Movimiento</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Detalle</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Cargos</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Abonos</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Saldo</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      <tr className="bg-muted/30">
+                        <td className="px-4 py-3 text-sm">{formatDate(statement.from)}</td>
+                        <td className="px-4 py-3 text-sm font-medium" colSpan={4}>Saldo inicial</td>
+                        <td className="px-4 py-3 text-sm text-right font-mono font-semibold">
+                          {formatCurrency(parseFloat(statement.openingBalance))}
+                        </td>
+                      </tr>
+                      {statement.entries.length === 0 ? (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">
+                            Sin movimientos en el periodo
+                          </td>
+                        </tr>
+                      ) : (
+                        statement.entries.map((entry, index) => {
+                          const hasCharges = (entry.charges?.length ?? 0) > 0;
+                          return (
+                            <Fragment key={`${entry.type}-${entry.reference}-${index}`}>
+                              <tr className="hover:bg-muted/50" data-testid={`row-statement-entry-${index}`}>
+                                <td className="px-4 py-3 text-sm whitespace-nowrap">{formatDate(entry.date)}</td>
+                                <td className="px-4 py-3">
+                                  <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${entryTypeColors[entry.type]}`}>
+                                    {entryTypeLabels[entry.type]}
+                                  </span>
+                                </td>
+                                <td className="px-4 py-3 text-sm">
+                                  <div className="flex items-center gap-1">
+                                    {hasCharges && (
+                                      <button onClick={() => toggle(index)} className="text-muted-foreground" data-testid={`button-toggle-entry-${index}`}>
+                                        {expanded.has(index) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                      </button>
+                                    )}
+                                    <Link href={`/invoices/${entry.invoiceId}`} className="font-mono hover:underline">
+                                      {entry.reference}
+                                    </Link>
+                                    <span className="text-muted-foreground">· {entry.description}</span>
+                                  </div>
+                                  {statement.scope === 'contact' && entry.contractNumber && (
+                                    <p className="text-xs text-muted-foreground">Contrato {entry.contractNumber}</p>
+                                  )}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-right font-mono">
+                                  {parseFloat(entry.debit) !== 0 ? formatCurrency(parseFloat(entry.debit)) : ''}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-right font-mono text-green-600">
+                                  {parseFloat(entry.credit) !== 0 ? formatCurrency(parseFloat(entry.credit)) : ''}
+                                </td>
+                                <td className="px-4 py-3 text-sm text-right font-mono font-semibold">
+                                  {formatCurrency(parseFloat(entry.balance))}
+                                </td>
+                              </tr>
+                              {hasCharges && expanded.has(index) && entry.charges!.map((charge, chargeIndex) => (
+                                <tr key={`${index}-${chargeIndex}`} className="bg-muted/20">
+                                  <td colSpan={2}></td>
+                                  <td className="px-4 py-2 text-xs text-muted-foreground">
+                                    {chargeCategoryLabels[charge.category]} · {charge.description}
+                                  </td>
+                                  <td className="px-4 py-2 text-xs text-right font-mono text-muted-foreground">
+                                    {formatCurrency(parseFloat(charge.amount))}
+                                  </td>
+                                  <td colSpan={2}></td>
+                                </tr>
+                              ))}
+                            </Fragment>
+                          );
+                        })
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
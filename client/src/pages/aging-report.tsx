@@ -0,0 +1,265 @@
+import { Fragment, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronDown, ChevronRight, Download } from 'lucide-react';
+import type { AgingGrouping } from '@shared/schema';
+
+type AgingBucket = 'current' | 'days_0_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+type AgingTotals = Record<AgingBucket | 'total', string>;
+
+type AgingInvoice = {
+  id: string;
+  number: string;
+  contractId: string;
+  contractNumber: string | null;
+  tenantName: string | null;
+  propertyName: string | null;
+  issueDate: string;
+  dueDate: string;
+  daysPastDue: number;
+  bucket: AgingBucket;
+  totalAmount: string;
+  amountPaid: string;
+  creditedAmount: string;
+  balance: string;
+};
+
+type AgingReport = {
+  asOf: string;
+  groupBy: AgingGrouping;
+  totals: AgingTotals;
+  groups: { key: string; label: string; totals: AgingTotals; invoices: AgingInvoice[] }[];
+};
+
+const buckets: AgingBucket[] = ['current', 'days_0_30', 'days_31_60', 'days_61_90', 'days_90_plus'];
+
+const bucketLabels: Record<AgingBucket, string> = {
+  current: 'Por vencer',
+  days_0_30: '0-30 días',
+  days_31_60: '31-60 días',
+  days_61_90: '61-90 días',
+  days_90_plus: '+90 días',
+};
+
+const bucketColors: Record<AgingBucket, string> = {
+  current: 'text-foreground',
+  days_0_30: 'text-yellow-600',
+  days_31_60: 'text-orange-600',
+  days_61_90: 'text-red-600',
+  days_90_plus: 'text-red-800',
+};
+
+const groupingLabels: Record<AgingGrouping, string> = {
+  contact: 'Inquilino',
+  property: 'Propiedad',
+  owner: 'Propietario',
+  insurer: 'Aseguradora',
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+const amount = (value: string) => {
+  const parsed = parseFloat(value);
+  return parsed !== 0 ? formatCurrency(parsed) : '—';
+};
+
+export default function AgingReportPage() {
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [groupBy, setGroupBy] = useState<AgingGrouping>('contact');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const query = `asOf=${asOf}&groupBy=${groupBy}`;
+
+  const { data: report, isLoading } = useQuery<AgingReport>({
+    queryKey: [`/api/reports/aging?${query}`],
+    enabled: !!asOf,
+  });
+
+  const toggle = (key: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-7xl mx-auto space-y-6">
+            <div className="flex items-start justify-between">
+              <div>
+                <h1 className="text-3xl font-bold mb-2">Cartera por edades</h1>
+                <p className="text-muted-foreground">Saldos pendientes según los días transcurridos desde el vencimiento</p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => window.open(`/api/reports/aging/csv?${query}`, '_blank')}
+                  data-testid="button-download-csv"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => window.open(`/api/reports/aging/pdf?${query}`, '_blank')}
+                  data-testid="button-download-pdf"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  PDF
+                </Button>
+              </div>
+            </div>
+
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <Label htmlFor="aging-as-of" className="mb-2 block">Fecha de corte</Label>
+                  <Input
+                    id="aging-as-of"
+                    type="date"
+                    value={asOf}
+                    onChange={(e) => setAsOf(e.target.value)}
+                    data-testid="input-aging-as-of"
+                  />
+                </div>
+                <div className="w-48">
+                  <Label className="mb-2 block">Agrupar por</Label>
+                  <Select
+                    value={groupBy}
+                    onValueChange={(value) => {
+                      setGroupBy(value as AgingGrouping);
+                      setExpanded(new Set());
+                    }}
+                  >
+                    <SelectTrigger data-testid="select-aging-group-by">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(groupingLabels) as AgingGrouping[]).map((value) => (
+                        <SelectItem key={value} value={value}>{groupingLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            {isLoading || !report ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+                  {buckets.map((bucket) => (
+                    <div key={bucket} className="bg-card rounded-lg border border-border p-4" data-testid={`card-bucket-${bucket}`}>
+                      <p className="text-sm text-muted-foreground mb-1">{bucketLabels[bucket]}</p>
+                      <p className={`text-lg font-bold font-mono ${bucketColors[bucket]}`}>
+                        {formatCurrency(parseFloat(report.totals[bucket]))}
+                      </p>
+                    </div>
+                  ))}
+                  <div className="bg-card rounded-lg border border-border p-4" data-testid="card-bucket-total">
+                    <p className="text-sm text-muted-foreground mb-1">Total cartera</p>
+                    <p className="text-lg font-bold font-mono">{formatCurrency(parseFloat(report.totals.total))}</p>
+                  </div>
+                </div>
+
+                <div className="bg-card rounded-lg border border-border overflow-x-auto">
+                  <table className="w-full" data-testid="table-aging">
+                    <thead className="bg-muted/50 border-b border-border">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">{groupingLabels[report.groupBy]}</th>
+                        {buckets.map((bucket) => (
+                          <th key={bucket} className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">
+                            {bucketLabels[bucket]}
+                          </th>
+                        ))}
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {report.groups.length === 0 ? (
+                        <tr>
+                          <td colSpan={7} className="px-4 py-8 text-center text-muted-foreground">
+                            No hay saldos pendientes a la fecha de corte
+                          </td>
+                        </tr>
+                      ) : (
+                        report.groups.map((group) => (
+                          <Fragment key={group.key}>
+                            <tr
+                              className="hover:bg-muted/50 cursor-pointer"
+                              onClick={() => toggle(group.key)}
+                              data-testid={`row-aging-group-${group.key}`}
+                            >
+                              <td className="px-4 py-3 text-sm font-medium">
+                                <div className="flex items-center gap-1">
+                                  {expanded.has(group.key) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                                  {group.label}
+                                  <span className="text-xs text-muted-foreground ml-1">({group.invoices.length})</span>
+                                </div>
+                              </td>
+                              {buckets.map((bucket) => (
+                                <td key={bucket} className={`px-4 py-3 text-sm text-right font-mono ${bucketColors[bucket]}`}>
+                                  {amount(group.totals[bucket])}
+                                </td>
+                              ))}
+                              <td className="px-4 py-3 text-sm text-right font-mono font-semibold">{amount(group.totals.total)}</td>
+                            </tr>
+                            {expanded.has(group.key) && group.invoices.map((invoice) => (
+                              <tr key={invoice.id} className="bg-muted/20" data-testid={`row-aging-invoice-${invoice.id}`}>
+                                <td className="px-4 py-2 pl-10 text-xs">
+                                  <Link href={`/invoices/${invoice.id}`} className="font-mono hover:underline">{invoice.number}</Link>
+                                  <span className="text-muted-foreground">
+                                    {' · '}{report.groupBy === 'contact' ? invoice.propertyName : invoice.tenantName}
+                                    {' · vence '}{formatDate(invoice.dueDate)}
+                                    {invoice.daysPastDue > 0 ? ` (${invoice.daysPastDue} días)` : ''}
+                                  </span>
+                                </td>
+                                {buckets.map((bucket) => (
+                                  <td key={bucket} className="px-4 py-2 text-xs text-right font-mono text-muted-foreground">
+                                    {invoice.bucket === bucket ? formatCurrency(parseFloat(invoice.balance)) : ''}
+                                  </td>
+                                ))}
+                                <td className="px-4 py-2 text-xs text-right font-mono">{formatCurrency(parseFloat(invoice.balance))}</td>
+                              </tr>
+                            ))}
+                          </Fragment>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
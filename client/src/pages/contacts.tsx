@@ -1,5 +1,6 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useState } from 'react';
+import { useLocation } from 'wouter';
 import Sidebar from '@/components/layout/sidebar';
 import Topbar from '@/components/layout/topbar';
 import { Button } from '@/components/ui/button';
@@ -13,8 +14,10 @@ import { insertContactSchema, type Contact } from '@shared/schema';
 import { z } from 'zod';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Pencil, Trash2, Upload, Download, X } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { Plus, Pencil, Trash2, Upload, Download, X, FileText, MessageCircle } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
+import MessagingConsentDialog from '@/components/messaging-consent';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -33,6 +36,7 @@ const formSchema = insertContactSchema.omit({ tenantId: true }).extend({
   docType: z.string().optional().or(z.literal('')),
   docNumber: z.string().optional().or(z.literal('')),
   roles: z.array(z.string()).min(1, "Selecciona al menos un rol"),
+  managementFeeRate: z.string().optional().or(z.literal('')).nullable(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -64,11 +68,17 @@ function ContactFormDialog({
       roles: contact?.roles || [],
       docType: contact?.docType || '',
       docNumber: contact?.docNumber || '',
+      managementFeeRate: contact?.managementFeeRate || '',
     },
   });
 
+  const isOwner = form.watch('roles').includes('owner');
+
   const createMutation = useMutation({
-    mutationFn: (data: FormData) => apiRequest('POST', '/api/contacts', data),
+    mutationFn: (data: FormData) => apiRequest('POST', '/api/contacts', {
+      ...data,
+      managementFeeRate: data.managementFeeRate || null,
+    }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
       toast({ title: 'Contacto creado exitosamente' });
@@ -81,7 +91,10 @@ function ContactFormDialog({
   });
 
   const updateMutation = useMutation({
-    mutationFn: (data: FormData) => apiRequest('PATCH', `/api/contacts/${contact?.id}`, data),
+    mutationFn: (data: FormData) => apiRequest('PATCH', `/api/contacts/${contact?.id}`, {
+      ...data,
+      managementFeeRate: data.managementFeeRate || null,
+    }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
       toast({ title: 'Contacto actualizado exitosamente' });
@@ -245,6 +258,29 @@ function ContactFormDialog({
               />
             </div>
 
+            {isOwner && (
+              <FormField
+                control={form.control}
+                name="managementFeeRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Comisión de administración (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        placeholder="Ej. 10"
+                        {...field}
+                        value={field.value ?? ''}
+                        data-testid="input-managementFeeRate"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="flex justify-end space-x-3 pt-4">
               <Button
                 type="button"
@@ -274,9 +310,12 @@ export default function ContactsPage() {
     queryKey: ['/api/contacts'],
   });
   const { toast } = useToast();
+  const { can } = useAuth();
+  const [, setLocation] = useLocation();
   const [editingContact, setEditingContact] = useState<Contact | undefined>();
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [deleteContact, setDeleteContact] = useState<Contact | undefined>();
+  const [messagingContact, setMessagingContact] = useState<Contact | undefined>();
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => apiRequest('DELETE', `/api/contacts/${id}`),
@@ -423,6 +462,28 @@ export default function ContactsPage() {
                           </td>
                           <td className="px-6 py-4">
                             <div className="flex items-center justify-end gap-2">
+                              {can('invoices:view') && contact.roles?.includes('tenant') && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setLocation(`/contacts/${contact.id}/statement`)}
+                                  title="Estado de cuenta"
+                                  data-testid={`button-statement-${contact.id}`}
+                                >
+                                  <FileText className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {contact.phone && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setMessagingContact(contact)}
+                                  title="WhatsApp y SMS"
+                                  data-testid={`button-messaging-${contact.id}`}
+                                >
+                                  <MessageCircle className="w-4 h-4" />
+                                </Button>
+                              )}
                               <Button 
                                 variant="ghost" 
                                 size="sm"
@@ -465,6 +526,14 @@ export default function ContactsPage() {
         />
       )}
 
+      {messagingContact && (
+        <MessagingConsentDialog
+          contact={messagingContact}
+          open={!!messagingContact}
+          onOpenChange={(open) => !open && setMessagingContact(undefined)}
+        />
+      )}
+
       <AlertDialog open={!!deleteContact} onOpenChange={() => setDeleteContact(undefined)}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,817 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useRoute, useLocation, Link } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import AuditHistory from '@/components/audit-history';
+import DepositLedger, { type DepositSummary } from '@/components/deposit-ledger';
+import RecurringCharges from '@/components/recurring-charges';
+import ContractInspections from '@/components/contract-inspections';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { FileText, Plus, RefreshCw, Trash2, XCircle } from 'lucide-react';
+import type { ChargeCategory, Contact, Contract, Invoice, Property, RentEscalation } from '@shared/schema';
+
+type LinkedContract = Pick<Contract, 'id' | 'number' | 'startDate' | 'endDate' | 'status'>;
+
+type ContractDetail = Contract & {
+  property?: Property | null;
+  tenantContact?: Contact | null;
+  owner?: Contact | null;
+  guarantor?: Contact | null;
+  renewedFrom?: LinkedContract | null;
+  renewals?: LinkedContract[];
+};
+
+type PlannedInvoice = {
+  number: string;
+  periodStart: string;
+  periodEnd: string;
+  issueDate: string;
+  dueDate: string;
+  totalAmount: string;
+  blockedReason?: string;
+};
+
+const escalationLabels: Record<Contract['escalationType'], string> = {
+  none: 'Sin incremento',
+  fixed: 'Porcentaje fijo',
+  ipc: 'IPC',
+  inpc: 'INPC',
+};
+
+const contractStatusLabels: Record<Contract['status'], string> = {
+  draft: 'Borrador',
+  signed: 'Firmado',
+  active: 'Activo',
+  expiring: 'Por vencer',
+  expired: 'Vencido',
+  closed: 'Cerrado',
+};
+
+const invoiceStatusLabels: Record<Invoice['status'], string> = {
+  draft: 'Borrador',
+  issued: 'Emitida',
+  overdue: 'Vencida',
+  partial: 'Parcial',
+  paid: 'Pagada',
+  void: 'Anulada',
+};
+
+type UtilityLine = { description: string; amount: string };
+
+type SettlementLine = UtilityLine & { category: ChargeCategory; taxable: boolean };
+
+type TerminationPlan = {
+  terminationDate: string;
+  depositBalance: string;
+  voidInvoices: { id: string; number: string; amountPaid: string }[];
+  adjustInvoice?: { id: string; number: string; charges: SettlementLine[] };
+  creditInvoice?: { id: string; number: string; issueDate: string; reason: string; amount: string };
+  settlement: {
+    number: string;
+    issueDate: string;
+    dueDate: string;
+    charges: SettlementLine[];
+    subtotal: string;
+    otherCharges: string;
+    tax: string;
+    withholdings: string;
+    totalAmount: string;
+  } | null;
+};
+
+const renewableStatuses: Contract['status'][] = ['active', 'expiring', 'expired'];
+const terminableStatuses: Contract['status'][] = ['active', 'expiring'];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+function addYear(value: string) {
+  const date = new Date(`${value}T00:00:00Z`);
+  date.setUTCFullYear(date.getUTCFullYear() + 1);
+  return date.toISOString().split('T')[0];
+}
+
+function RenewContractDialog({
+  contract,
+  open,
+  onOpenChange,
+}: {
+  contract: ContractDetail;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState(addYear(contract.endDate));
+  const [rentAmount, setRentAmount] = useState('');
+  const [applyEscalation, setApplyEscalation] = useState(contract.escalationType !== 'none');
+
+  const renewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/contracts/${contract.id}/renew`, {
+        startDate: startDate || undefined,
+        endDate,
+        rentAmount: rentAmount || undefined,
+        applyEscalation: !rentAmount && applyEscalation,
+      });
+      return res.json() as Promise<Contract>;
+    },
+    onSuccess: (renewal) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contract.id}`] });
+      toast({ title: `Contrato ${renewal.number} creado como borrador` });
+      onOpenChange(false);
+      setLocation(`/contracts/${renewal.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al renovar contrato', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Renovar contrato {contract.number}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Se crea un nuevo contrato en borrador con las mismas partes y condiciones, vinculado a este.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="renew-start" className="mb-2 block">Fecha de inicio</Label>
+              <Input
+                id="renew-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="input-renew-start"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Por defecto, el día siguiente al fin</p>
+            </div>
+            <div>
+              <Label htmlFor="renew-end" className="mb-2 block">Fecha de fin</Label>
+              <Input
+                id="renew-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                data-testid="input-renew-end"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="renew-rent" className="mb-2 block">Canon (opcional)</Label>
+            <Input
+              id="renew-rent"
+              type="number"
+              step="0.01"
+              placeholder="Se calcula a partir del canon vigente"
+              value={rentAmount}
+              onChange={(e) => setRentAmount(e.target.value)}
+              data-testid="input-renew-rent"
+            />
+          </div>
+          {contract.escalationType !== 'none' && !rentAmount && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="renew-escalate"
+                checked={applyEscalation}
+                onCheckedChange={(checked) => setApplyEscalation(checked === true)}
+                data-testid="checkbox-renew-escalate"
+              />
+              <Label htmlFor="renew-escalate">
+                Aplicar el incremento anual ({escalationLabels[contract.escalationType]}) al iniciar
+              </Label>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => renewMutation.mutate()}
+            disabled={!endDate || renewMutation.isPending}
+            data-testid="button-confirm-renew"
+          >
+            Renovar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TerminateContractDialog({
+  contract,
+  open,
+  onOpenChange,
+}: {
+  contract: ContractDetail;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [terminationDate, setTerminationDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [penaltyAmount, setPenaltyAmount] = useState('');
+  const [depositOffset, setDepositOffset] = useState('');
+  const [utilities, setUtilities] = useState<UtilityLine[]>([]);
+  const [plan, setPlan] = useState<TerminationPlan | null>(null);
+
+  const { data: deposit } = useQuery<DepositSummary>({
+    queryKey: [`/api/contracts/${contract.id}/deposit`],
+    enabled: open,
+  });
+  const depositBalance = deposit ? parseFloat(deposit.balance) : 0;
+
+  const payload = () => ({
+    terminationDate,
+    reason,
+    penaltyAmount: penaltyAmount || undefined,
+    depositOffset: depositOffset || undefined,
+    utilities: utilities.filter((line) => line.description && line.amount),
+  });
+
+  const updateUtility = (index: number, field: keyof UtilityLine, value: string) => {
+    setPlan(null);
+    setUtilities((lines) => lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/contracts/${contract.id}/termination-preview`, payload());
+      return res.json() as Promise<TerminationPlan>;
+    },
+    onSuccess: setPlan,
+    onError: (error: Error) => {
+      toast({ title: 'Error al calcular la liquidación', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const terminateMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/contracts/${contract.id}/terminate`, payload()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/contracts'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contract.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contract.id}/invoice-preview`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/properties'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contract.id}/deposit`] });
+      toast({ title: 'Contrato terminado' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al terminar contrato', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Terminar contrato {contract.number}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="termination-date" className="mb-2 block">Fecha de terminación</Label>
+              <Input
+                id="termination-date"
+                type="date"
+                min={contract.startDate}
+                max={contract.endDate}
+                value={terminationDate}
+                onChange={(e) => { setTerminationDate(e.target.value); setPlan(null); }}
+                data-testid="input-termination-date"
+              />
+              <p className="text-xs text-muted-foreground mt-1">Último día en que el contrato está vigente</p>
+            </div>
+            <div>
+              <Label htmlFor="termination-penalty" className="mb-2 block">Penalidad</Label>
+              <Input
+                id="termination-penalty"
+                type="number"
+                step="0.01"
+                placeholder="0"
+                value={penaltyAmount}
+                onChange={(e) => { setPenaltyAmount(e.target.value); setPlan(null); }}
+                data-testid="input-termination-penalty"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="termination-reason" className="mb-2 block">Motivo</Label>
+            <Textarea
+              id="termination-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-termination-reason"
+            />
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label>Servicios pendientes</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => { setUtilities((lines) => [...lines, { description: '', amount: '' }]); setPlan(null); }}
+                data-testid="button-add-utility"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Agregar
+              </Button>
+            </div>
+            <div className="space-y-2">
+              {utilities.map((line, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder="Ej. Energía marzo"
+                    value={line.description}
+                    onChange={(e) => updateUtility(index, 'description', e.target.value)}
+                    data-testid={`input-utility-description-${index}`}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    className="w-40"
+                    value={line.amount}
+                    onChange={(e) => updateUtility(index, 'amount', e.target.value)}
+                    data-testid={`input-utility-amount-${index}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => { setUtilities((lines) => lines.filter((_, i) => i !== index)); setPlan(null); }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <Label htmlFor="termination-deposit">Depósito a aplicar</Label>
+              {depositBalance > 0 && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => { setDepositOffset(depositBalance.toFixed(2)); setPlan(null); }}
+                  data-testid="button-apply-deposit-balance"
+                >
+                  Aplicar saldo ({formatCurrency(depositBalance)})
+                </Button>
+              )}
+            </div>
+            <Input
+              id="termination-deposit"
+              type="number"
+              step="0.01"
+              placeholder="0"
+              value={depositOffset}
+              onChange={(e) => { setDepositOffset(e.target.value); setPlan(null); }}
+              data-testid="input-termination-deposit"
+            />
+          </div>
+
+          {plan && (
+            <div className="rounded-lg border border-border p-4 space-y-3" data-testid="termination-plan">
+              {plan.voidInvoices.length > 0 && (
+                <p className="text-sm">
+                  Se anularán {plan.voidInvoices.length} factura(s): {plan.voidInvoices.map((invoice) => invoice.number).join(', ')}
+                </p>
+              )}
+              {plan.adjustInvoice && (
+                <div className="text-sm">
+                  <p>La factura {plan.adjustInvoice.number} se ajusta con:</p>
+                  {plan.adjustInvoice.charges.map((charge, index) => (
+                    <p key={index} className="text-muted-foreground">
+                      {charge.description}: {formatCurrency(parseFloat(charge.amount))}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {plan.creditInvoice && (
+                <p className="text-sm">
+                  La factura {plan.creditInvoice.number} recibe una nota crédito por {formatCurrency(parseFloat(plan.creditInvoice.amount))} por los días no causados
+                </p>
+              )}
+              {plan.settlement ? (
+                <div>
+                  <p className="text-sm font-semibold mb-2">Liquidación {plan.settlement.number}</p>
+                  <div className="space-y-1">
+                    {plan.settlement.charges.map((charge, index) => (
+                      <div key={index} className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">{charge.description}</span>
+                        <span className="font-mono">{formatCurrency(parseFloat(charge.amount))}</span>
+                      </div>
+                    ))}
+                    {parseFloat(plan.settlement.tax) !== 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">IVA</span>
+                        <span className="font-mono">{formatCurrency(parseFloat(plan.settlement.tax))}</span>
+                      </div>
+                    )}
+                    {parseFloat(plan.settlement.withholdings) !== 0 && (
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Retenciones</span>
+                        <span className="font-mono">{formatCurrency(-parseFloat(plan.settlement.withholdings))}</span>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex justify-between text-sm font-semibold border-t border-border mt-2 pt-2">
+                    <span>{parseFloat(plan.settlement.totalAmount) < 0 ? 'Saldo a favor del inquilino' : 'Total a pagar'}</span>
+                    <span className="font-mono">{formatCurrency(Math.abs(parseFloat(plan.settlement.totalAmount)))}</span>
+                  </div>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No hay valores para liquidar</p>
+              )}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          {plan ? (
+            <Button
+              variant="destructive"
+              onClick={() => terminateMutation.mutate()}
+              disabled={terminateMutation.isPending}
+              data-testid="button-confirm-terminate"
+            >
+              Confirmar terminación
+            </Button>
+          ) : (
+            <Button
+              onClick={() => previewMutation.mutate()}
+              disabled={!terminationDate || !reason.trim() || previewMutation.isPending}
+              data-testid="button-preview-termination"
+            >
+              Calcular liquidación
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ContractDetailPage() {
+  const [, params] = useRoute('/contracts/:id');
+  const [, setLocation] = useLocation();
+  const { can } = useAuth();
+  const contractId = params?.id;
+  const [renewOpen, setRenewOpen] = useState(false);
+  const [terminateOpen, setTerminateOpen] = useState(false);
+
+  const { data: contract, isLoading } = useQuery<ContractDetail | null>({
+    queryKey: [`/api/contracts/${contractId}`],
+    enabled: !!contractId,
+  });
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ['/api/invoices'],
+    enabled: can('invoices:view'),
+  });
+
+  const { data: upcomingInvoices = [] } = useQuery<PlannedInvoice[]>({
+    queryKey: [`/api/contracts/${contractId}/invoice-preview`],
+    enabled: !!contractId,
+  });
+
+  const { data: escalations = [] } = useQuery<RentEscalation[]>({
+    queryKey: [`/api/contracts/${contractId}/escalations`],
+    enabled: !!contractId,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  if (!contract) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold mb-2">Contrato no encontrado</h2>
+          <Button onClick={() => setLocation('/contracts')}>Volver a contratos</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const currentRent = escalations.length > 0 ? escalations[escalations.length - 1].newRent : contract.rentAmount;
+  const renewal = contract.renewals?.[0];
+  const canRenew = can('contracts:create') && !renewal && renewableStatuses.includes(contract.status);
+  const canTerminate = can('contracts:terminate') && terminableStatuses.includes(contract.status);
+  const contractInvoices = invoices
+    .filter((invoice) => invoice.contractId === contract.id)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-7xl mx-auto">
+            <div className="mb-6">
+              <Button variant="ghost" onClick={() => setLocation('/contracts')} className="mb-4" data-testid="button-back">
+                <i className="fas fa-arrow-left mr-2"></i>
+                Volver a contratos
+              </Button>
+              <div className="flex items-start justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold mb-2">{contract.number}</h1>
+                  <p className="text-muted-foreground">
+                    Contrato de arrendamiento · {contractStatusLabels[contract.status]}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {can('invoices:view') && (
+                    <Button variant="outline" onClick={() => setLocation(`/contracts/${contract.id}/statement`)} data-testid="button-account-statement">
+                      <FileText className="w-4 h-4 mr-2" />
+                      Estado de cuenta
+                    </Button>
+                  )}
+                  {canTerminate && (
+                    <Button variant="outline" onClick={() => setTerminateOpen(true)} data-testid="button-terminate-contract">
+                      <XCircle className="w-4 h-4 mr-2" />
+                      Terminar
+                    </Button>
+                  )}
+                  {canRenew && (
+                    <Button onClick={() => setRenewOpen(true)} data-testid="button-renew-contract">
+                      <RefreshCw className="w-4 h-4 mr-2" />
+                      Renovar
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {canRenew && (
+              <RenewContractDialog contract={contract} open={renewOpen} onOpenChange={setRenewOpen} />
+            )}
+            {canTerminate && (
+              <TerminateContractDialog contract={contract} open={terminateOpen} onOpenChange={setTerminateOpen} />
+            )}
+
+            <Tabs defaultValue="details">
+              {can('audit:view') && (
+                <TabsList className="mb-6">
+                  <TabsTrigger value="details" data-testid="tab-details">Detalle</TabsTrigger>
+                  <TabsTrigger value="history" data-testid="tab-history">Historial</TabsTrigger>
+                </TabsList>
+              )}
+
+              <TabsContent value="details">
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  <div className="lg:col-span-2 space-y-6">
+                    <div className="bg-card rounded-lg border border-border p-6">
+                      <h3 className="text-sm font-semibold mb-3">Información del contrato</h3>
+                      <div className="grid grid-cols-2 gap-6">
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Propiedad</p>
+                          <p className="font-medium">{contract.property?.name ?? '—'}</p>
+                          <p className="text-sm text-muted-foreground">{contract.property?.address ?? '—'}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Inquilino</p>
+                          <p className="font-medium">{contract.tenantContact?.fullName ?? '—'}</p>
+                          <p className="text-sm text-muted-foreground">{contract.tenantContact?.email ?? '—'}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Propietario</p>
+                          <p className="font-medium">{contract.owner?.fullName ?? '—'}</p>
+                          <p className="text-sm text-muted-foreground">{contract.owner?.email ?? '—'}</p>
+                        </div>
+                        {contract.guarantor && (
+                          <div>
+                            <p className="text-sm text-muted-foreground mb-1">Codeudor</p>
+                            <p className="font-medium">{contract.guarantor.fullName}</p>
+                            <p className="text-sm text-muted-foreground">{contract.guarantor.email ?? '—'}</p>
+                          </div>
+                        )}
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Vigencia</p>
+                          <p className="font-semibold">
+                            {formatDate(contract.startDate)} – {formatDate(contract.endDate)}
+                          </p>
+                        </div>
+                      </div>
+                      {contract.terminationDate && (
+                        <div className="mt-6 pt-4 border-t border-border" data-testid="text-termination">
+                          <p className="text-sm text-muted-foreground mb-1">Terminado anticipadamente</p>
+                          <p className="font-semibold">{formatDate(contract.terminationDate)}</p>
+                          {contract.terminationReason && (
+                            <p className="text-sm text-muted-foreground">{contract.terminationReason}</p>
+                          )}
+                        </div>
+                      )}
+                      {(contract.renewedFrom || renewal) && (
+                        <div className="mt-6 pt-4 border-t border-border space-y-2" data-testid="list-renewal-chain">
+                          {contract.renewedFrom && (
+                            <p className="text-sm">
+                              <span className="text-muted-foreground">Renovación de </span>
+                              <Link href={`/contracts/${contract.renewedFrom.id}`} className="font-mono text-primary hover:underline">
+                                {contract.renewedFrom.number}
+                              </Link>
+                              <span className="text-muted-foreground">
+                                {' '}({formatDate(contract.renewedFrom.startDate)} – {formatDate(contract.renewedFrom.endDate)})
+                              </span>
+                            </p>
+                          )}
+                          {renewal && (
+                            <p className="text-sm">
+                              <span className="text-muted-foreground">Renovado como </span>
+                              <Link href={`/contracts/${renewal.id}`} className="font-mono text-primary hover:underline">
+                                {renewal.number}
+                              </Link>
+                              <span className="text-muted-foreground">
+                                {' '}({formatDate(renewal.startDate)} – {formatDate(renewal.endDate)} · {contractStatusLabels[renewal.status]})
+                              </span>
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {can('invoices:view') && (
+                      <div className="bg-card rounded-lg border border-border p-6">
+                        <h3 className="text-sm font-semibold mb-3">Facturas</h3>
+                        {contractInvoices.length === 0 ? (
+                          <p className="text-sm text-muted-foreground">Este contrato aún no tiene facturas</p>
+                        ) : (
+                          <div className="space-y-3">
+                            {contractInvoices.map((invoice) => (
+                              <Link key={invoice.id} href={`/invoices/${invoice.id}`}>
+                                <div
+                                  className="flex items-center justify-between p-3 bg-muted/30 rounded-lg cursor-pointer hover:bg-muted/50"
+                                  data-testid={`row-invoice-${invoice.id}`}
+                                >
+                                  <div>
+                                    <p className="font-medium font-mono">{invoice.number}</p>
+                                    <p className="text-sm text-muted-foreground">
+                                      Vence {formatDate(invoice.dueDate)} · {invoiceStatusLabels[invoice.status]}
+                                    </p>
+                                  </div>
+                                  <p className="font-mono font-semibold">
+                                    {formatCurrency(parseFloat(invoice.totalAmount))}
+                                  </p>
+                                </div>
+                              </Link>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {can('inspections:view') && (
+                      <ContractInspections contractId={contract.id} />
+                    )}
+
+                    {escalations.length > 0 && (
+                      <div className="bg-card rounded-lg border border-border p-6">
+                        <h3 className="text-sm font-semibold mb-3">Incrementos de canon</h3>
+                        <div className="space-y-3" data-testid="list-escalations">
+                          {escalations.map((escalation) => (
+                            <div key={escalation.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                              <div>
+                                <p className="font-medium">Desde {formatDate(escalation.effectiveDate)}</p>
+                                <p className="text-sm text-muted-foreground">
+                                  {escalationLabels[escalation.escalationType]}
+                                  {escalation.indexChange && ` ${parseFloat(escalation.indexChange)}% (${String(escalation.indexMonth).padStart(2, '0')}/${escalation.indexYear})`}
+                                  {' · aplicado '}{parseFloat(escalation.appliedRate)}%
+                                  {escalation.capped && ' (tope)'}
+                                </p>
+                              </div>
+                              <p className="font-mono text-sm">
+                                {formatCurrency(parseFloat(escalation.previousRent))} → {formatCurrency(parseFloat(escalation.newRent))}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-6">
+                    <div className="bg-card rounded-lg border border-border p-6">
+                      <h3 className="font-semibold mb-4">Condiciones</h3>
+                      <div className="space-y-4">
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Canon vigente</p>
+                          <p className="text-2xl font-bold font-mono">{formatCurrency(parseFloat(currentRent))}</p>
+                          {currentRent !== contract.rentAmount && (
+                            <p className="text-xs text-muted-foreground">
+                              Canon inicial {formatCurrency(parseFloat(contract.rentAmount))}
+                            </p>
+                          )}
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Incremento anual</p>
+                          <p className="font-semibold">
+                            {escalationLabels[contract.escalationType]}
+                            {contract.escalationType === 'fixed' && contract.escalationRate && ` ${parseFloat(contract.escalationRate)}%`}
+                            {(contract.escalationType === 'ipc' || contract.escalationType === 'inpc') &&
+                              contract.escalationRate && parseFloat(contract.escalationRate) !== 0 &&
+                              ` + ${parseFloat(contract.escalationRate)} puntos`}
+                          </p>
+                          {contract.escalationType !== 'none' && contract.escalationCap && (
+                            <p className="text-xs text-muted-foreground">Tope {parseFloat(contract.escalationCap)}%</p>
+                          )}
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Día de pago</p>
+                          <p className="font-semibold">{contract.paymentDay}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Mora</p>
+                          <p className="font-semibold">
+                            {contract.lateFeeType === 'none'
+                              ? 'Sin mora'
+                              : contract.lateFeeType === 'percent'
+                              ? `${contract.lateFeeValue ?? 0}%`
+                              : formatCurrency(parseFloat(contract.lateFeeValue ?? '0'))}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+
+                    {can('deposits:view') && (
+                      <DepositLedger contractId={contract.id} invoices={contractInvoices} />
+                    )}
+
+                    <RecurringCharges contract={contract} />
+
+                    <div className="bg-card rounded-lg border border-border p-6">
+                      <h3 className="font-semibold mb-4">Próximas facturas</h3>
+                      {upcomingInvoices.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No quedan periodos por facturar</p>
+                      ) : (
+                        <div className="space-y-3" data-testid="list-upcoming-invoices">
+                          {upcomingInvoices.map((planned) => (
+                            <div key={planned.periodStart} className="p-3 bg-muted/30 rounded-lg">
+                              <div className="flex items-center justify-between">
+                                <p className="font-medium font-mono text-sm">{planned.number}</p>
+                                {!planned.blockedReason && (
+                                  <p className="font-mono text-sm">{formatCurrency(parseFloat(planned.totalAmount))}</p>
+                                )}
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {formatDate(planned.periodStart)} – {formatDate(planned.periodEnd)} · se emite el {formatDate(planned.issueDate)}
+                              </p>
+                              {planned.blockedReason && (
+                                <p className="text-xs text-warning mt-1">{planned.blockedReason}</p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </TabsContent>
+
+              {can('audit:view') && (
+                <TabsContent value="history">
+                  <div className="bg-card rounded-lg border border-border p-6">
+                    <h3 className="text-sm font-semibold mb-4">Historial de cambios</h3>
+                    <AuditHistory entity="contract" entityId={contract.id} />
+                  </div>
+                </TabsContent>
+              )}
+            </Tabs>
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useState } from 'react';
+import { Link } from 'wouter';
 import Sidebar from '@/components/layout/sidebar';
 import Topbar from '@/components/layout/topbar';
 import { Button } from '@/components/ui/button';
@@ -9,11 +10,12 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { insertContractSchema, type Contract, type Contact, type Property, type Policy } from '@shared/schema';
+import { insertContractSchema, type Contract, type Contact, type Property, type Policy, type TaxProfile } from '@shared/schema';
 import { z } from 'zod';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Pencil, Trash2, Play, Download, Upload, X } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { Plus, Pencil, Trash2, Play, Download, Upload, X, Eye } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,6 +38,12 @@ const formSchema = insertContractSchema.omit({ tenantId: true }).extend({
   paymentDay: z.number().min(1).max(30),
   lateFeeValue: z.string().optional().or(z.literal('')),
   policyId: z.string().optional().or(z.literal('')),
+  guarantorContactId: z.string().nullable().optional().or(z.literal('')),
+  taxProfileId: z.string().nullable().optional().or(z.literal('')),
+  escalationRate: z.string().nullable().optional().or(z.literal('')),
+  escalationCap: z.string().nullable().optional().or(z.literal('')),
+  escalationMonth: z.number().min(1).max(12).optional().nullable(),
+  depositAmount: z.string().nullable().optional().or(z.literal('')),
 }).refine(
   (data) => new Date(data.endDate) >= new Date(data.startDate),
   { message: "La fecha de fin debe ser posterior a la fecha de inicio", path: ["endDate"] }
@@ -66,6 +74,10 @@ function ContractFormDialog({
     queryKey: ['/api/policies'],
   });
 
+  const { data: taxProfiles = [] } = useQuery<TaxProfile[]>({
+    queryKey: ['/api/tax-profiles'],
+  });
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -81,6 +93,13 @@ function ContractFormDialog({
       lateFeeValue: contract?.lateFeeValue || '',
       status: contract?.status || 'draft',
       policyId: contract?.policyId || '',
+      guarantorContactId: contract?.guarantorContactId || '',
+      taxProfileId: contract?.taxProfileId || '',
+      escalationType: contract?.escalationType || 'none',
+      escalationRate: contract?.escalationRate || '',
+      escalationCap: contract?.escalationCap || '',
+      escalationMonth: contract?.escalationMonth ?? null,
+      depositAmount: contract?.depositAmount || '',
     },
   });
 
@@ -113,7 +132,13 @@ function ContractFormDialog({
     const cleanData = {
       ...data,
       policyId: data.policyId || undefined,
+      guarantorContactId: data.guarantorContactId || null,
+      taxProfileId: data.taxProfileId || null,
       lateFeeValue: data.lateFeeType === 'none' || !data.lateFeeValue ? undefined : data.lateFeeValue,
+      escalationRate: data.escalationType === 'none' || !data.escalationRate ? null : data.escalationRate,
+      escalationCap: data.escalationType === 'none' || !data.escalationCap ? null : data.escalationCap,
+      escalationMonth: data.escalationType === 'none' ? null : data.escalationMonth,
+      depositAmount: data.depositAmount || null,
     };
     
     if (contract) {
@@ -125,6 +150,7 @@ function ContractFormDialog({
 
   const owners = contacts.filter(c => c.roles?.includes('owner'));
   const tenants = contacts.filter(c => c.roles?.includes('tenant'));
+  const guarantors = contacts.filter(c => c.roles?.includes('guarantor'));
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -159,31 +185,34 @@ function ContractFormDialog({
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="status"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Estado</FormLabel>
-                    <Select onValueChange={field.onChange} defaultValue={field.value}>
-                      <FormControl>
-                        <SelectTrigger data-testid="select-status">
-                          <SelectValue placeholder="Seleccionar estado" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="draft">Borrador</SelectItem>
-                        <SelectItem value="signed">Firmado</SelectItem>
-                        <SelectItem value="active">Activo</SelectItem>
-                        <SelectItem value="expiring">Por Vencer</SelectItem>
-                        <SelectItem value="expired">Vencido</SelectItem>
-                        <SelectItem value="closed">Cerrado</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {/* Status changes on existing contracts go through activation, renewal and termination */}
+              {!contract && (
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Estado</FormLabel>
+                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-status">
+                            <SelectValue placeholder="Seleccionar estado" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="draft">Borrador</SelectItem>
+                          <SelectItem value="signed">Firmado</SelectItem>
+                          <SelectItem value="active">Activo</SelectItem>
+                          <SelectItem value="expiring">Por Vencer</SelectItem>
+                          <SelectItem value="expired">Vencido</SelectItem>
+                          <SelectItem value="closed">Cerrado</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             <FormField
@@ -263,6 +292,35 @@ function ContractFormDialog({
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="guarantorContactId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Codeudor (Opcional)</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === 'none' ? '' : value)}
+                    value={field.value || 'none'}
+                  >
+                    <FormControl>
+                      <SelectTrigger data-testid="select-guarantor">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Sin codeudor</SelectItem>
+                      {guarantors.map((guarantor) => (
+                        <SelectItem key={guarantor.id} value={guarantor.id}>
+                          {guarantor.fullName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="policyId"
@@ -288,6 +346,35 @@ function ContractFormDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="taxProfileId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Perfil Tributario</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === 'none' ? '' : value)}
+                    value={field.value || 'none'}
+                  >
+                    <FormControl>
+                      <SelectTrigger data-testid="select-taxProfile">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Sin impuestos</SelectItem>
+                      {taxProfiles.map((profile) => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.name} - IVA {parseFloat(profile.ivaRate)}%
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -355,6 +442,28 @@ function ContractFormDialog({
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="depositAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Depósito en garantía</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="0"
+                        {...field}
+                        value={field.value ?? ''}
+                        data-testid="input-depositAmount"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -394,6 +503,89 @@ function ContractFormDialog({
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="escalationType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Incremento Anual</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-escalationType">
+                          <SelectValue placeholder="Seleccionar tipo" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Sin incremento</SelectItem>
+                        <SelectItem value="ipc">IPC (Colombia)</SelectItem>
+                        <SelectItem value="inpc">INPC (México)</SelectItem>
+                        <SelectItem value="fixed">Porcentaje fijo</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="escalationMonth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Mes de Aniversario</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        max="12"
+                        placeholder="Mes de inicio"
+                        value={field.value ?? ''}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                        disabled={form.watch('escalationType') === 'none'}
+                        data-testid="input-escalationMonth"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {form.watch('escalationType') !== 'none' && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="escalationRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {form.watch('escalationType') === 'fixed' ? 'Porcentaje Anual (%)' : 'Puntos Adicionales (%)'}
+                      </FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="0" {...field} value={field.value ?? ''} data-testid="input-escalationRate" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="escalationCap"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tope Anual (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="Sin tope" {...field} value={field.value ?? ''} data-testid="input-escalationCap" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
             <div className="flex justify-end space-x-3 pt-4">
               <Button
                 type="button"
@@ -420,6 +612,7 @@ function ContractFormDialog({
 
 export default function ContractsPage() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const { data: contracts = [], isLoading } = useQuery<Contract[]>({
     queryKey: ['/api/contracts'],
   });
@@ -429,13 +622,18 @@ export default function ContractsPage() {
   const [deleteContract, setDeleteContract] = useState<Contract | undefined>();
 
   const activateMutation = useMutation({
-    mutationFn: (id: string) => apiRequest('POST', `/api/contracts/${id}/activate`),
-    onSuccess: () => {
+    mutationFn: async (id: string) => {
+      const res = await apiRequest('POST', `/api/contracts/${id}/activate`);
+      return res.json() as Promise<{ invoicesCreated: number }>;
+    },
+    onSuccess: ({ invoicesCreated }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/contracts'] });
       queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
       toast({
         title: 'Contrato activado',
-        description: 'Las facturas han sido generadas exitosamente',
+        description: invoicesCreated > 0
+          ? `Se emitieron ${invoicesCreated} facturas; las siguientes se emitirán automáticamente cada mes`
+          : 'Las facturas se emitirán automáticamente antes de cada periodo',
       });
     },
     onError: (error: Error) => {
@@ -454,8 +652,9 @@ export default function ContractsPage() {
       toast({ title: 'Contrato eliminado exitosamente' });
       setDeleteContract(undefined);
     },
-    onError: () => {
-      toast({ title: 'Error al eliminar contrato', variant: 'destructive' });
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar contrato', description: error.message, variant: 'destructive' });
+      setDeleteContract(undefined);
     },
   });
 
@@ -523,21 +722,27 @@ export default function ContractsPage() {
                   <Download className="w-4 h-4 mr-2" />
                   Descargar Plantilla
                 </Button>
-                <Button variant="outline" onClick={() => document.getElementById('csv-upload')?.click()} disabled={importMutation.isPending} data-testid="button-import-csv">
-                  <Upload className="w-4 h-4 mr-2" />
-                  {importMutation.isPending ? 'Importando...' : 'Importar CSV'}
-                </Button>
-                <input
-                  id="csv-upload"
-                  type="file"
-                  accept=".csv"
-                  onChange={handleFileUpload}
-                  className="hidden"
-                />
-                <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Nuevo Contrato
-                </Button>
+                {can('import:run') && (
+                  <>
+                    <Button variant="outline" onClick={() => document.getElementById('csv-upload')?.click()} disabled={importMutation.isPending} data-testid="button-import-csv">
+                      <Upload className="w-4 h-4 mr-2" />
+                      {importMutation.isPending ? 'Importando...' : 'Importar CSV'}
+                    </Button>
+                    <input
+                      id="csv-upload"
+                      type="file"
+                      accept=".csv"
+                      onChange={handleFileUpload}
+                      className="hidden"
+                    />
+                  </>
+                )}
+                {can('contracts:create') && (
+                  <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Nuevo Contrato
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -595,7 +800,12 @@ export default function ContractsPage() {
                           </td>
                           <td className="px-6 py-4">
                             <div className="flex items-center justify-end gap-2">
-                              {contract.status === 'draft' && (
+                              <Link href={`/contracts/${contract.id}`}>
+                                <Button variant="ghost" size="sm" data-testid={`button-view-${contract.id}`}>
+                                  <Eye className="w-4 h-4" />
+                                </Button>
+                              </Link>
+                              {contract.status === 'draft' && can('contracts:activate') && (
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -607,22 +817,26 @@ export default function ContractsPage() {
                                   Activar
                                 </Button>
                               )}
-                              <Button 
-                                variant="ghost" 
-                                size="sm"
-                                onClick={() => setEditingContract(contract)}
-                                data-testid={`button-edit-${contract.id}`}
-                              >
-                                <Pencil className="w-4 h-4" />
-                              </Button>
-                              <Button 
-                                variant="ghost" 
-                                size="sm"
-                                onClick={() => setDeleteContract(contract)}
-                                data-testid={`button-delete-${contract.id}`}
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
+                              {can('contracts:update') && (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm"
+                                  onClick={() => setEditingContract(contract)}
+                                  data-testid={`button-edit-${contract.id}`}
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {can('contracts:delete') && (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm"
+                                  onClick={() => setDeleteContract(contract)}
+                                  data-testid={`button-delete-${contract.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -59,6 +59,8 @@ export default function DashboardPage() {
       return <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-destructive/10 text-destructive">Vencida</span>;
     } else if (status === 'partial') {
       return <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-warning/10 text-warning">Parcial</span>;
+    } else if (status === 'void') {
+      return <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground">Anulada</span>;
     } else {
       return <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary">Enviada</span>;
     }
@@ -121,15 +123,17 @@ export default function DashboardPage() {
                   variant="default"
                 />
               </div>
-              <div data-testid="kpi-vencido">
-                <KPICard
-                  title="Vencido"
-                  value={formatCurrency(stats?.overdue || 0)}
-                  icon="fa-exclamation-triangle"
-                  subtitle={`${invoices.filter(inv => inv.status === 'overdue').length} facturas vencidas`}
-                  variant="danger"
-                />
-              </div>
+              <Link href="/reports/aging">
+                <div className="cursor-pointer" data-testid="kpi-vencido">
+                  <KPICard
+                    title="Vencido"
+                    value={formatCurrency(stats?.overdue || 0)}
+                    icon="fa-exclamation-triangle"
+                    subtitle={`${invoices.filter(inv => inv.status === 'overdue').length} facturas vencidas`}
+                    variant="danger"
+                  />
+                </div>
+              </Link>
               <div data-testid="kpi-cobrado">
                 <KPICard
                   title="Cobrado Este Mes"
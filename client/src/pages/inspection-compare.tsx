@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useRoute, useLocation, Link } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { DepositSummary } from '@/components/deposit-ledger';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { inspectionConditionColors, inspectionConditionLabels, inspectionTypeLabels } from '@/lib/inspections';
+import { MinusCircle } from 'lucide-react';
+import type { Inspection, InspectionItem } from '@shared/schema';
+
+type ComparisonRow = {
+  room: string;
+  item: string;
+  before: InspectionItem | null;
+  after: InspectionItem | null;
+  change: 'same' | 'better' | 'worse' | 'added' | 'removed';
+};
+
+type InspectionComparison = {
+  from: Inspection;
+  to: Inspection;
+  rows: ComparisonRow[];
+  worsened: number;
+};
+
+const changeLabels: Record<ComparisonRow['change'], string> = {
+  same: 'Sin cambio',
+  better: 'Mejoró',
+  worse: 'Empeoró',
+  added: 'Nuevo',
+  removed: 'No revisado',
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+function ConditionCell({ item }: { item: InspectionItem | null }) {
+  if (!item) {
+    return <span className="text-muted-foreground">—</span>;
+  }
+  return (
+    <div>
+      {item.condition ? (
+        <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${inspectionConditionColors[item.condition]}`}>
+          {inspectionConditionLabels[item.condition]}
+        </span>
+      ) : (
+        <span className="text-xs text-muted-foreground">Sin calificar</span>
+      )}
+      {item.notes && <p className="text-xs text-muted-foreground mt-1">{item.notes}</p>}
+    </div>
+  );
+}
+
+// Damage found at move-out is charged against the deposit, linked to the item that shows it
+function DamageDeductionDialog({
+  contractId,
+  row,
+  balance,
+  onOpenChange,
+}: {
+  contractId: string;
+  row: ComparisonRow;
+  balance: number;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [entryDate, setEntryDate] = useState(new Date().toISOString().split('T')[0]);
+  const [description, setDescription] = useState(`Daño en ${row.room.toLowerCase()}: ${row.item.toLowerCase()}`);
+
+  const deductMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/contracts/${contractId}/deposit/entries`, {
+      type: 'deduction',
+      amount: Number.parseFloat(amount).toFixed(2),
+      entryDate,
+      description,
+      inspectionItemId: row.after!.id,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/contracts/${contractId}/deposit`] });
+      toast({ title: 'Descuento registrado en el depósito' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al registrar el descuento', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Descontar del depósito</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm">
+            {row.room} - {row.item}: {row.before?.condition && inspectionConditionLabels[row.before.condition]}
+            {' → '}{row.after?.condition && inspectionConditionLabels[row.after.condition]}
+          </p>
+          <p className="text-sm text-muted-foreground">Saldo del depósito {formatCurrency(balance)}</p>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="deduction-amount" className="mb-2 block">Monto</Label>
+              <Input
+                id="deduction-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-deduction-amount"
+              />
+            </div>
+            <div>
+              <Label htmlFor="deduction-date" className="mb-2 block">Fecha</Label>
+              <Input
+                id="deduction-date"
+                type="date"
+                value={entryDate}
+                onChange={(e) => setEntryDate(e.target.value)}
+                data-testid="input-deduction-date"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="deduction-description" className="mb-2 block">Descripción</Label>
+            <Input
+              id="deduction-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              data-testid="input-deduction-description"
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => deductMutation.mutate()}
+            disabled={!(Number.parseFloat(amount) > 0) || !description.trim() || !entryDate || deductMutation.isPending}
+            data-testid="button-confirm-deduction"
+          >
+            Descontar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function InspectionComparePage() {
+  const [, params] = useRoute('/contracts/:id/inspections/compare');
+  const [, setLocation] = useLocation();
+  const { can } = useAuth();
+  const contractId = params?.id ?? '';
+  const canDeduct = can('deposits:manage');
+
+  const [deductRow, setDeductRow] = useState<ComparisonRow | null>(null);
+
+  const { data: comparison, isLoading, error } = useQuery<InspectionComparison>({
+    queryKey: [`/api/contracts/${contractId}/inspections/compare`],
+    enabled: !!contractId,
+    retry: false,
+  });
+
+  const { data: deposit } = useQuery<DepositSummary>({
+    queryKey: [`/api/contracts/${contractId}/deposit`],
+    enabled: !!contractId && can('deposits:view'),
+  });
+
+  const deductedFor = (itemId: string) => (deposit?.entries ?? [])
+    .filter((entry) => entry.inspectionItemId === itemId)
+    .reduce((sum, entry) => sum + parseFloat(entry.amount), 0);
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-6xl mx-auto space-y-6">
+            <div>
+              <Button variant="ghost" onClick={() => setLocation(`/contracts/${contractId}`)} className="mb-4" data-testid="button-back">
+                <i className="fas fa-arrow-left mr-2"></i>
+                Volver al contrato
+              </Button>
+              <h1 className="text-3xl font-bold">Comparación de inspecciones</h1>
+              {comparison && (
+                <p className="text-muted-foreground">
+                  <Link href={`/inspections/${comparison.from.id}`} className="hover:underline">
+                    {inspectionTypeLabels[comparison.from.type]} del {formatDate(comparison.from.inspectionDate)}
+                  </Link>
+                  {' frente a '}
+                  <Link href={`/inspections/${comparison.to.id}`} className="hover:underline">
+                    {inspectionTypeLabels[comparison.to.type].toLowerCase()} del {formatDate(comparison.to.inspectionDate)}
+                  </Link>
+                  {` · ${comparison.worsened} ítem(s) empeoraron`}
+                </p>
+              )}
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : !comparison ? (
+              <div className="bg-card rounded-lg border border-border p-6 text-sm text-muted-foreground">
+                {error instanceof Error ? error.message : 'No hay inspecciones para comparar'}
+              </div>
+            ) : (
+              <div className="bg-card rounded-lg border border-border overflow-hidden">
+                <table className="w-full text-sm" data-testid="table-inspection-comparison">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Espacio</th>
+                      <th className="text-left p-3 font-medium">Elemento</th>
+                      <th className="text-left p-3 font-medium">{inspectionTypeLabels[comparison.from.type]}</th>
+                      <th className="text-left p-3 font-medium">{inspectionTypeLabels[comparison.to.type]}</th>
+                      <th className="text-left p-3 font-medium">Cambio</th>
+                      <th className="p-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.rows.map((row) => {
+                      const deducted = row.after ? deductedFor(row.after.id) : 0;
+                      return (
+                        <tr
+                          key={`${row.room}|${row.item}`}
+                          className={`border-t border-border ${row.change === 'worse' ? 'bg-red-50' : ''}`}
+                        >
+                          <td className="p-3">{row.room}</td>
+                          <td className="p-3">{row.item}</td>
+                          <td className="p-3"><ConditionCell item={row.before} /></td>
+                          <td className="p-3"><ConditionCell item={row.after} /></td>
+                          <td className="p-3">{changeLabels[row.change]}</td>
+                          <td className="p-3 text-right whitespace-nowrap">
+                            {deducted > 0 && (
+                              <span className="text-xs font-mono mr-2">Descontado {formatCurrency(deducted)}</span>
+                            )}
+                            {row.change === 'worse' && canDeduct && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setDeductRow(row)}
+                                data-testid={`button-deduct-${row.after!.id}`}
+                              >
+                                <MinusCircle className="w-4 h-4 mr-2" />
+                                Descontar del depósito
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+
+      {deductRow && (
+        <DamageDeductionDialog
+          contractId={contractId}
+          row={deductRow}
+          balance={parseFloat(deposit?.balance ?? '0')}
+          onOpenChange={(open) => { if (!open) setDeductRow(null); }}
+        />
+      )}
+    </div>
+  );
+}
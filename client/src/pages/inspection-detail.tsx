@@ -0,0 +1,499 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useRoute, useLocation, Link } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ObjectUploader } from '@/components/ObjectUploader';
+import AuditHistory from '@/components/audit-history';
+import SignaturePad from '@/components/signature-pad';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  inspectionConditionLabels,
+  inspectionStatusColors,
+  inspectionStatusLabels,
+  inspectionTypeLabels,
+} from '@/lib/inspections';
+import { Download, PenLine, Plus, Trash2 } from 'lucide-react';
+import type { Contact, Inspection, InspectionCondition, InspectionItem, InspectionPhoto, Property } from '@shared/schema';
+
+type InspectionDetail = Inspection & {
+  contract: { id: string; number: string; property: Property | null; tenantContact: Contact | null };
+  items: InspectionItem[];
+  photos: InspectionPhoto[];
+};
+
+const MAX_PHOTOS = 50;
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+function invalidateInspection(inspection: Pick<Inspection, 'id' | 'contractId'>) {
+  queryClient.invalidateQueries({ queryKey: [`/api/inspections/${inspection.id}`] });
+  queryClient.invalidateQueries({ queryKey: [`/api/contracts/${inspection.contractId}/inspections`] });
+}
+
+function SignInspectionDialog({
+  inspection,
+  open,
+  onOpenChange,
+}: {
+  inspection: InspectionDetail;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [tenantSignedName, setTenantSignedName] = useState(inspection.contract.tenantContact?.fullName ?? '');
+  const [tenantSignature, setTenantSignature] = useState<string | null>(null);
+  const [inspectorSignature, setInspectorSignature] = useState<string | null>(null);
+
+  const signMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/inspections/${inspection.id}/sign`, {
+      tenantSignedName,
+      tenantSignature,
+      inspectorSignature,
+    }),
+    onSuccess: () => {
+      invalidateInspection(inspection);
+      toast({ title: 'Inspección firmada' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al firmar la inspección', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Firmar inspección</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Una vez firmada, la inspección no se puede modificar.
+          </p>
+          <div>
+            <Label htmlFor="inspection-tenant-name" className="mb-2 block">Firma por el inquilino</Label>
+            <Input
+              id="inspection-tenant-name"
+              value={tenantSignedName}
+              onChange={(e) => setTenantSignedName(e.target.value)}
+              className="mb-2"
+              data-testid="input-inspection-tenant-name"
+            />
+            <SignaturePad onChange={setTenantSignature} testId="canvas-tenant-signature" />
+          </div>
+          <div>
+            <Label className="mb-2 block">Firma del inspector ({inspection.inspectorName})</Label>
+            <SignaturePad onChange={setInspectorSignature} testId="canvas-inspector-signature" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => signMutation.mutate()}
+            disabled={!tenantSignedName.trim() || !tenantSignature || !inspectorSignature || signMutation.isPending}
+            data-testid="button-confirm-sign"
+          >
+            Firmar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ChecklistItemRow({
+  inspection,
+  item,
+  photos,
+  editable,
+}: {
+  inspection: InspectionDetail;
+  item: InspectionItem;
+  photos: InspectionPhoto[];
+  editable: boolean;
+}) {
+  const { toast } = useToast();
+  const [notes, setNotes] = useState(item.notes ?? '');
+
+  const updateMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => apiRequest('PATCH', `/api/inspection-items/${item.id}`, data),
+    onSuccess: () => invalidateInspection(inspection),
+    onError: (error: Error) => {
+      toast({ title: 'Error al actualizar el ítem', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/inspection-items/${item.id}`),
+    onSuccess: () => invalidateInspection(inspection),
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar el ítem', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const saveNotes = () => {
+    if (notes.trim() !== (item.notes ?? '')) {
+      updateMutation.mutate({ notes: notes.trim() || null });
+    }
+  };
+
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg space-y-2" data-testid={`row-inspection-item-${item.id}`}>
+      <div className="flex items-center gap-3">
+        <p className="flex-1 font-medium text-sm">{item.item}</p>
+        {editable ? (
+          <>
+            <Select
+              value={item.condition ?? ''}
+              onValueChange={(value) => updateMutation.mutate({ condition: value })}
+            >
+              <SelectTrigger className="w-40" data-testid={`select-condition-${item.id}`}>
+                <SelectValue placeholder="Calificar" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(inspectionConditionLabels) as InspectionCondition[]).map((condition) => (
+                  <SelectItem key={condition} value={condition}>{inspectionConditionLabels[condition]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+              data-testid={`button-delete-inspection-item-${item.id}`}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </>
+        ) : (
+          <span className="text-sm font-medium">
+            {item.condition ? inspectionConditionLabels[item.condition] : 'Sin calificar'}
+          </span>
+        )}
+      </div>
+      {editable ? (
+        <Input
+          placeholder="Notas"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={saveNotes}
+          data-testid={`input-item-notes-${item.id}`}
+        />
+      ) : item.notes ? (
+        <p className="text-sm text-muted-foreground">{item.notes}</p>
+      ) : null}
+      {photos.length > 0 && (
+        <div className="flex gap-2">
+          {photos.map((photo) => (
+            <a key={photo.id} href={photo.objectPath} target="_blank" rel="noreferrer">
+              <img src={photo.objectPath} alt={item.item} className="w-16 h-16 object-cover rounded border border-border" />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function InspectionDetailPage() {
+  const [, params] = useRoute('/inspections/:id');
+  const [, setLocation] = useLocation();
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const id = params?.id ?? '';
+
+  const [signOpen, setSignOpen] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [photoItemId, setPhotoItemId] = useState('');
+  const [newRoom, setNewRoom] = useState('');
+  const [newItem, setNewItem] = useState('');
+
+  const { data: inspection, isLoading } = useQuery<InspectionDetail>({
+    queryKey: [`/api/inspections/${id}`],
+    enabled: !!id,
+  });
+
+  const addItemMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/inspections/${id}/items`, { room: newRoom, item: newItem }),
+    onSuccess: () => {
+      invalidateInspection(inspection!);
+      setNewItem('');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al agregar el ítem', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/inspections/${id}`),
+    onSuccess: () => {
+      invalidateInspection(inspection!);
+      toast({ title: 'Inspección eliminada' });
+      setLocation(`/contracts/${inspection!.contractId}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar la inspección', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: (photoId: string) => apiRequest('DELETE', `/api/inspection-photos/${photoId}`),
+    onSuccess: () => {
+      invalidateInspection(inspection!);
+      toast({ title: 'Foto eliminada exitosamente' });
+    },
+    onError: () => {
+      toast({ title: 'Error al eliminar foto', variant: 'destructive' });
+    },
+  });
+
+  const handleUploadComplete = async (objectPath: string) => {
+    try {
+      setIsUploading(true);
+      const item = inspection?.items.find((candidate) => candidate.id === photoItemId);
+      await apiRequest('POST', `/api/inspections/${id}/photos`, {
+        objectPath,
+        inspectionItemId: item?.id ?? null,
+        caption: item ? `${item.room} - ${item.item}` : null,
+      });
+      invalidateInspection(inspection!);
+      toast({ title: 'Foto subida exitosamente' });
+    } catch (error) {
+      toast({
+        title: error instanceof Error ? error.message : 'Error al subir foto',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (isLoading || !inspection) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const signed = inspection.status === 'signed';
+  const editable = can('inspections:manage') && !signed;
+  const rated = inspection.items.filter((item) => item.condition).length;
+  const rooms = Array.from(new Set(inspection.items.map((item) => item.room)));
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-6xl mx-auto space-y-6">
+            <div>
+              <Button variant="ghost" onClick={() => setLocation(`/contracts/${inspection.contractId}`)} className="mb-4" data-testid="button-back">
+                <i className="fas fa-arrow-left mr-2"></i>
+                Volver al contrato
+              </Button>
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center gap-3 mb-2">
+                    <h1 className="text-3xl font-bold">Inspección de {inspectionTypeLabels[inspection.type].toLowerCase()}</h1>
+                    <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${inspectionStatusColors[inspection.status]}`} data-testid="badge-inspection-status">
+                      {inspectionStatusLabels[inspection.status]}
+                    </span>
+                  </div>
+                  <p className="text-muted-foreground">
+                    {formatDate(inspection.inspectionDate)} · {inspection.contract.property?.name ?? '—'} ·{' '}
+                    <Link href={`/contracts/${inspection.contractId}`} className="font-mono hover:underline">
+                      {inspection.contract.number}
+                    </Link>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Inspector {inspection.inspectorName} · {rated} de {inspection.items.length} ítems calificados
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => window.open(`/api/inspections/${inspection.id}/pdf`, '_blank')}
+                    data-testid="button-download-pdf"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    PDF
+                  </Button>
+                  {editable && (
+                    <Button
+                      onClick={() => setSignOpen(true)}
+                      disabled={inspection.items.length === 0 || rated < inspection.items.length}
+                      data-testid="button-sign-inspection"
+                    >
+                      <PenLine className="w-4 h-4 mr-2" />
+                      Firmar
+                    </Button>
+                  )}
+                  {editable && (
+                    <Button
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate()}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-inspection"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 space-y-6">
+                {rooms.map((room) => (
+                  <div key={room} className="bg-card rounded-lg border border-border p-6">
+                    <h2 className="text-lg font-semibold mb-4">{room}</h2>
+                    <div className="space-y-3">
+                      {inspection.items.filter((item) => item.room === room).map((item) => (
+                        <ChecklistItemRow
+                          key={item.id}
+                          inspection={inspection}
+                          item={item}
+                          photos={inspection.photos.filter((photo) => photo.inspectionItemId === item.id)}
+                          editable={editable}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                {editable && (
+                  <div className="bg-card rounded-lg border border-border p-6">
+                    <h2 className="text-lg font-semibold mb-4">Agregar ítem</h2>
+                    <div className="flex gap-3">
+                      <Input
+                        placeholder="Espacio (ej. Habitación 2)"
+                        value={newRoom}
+                        onChange={(e) => setNewRoom(e.target.value)}
+                        list="inspection-rooms"
+                        data-testid="input-new-item-room"
+                      />
+                      <datalist id="inspection-rooms">
+                        {rooms.map((room) => <option key={room} value={room} />)}
+                      </datalist>
+                      <Input
+                        placeholder="Elemento (ej. Ventanas)"
+                        value={newItem}
+                        onChange={(e) => setNewItem(e.target.value)}
+                        data-testid="input-new-item-name"
+                      />
+                      <Button
+                        onClick={() => addItemMutation.mutate()}
+                        disabled={!newRoom.trim() || !newItem.trim() || addItemMutation.isPending}
+                        data-testid="button-add-inspection-item"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {can('audit:view') && (
+                  <div className="bg-card rounded-lg border border-border p-6">
+                    <h2 className="text-lg font-semibold mb-4">Historial</h2>
+                    <AuditHistory entity="inspection" entityId={inspection.id} />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-6">
+                <div className="bg-card rounded-lg border border-border p-6">
+                  <h2 className="text-lg font-semibold mb-2">Observaciones</h2>
+                  <p className="text-sm whitespace-pre-wrap">{inspection.notes || 'Sin observaciones'}</p>
+                  {signed && (
+                    <div className="mt-4 pt-4 border-t border-border text-sm" data-testid="text-inspection-signed">
+                      <p className="text-muted-foreground">Firmada por</p>
+                      <p>{inspection.tenantSignedName} (inquilino)</p>
+                      <p>{inspection.inspectorName} (inspector)</p>
+                      {inspection.signedAt && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {new Date(inspection.signedAt).toLocaleString('es-ES')}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-card rounded-lg border border-border p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold">Fotos</h2>
+                    <span className="text-sm text-muted-foreground">{inspection.photos.length} de {MAX_PHOTOS}</span>
+                  </div>
+                  {editable && inspection.photos.length < MAX_PHOTOS && (
+                    <div className="mb-4 space-y-3">
+                      <Select value={photoItemId || 'none'} onValueChange={(value) => setPhotoItemId(value === 'none' ? '' : value)}>
+                        <SelectTrigger data-testid="select-photo-item">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Foto general</SelectItem>
+                          {inspection.items.map((item) => (
+                            <SelectItem key={item.id} value={item.id}>{item.room} - {item.item}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <ObjectUploader
+                        onUploadComplete={handleUploadComplete}
+                        onUploadError={(error) => {
+                          toast({ title: 'Error al subir foto', description: error.message, variant: 'destructive' });
+                        }}
+                      />
+                      {isUploading && (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full" />
+                          <span>Guardando foto...</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {inspection.photos.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">Sin fotos</p>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-3">
+                      {inspection.photos.map((photo, index) => (
+                        <div key={photo.id} className="relative group rounded-lg overflow-hidden border border-border aspect-square">
+                          <img src={photo.objectPath} alt={photo.caption || `Foto ${index + 1}`} className="w-full h-full object-cover" />
+                          {photo.caption && (
+                            <p className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-xs px-2 py-1 truncate">{photo.caption}</p>
+                          )}
+                          {editable && (
+                            <Button
+                              size="icon"
+                              variant="destructive"
+                              className="absolute top-2 right-2 h-7 w-7 opacity-0 group-hover:opacity-100"
+                              onClick={() => deletePhotoMutation.mutate(photo.id)}
+                              data-testid={`button-delete-inspection-photo-${photo.id}`}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+
+      {editable && <SignInspectionDialog inspection={inspection} open={signOpen} onOpenChange={setSignOpen} />}
+    </div>
+  );
+}
@@ -3,9 +3,10 @@ import { useState } from 'react';
 import Sidebar from '@/components/layout/sidebar';
 import Topbar from '@/components/layout/topbar';
 import { Button } from '@/components/ui/button';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { useForm } from 'react-hook-form';
@@ -14,7 +15,7 @@ import { insertInsurerSchema, type Insurer } from '@shared/schema';
 import { z } from 'zod';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Pencil, Trash2, FileText, X } from 'lucide-react';
+import { Plus, Pencil, Trash2, FileText, FileBarChart, Download, Eye, X } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -211,6 +212,66 @@ function InsurerFormDialog({
   );
 }
 
+// The scheduler sends last month's report on the 1st; that is the one usually reviewed
+const previousPeriod = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return date.toISOString().slice(0, 7);
+};
+
+function MonthlyReportDialog({ insurer, onOpenChange }: { insurer: Insurer; onOpenChange: (open: boolean) => void }) {
+  const [period, setPeriod] = useState(previousPeriod());
+  const [year, month] = period.split('-');
+  const reportUrl = `/api/insurers/${insurer.id}/reports/${year}/${Number(month)}`;
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Reporte mensual - {insurer.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="insurer-report-period" className="mb-2 block">Periodo</Label>
+            <Input
+              id="insurer-report-period"
+              type="month"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              data-testid="input-insurer-report-period"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {insurer.emailReports
+              ? `Se envía automáticamente a ${insurer.emailReports} el primer día de cada mes.`
+              : 'Esta aseguradora no tiene email de reportes; el reporte no se envía automáticamente.'}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => window.open(reportUrl, '_blank')}
+            disabled={!period}
+            data-testid="button-preview-insurer-report"
+          >
+            <Eye className="w-4 h-4 mr-2" />
+            Vista previa
+          </Button>
+          <Button
+            onClick={() => window.open(`${reportUrl}?download=1`, '_blank')}
+            disabled={!period}
+            data-testid="button-download-insurer-report"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Descargar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function InsurersPage() {
   const { toast } = useToast();
   const { data: insurers = [], isLoading } = useQuery<Insurer[]>({
@@ -221,6 +282,7 @@ export default function InsurersPage() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [deleteInsurer, setDeleteInsurer] = useState<Insurer | undefined>();
   const [reportInsurer, setReportInsurer] = useState<Insurer | undefined>();
+  const [monthlyReportInsurer, setMonthlyReportInsurer] = useState<Insurer | undefined>();
 
   const { data: overdueReport = [], isLoading: isLoadingReport } = useQuery<any[]>({
     queryKey: ['/api/insurers', reportInsurer?.id, 'overdue-policies-report'],
@@ -311,6 +373,15 @@ export default function InsurersPage() {
                               >
                                 <FileText className="w-4 h-4" />
                               </Button>
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => setMonthlyReportInsurer(insurer)}
+                                data-testid={`button-monthly-report-${insurer.id}`}
+                                title="Reporte mensual"
+                              >
+                                <FileBarChart className="w-4 h-4" />
+                              </Button>
                               <Button 
                                 variant="ghost" 
                                 size="sm"
@@ -353,6 +424,13 @@ export default function InsurersPage() {
         />
       )}
 
+      {monthlyReportInsurer && (
+        <MonthlyReportDialog
+          insurer={monthlyReportInsurer}
+          onOpenChange={(open) => !open && setMonthlyReportInsurer(undefined)}
+        />
+      )}
+
       <AlertDialog open={!!deleteInsurer} onOpenChange={() => setDeleteInsurer(undefined)}>
         <AlertDialogContent>
           <AlertDialogHeader>
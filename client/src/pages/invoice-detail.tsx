@@ -1,16 +1,58 @@
+import { useState } from 'react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { useRoute, useLocation } from 'wouter';
 import Sidebar from '@/components/layout/sidebar';
 import Topbar from '@/components/layout/topbar';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import AuditHistory from '@/components/audit-history';
 import { api } from '@/lib/api';
-import { queryClient } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Plus, Trash2 } from 'lucide-react';
+import { chargeCategoryLabels, defaultTaxable, extraChargeCategories } from '@/lib/chargeCategories';
+import { dunningChannelLabels, dunningEventStatusColors, dunningEventStatusLabels, dunningRecipientLabels } from '@/lib/dunning';
+import { emailTransportLabels, messagingProviderLabels, notificationChannelLabels, notificationStatusColors, notificationStatusLabels, notificationTemplateLabels } from '@/lib/notifications';
+import type { ChargeCategory, CreditNoteReason, DunningChannel, DunningEvent, Notification } from '@shared/schema';
+
+const editableStatuses = ['draft', 'issued', 'overdue', 'partial'];
+const creditableStatuses = ['issued', 'overdue', 'partial', 'paid'];
+const openStatuses = ['issued', 'overdue', 'partial'];
+
+const creditNoteReasonLabels: Record<CreditNoteReason, string> = {
+  billing_error: 'Error de facturación',
+  price_adjustment: 'Ajuste de precio',
+  discount: 'Descuento',
+  service_not_provided: 'Servicio no prestado',
+  void: 'Anulación de factura',
+  other: 'Otro',
+};
+
+type CreditNote = {
+  id: string;
+  number: string;
+  issueDate: string;
+  reasonCode: CreditNoteReason;
+  reason: string;
+  amount: string;
+};
 
 type InvoiceCharge = {
   id: string;
   description: string;
+  category: ChargeCategory;
+  quantity?: string | null;
+  unitPrice?: string | null;
+  sourceType?: string | null;
   amount: string | number | null;
+  taxAmount?: string | number | null;
+  withholdingAmount?: string | number | null;
 };
 
 type InvoiceDetail = {
@@ -18,12 +60,19 @@ type InvoiceDetail = {
   number: string;
   totalAmount: string | number | null;
   amountPaid: string | number | null;
+  creditedAmount?: string | number | null;
   subtotal: string | number | null;
+  otherCharges?: string | number | null;
+  tax?: string | number | null;
+  withholdings?: string | number | null;
   lateFee: string | number | null;
   status?: string | null;
   issueDate?: string | null;
   dueDate?: string | null;
+  promisedPaymentDate?: string | null;
+  promiseNote?: string | null;
   charges?: InvoiceCharge[] | null;
+  creditNotes?: CreditNote[] | null;
   tenantContact?: { fullName?: string | null; email?: string | null } | null;
   contract?: { property?: { name?: string | null; address?: string | null } | null } | null;
 };
@@ -36,28 +85,416 @@ function toNumber(value: string | number | null | undefined): number {
   return Number.isFinite(numeric) ? numeric : 0;
 }
 
+function AddChargeDialog({
+  invoiceId,
+  open,
+  onOpenChange,
+}: {
+  invoiceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [category, setCategory] = useState<ChargeCategory>('maintenance');
+  const [description, setDescription] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [unitPrice, setUnitPrice] = useState('');
+  const [taxable, setTaxable] = useState(true);
+
+  const changeCategory = (value: ChargeCategory) => {
+    setCategory(value);
+    setTaxable(defaultTaxable(value));
+  };
+
+  const addMutation = useMutation({
+    // Discounts are entered as positive values; the server stores them as negative lines
+    mutationFn: () => apiRequest('POST', `/api/invoices/${invoiceId}/charges`, {
+      category,
+      description,
+      quantity,
+      unitPrice: Number.parseFloat(unitPrice).toFixed(2),
+      taxable,
+    }),
+    onSuccess: () => {
+      invalidateInvoice(invoiceId);
+      toast({ title: 'Concepto agregado' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al agregar concepto', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const valid = description.trim() !== ''
+    && Number.parseFloat(quantity) > 0
+    && Number.parseFloat(unitPrice) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Agregar concepto</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label className="mb-2 block">Categoría</Label>
+            <Select value={category} onValueChange={(value) => changeCategory(value as ChargeCategory)}>
+              <SelectTrigger data-testid="select-charge-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {extraChargeCategories.map((value) => (
+                  <SelectItem key={value} value={value}>{chargeCategoryLabels[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="charge-description" className="mb-2 block">Descripción</Label>
+            <Input
+              id="charge-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              data-testid="input-charge-description"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="charge-quantity" className="mb-2 block">Cantidad</Label>
+              <Input
+                id="charge-quantity"
+                type="number"
+                step="0.001"
+                min="0"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                data-testid="input-charge-quantity"
+              />
+            </div>
+            <div>
+              <Label htmlFor="charge-unit-price" className="mb-2 block">Valor unitario</Label>
+              <Input
+                id="charge-unit-price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={unitPrice}
+                onChange={(e) => setUnitPrice(e.target.value)}
+                data-testid="input-charge-unit-price"
+              />
+            </div>
+          </div>
+          {category !== 'tax' && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="charge-taxable"
+                checked={taxable}
+                onCheckedChange={(checked) => setTaxable(checked === true)}
+                data-testid="checkbox-charge-taxable"
+              />
+              <Label htmlFor="charge-taxable">Gravado con IVA y retenciones</Label>
+            </div>
+          )}
+          {category === 'discount' && (
+            <p className="text-xs text-muted-foreground">El descuento se resta del subtotal de la factura.</p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => addMutation.mutate()}
+            disabled={!valid || addMutation.isPending}
+            data-testid="button-save-charge"
+          >
+            Agregar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function invalidateInvoice(invoiceId: string) {
+  queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoiceId}`] });
+  queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+}
+
+function CreditNoteDialog({
+  invoiceId,
+  maxAmount,
+  open,
+  onOpenChange,
+}: {
+  invoiceId: string;
+  maxAmount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [amount, setAmount] = useState('');
+  const [reasonCode, setReasonCode] = useState<CreditNoteReason>('billing_error');
+  const [reason, setReason] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/invoices/${invoiceId}/credit-notes`, {
+      amount: Number.parseFloat(amount).toFixed(2),
+      reasonCode,
+      reason,
+    }),
+    onSuccess: () => {
+      invalidateInvoice(invoiceId);
+      toast({ title: 'Nota crédito emitida' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al emitir nota crédito', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const value = Number.parseFloat(amount);
+  const valid = value > 0 && value <= maxAmount && reason.trim() !== '';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Emitir nota crédito</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Motivo</Label>
+              <Select value={reasonCode} onValueChange={(value) => setReasonCode(value as CreditNoteReason)}>
+                <SelectTrigger data-testid="select-credit-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(creditNoteReasonLabels) as CreditNoteReason[])
+                    .filter((code) => code !== 'void')
+                    .map((code) => (
+                      <SelectItem key={code} value={code}>{creditNoteReasonLabels[code]}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="credit-amount" className="mb-2 block">Valor</Label>
+              <Input
+                id="credit-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-credit-amount"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="credit-reason" className="mb-2 block">Detalle</Label>
+            <Input
+              id="credit-reason"
+              placeholder="Ej. Se facturó el parqueadero dos veces"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-credit-reason"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            La nota crédito reduce el saldo de la factura sin modificarla. Se puede acreditar hasta {new Intl.NumberFormat('es-CO', { style: 'currency', currency: 'COP', minimumFractionDigits: 0 }).format(maxAmount)}.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!valid || createMutation.isPending}
+            data-testid="button-save-credit-note"
+          >
+            Emitir
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function VoidInvoiceDialog({
+  invoiceId,
+  open,
+  onOpenChange,
+}: {
+  invoiceId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState('');
+
+  const voidMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/invoices/${invoiceId}/void`, { reason }),
+    onSuccess: () => {
+      invalidateInvoice(invoiceId);
+      toast({ title: 'Factura anulada' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al anular factura', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Anular factura</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="void-reason" className="mb-2 block">Motivo</Label>
+            <Input
+              id="void-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              data-testid="input-void-reason"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            La factura se conserva como anulada y su saldo se cancela con una nota crédito.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            variant="destructive"
+            onClick={() => voidMutation.mutate()}
+            disabled={!reason.trim() || voidMutation.isPending}
+            data-testid="button-confirm-void"
+          >
+            Anular
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PromiseToPayDialog({
+  invoiceId,
+  promisedPaymentDate,
+  promiseNote,
+  open,
+  onOpenChange,
+}: {
+  invoiceId: string;
+  promisedPaymentDate?: string | null;
+  promiseNote?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [date, setDate] = useState(promisedPaymentDate ?? '');
+  const [note, setNote] = useState(promiseNote ?? '');
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('PUT', `/api/invoices/${invoiceId}/promise-to-pay`, { promisedPaymentDate: date, promiseNote: note.trim() || null }),
+    onSuccess: () => {
+      invalidateInvoice(invoiceId);
+      toast({ title: 'Promesa de pago registrada' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al registrar promesa de pago', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Promesa de pago</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="promise-date" className="mb-2 block">Fecha prometida</Label>
+            <Input
+              id="promise-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              data-testid="input-promise-date"
+            />
+          </div>
+          <div>
+            <Label htmlFor="promise-note" className="mb-2 block">Nota</Label>
+            <Input
+              id="promise-note"
+              placeholder="Ej. Paga con la prima de junio"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              data-testid="input-promise-note"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Hasta esa fecha no se envían los pasos de cobranza que se detienen con una promesa de pago.
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!date || saveMutation.isPending}
+            data-testid="button-save-promise"
+          >
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export default function InvoiceDetailPage() {
   const [, params] = useRoute('/invoices/:id');
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { can } = useAuth();
   const invoiceId = params?.id;
+  const [chargeDialogOpen, setChargeDialogOpen] = useState(false);
+  const [creditDialogOpen, setCreditDialogOpen] = useState(false);
+  const [voidDialogOpen, setVoidDialogOpen] = useState(false);
+  const [promiseDialogOpen, setPromiseDialogOpen] = useState(false);
+  const [remindChannel, setRemindChannel] = useState<DunningChannel>('auto');
 
   const { data: invoice, isLoading } = useQuery<InvoiceDetail | null>({
     queryKey: [`/api/invoices/${invoiceId}`],
     enabled: !!invoiceId,
   });
 
+  const { data: dunningEvents = [] } = useQuery<DunningEvent[]>({
+    queryKey: [`/api/invoices/${invoiceId}/dunning`],
+    enabled: !!invoiceId && can('dunning:view'),
+  });
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: [`/api/invoices/${invoiceId}/notifications`],
+    enabled: !!invoiceId,
+  });
+
   const remindMutation = useMutation({
-    mutationFn: () => {
+    mutationFn: async (channel: DunningChannel) => {
       if (!invoiceId) {
         throw new Error('Invoice ID is required');
       }
-      return api.invoices.remind(invoiceId);
+      const res = await api.invoices.remind(invoiceId, channel);
+      return res.json() as Promise<{ channel: Notification['channel']; sentTo: string }>;
     },
-    onSuccess: () => {
+    onSuccess: (sent) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoiceId}/notifications`] });
       toast({
         title: 'Recordatorio enviado',
-        description: 'El recordatorio ha sido enviado exitosamente',
+        description: `Enviado por ${notificationChannelLabels[sent.channel]} a ${sent.sentTo}`,
       });
     },
     onError: (error: any) => {
@@ -69,6 +506,28 @@ export default function InvoiceDetailPage() {
     },
   });
 
+  const clearPromiseMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/invoices/${invoiceId}/promise-to-pay`),
+    onSuccess: () => {
+      invalidateInvoice(invoiceId!);
+      toast({ title: 'Promesa de pago eliminada' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar promesa de pago', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const removeChargeMutation = useMutation({
+    mutationFn: (chargeId: string) => apiRequest('DELETE', `/api/invoices/${invoiceId}/charges/${chargeId}`),
+    onSuccess: () => {
+      invalidateInvoice(invoiceId!);
+      toast({ title: 'Concepto eliminado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar concepto', description: error.message, variant: 'destructive' });
+    },
+  });
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -98,10 +557,18 @@ export default function InvoiceDetailPage() {
 
   const totalAmount = toNumber(invoice.totalAmount);
   const amountPaid = toNumber(invoice.amountPaid);
-  const balance = totalAmount - amountPaid;
+  const creditedAmount = toNumber(invoice.creditedAmount);
+  const balance = totalAmount - amountPaid - creditedAmount;
   const issueDate = invoice.issueDate ? new Date(invoice.issueDate).toLocaleDateString('es-ES') : '—';
   const dueDate = invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString('es-ES') : '—';
   const charges = invoice.charges ?? [];
+  const canEditCharges = can('invoices:update') && editableStatuses.includes(invoice.status ?? '');
+  const creditNotes = invoice.creditNotes ?? [];
+  const canIssueCredit = can('invoices:credit') && creditableStatuses.includes(invoice.status ?? '') && totalAmount - creditedAmount > 0;
+  // Invoices with payments are corrected with credit notes instead
+  const canVoid = can('invoices:void') && creditableStatuses.includes(invoice.status ?? '') && amountPaid === 0;
+  const canPromise = can('invoices:remind') && openStatuses.includes(invoice.status ?? '');
+  const promisedDate = invoice.promisedPaymentDate ? new Date(invoice.promisedPaymentDate).toLocaleDateString('es-ES') : null;
 
   return (
     <div className="flex h-screen overflow-hidden">
@@ -129,122 +596,380 @@ export default function InvoiceDetailPage() {
                     <i className="fas fa-download mr-2"></i>
                     Descargar PDF
                   </Button>
+                  <Select value={remindChannel} onValueChange={(value) => setRemindChannel(value as DunningChannel)}>
+                    <SelectTrigger className="w-[140px]" data-testid="select-remind-channel">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(dunningChannelLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <Button
                     variant="outline"
-                    onClick={() => remindMutation.mutate()}
+                    onClick={() => remindMutation.mutate(remindChannel)}
                     disabled={remindMutation.isPending}
                     data-testid="button-remind"
                   >
                     <i className="fas fa-paper-plane mr-2"></i>
                     Enviar recordatorio
                   </Button>
+                  {canIssueCredit && (
+                    <Button variant="outline" onClick={() => setCreditDialogOpen(true)} data-testid="button-credit-note">
+                      <i className="fas fa-file-invoice-dollar mr-2"></i>
+                      Nota crédito
+                    </Button>
+                  )}
+                  {canVoid && (
+                    <Button variant="outline" onClick={() => setVoidDialogOpen(true)} data-testid="button-void">
+                      <i className="fas fa-ban mr-2"></i>
+                      Anular
+                    </Button>
+                  )}
                 </div>
               </div>
             </div>
 
-            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              <div className="lg:col-span-2 space-y-6">
-                <div className="bg-card rounded-lg border border-border p-6">
-                  <h3 className="text-sm font-semibold mb-3">Información de la factura</h3>
-                  <div className="grid grid-cols-2 gap-6">
-                    <div>
-                      <p className="text-sm text-muted-foreground mb-1">Inquilino</p>
-                      <p className="font-medium">{invoice.tenantContact?.fullName ?? '—'}</p>
-                      <p className="text-sm text-muted-foreground">{invoice.tenantContact?.email ?? '—'}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground mb-1">Propiedad</p>
-                      <p className="font-medium">{invoice.contract?.property?.name ?? '—'}</p>
-                      <p className="text-sm text-muted-foreground">{invoice.contract?.property?.address ?? '—'}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground mb-1">Fecha de emisión</p>
-                      <p className="font-semibold">{issueDate}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground mb-1">Fecha de vencimiento</p>
-                      <p className="font-semibold">{dueDate}</p>
-                    </div>
-                  </div>
-                </div>
+            <Tabs defaultValue="details">
+              {can('audit:view') && (
+                <TabsList className="mb-6">
+                  <TabsTrigger value="details" data-testid="tab-details">Detalle</TabsTrigger>
+                  <TabsTrigger value="history" data-testid="tab-history">Historial</TabsTrigger>
+                </TabsList>
+              )}
 
-                <div className="bg-card rounded-lg border border-border p-6">
-                  <h3 className="text-sm font-semibold mb-3">Conceptos facturados</h3>
-                  <div className="space-y-3">
-                    {charges.map(charge => (
-                      <div key={charge.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+              <TabsContent value="details">
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                  <div className="lg:col-span-2 space-y-6">
+                    <div className="bg-card rounded-lg border border-border p-6">
+                      <h3 className="text-sm font-semibold mb-3">Información de la factura</h3>
+                      <div className="grid grid-cols-2 gap-6">
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Inquilino</p>
+                          <p className="font-medium">{invoice.tenantContact?.fullName ?? '—'}</p>
+                          <p className="text-sm text-muted-foreground">{invoice.tenantContact?.email ?? '—'}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Propiedad</p>
+                          <p className="font-medium">{invoice.contract?.property?.name ?? '—'}</p>
+                          <p className="text-sm text-muted-foreground">{invoice.contract?.property?.address ?? '—'}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Fecha de emisión</p>
+                          <p className="font-semibold">{issueDate}</p>
+                        </div>
                         <div>
-                          <p className="font-medium">{charge.description}</p>
+                          <p className="text-sm text-muted-foreground mb-1">Fecha de vencimiento</p>
+                          <p className="font-semibold">{dueDate}</p>
                         </div>
-                        <p className="font-mono font-semibold">{formatCurrency(toNumber(charge.amount))}</p>
                       </div>
-                    ))}
-                  </div>
+                    </div>
 
-                  <div className="mt-6 pt-6 border-t border-border space-y-2">
-                    <div className="flex items-center justify-between text-sm">
-                      <p className="text-muted-foreground">Subtotal</p>
-                      <p className="font-mono">{formatCurrency(toNumber(invoice.subtotal))}</p>
+                    <div className="bg-card rounded-lg border border-border p-6">
+                      <div className="flex items-center justify-between mb-3">
+                        <h3 className="text-sm font-semibold">Conceptos facturados</h3>
+                        {canEditCharges && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setChargeDialogOpen(true)}
+                            data-testid="button-add-charge"
+                          >
+                            <Plus className="h-4 w-4 mr-2" />
+                            Agregar concepto
+                          </Button>
+                        )}
+                      </div>
+                      <div className="space-y-3">
+                        {charges.map(charge => (
+                          <div key={charge.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                            <div>
+                              <p className="text-xs text-muted-foreground">{chargeCategoryLabels[charge.category] ?? charge.category}</p>
+                              <p className="font-medium">{charge.description}</p>
+                              {charge.quantity && charge.unitPrice && (
+                                <p className="text-xs text-muted-foreground">
+                                  {toNumber(charge.quantity)} × {formatCurrency(toNumber(charge.unitPrice))}
+                                </p>
+                              )}
+                              {(toNumber(charge.taxAmount) !== 0 || toNumber(charge.withholdingAmount) !== 0) && (
+                                <p className="text-xs text-muted-foreground">
+                                  IVA {formatCurrency(toNumber(charge.taxAmount))} · Retenciones {formatCurrency(toNumber(charge.withholdingAmount))}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <p className="font-mono font-semibold">{formatCurrency(toNumber(charge.amount))}</p>
+                              {canEditCharges && charge.sourceType === 'manual' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => removeChargeMutation.mutate(charge.id)}
+                                  disabled={removeChargeMutation.isPending}
+                                  data-testid={`button-delete-charge-${charge.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="mt-6 pt-6 border-t border-border space-y-2">
+                        <div className="flex items-center justify-between text-sm">
+                          <p className="text-muted-foreground">Subtotal</p>
+                          <p className="font-mono">{formatCurrency(toNumber(invoice.subtotal))}</p>
+                        </div>
+                        {toNumber(invoice.otherCharges) !== 0 && (
+                          <div className="flex items-center justify-between text-sm">
+                            <p className="text-muted-foreground">Servicios públicos</p>
+                            <p className="font-mono">{formatCurrency(toNumber(invoice.otherCharges))}</p>
+                          </div>
+                        )}
+                        {toNumber(invoice.tax) !== 0 && (
+                          <div className="flex items-center justify-between text-sm">
+                            <p className="text-muted-foreground">IVA</p>
+                            <p className="font-mono">{formatCurrency(toNumber(invoice.tax))}</p>
+                          </div>
+                        )}
+                        {toNumber(invoice.lateFee) > 0 && (
+                          <div className="flex items-center justify-between text-sm">
+                            <p className="text-destructive">Mora</p>
+                            <p className="font-mono text-destructive">{formatCurrency(toNumber(invoice.lateFee))}</p>
+                          </div>
+                        )}
+                        {toNumber(invoice.withholdings) !== 0 && (
+                          <div className="flex items-center justify-between text-sm">
+                            <p className="text-muted-foreground">Retenciones</p>
+                            <p className="font-mono">−{formatCurrency(toNumber(invoice.withholdings))}</p>
+                          </div>
+                        )}
+                        <div className="flex items-center justify-between text-lg font-bold pt-3 border-t border-border">
+                          <p>Total</p>
+                          <p className="font-mono">{formatCurrency(totalAmount)}</p>
+                        </div>
+                      </div>
                     </div>
-                    {toNumber(invoice.lateFee) > 0 && (
-                      <div className="flex items-center justify-between text-sm">
-                        <p className="text-destructive">Mora</p>
-                        <p className="font-mono text-destructive">{formatCurrency(toNumber(invoice.lateFee))}</p>
+
+                    {creditNotes.length > 0 && (
+                      <div className="bg-card rounded-lg border border-border p-6" data-testid="card-credit-notes">
+                        <h3 className="text-sm font-semibold mb-3">Notas crédito</h3>
+                        <div className="space-y-3">
+                          {creditNotes.map((note) => (
+                            <div key={note.id} className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+                              <div>
+                                <p className="font-medium font-mono">{note.number}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {new Date(note.issueDate).toLocaleDateString('es-ES')} · {creditNoteReasonLabels[note.reasonCode] ?? note.reasonCode}: {note.reason}
+                                </p>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <p className="font-mono font-semibold">−{formatCurrency(toNumber(note.amount))}</p>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => window.open(`/api/credit-notes/${note.id}/pdf`, '_blank')}
+                                  data-testid={`button-download-credit-note-${note.id}`}
+                                >
+                                  <i className="fas fa-download"></i>
+                                </Button>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
                       </div>
                     )}
-                    <div className="flex items-center justify-between text-lg font-bold pt-3 border-t border-border">
-                      <p>Total</p>
-                      <p className="font-mono">{formatCurrency(totalAmount)}</p>
+
+                    <div className="bg-card rounded-lg border border-border p-6" data-testid="card-notifications">
+                      <h3 className="text-sm font-semibold mb-3">Comunicaciones</h3>
+                      {notifications.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No se han enviado comunicaciones de esta factura</p>
+                      ) : (
+                        <ol className="relative border-l border-border ml-2 space-y-4" data-testid="list-notifications">
+                          {notifications.map((notification) => (
+                            <li key={notification.id} className="ml-4">
+                              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-muted-foreground/40" />
+                              <div className="flex items-center justify-between gap-2">
+                                <p className="font-medium truncate">{notificationTemplateLabels[notification.template]}</p>
+                                <span className={`px-2 py-0.5 rounded-full text-xs ${notificationStatusColors[notification.status]}`}>
+                                  {notification.deliveredAt ? 'Entregado' : notificationStatusLabels[notification.status]}
+                                </span>
+                              </div>
+                              <p className="text-xs text-muted-foreground">
+                                {new Date(notification.createdAt).toLocaleString('es-ES')} · {notification.recipient}
+                                {' · '}{notificationChannelLabels[notification.channel]}
+                                {notification.transport && ` (${emailTransportLabels[notification.transport]})`}
+                                {notification.provider && ` (${messagingProviderLabels[notification.provider]})`}
+                              </p>
+                              <p className="text-xs text-muted-foreground truncate">{notification.subject}</p>
+                              {notification.error && <p className="text-xs text-destructive">{notification.error}</p>}
+                            </li>
+                          ))}
+                        </ol>
+                      )}
                     </div>
                   </div>
-                </div>
-              </div>
 
-              <div className="space-y-6">
-                <div className="bg-card rounded-lg border border-border p-6">
-                  <h3 className="font-semibold mb-4">Estado de pago</h3>
-                  <div className="space-y-4">
-                    <div>
-                      <p className="text-sm text-muted-foreground mb-1">Total facturado</p>
-                      <p className="text-2xl font-bold font-mono">{formatCurrency(totalAmount)}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground mb-1">Total pagado</p>
-                      <p className="text-2xl font-bold font-mono text-success">
-                        {formatCurrency(amountPaid)}
-                      </p>
-                    </div>
-                    <div className="pt-4 border-t border-border">
-                      <p className="text-sm text-muted-foreground mb-1">Saldo pendiente</p>
-                      <p className="text-3xl font-bold font-mono text-destructive">{formatCurrency(balance)}</p>
+                  <div className="space-y-6">
+                    <div className="bg-card rounded-lg border border-border p-6">
+                      <h3 className="font-semibold mb-4">Estado de pago</h3>
+                      <div className="space-y-4">
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Total facturado</p>
+                          <p className="text-2xl font-bold font-mono">{formatCurrency(totalAmount)}</p>
+                        </div>
+                        <div>
+                          <p className="text-sm text-muted-foreground mb-1">Total pagado</p>
+                          <p className="text-2xl font-bold font-mono text-success">
+                            {formatCurrency(amountPaid)}
+                          </p>
+                        </div>
+                        {creditedAmount > 0 && (
+                          <div>
+                            <p className="text-sm text-muted-foreground mb-1">Notas crédito</p>
+                            <p className="text-2xl font-bold font-mono">{formatCurrency(creditedAmount)}</p>
+                          </div>
+                        )}
+                        <div className="pt-4 border-t border-border">
+                          <p className="text-sm text-muted-foreground mb-1">Saldo pendiente</p>
+                          <p className="text-3xl font-bold font-mono text-destructive">{formatCurrency(balance)}</p>
+                        </div>
+                      </div>
                     </div>
+
+                    {invoice.status === 'void' && (
+                      <div className="bg-muted border border-border rounded-lg p-6">
+                        <div className="flex items-start gap-3">
+                          <i className="fas fa-ban text-muted-foreground text-xl mt-1"></i>
+                          <div>
+                            <h4 className="font-semibold mb-1">Factura anulada</h4>
+                            <p className="text-sm text-muted-foreground">Se conserva para el historial y no admite pagos.</p>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {invoice.status === 'overdue' && (
+                      <div className="bg-destructive/5 border border-destructive/20 rounded-lg p-6">
+                        <div className="flex items-start gap-3">
+                          <i className="fas fa-exclamation-triangle text-destructive text-xl mt-1"></i>
+                          <div>
+                            <h4 className="font-semibold mb-1">Factura vencida</h4>
+                            <p className="text-sm text-muted-foreground mb-3">Esta factura está vencida</p>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              className="w-full"
+                              onClick={() => remindMutation.mutate(remindChannel)}
+                              disabled={remindMutation.isPending}
+                              data-testid="button-remind-overdue"
+                            >
+                              <i className="fas fa-paper-plane mr-2"></i>
+                              Enviar recordatorio
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
+                    {(canPromise || invoice.promisedPaymentDate || can('dunning:view')) && (
+                      <div className="bg-card rounded-lg border border-border p-6" data-testid="card-dunning">
+                        <h3 className="font-semibold mb-4">Cobranza</h3>
+                        <div className="mb-4">
+                          <p className="text-sm text-muted-foreground mb-1">Promesa de pago</p>
+                          {promisedDate ? (
+                            <div data-testid="text-promise">
+                              <p className="font-medium">{promisedDate}</p>
+                              {invoice.promiseNote && <p className="text-xs text-muted-foreground">{invoice.promiseNote}</p>}
+                            </div>
+                          ) : (
+                            <p className="text-sm">Sin promesa</p>
+                          )}
+                          {canPromise && (
+                            <div className="flex gap-2 mt-2">
+                              <Button variant="outline" size="sm" onClick={() => setPromiseDialogOpen(true)} data-testid="button-promise">
+                                {promisedDate ? 'Cambiar' : 'Registrar'}
+                              </Button>
+                              {promisedDate && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => clearPromiseMutation.mutate()}
+                                  disabled={clearPromiseMutation.isPending}
+                                  data-testid="button-clear-promise"
+                                >
+                                  Quitar
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                        {can('dunning:view') && (
+                          <div className="pt-4 border-t border-border">
+                            <p className="text-sm text-muted-foreground mb-2">Pasos enviados</p>
+                            {dunningEvents.length === 0 ? (
+                              <p className="text-sm">Ningún paso enviado todavía</p>
+                            ) : (
+                              <div className="space-y-2" data-testid="list-dunning-events">
+                                {dunningEvents.map((event) => (
+                                  <div key={event.id} className="text-sm">
+                                    <div className="flex items-center justify-between gap-2">
+                                      <span className="font-medium truncate">{event.stepName}</span>
+                                      <span className={`px-2 py-0.5 rounded-full text-xs ${dunningEventStatusColors[event.status]}`}>
+                                        {dunningEventStatusLabels[event.status]}
+                                      </span>
+                                    </div>
+                                    <p className="text-xs text-muted-foreground">
+                                      {new Date(event.firedAt).toLocaleString('es-ES')} · {dunningRecipientLabels[event.recipient]} · {dunningChannelLabels[event.channel]}
+                                      {event.sentTo ? ` · ${event.sentTo}` : ''}
+                                    </p>
+                                    {event.error && <p className="text-xs text-destructive">{event.error}</p>}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
+              </TabsContent>
 
-                {invoice.status === 'overdue' && (
-                  <div className="bg-destructive/5 border border-destructive/20 rounded-lg p-6">
-                    <div className="flex items-start gap-3">
-                      <i className="fas fa-exclamation-triangle text-destructive text-xl mt-1"></i>
-                      <div>
-                        <h4 className="font-semibold mb-1">Factura vencida</h4>
-                        <p className="text-sm text-muted-foreground mb-3">Esta factura está vencida</p>
-                        <Button
-                          variant="destructive"
-                          size="sm"
-                          className="w-full"
-                          onClick={() => remindMutation.mutate()}
-                          disabled={remindMutation.isPending}
-                          data-testid="button-remind-overdue"
-                        >
-                          <i className="fas fa-paper-plane mr-2"></i>
-                          Enviar recordatorio D+1
-                        </Button>
-                      </div>
-                    </div>
+              {can('audit:view') && (
+                <TabsContent value="history">
+                  <div className="bg-card rounded-lg border border-border p-6">
+                    <h3 className="text-sm font-semibold mb-4">Historial de cambios</h3>
+                    <AuditHistory entity="invoice" entityId={invoice.id} />
                   </div>
-                )}
-              </div>
-            </div>
+                </TabsContent>
+              )}
+            </Tabs>
+
+            {canEditCharges && chargeDialogOpen && invoiceId && (
+              <AddChargeDialog invoiceId={invoiceId} open={chargeDialogOpen} onOpenChange={setChargeDialogOpen} />
+            )}
+            {canIssueCredit && creditDialogOpen && invoiceId && (
+              <CreditNoteDialog
+                invoiceId={invoiceId}
+                maxAmount={totalAmount - creditedAmount}
+                open={creditDialogOpen}
+                onOpenChange={setCreditDialogOpen}
+              />
+            )}
+            {canPromise && promiseDialogOpen && invoiceId && (
+              <PromiseToPayDialog
+                invoiceId={invoiceId}
+                promisedPaymentDate={invoice.promisedPaymentDate}
+                promiseNote={invoice.promiseNote}
+                open={promiseDialogOpen}
+                onOpenChange={setPromiseDialogOpen}
+              />
+            )}
+            {canVoid && voidDialogOpen && invoiceId && (
+              <VoidInvoiceDialog invoiceId={invoiceId} open={voidDialogOpen} onOpenChange={setVoidDialogOpen} />
+            )}
           </div>
         </main>
       </div>
@@ -34,6 +34,7 @@ const formSchema = insertInvoiceSchema.omit({ tenantId: true }).extend({
   dueDate: z.string().min(1, "La fecha de vencimiento es requerida"),
   subtotal: z.string().min(1, "El subtotal es requerido"),
   tax: z.string().optional().or(z.literal('')),
+  withholdings: z.string().optional().or(z.literal('')),
   otherCharges: z.string().optional().or(z.literal('')),
   lateFee: z.string().optional().or(z.literal('')),
   totalAmount: z.string().min(1, "El total es requerido"),
@@ -74,6 +75,7 @@ function InvoiceFormDialog({
       dueDate: invoice?.dueDate || '',
       subtotal: invoice?.subtotal || '',
       tax: invoice?.tax || '',
+      withholdings: invoice?.withholdings || '',
       otherCharges: invoice?.otherCharges || '',
       lateFee: invoice?.lateFee || '',
       totalAmount: invoice?.totalAmount || '',
@@ -86,11 +88,12 @@ function InvoiceFormDialog({
   const tax = parseFloat(form.watch('tax') || '0') || 0;
   const otherCharges = parseFloat(form.watch('otherCharges') || '0') || 0;
   const lateFee = parseFloat(form.watch('lateFee') || '0') || 0;
+  const withholdings = parseFloat(form.watch('withholdings') || '0') || 0;
 
   useEffect(() => {
-    const total = subtotal + tax + otherCharges + lateFee;
+    const total = subtotal + tax + otherCharges + lateFee - withholdings;
     form.setValue('totalAmount', total.toString());
-  }, [subtotal, tax, otherCharges, lateFee, form]);
+  }, [subtotal, tax, otherCharges, lateFee, withholdings, form]);
 
   const createMutation = useMutation({
     mutationFn: (data: FormData) => {
@@ -98,6 +101,7 @@ function InvoiceFormDialog({
         ...data,
         subtotal: Math.abs(parseFloat(data.subtotal || '0')).toString(),
         tax: Math.abs(parseFloat(data.tax || '0')).toString(),
+        withholdings: Math.abs(parseFloat(data.withholdings || '0')).toString(),
         otherCharges: Math.abs(parseFloat(data.otherCharges || '0')).toString(),
         lateFee: Math.abs(parseFloat(data.lateFee || '0')).toString(),
         totalAmount: Math.abs(parseFloat(data.totalAmount || '0')).toString(),
@@ -122,6 +126,7 @@ function InvoiceFormDialog({
         ...data,
         subtotal: Math.abs(parseFloat(data.subtotal || '0')).toString(),
         tax: Math.abs(parseFloat(data.tax || '0')).toString(),
+        withholdings: Math.abs(parseFloat(data.withholdings || '0')).toString(),
         otherCharges: Math.abs(parseFloat(data.otherCharges || '0')).toString(),
         lateFee: Math.abs(parseFloat(data.lateFee || '0')).toString(),
         totalAmount: Math.abs(parseFloat(data.totalAmount || '0')).toString(),
@@ -198,7 +203,6 @@ function InvoiceFormDialog({
                         <SelectItem value="draft">Borrador</SelectItem>
                         <SelectItem value="issued">Emitida</SelectItem>
                         <SelectItem value="partial">Parcial</SelectItem>
-                        <SelectItem value="paid">Pagada</SelectItem>
                         <SelectItem value="overdue">Vencida</SelectItem>
                       </SelectContent>
                     </Select>
@@ -318,7 +322,7 @@ function InvoiceFormDialog({
               />
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
+            <div className="grid grid-cols-3 gap-4">
               <FormField
                 control={form.control}
                 name="otherCharges"
@@ -346,6 +350,20 @@ function InvoiceFormDialog({
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="withholdings"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Retenciones</FormLabel>
+                    <FormControl>
+                      <Input type="number" placeholder="0" {...field} data-testid="input-withholdings" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -641,6 +659,8 @@ export default function InvoicesPage() {
                                   ? 'bg-destructive/10 text-destructive'
                                   : invoice.status === 'partial'
                                   ? 'bg-primary/10 text-primary'
+                                  : invoice.status === 'void'
+                                  ? 'bg-muted text-muted-foreground'
                                   : 'bg-warning/10 text-warning'
                               }`}
                             >
@@ -650,6 +670,8 @@ export default function InvoicesPage() {
                                 ? 'Vencida'
                                 : invoice.status === 'partial'
                                 ? 'Parcial'
+                                : invoice.status === 'void'
+                                ? 'Anulada'
                                 : 'Emitida'}
                             </span>
                           </td>
@@ -668,14 +690,17 @@ export default function InvoicesPage() {
                               >
                                 <Pencil className="w-4 h-4" />
                               </Button>
-                              <Button 
-                                variant="ghost" 
-                                size="sm"
-                                onClick={() => setDeleteInvoice(invoice)}
-                                data-testid={`button-delete-${invoice.id}`}
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </Button>
+                              {/* Issued invoices are voided or credited from their detail page */}
+                              {invoice.status === 'draft' && (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm"
+                                  onClick={() => setDeleteInvoice(invoice)}
+                                  data-testid={`button-delete-${invoice.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              )}
                             </div>
                           </td>
                         </tr>
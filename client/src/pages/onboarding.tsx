@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { useLocation } from 'wouter';
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
@@ -7,18 +8,45 @@ import { Label } from '@/components/ui/label';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import logoPath from '@assets/logo_soda (1)_1759330032096.png';
 
+type InvitationPreview = {
+  email: string;
+  role: 'owner' | 'admin' | 'collections';
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  expiresAt: string;
+  tenantName: string | null;
+};
+
+const roleLabels: Record<InvitationPreview['role'], string> = {
+  owner: 'Propietario',
+  admin: 'Administrador',
+  collections: 'Cobranza',
+};
+
+const invitationErrors: Record<Exclude<InvitationPreview['status'], 'pending'>, string> = {
+  accepted: 'Esta invitación ya fue utilizada',
+  revoked: 'Esta invitación fue revocada',
+  expired: 'Esta invitación ha expirado. Pide una nueva al administrador de tu empresa',
+};
+
 export default function OnboardingPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [companyName, setCompanyName] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [invitationToken, setInvitationToken] = useState(
+    () => new URLSearchParams(window.location.search).get('invite'),
+  );
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const { data: invitation, isLoading: isLoadingInvitation, isError: invitationNotFound } = useQuery<InvitationPreview>({
+    queryKey: [`/api/invitations/${invitationToken}`],
+    enabled: !!invitationToken,
+  });
+
+  const onboard = async (body: { companyName?: string; invitationToken?: string }) => {
     setIsLoading(true);
 
     try {
-      await apiRequest('POST', '/api/auth/onboard', { companyName });
+      await apiRequest('POST', '/api/auth/onboard', body);
 
       // Invalidate user query to refresh data
       await queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
@@ -40,6 +68,16 @@ export default function OnboardingPage() {
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onboard({ companyName });
+  };
+
+  const handleAcceptInvitation = () => {
+    if (!invitationToken) return;
+    onboard({ invitationToken });
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 px-4 py-8">
       <div className="w-full max-w-md">
@@ -51,7 +89,49 @@ export default function OnboardingPage() {
           <p className="text-gray-600">Solo un paso más para comenzar</p>
         </div>
 
-        <div className="bg-white rounded-xl shadow-xl p-8 border border-gray-200">
+        {invitationToken && (
+          <div className="bg-white rounded-xl shadow-xl p-8 border border-gray-200 mb-6">
+            {isLoadingInvitation ? (
+              <div className="flex justify-center">
+                <div className="animate-spin w-6 h-6 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : invitationNotFound || !invitation ? (
+              <p className="text-sm text-gray-600" data-testid="text-invitation-error">
+                La invitación no es válida.
+              </p>
+            ) : invitation.status !== 'pending' ? (
+              <p className="text-sm text-gray-600" data-testid="text-invitation-error">
+                {invitationErrors[invitation.status]}
+              </p>
+            ) : (
+              <div className="space-y-4">
+                <p className="text-gray-900">
+                  Te invitaron a unirte a <strong>{invitation.tenantName}</strong> como{' '}
+                  <strong>{roleLabels[invitation.role]}</strong>.
+                </p>
+                <p className="text-sm text-gray-500">Invitación enviada a {invitation.email}</p>
+                <Button
+                  className="w-full"
+                  onClick={handleAcceptInvitation}
+                  disabled={isLoading}
+                  data-testid="button-accept-invitation"
+                >
+                  {isLoading ? 'Uniéndote...' : `Unirme a ${invitation.tenantName}`}
+                </Button>
+              </div>
+            )}
+            <button
+              type="button"
+              className="mt-4 text-sm text-gray-500 underline"
+              onClick={() => setInvitationToken(null)}
+              data-testid="button-ignore-invitation"
+            >
+              Crear mi propia empresa en su lugar
+            </button>
+          </div>
+        )}
+
+        <div className={`bg-white rounded-xl shadow-xl p-8 border border-gray-200 ${invitationToken ? 'hidden' : ''}`}>
           <form onSubmit={handleSubmit} className="space-y-6">
             <div>
               <Label htmlFor="companyName">Nombre de tu empresa u organización</Label>
@@ -0,0 +1,600 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useRoute, useLocation, Link } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Download, Mail, Plus, Trash2 } from 'lucide-react';
+import type { OwnerDisbursement, Property } from '@shared/schema';
+
+type OwnerStatement = {
+  owner: { id: string; fullName: string; email: string | null; docType: string | null; docNumber: string | null };
+  year: number;
+  month: number;
+  from: string;
+  to: string;
+  periodLabel: string;
+  openingBalance: string;
+  collected: string;
+  fees: string;
+  expenses: string;
+  netAmount: string;
+  disbursed: string;
+  closingBalance: string;
+  collections: {
+    paymentId: string;
+    paymentDate: string;
+    invoiceId: string;
+    invoiceNumber: string;
+    contractNumber: string;
+    propertyName: string;
+    paymentAmount: string;
+    amount: string;
+    feeRate: string;
+    fee: string;
+  }[];
+  expenseItems: { id: string; expenseDate: string; description: string; propertyName: string | null; amount: string }[];
+  disbursements: OwnerDisbursement[];
+};
+
+const disbursementMethods = ['transferencia', 'cheque', 'efectivo'];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+function invalidateOwner(ownerId: string) {
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith(`/api/owners/${ownerId}`) });
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/owner-statements') });
+}
+
+function ExpenseDialog({
+  ownerId,
+  open,
+  onOpenChange,
+}: {
+  ownerId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [expenseDate, setExpenseDate] = useState(toDateString(new Date()));
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [propertyId, setPropertyId] = useState('none');
+
+  const { data: properties = [] } = useQuery<Property[]>({
+    queryKey: ['/api/properties'],
+    enabled: open,
+  });
+  const ownerProperties = properties.filter((property) => property.ownerContactId === ownerId);
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/owners/${ownerId}/expenses`, {
+      expenseDate,
+      description,
+      amount: Number.parseFloat(amount).toFixed(2),
+      propertyId: propertyId === 'none' ? null : propertyId,
+    }),
+    onSuccess: () => {
+      invalidateOwner(ownerId);
+      toast({ title: 'Gasto registrado' });
+      setDescription('');
+      setAmount('');
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al registrar gasto', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const valid = !!expenseDate && description.trim() !== '' && Number.parseFloat(amount) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Registrar gasto del propietario</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="expense-date" className="mb-2 block">Fecha</Label>
+              <Input
+                id="expense-date"
+                type="date"
+                value={expenseDate}
+                onChange={(e) => setExpenseDate(e.target.value)}
+                data-testid="input-expense-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="expense-amount" className="mb-2 block">Valor</Label>
+              <Input
+                id="expense-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-expense-amount"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="expense-description" className="mb-2 block">Descripción</Label>
+            <Input
+              id="expense-description"
+              placeholder="Ej. Impuesto predial, reparación de plomería"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              data-testid="input-expense-description"
+            />
+          </div>
+          <div>
+            <Label className="mb-2 block">Propiedad</Label>
+            <Select value={propertyId} onValueChange={setPropertyId}>
+              <SelectTrigger data-testid="select-expense-property">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Sin propiedad</SelectItem>
+                {ownerProperties.map((property) => (
+                  <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!valid || createMutation.isPending}
+            data-testid="button-save-expense"
+          >
+            Registrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DisbursementDialog({
+  ownerId,
+  suggestedAmount,
+  open,
+  onOpenChange,
+}: {
+  ownerId: string;
+  suggestedAmount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [disbursementDate, setDisbursementDate] = useState(toDateString(new Date()));
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState('transferencia');
+  const [reference, setReference] = useState('');
+
+  const createMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/owners/${ownerId}/disbursements`, {
+      disbursementDate,
+      amount: Number.parseFloat(amount).toFixed(2),
+      method,
+      reference: reference.trim() || null,
+    }),
+    onSuccess: () => {
+      invalidateOwner(ownerId);
+      toast({ title: 'Giro registrado' });
+      setAmount('');
+      setReference('');
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al registrar giro', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const valid = !!disbursementDate && Number.parseFloat(amount) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Registrar giro al propietario</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="disbursement-date" className="mb-2 block">Fecha</Label>
+              <Input
+                id="disbursement-date"
+                type="date"
+                value={disbursementDate}
+                onChange={(e) => setDisbursementDate(e.target.value)}
+                data-testid="input-disbursement-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="disbursement-amount" className="mb-2 block">Valor</Label>
+              <Input
+                id="disbursement-amount"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder={suggestedAmount > 0 ? suggestedAmount.toFixed(2) : ''}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-disbursement-amount"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-2 block">Método</Label>
+              <Select value={method} onValueChange={setMethod}>
+                <SelectTrigger data-testid="select-disbursement-method">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {disbursementMethods.map((value) => (
+                    <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="disbursement-reference" className="mb-2 block">Referencia</Label>
+              <Input
+                id="disbursement-reference"
+                placeholder="Nº de transferencia o cheque"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                data-testid="input-disbursement-reference"
+              />
+            </div>
+          </div>
+          {suggestedAmount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Saldo pendiente por girar: {formatCurrency(suggestedAmount)}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!valid || createMutation.isPending}
+            data-testid="button-save-disbursement"
+          >
+            Registrar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function OwnerStatementPage() {
+  const [, params] = useRoute('/owners/:id');
+  const [, setLocation] = useLocation();
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const ownerId = params?.id ?? '';
+
+  const [period, setPeriod] = useState(
+    () => new URLSearchParams(window.location.search).get('period') ?? new Date().toISOString().slice(0, 7),
+  );
+  const [expenseOpen, setExpenseOpen] = useState(false);
+  const [disbursementOpen, setDisbursementOpen] = useState(false);
+
+  const [year, month] = period.split('-');
+  const statementUrl = `/api/owners/${ownerId}/statements/${year}/${Number(month)}`;
+  const canManage = can('owners:manage');
+
+  const { data: statement, isLoading, error } = useQuery<OwnerStatement>({
+    queryKey: [statementUrl],
+    enabled: !!ownerId && !!year && !!month,
+  });
+
+  const emailMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `${statementUrl}/email`),
+    onSuccess: () => {
+      toast({ title: 'Liquidación enviada', description: `Se envió a ${statement?.owner.email}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al enviar liquidación', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteExpenseMutation = useMutation({
+    mutationFn: (expenseId: string) => apiRequest('DELETE', `/api/owners/${ownerId}/expenses/${expenseId}`),
+    onSuccess: () => {
+      invalidateOwner(ownerId);
+      toast({ title: 'Gasto eliminado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar gasto', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteDisbursementMutation = useMutation({
+    mutationFn: (disbursementId: string) => apiRequest('DELETE', `/api/owners/${ownerId}/disbursements/${disbursementId}`),
+    onSuccess: () => {
+      invalidateOwner(ownerId);
+      toast({ title: 'Giro eliminado' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar giro', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const closingBalance = statement ? parseFloat(statement.closingBalance) : 0;
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-7xl mx-auto space-y-6">
+            <div>
+              <Button variant="ghost" onClick={() => setLocation('/owners')} className="mb-4" data-testid="button-back">
+                <i className="fas fa-arrow-left mr-2"></i>
+                Volver a propietarios
+              </Button>
+              <div className="flex items-start justify-between">
+                <div>
+                  <h1 className="text-3xl font-bold mb-2">Liquidación a propietario</h1>
+                  <p className="text-muted-foreground">
+                    {statement?.owner.fullName ?? '—'}
+                    {statement?.owner.docNumber ? ` · ${statement.owner.docType ?? ''} ${statement.owner.docNumber}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-end gap-2">
+                  <div>
+                    <Label htmlFor="owner-statement-period" className="mb-2 block">Periodo</Label>
+                    <Input
+                      id="owner-statement-period"
+                      type="month"
+                      value={period}
+                      onChange={(e) => setPeriod(e.target.value)}
+                      data-testid="input-owner-statement-period"
+                    />
+                  </div>
+                  <Button
+                    variant="outline"
+                    onClick={() => window.open(`${statementUrl}/pdf`, '_blank')}
+                    disabled={!statement}
+                    data-testid="button-download-pdf"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    PDF
+                  </Button>
+                  {canManage && (
+                    <Button
+                      onClick={() => emailMutation.mutate()}
+                      disabled={!statement?.owner.email || emailMutation.isPending}
+                      data-testid="button-email-owner-statement"
+                    >
+                      <Mail className="w-4 h-4 mr-2" />
+                      {emailMutation.isPending ? 'Enviando...' : 'Enviar por email'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : error || !statement ? (
+              <div className="text-center py-12 text-muted-foreground">
+                {error ? 'No se pudo cargar la liquidación' : ''}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">Saldo anterior</p>
+                    <p className="text-lg font-bold font-mono">{formatCurrency(parseFloat(statement.openingBalance))}</p>
+                  </div>
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">Recaudado</p>
+                    <p className="text-lg font-bold font-mono">{formatCurrency(parseFloat(statement.collected))}</p>
+                  </div>
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">Comisión</p>
+                    <p className="text-lg font-bold font-mono">-{formatCurrency(parseFloat(statement.fees))}</p>
+                  </div>
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">Gastos</p>
+                    <p className="text-lg font-bold font-mono">-{formatCurrency(parseFloat(statement.expenses))}</p>
+                  </div>
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">Girado</p>
+                    <p className="text-lg font-bold font-mono">-{formatCurrency(parseFloat(statement.disbursed))}</p>
+                  </div>
+                  <div className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm text-muted-foreground mb-1">{closingBalance < 0 ? 'Saldo a cargo' : 'Por girar'}</p>
+                    <p
+                      className={`text-lg font-bold font-mono ${closingBalance < 0 ? 'text-destructive' : 'text-green-600'}`}
+                      data-testid="text-owner-closing-balance"
+                    >
+                      {formatCurrency(Math.abs(closingBalance))}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="bg-card rounded-lg border border-border overflow-hidden">
+                  <div className="px-6 py-4 border-b border-border">
+                    <h2 className="text-lg font-semibold">Recaudos del periodo</h2>
+                  </div>
+                  <table className="w-full" data-testid="table-owner-collections">
+                    <thead className="bg-muted/50 border-b border-border">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Fecha</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Factura</th>
+                        <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Propiedad</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Arriendo recaudado</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Comisión</th>
+                        <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Neto</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {statement.collections.length === 0 ? (
+                        <tr>
+                          <td colSpan={6} className="px-4 py-6 text-center text-muted-foreground">Sin recaudos en el periodo</td>
+                        </tr>
+                      ) : (
+                        statement.collections.map((collection) => (
+                          <tr key={collection.paymentId} className="hover:bg-muted/50">
+                            <td className="px-4 py-3 text-sm">{formatDate(collection.paymentDate)}</td>
+                            <td className="px-4 py-3 text-sm">
+                              <Link href={`/invoices/${collection.invoiceId}`} className="font-mono hover:underline">
+                                {collection.invoiceNumber}
+                              </Link>
+                              <span className="text-xs text-muted-foreground ml-2">Contrato {collection.contractNumber}</span>
+                            </td>
+                            <td className="px-4 py-3 text-sm">{collection.propertyName}</td>
+                            <td className="px-4 py-3 text-sm text-right font-mono">
+                              {formatCurrency(parseFloat(collection.amount))}
+                              {collection.amount !== collection.paymentAmount && (
+                                <span className="block text-xs text-muted-foreground">de un pago de {formatCurrency(parseFloat(collection.paymentAmount))}</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right font-mono text-muted-foreground">
+                              {formatCurrency(parseFloat(collection.fee))}
+                              <span className="text-xs ml-1">({parseFloat(collection.feeRate)}%)</span>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right font-mono">
+                              {formatCurrency(parseFloat(collection.amount) - parseFloat(collection.fee))}
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div className="bg-card rounded-lg border border-border overflow-hidden">
+                    <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+                      <h2 className="text-lg font-semibold">Gastos</h2>
+                      {canManage && (
+                        <Button size="sm" variant="outline" onClick={() => setExpenseOpen(true)} data-testid="button-add-expense">
+                          <Plus className="w-4 h-4 mr-1" />
+                          Gasto
+                        </Button>
+                      )}
+                    </div>
+                    <div className="divide-y divide-border">
+                      {statement.expenseItems.length === 0 ? (
+                        <p className="px-6 py-6 text-center text-sm text-muted-foreground">Sin gastos en el periodo</p>
+                      ) : (
+                        statement.expenseItems.map((expense) => (
+                          <div key={expense.id} className="px-6 py-3 flex items-center justify-between" data-testid={`row-expense-${expense.id}`}>
+                            <div>
+                              <p className="text-sm font-medium">{expense.description}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {formatDate(expense.expenseDate)}
+                                {expense.propertyName ? ` · ${expense.propertyName}` : ''}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-mono">{formatCurrency(parseFloat(expense.amount))}</span>
+                              {canManage && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => deleteExpenseMutation.mutate(expense.id)}
+                                  disabled={deleteExpenseMutation.isPending}
+                                  data-testid={`button-delete-expense-${expense.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="bg-card rounded-lg border border-border overflow-hidden">
+                    <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+                      <h2 className="text-lg font-semibold">Giros</h2>
+                      {canManage && (
+                        <Button size="sm" variant="outline" onClick={() => setDisbursementOpen(true)} data-testid="button-add-disbursement">
+                          <Plus className="w-4 h-4 mr-1" />
+                          Giro
+                        </Button>
+                      )}
+                    </div>
+                    <div className="divide-y divide-border">
+                      {statement.disbursements.length === 0 ? (
+                        <p className="px-6 py-6 text-center text-sm text-muted-foreground">Sin giros en el periodo</p>
+                      ) : (
+                        statement.disbursements.map((disbursement) => (
+                          <div key={disbursement.id} className="px-6 py-3 flex items-center justify-between" data-testid={`row-disbursement-${disbursement.id}`}>
+                            <div>
+                              <p className="text-sm font-medium capitalize">{disbursement.method}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {formatDate(disbursement.disbursementDate)}
+                                {disbursement.reference ? ` · Ref. ${disbursement.reference}` : ''}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-mono">{formatCurrency(parseFloat(disbursement.amount))}</span>
+                              {canManage && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => deleteDisbursementMutation.mutate(disbursement.id)}
+                                  disabled={deleteDisbursementMutation.isPending}
+                                  data-testid={`button-delete-disbursement-${disbursement.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+
+      <ExpenseDialog ownerId={ownerId} open={expenseOpen} onOpenChange={setExpenseOpen} />
+      <DisbursementDialog
+        ownerId={ownerId}
+        suggestedAmount={closingBalance}
+        open={disbursementOpen}
+        onOpenChange={setDisbursementOpen}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+type OwnerStatementSummary = {
+  owner: { id: string; fullName: string; email: string | null };
+  year: number;
+  month: number;
+  periodLabel: string;
+  openingBalance: string;
+  collected: string;
+  fees: string;
+  expenses: string;
+  netAmount: string;
+  disbursed: string;
+  closingBalance: string;
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const currentPeriod = () => new Date().toISOString().slice(0, 7);
+
+export default function OwnerStatementsPage() {
+  const [period, setPeriod] = useState(currentPeriod());
+  const [year, month] = period.split('-');
+
+  const { data: statements = [], isLoading } = useQuery<OwnerStatementSummary[]>({
+    queryKey: [`/api/owner-statements/${year}/${Number(month)}`],
+    enabled: !!year && !!month,
+  });
+
+  const totals = statements.reduce(
+    (sum, statement) => ({
+      collected: sum.collected + parseFloat(statement.collected),
+      fees: sum.fees + parseFloat(statement.fees),
+      closingBalance: sum.closingBalance + parseFloat(statement.closingBalance),
+    }),
+    { collected: 0, fees: 0, closingBalance: 0 },
+  );
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-7xl mx-auto space-y-6">
+            <div className="flex items-start justify-between">
+              <div>
+                <h1 className="text-3xl font-bold mb-2">Propietarios</h1>
+                <p className="text-muted-foreground">Liquidación mensual de arriendos recaudados, comisión y gastos</p>
+              </div>
+              <div>
+                <Label htmlFor="owner-period" className="mb-2 block">Periodo</Label>
+                <Input
+                  id="owner-period"
+                  type="month"
+                  value={period}
+                  onChange={(e) => setPeriod(e.target.value)}
+                  data-testid="input-owner-period"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="bg-card rounded-lg border border-border p-4">
+                <p className="text-sm text-muted-foreground mb-1">Recaudado</p>
+                <p className="text-xl font-bold font-mono">{formatCurrency(totals.collected)}</p>
+              </div>
+              <div className="bg-card rounded-lg border border-border p-4">
+                <p className="text-sm text-muted-foreground mb-1">Comisiones</p>
+                <p className="text-xl font-bold font-mono text-green-600">{formatCurrency(totals.fees)}</p>
+              </div>
+              <div className="bg-card rounded-lg border border-border p-4">
+                <p className="text-sm text-muted-foreground mb-1">Por girar</p>
+                <p className="text-xl font-bold font-mono" data-testid="text-total-payable">{formatCurrency(totals.closingBalance)}</p>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : (
+              <div className="bg-card rounded-lg border border-border overflow-x-auto">
+                <table className="w-full" data-testid="table-owner-statements">
+                  <thead className="bg-muted/50 border-b border-border">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Propietario</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Saldo anterior</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Recaudado</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Comisión</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Gastos</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Girado</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Saldo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {statements.length === 0 ? (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-8 text-center text-muted-foreground">
+                          No hay movimientos de propietarios en el periodo
+                        </td>
+                      </tr>
+                    ) : (
+                      statements.map((statement) => {
+                        const closing = parseFloat(statement.closingBalance);
+                        return (
+                          <tr key={statement.owner.id} className="hover:bg-muted/50" data-testid={`row-owner-${statement.owner.id}`}>
+                            <td className="px-4 py-3 text-sm font-medium">
+                              <Link href={`/owners/${statement.owner.id}?period=${period}`} className="hover:underline">
+                                {statement.owner.fullName}
+                              </Link>
+                            </td>
+                            <td className="px-4 py-3 text-sm text-right font-mono">{formatCurrency(parseFloat(statement.openingBalance))}</td>
+                            <td className="px-4 py-3 text-sm text-right font-mono">{formatCurrency(parseFloat(statement.collected))}</td>
+                            <td className="px-4 py-3 text-sm text-right font-mono text-muted-foreground">{formatCurrency(parseFloat(statement.fees))}</td>
+                            <td className="px-4 py-3 text-sm text-right font-mono text-muted-foreground">{formatCurrency(parseFloat(statement.expenses))}</td>
+                            <td className="px-4 py-3 text-sm text-right font-mono">{formatCurrency(parseFloat(statement.disbursed))}</td>
+                            <td className={`px-4 py-3 text-sm text-right font-mono font-semibold ${closing < 0 ? 'text-destructive' : ''}`}>
+                              {formatCurrency(closing)}
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -34,6 +34,7 @@ const formSchema = insertPropertySchema.omit({ tenantId: true }).extend({
   type: z.string().optional().or(z.literal('')),
   listRent: z.string().optional().or(z.literal('')),
   ownerContactId: z.string().optional().or(z.literal('')),
+  managementFeeRate: z.string().optional().or(z.literal('')).nullable(),
 });
 
 type FormData = z.infer<typeof formSchema>;
@@ -66,6 +67,7 @@ function PropertyFormDialog({
       status: property?.status || 'available',
       ownerContactId: property?.ownerContactId || '',
       listRent: property?.listRent || '',
+      managementFeeRate: property?.managementFeeRate || '',
     },
   });
 
@@ -77,6 +79,7 @@ function PropertyFormDialog({
         type: data.type || undefined,
         listRent: data.listRent || undefined,
         ownerContactId: data.ownerContactId || undefined,
+        managementFeeRate: data.managementFeeRate || null,
       };
       return apiRequest('POST', '/api/properties', cleanData);
     },
@@ -103,6 +106,7 @@ function PropertyFormDialog({
         type: data.type || undefined,
         listRent: data.listRent || undefined,
         ownerContactId: data.ownerContactId || undefined,
+        managementFeeRate: data.managementFeeRate || null,
       };
       return apiRequest('PATCH', `/api/properties/${property?.id}`, cleanData);
     },
@@ -286,6 +290,27 @@ function PropertyFormDialog({
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="managementFeeRate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Comisión de administración (%)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder="Usar la del propietario"
+                      {...field}
+                      value={field.value ?? ''}
+                      data-testid="input-managementFeeRate"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="flex justify-end space-x-3 pt-4">
               <Button
                 type="button"
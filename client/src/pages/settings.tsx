@@ -4,23 +4,71 @@ import Sidebar from '@/components/layout/sidebar';
 import Topbar from '@/components/layout/topbar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { api } from '@/lib/api';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { queryClient, apiRequest } from '@/lib/queryClient';
-import { LogOut, Upload, X, Building2 } from 'lucide-react';
+import TaxProfiles from '@/components/tax-profiles';
+import DunningSteps from '@/components/dunning-steps';
+import EmailTemplates from '@/components/email-templates';
+import EmailSettingsCard from '@/components/email-settings';
+import { schedulerJobLabels, timezoneOptions } from '@/lib/schedulerJobs';
+import { LogOut, Upload, X, Building2, CalendarClock, TrendingUp, Download, Clock } from 'lucide-react';
+import type { PriceIndexValue, SchedulerJob, Tenant } from '@shared/schema';
 
 export default function SettingsPage() {
-  const { tenant } = useAuth();
+  const { tenant, can } = useAuth();
+  const canUpdateTenant = can('tenant:update');
+  const canManageBilling = can('billing:manage');
+  const canImport = can('import:run');
   const { toast } = useToast();
   const [logoPreview, setLogoPreview] = useState<string | null>(null);
   const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [leadDays, setLeadDays] = useState<string | null>(null);
+  const [noticeDays, setNoticeDays] = useState<string | null>(null);
 
-  const { data: tenantData } = useQuery({
+  const { data: tenantData } = useQuery<Tenant>({
     queryKey: ['/api/tenants/current'],
   });
 
+  const { data: indexValues = [] } = useQuery<PriceIndexValue[]>({
+    queryKey: ['/api/price-indexes'],
+  });
+
+  const importIndexesMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const text = await file.text();
+      const res = await apiRequest('POST', '/api/import/price-indexes', { csvContent: text });
+      return res.json() as Promise<{ success: number; total: number; errors: { row: number; error: string }[] }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/price-indexes'] });
+      if (result.errors.length > 0) {
+        toast({
+          title: `Importación parcial: ${result.success}/${result.total} valores importados`,
+          description: result.errors.map((err) => `Fila ${err.row}: ${err.error}`).join('\n'),
+          variant: 'destructive',
+        });
+      } else {
+        toast({ title: `Importación exitosa: ${result.success} valores importados` });
+      }
+    },
+    onError: () => {
+      toast({ title: 'Error al importar CSV', variant: 'destructive' });
+    },
+  });
+
+  const handleIndexFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importIndexesMutation.mutate(file);
+      e.target.value = '';
+    }
+  };
+
   const checkoutMutation = useMutation({
     mutationFn: (plan: string) => api.billing.createCheckout(plan),
     onSuccess: async (response) => {
@@ -52,7 +100,7 @@ export default function SettingsPage() {
   });
 
   const updateTenantMutation = useMutation({
-    mutationFn: (data: { name?: string; logo?: string }) => 
+    mutationFn: (data: { name?: string; logo?: string; invoiceLeadDays?: number; renewalNoticeDays?: number; prorationMethod?: Tenant['prorationMethod']; timezone?: string; enabledJobs?: SchedulerJob[] }) => 
       apiRequest('PATCH', '/api/tenants/current', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/tenants/current'] });
@@ -60,6 +108,8 @@ export default function SettingsPage() {
       toast({ title: 'Configuración actualizada exitosamente' });
       setLogoFile(null);
       setLogoPreview(null);
+      setLeadDays(null);
+      setNoticeDays(null);
     },
     onError: () => {
       toast({ title: 'Error al actualizar configuración', variant: 'destructive' });
@@ -111,6 +161,33 @@ export default function SettingsPage() {
     updateTenantMutation.mutate({ logo: '' });
   };
 
+  const handleSaveLeadDays = () => {
+    const days = Number.parseInt(leadDays ?? '', 10);
+    if (!Number.isInteger(days) || days < 0 || days > 60) {
+      toast({ title: 'Ingresa un número de días entre 0 y 60', variant: 'destructive' });
+      return;
+    }
+    updateTenantMutation.mutate({ invoiceLeadDays: days });
+  };
+
+  const handleSaveNoticeDays = () => {
+    const days = Number.parseInt(noticeDays ?? '', 10);
+    if (!Number.isInteger(days) || days < 1 || days > 365) {
+      toast({ title: 'Ingresa un número de días entre 1 y 365', variant: 'destructive' });
+      return;
+    }
+    updateTenantMutation.mutate({ renewalNoticeDays: days });
+  };
+
+  const handleToggleJob = (job: SchedulerJob, enabled: boolean) => {
+    const current = tenantData?.enabledJobs ?? [];
+    updateTenantMutation.mutate({
+      enabledJobs: enabled ? [...current.filter((value) => value !== job), job] : current.filter((value) => value !== job),
+    });
+  };
+
+  const timezone = tenantData?.timezone ?? 'America/Bogota';
+
   const plans = [
     {
       id: 'starter',
@@ -153,11 +230,11 @@ export default function SettingsPage() {
                 <h2 className="text-lg font-semibold">Logo de la Empresa</h2>
               </div>
               
-              {((tenantData as any)?.logo || logoPreview) && (
+              {(tenantData?.logo || logoPreview) && (
                 <div className="flex items-center gap-4 mb-4">
                   <div className="relative">
                     <img 
-                      src={logoPreview || (tenantData as any)?.logo} 
+                      src={logoPreview || tenantData?.logo || undefined} 
                       alt="Logo" 
                       className="h-24 w-24 object-contain rounded-lg border bg-white p-2"
                       data-testid="img-logo-preview"
@@ -174,7 +251,7 @@ export default function SettingsPage() {
                       </Button>
                     )}
                   </div>
-                  {(tenantData as any)?.logo && !logoPreview && (
+                  {tenantData?.logo && !logoPreview && canUpdateTenant && (
                     <Button
                       variant="outline"
                       onClick={handleRemoveCurrentLogo}
@@ -187,34 +264,232 @@ export default function SettingsPage() {
                 </div>
               )}
 
+              {canUpdateTenant ? (
+                <div className="flex gap-4 items-end">
+                  <div className="flex-1">
+                    <Label htmlFor="logo-upload" className="mb-2 block">Subir Logo</Label>
+                    <Input
+                      id="logo-upload"
+                      type="file"
+                      accept="image/*"
+                      onChange={handleLogoChange}
+                      className="cursor-pointer"
+                      data-testid="input-logo"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      PNG, JPG o GIF. Máximo 2MB.
+                    </p>
+                  </div>
+                  {logoPreview && (
+                    <Button
+                      onClick={handleSaveLogo}
+                      disabled={updateTenantMutation.isPending}
+                      data-testid="button-save-logo"
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      Guardar Logo
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Solo el propietario o un administrador puede cambiar el logo.
+                </p>
+              )}
+            </div>
+
+            <div className="bg-card rounded-lg border border-border p-6 mb-8">
+              <div className="flex items-center gap-2 mb-4">
+                <CalendarClock className="h-5 w-5" />
+                <h2 className="text-lg font-semibold">Facturación automática</h2>
+              </div>
               <div className="flex gap-4 items-end">
-                <div className="flex-1">
-                  <Label htmlFor="logo-upload" className="mb-2 block">Subir Logo</Label>
+                <div className="flex-1 max-w-xs">
+                  <Label htmlFor="invoice-lead-days" className="mb-2 block">Días de anticipación</Label>
                   <Input
-                    id="logo-upload"
-                    type="file"
-                    accept="image/*"
-                    onChange={handleLogoChange}
-                    className="cursor-pointer"
-                    data-testid="input-logo"
+                    id="invoice-lead-days"
+                    type="number"
+                    min={0}
+                    max={60}
+                    value={leadDays ?? String(tenantData?.invoiceLeadDays ?? 5)}
+                    onChange={(e) => setLeadDays(e.target.value)}
+                    disabled={!canUpdateTenant}
+                    data-testid="input-invoice-lead-days"
+                  />
+                </div>
+                {canUpdateTenant && leadDays !== null && (
+                  <Button
+                    onClick={handleSaveLeadDays}
+                    disabled={updateTenantMutation.isPending}
+                    data-testid="button-save-lead-days"
+                  >
+                    Guardar
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Cada factura mensual se emite automáticamente estos días antes de que inicie su periodo.
+              </p>
+
+              <div className="mt-6 max-w-xs">
+                <Label className="mb-2 block">Prorrateo de meses incompletos</Label>
+                <Select
+                  value={tenantData?.prorationMethod ?? 'actual_days'}
+                  onValueChange={(value) => updateTenantMutation.mutate({ prorationMethod: value as Tenant['prorationMethod'] })}
+                  disabled={!canUpdateTenant || updateTenantMutation.isPending}
+                >
+                  <SelectTrigger data-testid="select-proration-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="actual_days">Días reales del mes</SelectItem>
+                    <SelectItem value="days_30">Mes comercial de 30 días</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                El primer y el último mes de un contrato que no empiezan el día 1 o no terminan a fin de mes se cobran por días.
+              </p>
+
+              <div className="flex gap-4 items-end mt-6">
+                <div className="flex-1 max-w-xs">
+                  <Label htmlFor="renewal-notice-days" className="mb-2 block">Aviso de vencimiento (días)</Label>
+                  <Input
+                    id="renewal-notice-days"
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={noticeDays ?? String(tenantData?.renewalNoticeDays ?? 60)}
+                    onChange={(e) => setNoticeDays(e.target.value)}
+                    disabled={!canUpdateTenant}
+                    data-testid="input-renewal-notice-days"
                   />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    PNG, JPG o GIF. Máximo 2MB.
-                  </p>
                 </div>
-                {logoPreview && (
+                {canUpdateTenant && noticeDays !== null && (
                   <Button
-                    onClick={handleSaveLogo}
+                    onClick={handleSaveNoticeDays}
                     disabled={updateTenantMutation.isPending}
-                    data-testid="button-save-logo"
+                    data-testid="button-save-notice-days"
                   >
-                    <Upload className="h-4 w-4 mr-2" />
-                    Guardar Logo
+                    Guardar
                   </Button>
                 )}
               </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Los contratos pasan a "Por vencer" estos días antes de su fecha de fin y se avisa por email al propietario y al inquilino.
+              </p>
+            </div>
+
+            <div className="bg-card rounded-lg border border-border p-6 mb-8">
+              <div className="flex items-center gap-2 mb-4">
+                <Clock className="h-5 w-5" />
+                <h2 className="text-lg font-semibold">Tareas programadas</h2>
+              </div>
+              <div className="max-w-xs">
+                <Label className="mb-2 block">Zona horaria</Label>
+                <Select
+                  value={timezone}
+                  onValueChange={(value) => updateTenantMutation.mutate({ timezone: value })}
+                  disabled={!canUpdateTenant || updateTenantMutation.isPending}
+                >
+                  <SelectTrigger data-testid="select-timezone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {timezoneOptions.some((option) => option.value === timezone) ? null : (
+                      <SelectItem value={timezone}>{timezone}</SelectItem>
+                    )}
+                    {timezoneOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Los vencimientos y las horas de envío se calculan con la fecha y hora local de esta zona.
+              </p>
+
+              <div className="mt-6 space-y-4">
+                {(Object.keys(schedulerJobLabels) as SchedulerJob[]).map((job) => (
+                  <div key={job} className="flex items-start gap-3">
+                    <Checkbox
+                      id={`job-${job}`}
+                      checked={tenantData?.enabledJobs?.includes(job) ?? false}
+                      onCheckedChange={(checked) => handleToggleJob(job, checked === true)}
+                      disabled={!canUpdateTenant || updateTenantMutation.isPending}
+                      data-testid={`checkbox-job-${job}`}
+                    />
+                    <div>
+                      <Label htmlFor={`job-${job}`}>{schedulerJobLabels[job].title}</Label>
+                      <p className="text-xs text-muted-foreground">{schedulerJobLabels[job].description}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
             </div>
 
+            <div className="bg-card rounded-lg border border-border p-6 mb-8">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5" />
+                  <h2 className="text-lg font-semibold">Índices de precios (IPC / INPC)</h2>
+                </div>
+                {canImport && (
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={() => { window.location.href = '/api/templates/price-indexes.csv'; }}
+                      data-testid="button-download-index-template"
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Plantilla
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => document.getElementById('index-csv-upload')?.click()}
+                      disabled={importIndexesMutation.isPending}
+                      data-testid="button-import-indexes"
+                    >
+                      <Upload className="h-4 w-4 mr-2" />
+                      {importIndexesMutation.isPending ? 'Importando...' : 'Importar CSV'}
+                    </Button>
+                    <input
+                      id="index-csv-upload"
+                      type="file"
+                      accept=".csv"
+                      onChange={handleIndexFileUpload}
+                      className="hidden"
+                    />
+                  </div>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground mb-4">
+                Variación anual (%) usada para el incremento de los contratos indexados. Se toma el último valor publicado antes del mes de aniversario.
+              </p>
+              {indexValues.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No hay valores cargados</p>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3" data-testid="list-index-values">
+                  {indexValues.slice(0, 12).map((value) => (
+                    <div key={value.id} className="p-3 bg-muted/30 rounded-lg">
+                      <p className="text-xs text-muted-foreground uppercase">
+                        {value.indexType} · {String(value.month).padStart(2, '0')}/{value.year}
+                      </p>
+                      <p className="font-mono font-semibold">{parseFloat(value.annualChange)}%</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <TaxProfiles />
+
+            {can('dunning:view') && <DunningSteps />}
+
+            {can('templates:manage') && <EmailTemplates />}
+
+            {canUpdateTenant && <EmailSettingsCard />}
+
             <div className="bg-card rounded-lg border border-border p-6 mb-8">
               <h2 className="text-lg font-semibold mb-4">Plan Actual</h2>
               <div className="flex items-center justify-between">
@@ -224,7 +499,7 @@ export default function SettingsPage() {
                     {tenant?.propertiesCount || 0} de {tenant?.maxProperties || 10} propiedades
                   </p>
                 </div>
-                {tenant?.stripeCustomerId && (
+                {tenant?.stripeCustomerId && canManageBilling && (
                   <Button
                     onClick={() => portalMutation.mutate()}
                     disabled={portalMutation.isPending}
@@ -236,42 +511,44 @@ export default function SettingsPage() {
               </div>
             </div>
 
-            <div>
-              <h2 className="text-lg font-semibold mb-4">Planes disponibles</h2>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {plans.map((plan) => (
-                  <div
-                    key={plan.id}
-                    className={`bg-card rounded-lg border ${
-                      tenant?.plan === plan.id ? 'border-primary' : 'border-border'
-                    } p-6`}
-                  >
-                    <h3 className="text-xl font-bold mb-2">{plan.name}</h3>
-                    <p className="text-3xl font-bold mb-4">
-                      {plan.price}
-                      <span className="text-sm font-normal text-muted-foreground">/mes</span>
-                    </p>
-                    <ul className="space-y-2 mb-6">
-                      {plan.features.map((feature) => (
-                        <li key={feature} className="flex items-center text-sm">
-                          <i className="fas fa-check text-success mr-2"></i>
-                          {feature}
-                        </li>
-                      ))}
-                    </ul>
-                    <Button
-                      className="w-full"
-                      variant={tenant?.plan === plan.id ? 'outline' : 'default'}
-                      disabled={tenant?.plan === plan.id || checkoutMutation.isPending}
-                      onClick={() => checkoutMutation.mutate(plan.id)}
-                      data-testid={`button-select-${plan.id}`}
+            {canManageBilling && (
+              <div>
+                <h2 className="text-lg font-semibold mb-4">Planes disponibles</h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  {plans.map((plan) => (
+                    <div
+                      key={plan.id}
+                      className={`bg-card rounded-lg border ${
+                        tenant?.plan === plan.id ? 'border-primary' : 'border-border'
+                      } p-6`}
                     >
-                      {tenant?.plan === plan.id ? 'Plan Actual' : 'Seleccionar'}
-                    </Button>
-                  </div>
-                ))}
+                      <h3 className="text-xl font-bold mb-2">{plan.name}</h3>
+                      <p className="text-3xl font-bold mb-4">
+                        {plan.price}
+                        <span className="text-sm font-normal text-muted-foreground">/mes</span>
+                      </p>
+                      <ul className="space-y-2 mb-6">
+                        {plan.features.map((feature) => (
+                          <li key={feature} className="flex items-center text-sm">
+                            <i className="fas fa-check text-success mr-2"></i>
+                            {feature}
+                          </li>
+                        ))}
+                      </ul>
+                      <Button
+                        className="w-full"
+                        variant={tenant?.plan === plan.id ? 'outline' : 'default'}
+                        disabled={tenant?.plan === plan.id || checkoutMutation.isPending}
+                        onClick={() => checkoutMutation.mutate(plan.id)}
+                        data-testid={`button-select-${plan.id}`}
+                      >
+                        {tenant?.plan === plan.id ? 'Plan Actual' : 'Seleccionar'}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
 
             <div className="bg-card rounded-lg border border-border p-6 mt-8">
               <h2 className="text-lg font-semibold mb-4">Cerrar sesión</h2>
@@ -0,0 +1,361 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useState } from 'react';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { UserPlus, Trash2, Ban, Copy } from 'lucide-react';
+import type { TeamInvitation, User } from '@shared/schema';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type Role = User['role'];
+type TeamMember = Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'profileImageUrl' | 'role' | 'createdAt'>;
+type Invitation = Omit<TeamInvitation, 'tokenHash'>;
+
+const roleLabels: Record<Role, string> = {
+  owner: 'Propietario',
+  admin: 'Administrador',
+  collections: 'Cobranza',
+};
+
+function memberName(member: TeamMember) {
+  const name = [member.firstName, member.lastName].filter(Boolean).join(' ');
+  return name || member.email || member.id;
+}
+
+function invitationStatus(invitation: Invitation) {
+  if (invitation.status === 'pending' && new Date(invitation.expiresAt) < new Date()) {
+    return { key: 'expired', label: 'Expirada', className: 'bg-muted text-muted-foreground' };
+  }
+  switch (invitation.status) {
+    case 'pending':
+      return { key: 'pending', label: 'Pendiente', className: 'bg-warning/10 text-warning' };
+    case 'accepted':
+      return { key: 'accepted', label: 'Aceptada', className: 'bg-success/10 text-success' };
+    default:
+      return { key: 'revoked', label: 'Revocada', className: 'bg-destructive/10 text-destructive' };
+  }
+}
+
+export default function TeamPage() {
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('collections');
+  const [lastInviteUrl, setLastInviteUrl] = useState<string | null>(null);
+  const [removeMember, setRemoveMember] = useState<TeamMember | undefined>();
+
+  const canManage = can('team:manage');
+  const canInvite = can('team:invite');
+
+  const { data: members = [], isLoading } = useQuery<TeamMember[]>({
+    queryKey: ['/api/team/members'],
+  });
+
+  const { data: invitations = [] } = useQuery<Invitation[]>({
+    queryKey: ['/api/team/invitations'],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: { email: string; role: Role }) => {
+      const response = await apiRequest('POST', '/api/team/invitations', data);
+      return response.json() as Promise<{ inviteUrl: string; emailSent: boolean }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/team/invitations'] });
+      setLastInviteUrl(data.inviteUrl);
+      setEmail('');
+      toast({
+        title: 'Invitación creada',
+        description: data.emailSent
+          ? 'Se envió el enlace de invitación por correo'
+          : 'No se pudo enviar el correo; comparte el enlace manualmente',
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al invitar', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('POST', `/api/team/invitations/${id}/revoke`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/team/invitations'] });
+      toast({ title: 'Invitación revocada' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: Role }) =>
+      apiRequest('PATCH', `/api/team/members/${id}`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/team/members'] });
+      toast({ title: 'Rol actualizado exitosamente' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al cambiar rol', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/team/members/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/team/members'] });
+      toast({ title: 'Miembro eliminado del equipo' });
+      setRemoveMember(undefined);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar miembro', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    inviteMutation.mutate({ email: email.trim(), role });
+  };
+
+  const copyInviteUrl = async () => {
+    if (!lastInviteUrl) return;
+    await navigator.clipboard.writeText(lastInviteUrl);
+    toast({ title: 'Enlace copiado' });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-7xl mx-auto">
+            <div className="mb-8">
+              <h1 className="text-3xl font-bold tracking-tight">Equipo</h1>
+              <p className="text-muted-foreground mt-1">Invita colaboradores y administra sus roles</p>
+            </div>
+
+            {canInvite && (
+              <div className="bg-card rounded-lg border border-border p-6 mb-8">
+                <div className="flex items-center gap-2 mb-4">
+                  <UserPlus className="h-5 w-5" />
+                  <h2 className="text-lg font-semibold">Invitar miembro</h2>
+                </div>
+                <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-4 md:items-end">
+                  <div className="flex-1">
+                    <Label htmlFor="invite-email" className="mb-2 block">Correo electrónico</Label>
+                    <Input
+                      id="invite-email"
+                      type="email"
+                      required
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="colaborador@empresa.com"
+                      data-testid="input-invite-email"
+                    />
+                  </div>
+                  <div className="md:w-56">
+                    <Label className="mb-2 block">Rol</Label>
+                    <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+                      <SelectTrigger data-testid="select-invite-role">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {canManage && <SelectItem value="owner">{roleLabels.owner}</SelectItem>}
+                        <SelectItem value="admin">{roleLabels.admin}</SelectItem>
+                        <SelectItem value="collections">{roleLabels.collections}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button type="submit" disabled={inviteMutation.isPending} data-testid="button-invite">
+                    {inviteMutation.isPending ? 'Enviando...' : 'Enviar invitación'}
+                  </Button>
+                </form>
+                {lastInviteUrl && (
+                  <div className="mt-4 flex items-center gap-2 p-3 bg-muted/30 rounded-lg">
+                    <span className="text-xs font-mono truncate flex-1" data-testid="text-invite-url">{lastInviteUrl}</span>
+                    <Button variant="ghost" size="sm" onClick={copyInviteUrl} data-testid="button-copy-invite">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="bg-card rounded-lg border border-border overflow-hidden mb-8">
+              <div className="px-6 py-4 border-b border-border">
+                <h2 className="text-lg font-semibold">Miembros</h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Nombre</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Email</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Rol</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase">Acciones</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {members.map((member) => {
+                      const isSelf = member.id === user?.id;
+                      return (
+                        <tr key={member.id} className="hover:bg-muted/50" data-testid={`row-member-${member.id}`}>
+                          <td className="px-6 py-4">
+                            <span className="text-sm font-medium">{memberName(member)}</span>
+                            {isSelf && <span className="ml-2 text-xs text-muted-foreground">(tú)</span>}
+                          </td>
+                          <td className="px-6 py-4">
+                            <span className="text-sm">{member.email || 'N/A'}</span>
+                          </td>
+                          <td className="px-6 py-4">
+                            {canManage && !isSelf ? (
+                              <Select
+                                value={member.role}
+                                onValueChange={(value) => roleMutation.mutate({ id: member.id, role: value as Role })}
+                                disabled={roleMutation.isPending}
+                              >
+                                <SelectTrigger className="w-44" data-testid={`select-role-${member.id}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="owner">{roleLabels.owner}</SelectItem>
+                                  <SelectItem value="admin">{roleLabels.admin}</SelectItem>
+                                  <SelectItem value="collections">{roleLabels.collections}</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="text-sm">{roleLabels[member.role]}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4">
+                            <div className="flex items-center justify-end gap-2">
+                              {canManage && !isSelf && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setRemoveMember(member)}
+                                  data-testid={`button-remove-${member.id}`}
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="bg-card rounded-lg border border-border overflow-hidden">
+              <div className="px-6 py-4 border-b border-border">
+                <h2 className="text-lg font-semibold">Invitaciones</h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Email</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Rol</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Vence</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Estado</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-muted-foreground uppercase">Acciones</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {invitations.length === 0 ? (
+                      <tr>
+                        <td colSpan={5} className="px-6 py-8 text-center text-muted-foreground">
+                          No hay invitaciones enviadas
+                        </td>
+                      </tr>
+                    ) : (
+                      invitations.map((invitation) => {
+                        const status = invitationStatus(invitation);
+                        return (
+                          <tr key={invitation.id} className="hover:bg-muted/50" data-testid={`row-invitation-${invitation.id}`}>
+                            <td className="px-6 py-4 text-sm">{invitation.email}</td>
+                            <td className="px-6 py-4 text-sm">{roleLabels[invitation.role]}</td>
+                            <td className="px-6 py-4 text-sm">{new Date(invitation.expiresAt).toLocaleDateString('es-ES')}</td>
+                            <td className="px-6 py-4">
+                              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                                {status.label}
+                              </span>
+                            </td>
+                            <td className="px-6 py-4">
+                              <div className="flex items-center justify-end gap-2">
+                                {canInvite && status.key === 'pending' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => revokeMutation.mutate(invitation.id)}
+                                    disabled={revokeMutation.isPending}
+                                    title="Revocar invitación"
+                                    data-testid={`button-revoke-${invitation.id}`}
+                                  >
+                                    <Ban className="w-4 h-4" />
+                                  </Button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        );
+                      })
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+
+      <AlertDialog open={!!removeMember} onOpenChange={() => setRemoveMember(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>{removeMember && memberName(removeMember)}</strong> perderá el acceso a la organización.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-remove">Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removeMember && removeMutation.mutate(removeMember.id)}
+              disabled={removeMutation.isPending}
+              data-testid="button-confirm-remove"
+            >
+              {removeMutation.isPending ? 'Eliminando...' : 'Eliminar'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,520 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useRoute, useLocation, Link } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ObjectUploader } from '@/components/ObjectUploader';
+import AuditHistory from '@/components/audit-history';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Receipt, Trash2 } from 'lucide-react';
+import {
+  workOrderCategoryLabels,
+  workOrderPriorityColors,
+  workOrderPriorityLabels,
+  workOrderStatusColors,
+  workOrderStatusLabels,
+  workOrderTransitions,
+} from '@/lib/workOrders';
+import type { Contact, Invoice, WorkOrder, WorkOrderPhoto, WorkOrderPriority, WorkOrderStatus } from '@shared/schema';
+
+type WorkOrderDetail = WorkOrder & {
+  property: { id: string; name: string; address: string | null; ownerContactId: string | null; owner: Contact | null } | null;
+  contract: { id: string; number: string; tenantContact: Contact | null } | null;
+  provider: Contact | null;
+  invoiceCharge: { id: string; invoiceId: string; amount: string } | null;
+  ownerExpense: { id: string; ownerContactId: string; expenseDate: string; amount: string } | null;
+  photos: WorkOrderPhoto[];
+};
+
+// Invoices that still accept new lines
+const editableInvoiceStatuses: Invoice['status'][] = ['draft', 'issued', 'overdue', 'partial'];
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+function invalidateWorkOrder(id: string) {
+  queryClient.invalidateQueries({ queryKey: [`/api/work-orders/${id}`] });
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/work-orders?') });
+  queryClient.invalidateQueries({ queryKey: ['/api/work-orders'] });
+}
+
+function BillWorkOrderDialog({
+  order,
+  open,
+  onOpenChange,
+}: {
+  order: WorkOrderDetail;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [billTo, setBillTo] = useState<'tenant' | 'owner'>(order.contract ? 'tenant' : 'owner');
+  const [invoiceId, setInvoiceId] = useState('');
+  const [expenseDate, setExpenseDate] = useState(order.completedDate ?? new Date().toISOString().split('T')[0]);
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ['/api/invoices'],
+    enabled: open && billTo === 'tenant',
+  });
+  const openInvoices = invoices.filter((invoice) =>
+    invoice.contractId === order.contractId && editableInvoiceStatuses.includes(invoice.status));
+
+  const billMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/work-orders/${order.id}/bill`,
+      billTo === 'tenant' ? { billTo, invoiceId } : { billTo, expenseDate }),
+    onSuccess: () => {
+      invalidateWorkOrder(order.id);
+      queryClient.invalidateQueries({ queryKey: ['/api/invoices'] });
+      toast({ title: billTo === 'tenant' ? 'Costo cargado a la factura' : 'Costo cargado al propietario' });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al facturar la orden', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const valid = billTo === 'tenant' ? !!invoiceId : !!expenseDate;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Facturar orden {order.number}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm">
+            Costo a facturar: <span className="font-mono font-semibold">{formatCurrency(parseFloat(order.cost ?? '0'))}</span>
+          </p>
+          <div>
+            <Label className="mb-2 block">Cargar a</Label>
+            <Select value={billTo} onValueChange={(value) => setBillTo(value as 'tenant' | 'owner')}>
+              <SelectTrigger data-testid="select-bill-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tenant" disabled={!order.contract}>
+                  Inquilino {order.contract?.tenantContact ? `(${order.contract.tenantContact.fullName})` : ''}
+                </SelectItem>
+                <SelectItem value="owner" disabled={!order.property?.ownerContactId}>
+                  Propietario {order.property?.owner ? `(${order.property.owner.fullName})` : ''}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {billTo === 'tenant' ? (
+            <div>
+              <Label className="mb-2 block">Factura</Label>
+              <Select value={invoiceId} onValueChange={setInvoiceId}>
+                <SelectTrigger data-testid="select-bill-invoice">
+                  <SelectValue placeholder={openInvoices.length ? 'Seleccionar factura' : 'No hay facturas abiertas'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {openInvoices.map((invoice) => (
+                    <SelectItem key={invoice.id} value={invoice.id}>
+                      {invoice.number} · vence {formatDate(invoice.dueDate)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-2">
+                Se agrega como concepto de mantenimiento en una factura abierta del contrato {order.contract?.number}.
+              </p>
+            </div>
+          ) : (
+            <div>
+              <Label htmlFor="bill-expense-date" className="mb-2 block">Fecha del gasto</Label>
+              <Input
+                id="bill-expense-date"
+                type="date"
+                value={expenseDate}
+                onChange={(e) => setExpenseDate(e.target.value)}
+                data-testid="input-bill-expense-date"
+              />
+              <p className="text-xs text-muted-foreground mt-2">
+                Se descuenta en la liquidación del propietario del mes de esta fecha.
+              </p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            onClick={() => billMutation.mutate()}
+            disabled={!valid || billMutation.isPending}
+            data-testid="button-confirm-bill"
+          >
+            Facturar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function WorkOrderDetailPage() {
+  const [, params] = useRoute('/work-orders/:id');
+  const [, setLocation] = useLocation();
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const id = params?.id ?? '';
+  const canManage = can('maintenance:manage');
+
+  const [billOpen, setBillOpen] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [edits, setEdits] = useState<{ providerContactId?: string; scheduledDate?: string; cost?: string; priority?: WorkOrderPriority }>({});
+
+  const { data: order, isLoading } = useQuery<WorkOrderDetail>({
+    queryKey: [`/api/work-orders/${id}`],
+    enabled: !!id,
+  });
+
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ['/api/contacts'],
+    enabled: canManage,
+  });
+  const providers = contacts.filter(c => c.roles?.includes('provider'));
+
+  const updateMutation = useMutation({
+    mutationFn: (data: Record<string, unknown>) => apiRequest('PATCH', `/api/work-orders/${id}`, data),
+    onSuccess: () => {
+      invalidateWorkOrder(id);
+      setEdits({});
+      toast({ title: 'Orden actualizada' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al actualizar la orden', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/work-orders/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/work-orders') });
+      toast({ title: 'Orden eliminada' });
+      setLocation('/work-orders');
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al eliminar la orden', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deletePhotoMutation = useMutation({
+    mutationFn: (photoId: string) => apiRequest('DELETE', `/api/work-order-photos/${photoId}`),
+    onSuccess: () => {
+      invalidateWorkOrder(id);
+      toast({ title: 'Foto eliminada exitosamente' });
+    },
+    onError: () => {
+      toast({ title: 'Error al eliminar foto', variant: 'destructive' });
+    },
+  });
+
+  const handleUploadComplete = async (objectPath: string) => {
+    try {
+      setIsUploading(true);
+      await apiRequest('POST', `/api/work-orders/${id}/photos`, { objectPath, caption: null });
+      invalidateWorkOrder(id);
+      toast({ title: 'Foto subida exitosamente' });
+    } catch (error) {
+      toast({
+        title: error instanceof Error ? error.message : 'Error al subir foto',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (isLoading || !order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+      </div>
+    );
+  }
+
+  const billed = !!order.invoiceChargeId || !!order.ownerExpenseId;
+  const nextStatuses = billed ? [] : workOrderTransitions[order.status];
+  const canBill = can('maintenance:bill') && order.status === 'completed' && !billed && parseFloat(order.cost ?? '0') > 0;
+
+  const providerValue = edits.providerContactId ?? order.providerContactId ?? '';
+  const scheduledValue = edits.scheduledDate ?? order.scheduledDate ?? '';
+  const costValue = edits.cost ?? order.cost ?? '';
+  const priorityValue = edits.priority ?? order.priority;
+  const hasEdits = Object.keys(edits).length > 0;
+
+  const saveEdits = () => {
+    updateMutation.mutate({
+      ...(edits.providerContactId !== undefined ? { providerContactId: edits.providerContactId || null } : {}),
+      ...(edits.scheduledDate !== undefined ? { scheduledDate: edits.scheduledDate || null } : {}),
+      ...(edits.cost !== undefined ? { cost: edits.cost ? Number.parseFloat(edits.cost).toFixed(2) : null } : {}),
+      ...(edits.priority !== undefined ? { priority: edits.priority } : {}),
+    });
+  };
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-6xl mx-auto space-y-6">
+            <div>
+              <Button variant="ghost" onClick={() => setLocation('/work-orders')} className="mb-4" data-testid="button-back">
+                <i className="fas fa-arrow-left mr-2"></i>
+                Volver a mantenimiento
+              </Button>
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center gap-3 mb-2">
+                    <h1 className="text-3xl font-bold font-mono">{order.number}</h1>
+                    <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${workOrderStatusColors[order.status]}`} data-testid="badge-work-order-status">
+                      {workOrderStatusLabels[order.status]}
+                    </span>
+                    <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${workOrderPriorityColors[order.priority]}`}>
+                      {workOrderPriorityLabels[order.priority]}
+                    </span>
+                  </div>
+                  <p className="text-lg">{order.title}</p>
+                  <p className="text-muted-foreground">
+                    {workOrderCategoryLabels[order.category]} · {order.property?.name ?? '—'}
+                    {order.property?.address ? ` · ${order.property.address}` : ''}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {canManage && nextStatuses.map((status) => (
+                    <Button
+                      key={status}
+                      variant={status === 'completed' ? 'default' : 'outline'}
+                      onClick={() => updateMutation.mutate({ status })}
+                      disabled={updateMutation.isPending}
+                      data-testid={`button-status-${status}`}
+                    >
+                      {workOrderStatusLabels[status]}
+                    </Button>
+                  ))}
+                  {canBill && (
+                    <Button onClick={() => setBillOpen(true)} data-testid="button-bill-work-order">
+                      <Receipt className="w-4 h-4 mr-2" />
+                      Facturar
+                    </Button>
+                  )}
+                  {canManage && !billed && (
+                    <Button
+                      variant="outline"
+                      onClick={() => deleteMutation.mutate()}
+                      disabled={deleteMutation.isPending}
+                      data-testid="button-delete-work-order"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 space-y-6">
+                <div className="bg-card rounded-lg border border-border p-6">
+                  <h2 className="text-lg font-semibold mb-4">Detalle</h2>
+                  <p className="text-sm whitespace-pre-wrap mb-4">{order.description || 'Sin descripción'}</p>
+                  <dl className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <dt className="text-muted-foreground">Reportada</dt>
+                      <dd>{formatDate(order.reportedDate)}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Terminada</dt>
+                      <dd>{order.completedDate ? formatDate(order.completedDate) : '—'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Contrato</dt>
+                      <dd>
+                        {order.contract ? (
+                          <Link href={`/contracts/${order.contract.id}`} className="hover:underline">
+                            {order.contract.number}
+                            {order.contract.tenantContact ? ` · ${order.contract.tenantContact.fullName}` : ''}
+                          </Link>
+                        ) : 'Sin contrato vigente'}
+                      </dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Propietario</dt>
+                      <dd>{order.property?.owner?.fullName ?? '—'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Costo estimado</dt>
+                      <dd className="font-mono">{order.estimatedCost ? formatCurrency(parseFloat(order.estimatedCost)) : '—'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-muted-foreground">Facturación</dt>
+                      <dd data-testid="text-work-order-billing">
+                        {order.invoiceCharge ? (
+                          <Link href={`/invoices/${order.invoiceCharge.invoiceId}`} className="hover:underline">
+                            Cargado en factura del inquilino
+                          </Link>
+                        ) : order.ownerExpense ? (
+                          <Link href={`/owners/${order.ownerExpense.ownerContactId}?period=${order.ownerExpense.expenseDate.slice(0, 7)}`} className="hover:underline">
+                            Descontado al propietario
+                          </Link>
+                        ) : 'Sin facturar'}
+                      </dd>
+                    </div>
+                  </dl>
+                </div>
+
+                <div className="bg-card rounded-lg border border-border p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold">Fotos</h2>
+                    <span className="text-sm text-muted-foreground">{order.photos.length} de 10</span>
+                  </div>
+                  {canManage && order.photos.length < 10 && (
+                    <div className="mb-4">
+                      <ObjectUploader
+                        onUploadComplete={handleUploadComplete}
+                        onUploadError={(error) => {
+                          toast({ title: 'Error al subir foto', description: error.message, variant: 'destructive' });
+                        }}
+                      />
+                      {isUploading && (
+                        <div className="mt-3 flex items-center gap-2 text-sm text-muted-foreground">
+                          <div className="animate-spin w-4 h-4 border-2 border-primary border-t-transparent rounded-full" />
+                          <span>Guardando foto...</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {order.photos.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-6">Sin fotos</p>
+                  ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                      {order.photos.map((photo, index) => (
+                        <div key={photo.id} className="relative group rounded-lg overflow-hidden border border-border aspect-square">
+                          <img src={photo.objectPath} alt={photo.caption || `Foto ${index + 1}`} className="w-full h-full object-cover" />
+                          {canManage && (
+                            <Button
+                              size="icon"
+                              variant="destructive"
+                              className="absolute top-2 right-2 h-7 w-7 opacity-0 group-hover:opacity-100"
+                              onClick={() => deletePhotoMutation.mutate(photo.id)}
+                              data-testid={`button-delete-work-order-photo-${photo.id}`}
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="bg-card rounded-lg border border-border p-6">
+                  <h2 className="text-lg font-semibold mb-4">Historial</h2>
+                  <AuditHistory entity="work_order" entityId={order.id} />
+                </div>
+              </div>
+
+              <div className="bg-card rounded-lg border border-border p-6 h-fit space-y-4">
+                <h2 className="text-lg font-semibold">Asignación y costo</h2>
+                <div>
+                  <Label className="mb-2 block">Proveedor</Label>
+                  {canManage ? (
+                    <Select
+                      value={providerValue || 'none'}
+                      onValueChange={(value) => setEdits({ ...edits, providerContactId: value === 'none' ? '' : value })}
+                    >
+                      <SelectTrigger data-testid="select-work-order-provider">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Sin asignar</SelectItem>
+                        {providers.map((provider) => (
+                          <SelectItem key={provider.id} value={provider.id}>{provider.fullName}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <p className="text-sm">{order.provider?.fullName ?? 'Sin asignar'}</p>
+                  )}
+                  {order.provider?.phone && (
+                    <p className="text-xs text-muted-foreground mt-1">{order.provider.phone}</p>
+                  )}
+                </div>
+                <div>
+                  <Label className="mb-2 block">Prioridad</Label>
+                  <Select
+                    value={priorityValue}
+                    onValueChange={(value) => setEdits({ ...edits, priority: value as WorkOrderPriority })}
+                    disabled={!canManage}
+                  >
+                    <SelectTrigger data-testid="select-work-order-priority">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(workOrderPriorityLabels) as WorkOrderPriority[]).map((priority) => (
+                        <SelectItem key={priority} value={priority}>{workOrderPriorityLabels[priority]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="work-order-scheduled" className="mb-2 block">Fecha programada</Label>
+                  <Input
+                    id="work-order-scheduled"
+                    type="date"
+                    value={scheduledValue}
+                    onChange={(e) => setEdits({ ...edits, scheduledDate: e.target.value })}
+                    disabled={!canManage}
+                    data-testid="input-work-order-scheduled-date"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="work-order-cost" className="mb-2 block">Costo final</Label>
+                  <Input
+                    id="work-order-cost"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={costValue}
+                    onChange={(e) => setEdits({ ...edits, cost: e.target.value })}
+                    disabled={!canManage || billed}
+                    data-testid="input-work-order-cost"
+                  />
+                  {order.status === 'completed' && !order.cost && (
+                    <p className="text-xs text-muted-foreground mt-1">Registra el costo final para poder facturarlo.</p>
+                  )}
+                </div>
+                {canManage && (
+                  <Button
+                    className="w-full"
+                    onClick={saveEdits}
+                    disabled={!hasEdits || updateMutation.isPending}
+                    data-testid="button-save-work-order"
+                  >
+                    {updateMutation.isPending ? 'Guardando...' : 'Guardar cambios'}
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        </main>
+      </div>
+
+      {canBill && <BillWorkOrderDialog order={order} open={billOpen} onOpenChange={setBillOpen} />}
+    </div>
+  );
+}
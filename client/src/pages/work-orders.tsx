@@ -0,0 +1,432 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useState } from 'react';
+import { Link, useLocation } from 'wouter';
+import Sidebar from '@/components/layout/sidebar';
+import Topbar from '@/components/layout/topbar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { Plus } from 'lucide-react';
+import {
+  workOrderCategoryLabels,
+  workOrderPriorityColors,
+  workOrderPriorityLabels,
+  workOrderStatusColors,
+  workOrderStatusLabels,
+} from '@/lib/workOrders';
+import type { Contact, Property, WorkOrder, WorkOrderCategory, WorkOrderPriority, WorkOrderStatus } from '@shared/schema';
+
+type WorkOrderRow = WorkOrder & {
+  property: { id: string; code: string; name: string } | null;
+  provider: { id: string; fullName: string } | null;
+};
+
+const formSchema = z.object({
+  propertyId: z.string().min(1, "La propiedad es requerida"),
+  title: z.string().trim().min(1, "El título es requerido"),
+  description: z.string().optional(),
+  category: z.string(),
+  priority: z.string(),
+  providerContactId: z.string().optional(),
+  scheduledDate: z.string().optional(),
+  estimatedCost: z.string().optional(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+function WorkOrderFormDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data: properties = [] } = useQuery<Property[]>({
+    queryKey: ['/api/properties'],
+  });
+
+  const { data: contacts = [] } = useQuery<Contact[]>({
+    queryKey: ['/api/contacts'],
+  });
+
+  const providers = contacts.filter(c => c.roles?.includes('provider'));
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      propertyId: '',
+      title: '',
+      description: '',
+      category: 'other',
+      priority: 'medium',
+      providerContactId: '',
+      scheduledDate: '',
+      estimatedCost: '',
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      const res = await apiRequest('POST', '/api/work-orders', {
+        ...data,
+        description: data.description || null,
+        providerContactId: data.providerContactId || null,
+        scheduledDate: data.scheduledDate || null,
+        estimatedCost: data.estimatedCost ? Number.parseFloat(data.estimatedCost).toFixed(2) : null,
+      });
+      return res.json() as Promise<WorkOrder>;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/work-orders') });
+      toast({ title: `Orden ${order.number} creada` });
+      onOpenChange(false);
+      form.reset();
+      setLocation(`/work-orders/${order.id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error al crear orden de trabajo', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nueva orden de trabajo</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="propertyId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Propiedad *</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || undefined}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-work-order-property">
+                        <SelectValue placeholder="Seleccionar propiedad" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {properties.map((property) => (
+                        <SelectItem key={property.id} value={property.id}>
+                          {property.code} - {property.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Título *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ej. Fuga en el lavamanos del baño principal" {...field} data-testid="input-work-order-title" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descripción</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} data-testid="input-work-order-description" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Categoría</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-work-order-category">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(workOrderCategoryLabels) as WorkOrderCategory[]).map((category) => (
+                          <SelectItem key={category} value={category}>{workOrderCategoryLabels[category]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prioridad</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-work-order-priority">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {(Object.keys(workOrderPriorityLabels) as WorkOrderPriority[]).map((priority) => (
+                          <SelectItem key={priority} value={priority}>{workOrderPriorityLabels[priority]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="providerContactId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Proveedor</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value || undefined}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-work-order-provider">
+                        <SelectValue placeholder="Asignar más tarde" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {providers.map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id}>{provider.fullName}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="scheduledDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Fecha programada</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-work-order-scheduled-date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="estimatedCost"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Costo estimado</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" placeholder="0" {...field} data-testid="input-work-order-estimated-cost" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel">
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-submit">
+                {createMutation.isPending ? 'Guardando...' : 'Crear orden'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function WorkOrdersPage() {
+  const { can } = useAuth();
+  const [status, setStatus] = useState<WorkOrderStatus | 'all'>('all');
+  const [propertyId, setPropertyId] = useState('all');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const params = new URLSearchParams();
+  if (status !== 'all') {
+    params.set('status', status);
+  }
+  if (propertyId !== 'all') {
+    params.set('propertyId', propertyId);
+  }
+  const query = params.toString();
+
+  const { data: orders = [], isLoading } = useQuery<WorkOrderRow[]>({
+    queryKey: [query ? `/api/work-orders?${query}` : '/api/work-orders'],
+  });
+
+  const { data: properties = [] } = useQuery<Property[]>({
+    queryKey: ['/api/properties'],
+  });
+
+  return (
+    <div className="flex h-screen overflow-hidden">
+      <Sidebar />
+      <div className="flex-1 flex flex-col overflow-hidden">
+        <Topbar />
+        <main className="flex-1 overflow-y-auto bg-background p-6">
+          <div className="max-w-7xl mx-auto space-y-6">
+            <div className="flex items-start justify-between">
+              <div>
+                <h1 className="text-3xl font-bold mb-2">Mantenimiento</h1>
+                <p className="text-muted-foreground">Órdenes de trabajo sobre las propiedades, proveedores y costos</p>
+              </div>
+              {can('maintenance:manage') && (
+                <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-work-order">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Nueva orden
+                </Button>
+              )}
+            </div>
+
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="w-48">
+                  <p className="text-sm font-medium mb-2">Estado</p>
+                  <Select value={status} onValueChange={(value) => setStatus(value as WorkOrderStatus | 'all')}>
+                    <SelectTrigger data-testid="select-filter-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todos</SelectItem>
+                      {(Object.keys(workOrderStatusLabels) as WorkOrderStatus[]).map((value) => (
+                        <SelectItem key={value} value={value}>{workOrderStatusLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="w-64">
+                  <p className="text-sm font-medium mb-2">Propiedad</p>
+                  <Select value={propertyId} onValueChange={setPropertyId}>
+                    <SelectTrigger data-testid="select-filter-property">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Todas</SelectItem>
+                      {properties.map((property) => (
+                        <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+              </div>
+            ) : (
+              <div className="bg-card rounded-lg border border-border overflow-x-auto">
+                <table className="w-full" data-testid="table-work-orders">
+                  <thead className="bg-muted/50 border-b border-border">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Orden</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Propiedad</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Categoría</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Prioridad</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Proveedor</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-muted-foreground uppercase">Estado</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-muted-foreground uppercase">Costo</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {orders.length === 0 ? (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-8 text-center text-muted-foreground">
+                          No hay órdenes de trabajo
+                        </td>
+                      </tr>
+                    ) : (
+                      orders.map((order) => (
+                        <tr key={order.id} className="hover:bg-muted/50" data-testid={`row-work-order-${order.id}`}>
+                          <td className="px-4 py-3 text-sm">
+                            <Link href={`/work-orders/${order.id}`} className="font-mono hover:underline">{order.number}</Link>
+                            <p className="text-xs text-muted-foreground">{order.title} · {formatDate(order.reportedDate)}</p>
+                          </td>
+                          <td className="px-4 py-3 text-sm">{order.property?.name ?? '—'}</td>
+                          <td className="px-4 py-3 text-sm">{workOrderCategoryLabels[order.category]}</td>
+                          <td className="px-4 py-3">
+                            <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${workOrderPriorityColors[order.priority]}`}>
+                              {workOrderPriorityLabels[order.priority]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-sm">{order.provider?.fullName ?? '—'}</td>
+                          <td className="px-4 py-3">
+                            <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${workOrderStatusColors[order.status]}`}>
+                              {workOrderStatusLabels[order.status]}
+                            </span>
+                          </td>
+                          <td className="px-4 py-3 text-sm text-right font-mono">
+                            {order.cost
+                              ? formatCurrency(parseFloat(order.cost))
+                              : order.estimatedCost
+                                ? <span className="text-muted-foreground">~{formatCurrency(parseFloat(order.estimatedCost))}</span>
+                                : '—'}
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+
+      <WorkOrderFormDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+-- Scheduler jobs reminder_d3 and overdue_d1 became late_fee and dunning when the dunning ladder
+-- replaced the fixed reminders. Run once, before `npm run db:push`, on databases created earlier:
+--   psql "$DATABASE_URL" -f migrations/0000_scheduler_job_values.sql
+-- reminder_d3 (D-3 reminder) maps to dunning; overdue_d1 (late fee and overdue notice) maps to both.
+BEGIN;
+
+ALTER TABLE "tenants" ALTER COLUMN "enabled_jobs" DROP DEFAULT;
+ALTER TABLE "tenants" ALTER COLUMN "enabled_jobs" SET DATA TYPE text[] USING "enabled_jobs"::text[];
+DROP TYPE "public"."scheduler_job";
+CREATE TYPE "public"."scheduler_job" AS ENUM('overdue_status', 'late_fee', 'dunning', 'insurer_reports');
+
+-- Each tenant keeps the jobs it had enabled, renamed, in the order they run
+UPDATE "tenants" SET "enabled_jobs" = ARRAY(
+  SELECT "jobs"."job"
+  FROM unnest(ARRAY['overdue_status', 'late_fee', 'dunning', 'insurer_reports']) WITH ORDINALITY AS "jobs"("job", "position")
+  WHERE "jobs"."job" = ANY("enabled_jobs")
+    OR ("jobs"."job" = 'late_fee' AND 'overdue_d1' = ANY("enabled_jobs"))
+    OR ("jobs"."job" = 'dunning' AND "enabled_jobs" && ARRAY['reminder_d3', 'overdue_d1'])
+  ORDER BY "jobs"."position"
+);
+
+ALTER TABLE "tenants" ALTER COLUMN "enabled_jobs" SET DATA TYPE "public"."scheduler_job"[] USING "enabled_jobs"::"public"."scheduler_job"[];
+ALTER TABLE "tenants" ALTER COLUMN "enabled_jobs" SET DEFAULT ARRAY['overdue_status', 'late_fee', 'dunning', 'insurer_reports']::scheduler_job[];
+
+COMMIT;
@@ -0,0 +1,34 @@
+-- A late-fee job reclaimed after a crash could charge the contract's late fee twice on the same
+-- invoice. Run once, before `npm run db:push` adds unique_late_fee_per_invoice:
+--   psql "$DATABASE_URL" -f migrations/0001_unique_late_fee.sql
+-- Keeps the first late fee of each invoice and takes the repeats off its totals. Late fees carry
+-- no taxes, so only the late fee and the total change.
+BEGIN;
+
+-- Lines from before charge categories still have no source; the backfill will make those that
+-- mention "mora" contract late fees, so they count too.
+WITH "late_fees" AS (
+  SELECT "id", row_number() OVER (PARTITION BY "invoice_id" ORDER BY "created_at", "id") AS "position"
+  FROM "invoice_charges"
+  WHERE ("category" = 'late_fee' AND "source_type" = 'contract')
+    OR ("source_type" IS NULL AND lower("description") LIKE '%mora%')
+), "repeated" AS (
+  DELETE FROM "invoice_charges"
+  WHERE "id" IN (SELECT "id" FROM "late_fees" WHERE "position" > 1)
+  RETURNING "invoice_id", "amount"
+), "removed" AS (
+  SELECT "invoice_id", sum("amount") AS "amount" FROM "repeated" GROUP BY "invoice_id"
+)
+UPDATE "invoices"
+SET "late_fee" = "invoices"."late_fee" - "removed"."amount",
+    "total_amount" = "invoices"."total_amount" - "removed"."amount"
+FROM "removed"
+WHERE "invoices"."id" = "removed"."invoice_id";
+
+-- Invoices the repeats had kept open may now be settled
+UPDATE "invoices"
+SET "status" = 'paid'
+WHERE "status" IN ('issued', 'partial', 'overdue')
+  AND "amount_paid" + "credited_amount" >= "total_amount";
+
+COMMIT;
@@ -0,0 +1,14 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Carries the acting user through a request so DatabaseStorage can attribute
+// audit log entries without every mutation taking an extra argument.
+// Mutations outside a request (scheduler jobs, webhooks) have no actor.
+const auditActorStorage = new AsyncLocalStorage<string>();
+
+export function runWithAuditActor<T>(userId: string, fn: () => T): T {
+  return auditActorStorage.run(userId, fn);
+}
+
+export function getAuditActor(): string | null {
+  return auditActorStorage.getStore() ?? null;
+}
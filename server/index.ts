@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { startScheduler } from "./jobs/scheduler";
+import { backfillChargeCategories } from "./services/chargeCategories";
 
 const app = express();
 
@@ -68,6 +69,16 @@ app.use((req, res, next) => {
     serveStatic(app);
   }
 
+  // Categorize invoice lines written before charges had a category
+  try {
+    const categorized = await backfillChargeCategories();
+    if (categorized > 0) {
+      log(`Categorized ${categorized} existing invoice charges`);
+    }
+  } catch (error) {
+    console.error('Failed to categorize existing invoice charges:', error);
+  }
+
   // Start job scheduler
   startScheduler();
   log('Job scheduler started');
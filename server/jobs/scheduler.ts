@@ -1,142 +1,42 @@
 import cron from 'node-cron';
-import { db } from '../db';
-import { invoices, contracts } from '@shared/schema';
-import { eq, and, lte, gte, lt } from 'drizzle-orm';
-import { applyLateFee } from '../services/invoiceEngine';
-import { sendReminderD3, sendReminderD1, sendInsurerMonthlyReport } from '../services/emailService';
-import { generateInsurerMonthlyReport } from '../services/pdfService';
+import { generateDueInvoicesForActiveContracts } from '../services/invoiceEngine';
+import { updateContractLifecycleStatuses } from '../services/contractLifecycle';
+import { runTenantJobs } from './tenantJobs';
 
 export function startScheduler() {
-  // Update overdue invoices status (every hour)
-  cron.schedule('0 * * * *', async () => {
-    console.log('Running overdue status update job...');
-    
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayStr = today.toISOString().split('T')[0];
+  // Issue upcoming monthly invoices (06:00 daily); safe to rerun, periods already invoiced are skipped
+  cron.schedule('0 6 * * *', async () => {
+    console.log('Running invoice generation job...');
 
     try {
-      const result = await db.query.invoices.findMany({
-        where: and(
-          lt(invoices.dueDate, todayStr),
-          eq(invoices.status, 'issued')
-        ),
-      });
-
-      const partialInvoices = await db.query.invoices.findMany({
-        where: and(
-          lt(invoices.dueDate, todayStr),
-          eq(invoices.status, 'partial')
-        ),
-      });
-
-      const allOverdueInvoices = [...result, ...partialInvoices];
-
-      for (const invoice of allOverdueInvoices) {
-        await db
-          .update(invoices)
-          .set({ status: 'overdue' })
-          .where(eq(invoices.id, invoice.id));
-      }
-
-      console.log(`Updated ${allOverdueInvoices.length} invoices to overdue status`);
+      const result = await generateDueInvoicesForActiveContracts();
+      console.log(`Issued ${result.created} invoices across ${result.contracts} active contracts`);
     } catch (error) {
-      console.error('Failed to update overdue invoices:', error);
-    }
-  });
-  // D-3 Reminders (08:00 daily)
-  cron.schedule('0 8 * * *', async () => {
-    console.log('Running D-3 reminders job...');
-    
-    const today = new Date();
-    const threeDaysFromNow = new Date(today);
-    threeDaysFromNow.setDate(today.getDate() + 3);
-    const targetDate = threeDaysFromNow.toISOString().split('T')[0];
-
-    const invoicesList = await db.query.invoices.findMany({
-      where: and(
-        eq(invoices.dueDate, targetDate),
-        // status in (issued, partial)
-      ),
-      with: {
-        tenantContact: true,
-      },
-    });
-
-    for (const invoice of invoicesList) {
-      if (invoice.status === 'issued' || invoice.status === 'partial') {
-        try {
-          await sendReminderD3(invoice, invoice.tenantContact);
-          console.log(`D-3 reminder sent for invoice ${invoice.number}`);
-        } catch (error) {
-          console.error(`Failed to send D-3 reminder for ${invoice.number}:`, error);
-        }
-      }
+      console.error('Failed to generate invoices:', error);
     }
   });
 
-  // D+1 Overdue & Late Fee (08:00 daily)
-  cron.schedule('0 8 * * *', async () => {
-    console.log('Running D+1 overdue job...');
-    
-    const today = new Date();
-    const yesterday = new Date(today);
-    yesterday.setDate(today.getDate() - 1);
-    const targetDate = yesterday.toISOString().split('T')[0];
-
-    const invoicesList = await db.query.invoices.findMany({
-      where: and(
-        eq(invoices.dueDate, targetDate),
-      ),
-      with: {
-        tenantContact: true,
-        contract: true,
-      },
-    });
+  // Move contracts to expiring/expired and notify owner and tenant (05:30 daily, before invoicing)
+  cron.schedule('30 5 * * *', async () => {
+    console.log('Running contract expiration job...');
 
-    for (const invoice of invoicesList) {
-      if (invoice.status !== 'paid') {
-        try {
-          // Apply late fee
-          await applyLateFee(invoice.id);
-          
-          // Send D+1 reminder
-          await sendReminderD1(invoice, invoice.tenantContact);
-          
-          console.log(`Late fee applied and D+1 reminder sent for invoice ${invoice.number}`);
-        } catch (error) {
-          console.error(`Failed to process overdue invoice ${invoice.number}:`, error);
-        }
-      }
+    try {
+      const result = await updateContractLifecycleStatuses();
+      console.log(`Marked ${result.expiring} contracts as expiring and ${result.expired} as expired`);
+    } catch (error) {
+      console.error('Failed to update contract statuses:', error);
     }
   });
 
-  // Monthly Insurer Reports (Day 1, 07:00)
-  cron.schedule('0 7 1 * *', async () => {
-    console.log('Running monthly insurer reports job...');
-    
-    const today = new Date();
-    const lastMonth = new Date(today);
-    lastMonth.setMonth(today.getMonth() - 1);
-    const year = lastMonth.getFullYear();
-    const month = lastMonth.getMonth() + 1;
-
-    const insurersList = await db.query.insurers.findMany();
+  // Overdue status, late fees, dunning steps and insurer reports run hourly, per tenant, and each
+  // job fires when it is due on the tenant's own clock and the tenant has it enabled
+  cron.schedule('0 * * * *', async () => {
+    console.log('Running tenant jobs...');
 
-    for (const insurer of insurersList) {
-      if (insurer.emailReports) {
-        try {
-          const pdfBuffer = await generateInsurerMonthlyReport(insurer.id, year, month);
-          await sendInsurerMonthlyReport(
-            insurer, 
-            pdfBuffer, 
-            `${year}-${String(month).padStart(2, '0')}`
-          );
-          console.log(`Monthly report sent to ${insurer.name}`);
-        } catch (error) {
-          console.error(`Failed to send report to ${insurer.name}:`, error);
-        }
-      }
+    try {
+      await runTenantJobs();
+    } catch (error) {
+      console.error('Failed to run tenant jobs:', error);
     }
   });
 
@@ -0,0 +1,136 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { dunningEvents, invoiceCharges, invoices, notifications, tenants, type SchedulerJob } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedPolicy, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { runTenantJobs, tenantClock, tenantJobs } = await import("./tenantJobs");
+
+type Lease = Awaited<ReturnType<typeof seedTenant>>;
+
+// 08:00 on 2025-03-05 in Bogotá: invoices due the day before get their late fee and first overdue notice
+const morning = new Date("2025-03-05T13:00:00Z");
+
+// Two agencies with the same insurer and an invoice numbered alike, due on the same day
+async function seedTwoTenants() {
+  const leases: Lease[] = [];
+  for (const name of ["Norte", "Sur"]) {
+    const lease = await seedTenant(testDb.db, `Inmobiliaria ${name}`);
+    await seedPolicy(testDb.db, lease, "Seguros Comunes");
+    await seedInvoice(testDb.db, lease, { number: "F-1", issueDate: "2025-02-20", dueDate: "2025-03-04" });
+    leases.push(lease);
+  }
+  return leases;
+}
+
+async function tenantRows(tenantId: string) {
+  const [invoice] = await testDb.db.select().from(invoices).where(eq(invoices.tenantId, tenantId));
+  return {
+    invoice,
+    charges: await testDb.db.select().from(invoiceCharges).where(eq(invoiceCharges.invoiceId, invoice.id)),
+    notifications: await testDb.db.select().from(notifications).where(eq(notifications.tenantId, tenantId)),
+    dunningEvents: await testDb.db.select().from(dunningEvents).where(eq(dunningEvents.tenantId, tenantId)),
+  };
+}
+
+describe("tenant jobs", () => {
+  let outbox: string;
+
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+    outbox = await mkdtemp(path.join(tmpdir(), "outbox-"));
+    vi.stubEnv("EMAIL_OUTBOX_DIR", outbox);
+    vi.stubEnv("EMAIL_TRANSPORT", "outbox");
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    await testDb.db.delete(tenants);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  it.each(Object.keys(tenantJobs) as SchedulerJob[])("%s only touches the calling tenant's rows", async (name) => {
+    const [north, south] = await seedTwoTenants();
+    const [own, before] = [await tenantRows(north.tenant.id), await tenantRows(south.tenant.id)];
+
+    // The first of the month, so the insurer reports are due as well
+    const clock = { ...tenantClock(north.tenant, morning), day: 1 };
+    expect(await tenantJobs[name].run(north.tenant, clock)).toBe(1);
+
+    expect(await tenantRows(north.tenant.id)).not.toEqual(own);
+    expect(await tenantRows(south.tenant.id)).toEqual(before);
+  });
+
+  it("runs each tenant's jobs on its own rows", async () => {
+    const [north, south] = await seedTwoTenants();
+    await testDb.db.update(tenants).set({ enabledJobs: [] }).where(eq(tenants.id, south.tenant.id));
+    const before = await tenantRows(south.tenant.id);
+
+    await runTenantJobs(morning);
+
+    const after = await tenantRows(north.tenant.id);
+    expect(after.invoice.status).toBe("overdue");
+    expect(after.charges.map((charge) => charge.category)).toEqual(["late_fee"]);
+    expect(after.dunningEvents).toHaveLength(1);
+    expect(after.notifications.map((notification) => notification.recipient))
+      .toEqual([north.renter.email, `reportes@${north.tenant.id}.test`]);
+    expect(await tenantRows(south.tenant.id)).toEqual(before);
+  });
+
+  it("makes up a missed late-fee tick later in the day, once", async () => {
+    const [north] = await seedTwoTenants();
+    const hour = 60 * 60 * 1000;
+
+    await runTenantJobs(new Date(morning.getTime() + 2 * hour));
+    await runTenantJobs(new Date(morning.getTime() + 3 * hour));
+
+    expect((await tenantRows(north.tenant.id)).charges.map((charge) => charge.category)).toEqual(["late_fee"]);
+  });
+
+  it("runs daily and monthly jobs once when two instances tick together", async () => {
+    const [north] = await seedTwoTenants();
+
+    await Promise.all([runTenantJobs(morning), runTenantJobs(morning)]);
+
+    const rows = await tenantRows(north.tenant.id);
+    expect(rows.charges).toHaveLength(1);
+    expect(rows.notifications.filter((notification) => notification.template === "insurer_report")).toHaveLength(1);
+  });
+
+  it("retries a failed run on the next tick", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const [north] = await seedTwoTenants();
+    vi.spyOn(tenantJobs.late_fee, "run").mockRejectedValueOnce(new Error("connection lost"));
+
+    await runTenantJobs(morning);
+    expect((await tenantRows(north.tenant.id)).charges).toEqual([]);
+
+    await runTenantJobs(new Date(morning.getTime() + 60 * 60 * 1000));
+    expect((await tenantRows(north.tenant.id)).charges).toHaveLength(1);
+    error.mockRestore();
+  });
+
+  it("keeps running other tenants when one has an invalid timezone", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const broken = await seedTenant(testDb.db, "Inmobiliaria Rota");
+    await testDb.db.update(tenants).set({ timezone: "America/Nowhere" }).where(eq(tenants.id, broken.tenant.id));
+    const [north] = await seedTwoTenants();
+
+    await runTenantJobs(morning);
+
+    expect((await tenantRows(north.tenant.id)).invoice.status).toBe("overdue");
+    expect(error).toHaveBeenCalledWith(expect.stringContaining("America/Nowhere"), expect.any(RangeError));
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,173 @@
+import { storage } from '../storage';
+import { applyLateFee } from '../services/invoiceEngine';
+import { sendInsurerMonthlyReport } from '../services/emailService';
+import { runDunning } from '../services/dunningService';
+import { generateInsurerReportPDF } from '../services/pdfService';
+import { buildInsurerMonthlyReport } from '../services/insurerReportService';
+import type { SchedulerJob, SchedulerRun, Tenant } from '@shared/schema';
+
+export interface TenantClock {
+  date: string; // YYYY-MM-DD on the tenant's calendar
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+}
+
+// The tenant's local date and hour at a given instant
+export function tenantClock(tenant: Pick<Tenant, 'timezone'>, now = new Date()): TenantClock {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: tenant.timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(now)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+  };
+}
+
+function addDays(value: string, days: number): string {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// Invoices past their due date with a balance become overdue
+export async function markOverdueInvoices(tenant: Tenant, clock: TenantClock) {
+  const pastDue = await storage.getOpenInvoicesDue(tenant.id, { dueBefore: clock.date });
+
+  let updated = 0;
+  for (const invoice of pastDue) {
+    if (invoice.status !== 'overdue') {
+      await storage.updateInvoiceStatus(invoice.id, tenant.id, 'overdue');
+      updated++;
+    }
+  }
+  return updated;
+}
+
+// The day after the due date, the late fee set in each contract
+export async function applyLateFees(tenant: Tenant, clock: TenantClock) {
+  const overdue = await storage.getOpenInvoicesDue(tenant.id, { dueDate: addDays(clock.date, -1) });
+
+  let applied = 0;
+  for (const invoice of overdue) {
+    try {
+      if (await applyLateFee(invoice.id, tenant.id) > 0) {
+        applied++;
+      }
+    } catch (error) {
+      console.error(`Failed to apply late fee to ${invoice.number}:`, error);
+    }
+  }
+  return applied;
+}
+
+// Last month's report to every insurer of the tenant that receives them
+export async function sendInsurerReports(tenant: Tenant, clock: TenantClock) {
+  const year = clock.month === 1 ? clock.year - 1 : clock.year;
+  const month = clock.month === 1 ? 12 : clock.month - 1;
+  let sent = 0;
+  for (const insurer of await storage.getInsurers(tenant.id)) {
+    if (!insurer.emailReports) {
+      continue;
+    }
+    try {
+      const report = await buildInsurerMonthlyReport(insurer, year, month);
+      const pdfBuffer = await generateInsurerReportPDF(report, tenant);
+      await sendInsurerMonthlyReport(tenant, report, pdfBuffer);
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send report to ${insurer.name}:`, error);
+    }
+  }
+  return sent;
+}
+
+interface TenantJob {
+  description: string;
+  // Whether the job may run at this local time; checked once an hour
+  isDue: (clock: TenantClock) => boolean;
+  // Jobs meant to run once a day or once a month name the period the clock is in. The period is
+  // claimed in scheduler_runs before running, so a missed tick is made up on the next one and
+  // instances ticking together run it once
+  period?: (clock: TenantClock) => string;
+  run: (tenant: Tenant, clock: TenantClock) => Promise<number>;
+}
+
+export const tenantJobs: Record<SchedulerJob, TenantJob> = {
+  overdue_status: {
+    description: 'invoices marked overdue',
+    isDue: () => true,
+    run: markOverdueInvoices,
+  },
+  late_fee: {
+    description: 'late fees applied',
+    isDue: (clock) => clock.hour >= 8,
+    period: (clock) => clock.date,
+    run: applyLateFees,
+  },
+  // Hourly during the working day; a step already fired for an invoice is never sent again
+  dunning: {
+    description: 'dunning messages sent',
+    isDue: (clock) => clock.hour >= 8 && clock.hour < 20,
+    run: (tenant, clock) => runDunning(tenant, clock.date),
+  },
+  insurer_reports: {
+    description: 'insurer reports sent',
+    isDue: (clock) => clock.day > 1 || clock.hour >= 7,
+    period: (clock) => clock.date.slice(0, 7),
+    run: sendInsurerReports,
+  },
+};
+
+// Runs every job the tenant has enabled and that is due on its own clock, in the order above
+// (late fees before the dunning notice that mentions them); one tenant's failure is logged and
+// does not stop the others
+export async function runTenantJobs(now = new Date()) {
+  for (const tenant of await storage.getActiveTenants()) {
+    let clock: TenantClock;
+    try {
+      clock = tenantClock(tenant, now);
+    } catch (error) {
+      console.error(`[${tenant.name}] Cannot read the clock of timezone ${tenant.timezone}:`, error);
+      continue;
+    }
+    for (const name of Object.keys(tenantJobs) as SchedulerJob[]) {
+      const job = tenantJobs[name];
+      if (!tenant.enabledJobs.includes(name) || !job.isDue(clock)) {
+        continue;
+      }
+      let claim: SchedulerRun | undefined;
+      try {
+        if (job.period) {
+          claim = await storage.claimSchedulerRun(tenant.id, name, job.period(clock));
+          if (!claim) {
+            continue;
+          }
+        }
+        const count = await job.run(tenant, clock);
+        console.log(`[${tenant.name}] ${count} ${job.description}`);
+        if (claim) {
+          await storage.finishSchedulerRun(claim.id, tenant.id, null);
+        }
+      } catch (error) {
+        console.error(`[${tenant.name}] Job ${name} failed:`, error);
+        if (claim) {
+          await storage.finishSchedulerRun(claim.id, tenant.id, error instanceof Error ? error.message : String(error))
+            .catch((finishError) => console.error(`[${tenant.name}] Could not record the failure of ${name}:`, finishError));
+        }
+      }
+    }
+  }
+}
@@ -2,31 +2,41 @@ import type { Express, Response } from "express";
 import type { ParamsDictionary } from "express-serve-static-core";
 import type { ParsedQs } from "qs";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type AuditLogFilters } from "./storage";
 import { db } from "./db";
 import { and, eq } from "drizzle-orm";
-import { invoices, ocrLogs, insertTenantSchema, updateTenantLogoSchema, insertContactSchema, insertPropertySchema, insertContractSchema, insertInvoiceSchema, insertPaymentSchema, insertInsurerSchema, insertPolicySchema } from "@shared/schema";
-import { createMonthlyInvoices, recalcInvoiceTotals } from "./services/invoiceEngine";
-import { sendReminderD3, sendReminderD1 } from "./services/emailService";
+import { runWithAuditActor } from "./auditContext";
+import { invoices, invoiceCharges, insertTenantSchema, updateTenantSettingsSchema, createTeamInvitationSchema, updateMemberRoleSchema, insertContactSchema, insertPropertySchema, insertContractSchema, renewContractSchema, terminateContractSchema, createDepositEntrySchema, recurringChargeSchema, updateRecurringChargeSchema, insertTaxProfileSchema, insertInvoiceSchema, createInvoiceChargeSchema, createCreditNoteSchema, voidInvoiceSchema, statementRangeSchema, agingReportQuerySchema, reportPeriodSchema, createOwnerExpenseSchema, createOwnerDisbursementSchema, createWorkOrderSchema, updateWorkOrderSchema, billWorkOrderSchema, workOrderQuerySchema, createInspectionSchema, updateInspectionSchema, createInspectionItemSchema, updateInspectionItemSchema, signInspectionSchema, inspectionComparisonQuerySchema, dunningStepInputSchema, updateDunningStepSchema, promiseToPaySchema, remindInvoiceSchema, messagingChannelSchema, messagingConsentInputSchema, editableEmailTemplates, emailTemplateKeySchema, emailTemplateInputSchema, emailTemplatePreviewSchema, emailSettingsInputSchema, insertPaymentSchema, insertInsurerSchema, insertPolicySchema } from "@shared/schema";
+import { generateDueInvoices, previewUpcomingInvoices, recalcInvoiceTotals, canEditCharges, addManualCharge, removeManualCharge } from "./services/invoiceEngine";
+import { renewContract, defaultRenewalStart, planTermination, terminateContract } from "./services/contractLifecycle";
+import { getDepositSummary, recordDepositEntry, removeDepositEntry } from "./services/depositService";
+import { defaultTaxable } from "./services/chargeCategories";
+import { canCredit, getInvoiceBalance, issueCreditNote, voidInvoice } from "./services/creditNoteService";
+import { sendAccountStatement, sendOwnerStatement } from "./services/emailService";
+import { buildAccountStatement } from "./services/statementService";
+import { buildAgingReport } from "./services/agingService";
+import { buildOwnerStatement, buildOwnerStatements, summarizeOwnerStatement } from "./services/ownerStatementService";
+import { buildInsurerMonthlyReport } from "./services/insurerReportService";
+import { billWorkOrder, findLeaseForProperty, isWorkOrderBilled, planWorkOrderUpdate } from "./services/workOrderService";
+import { buildInitialChecklist, compareInspections, isInspectionSigned, pickComparisonPair, planInspectionSignature } from "./services/inspectionService";
+import { daysFromDue, getDunningLadder } from "./services/dunningService";
+import { applySendGridEvents, applyWhatsAppWebhook, verifySendGridSignature, verifyWhatsAppSignature } from "./services/notificationService";
+import { routeReminder, sendReminder } from "./services/messagingService";
+import { defaultEmailTemplates, emailTemplateVariables, insurerReportVariables, invoiceEmailVariables, renderEmailTemplate, unknownVariables } from "./services/emailTemplateService";
+import { platformTransportName, tenantTransportNames, verifySmtpSettings } from "./services/emailTransport";
 import { createCheckoutSession, handleWebhook, createCustomerPortalSession } from "./services/stripeService";
 import { processOCRAndSave, approveOCRAndCreateCharge } from "./services/ocrService";
-import { generateInsurerMonthlyReport } from "./services/pdfService";
-import { importContactsCSV, importPropertiesCSV, importPaymentsCSV, importContractsCSV, importInvoicesCSV, generateContactsTemplate, generatePropertiesTemplate, generatePaymentsTemplate, generateContractsTemplate, generateInvoicesTemplate } from "./services/csvService";
+import { createTeamInvitation, getInvitationPreview, acceptTeamInvitation } from "./services/invitationService";
+import { importContactsCSV, importPropertiesCSV, importPaymentsCSV, importContractsCSV, importInvoicesCSV, importPriceIndexesCSV, generateContactsTemplate, generatePropertiesTemplate, generatePaymentsTemplate, generateContractsTemplate, generateInvoicesTemplate, generatePriceIndexesTemplate, exportDepositsCSV, exportCreditNotesCSV, exportAccountStatementCSV, exportAgingReportCSV } from "./services/csvService";
 import { setupAuth, isAuthenticated } from "./replitAuth";
+import { getErrorMessage } from "./errors";
 import Stripe from "stripe";
 import multer from "multer";
 import type { AuthenticatedRequest, TenantBoundRequest } from "./types/auth";
+import { hasPermission, getAllowedRoles, getPermissionsForRole, type Permission } from "@shared/permissions";
+import { countryFromLocale, toE164 } from "@shared/phone";
 import type { z } from "zod";
-
-function getErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-  if (typeof error === "string") {
-    return error;
-  }
-  return "Unknown error";
-}
+import type { EmailSettings, EmailSettingsInput } from "@shared/schema";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -35,7 +45,7 @@ const upload = multer({
 });
 
 type CsvImportRequest = AuthenticatedRequest<ParamsDictionary, unknown, { csvContent?: string }>;
-type OnboardRequest = AuthenticatedRequest<ParamsDictionary, unknown, { companyName?: string }>;
+type OnboardRequest = AuthenticatedRequest<ParamsDictionary, unknown, { companyName?: string; invitationToken?: string }>;
 type PartialInsertContact = Partial<z.infer<typeof insertContactSchema>>;
 type PartialInsertProperty = Partial<z.infer<typeof insertPropertySchema>>;
 type PartialInsertContract = Partial<z.infer<typeof insertContractSchema>>;
@@ -43,17 +53,27 @@ type PartialInsertInvoice = Partial<z.infer<typeof insertInvoiceSchema>>;
 type PartialInsertPayment = Partial<z.infer<typeof insertPaymentSchema>>;
 type PartialInsertInsurer = Partial<z.infer<typeof insertInsurerSchema>>;
 type PartialInsertPolicy = Partial<z.infer<typeof insertPolicySchema>>;
+type PartialInsertTaxProfile = Partial<z.infer<typeof insertTaxProfileSchema>>;
 type OcrApproveBody = { invoiceId?: string; description?: string; amount?: string };
 type OcrCreateInvoiceBody = { contractId?: string };
 type BillingCheckoutBody = { plan?: string };
 
 const updateContactSchema = insertContactSchema.omit({ tenantId: true }).partial();
 const updatePropertySchema = insertPropertySchema.omit({ tenantId: true }).partial();
-const updateContractSchema = insertContractSchema.omit({ tenantId: true }).partial();
-const updateInvoiceSchema = insertInvoiceSchema.omit({ tenantId: true }).partial();
-const updatePaymentSchema = insertPaymentSchema.omit({ tenantId: true }).partial();
+// Renewal links and termination data are only set through the renew/terminate endpoints
+const createContractSchema = insertContractSchema.omit({ renewedFromContractId: true, terminationDate: true, terminationReason: true });
+// Once created, a contract changes status through activation, expiry, renewal and termination
+const updateContractSchema = createContractSchema.omit({ tenantId: true, status: true }).partial();
+// Credited amounts only change through credit notes, and promises to pay through their endpoint.
+// Tax rates are taken from the contract's profile when the invoice is created
+const createInvoiceSchema = insertInvoiceSchema.omit({ creditedAmount: true, promisedPaymentDate: true, promiseNote: true, ivaRate: true, withholdingRate: true, icaRate: true });
+const updateInvoiceSchema = createInvoiceSchema.omit({ tenantId: true }).partial();
+// The management fee rate is taken from the property or owner when the payment is recorded
+const createPaymentSchema = insertPaymentSchema.omit({ managementFeeRate: true });
+const updatePaymentSchema = createPaymentSchema.omit({ tenantId: true }).partial();
 const updateInsurerSchema = insertInsurerSchema.omit({ tenantId: true }).partial();
 const updatePolicySchema = insertPolicySchema.omit({ tenantId: true }).partial();
+const updateTaxProfileSchema = insertTaxProfileSchema.omit({ tenantId: true }).partial();
 
 // Helper middleware to load user and tenant info
 const withUser: import("express").RequestHandler = async (
@@ -81,13 +101,31 @@ const withUser: import("express").RequestHandler = async (
 
     authReq.dbUser = { ...user, tenantId: user.tenantId } as typeof user & { tenantId: string };
     authReq.tenantId = user.tenantId;
-    next();
+    // Everything downstream of this request is attributed to the user in audit_logs
+    runWithAuditActor(user.id, next);
   } catch (error) {
     console.error("Error loading user:", error);
     res.status(500).json({ message: "Failed to load user" });
   }
 };
 
+// Route guard backed by the shared permission matrix; must run after withUser
+function requirePermission(permission: Permission): import("express").RequestHandler {
+  return (req, res, next) => {
+    const role = (req as AuthenticatedRequest).dbUser?.role;
+    if (!hasPermission(role, permission)) {
+      const allowedRoles = getAllowedRoles(permission);
+      res.status(403).json({
+        message: `Role '${role ?? "unknown"}' is not allowed to perform '${permission}'. Allowed roles: ${allowedRoles.join(", ")}`,
+        permission,
+        allowedRoles,
+      });
+      return;
+    }
+    next();
+  };
+}
+
 function ensureTenantRequest<
   P = ParamsDictionary,
   ResBody = unknown,
@@ -105,15 +143,58 @@ function ensureTenantRequest<
   return true;
 }
 
+// Phones are stored in E.164 when they can be read as a number of the tenant's country; anything else is kept as typed
+async function normalizePhone(phone: string | null | undefined, tenantId: string): Promise<string | null | undefined> {
+  if (!phone) {
+    return phone;
+  }
+  const tenant = await storage.getTenant(tenantId);
+  return toE164(phone, countryFromLocale(tenant?.locale)) ?? phone;
+}
+
+async function isGuarantor(contactId: string, tenantId: string): Promise<boolean> {
+  const contact = await storage.getContact(contactId, tenantId);
+  return !!contact?.roles?.includes("guarantor");
+}
+
+// Settings as the API shows them: the SMTP password never leaves the server
+function publicEmailSettings({ smtpPassword, ...settings }: EmailSettings) {
+  return { ...settings, hasPassword: !!smtpPassword };
+}
+
+// Non-SMTP transports drop the SMTP fields; an omitted password keeps the saved one
+function toEmailSettings(input: EmailSettingsInput, existing: EmailSettings | undefined) {
+  if (input.transport !== "smtp") {
+    return {
+      transport: input.transport,
+      smtpHost: null,
+      smtpPort: null,
+      smtpSecure: false,
+      smtpUser: null,
+      smtpPassword: null,
+      fromEmail: input.fromEmail ?? null,
+      fromName: input.fromName ?? null,
+    };
+  }
+  return {
+    transport: input.transport,
+    smtpHost: input.smtpHost ?? null,
+    smtpPort: input.smtpPort ?? null,
+    smtpSecure: input.smtpSecure ?? false,
+    smtpUser: input.smtpUser || null,
+    smtpPassword: input.smtpPassword ?? existing?.smtpPassword ?? null,
+    fromEmail: input.fromEmail ?? null,
+    fromName: input.fromName || null,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup Replit Auth
   await setupAuth(app);
 
   // Auth Routes
-  app.get('/api/auth/user', isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
-    if (!ensureTenantRequest(req, res)) {
-      return;
-    }
+  // Not behind withUser: users without a tenant must still learn they need onboarding
+  app.get('/api/auth/user', isAuthenticated, async (req: AuthenticatedRequest, res) => {
     try {
       const userId = req.user?.claims.sub;
       if (!userId) {
@@ -143,6 +224,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           role: user.role,
           needsOnboarding: !user.tenantId,
         },
+        permissions: user.tenantId ? getPermissionsForRole(user.role) : [],
         tenant: tenant ? {
           id: tenant.id,
           name: tenant.name,
@@ -164,7 +246,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!userId) {
         return res.status(401).json({ message: "Unauthorized" });
       }
-      const { companyName } = req.body;
+      const { companyName, invitationToken } = req.body;
 
       const user = await storage.getUser(userId);
       if (!user) {
@@ -175,6 +257,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "User already has a tenant" });
       }
 
+      // Join an existing tenant through an invitation
+      if (typeof invitationToken === "string" && invitationToken.trim().length > 0) {
+        try {
+          const tenant = await acceptTeamInvitation(invitationToken.trim(), user);
+          return res.json({
+            success: true,
+            tenant: {
+              id: tenant.id,
+              name: tenant.name,
+              plan: tenant.plan,
+            }
+          });
+        } catch (error: unknown) {
+          return res.status(400).json({ message: getErrorMessage(error) });
+        }
+      }
+
       // Create tenant
       const tenant = await storage.createTenant({
         name: companyName || "Mi Empresa",
@@ -203,6 +302,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Invitation preview for the onboarding screen
+  app.get("/api/invitations/:token", isAuthenticated, async (req: AuthenticatedRequest, res) => {
+    try {
+      const preview = await getInvitationPreview(req.params.token);
+      if (!preview) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      res.json(preview);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Team members & invitations
+  app.get("/api/team/members", isAuthenticated, withUser, requirePermission("team:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const members = await storage.getTenantUsers(req.tenantId);
+      res.json(members.map(member => ({
+        id: member.id,
+        email: member.email,
+        firstName: member.firstName,
+        lastName: member.lastName,
+        profileImageUrl: member.profileImageUrl,
+        role: member.role,
+        createdAt: member.createdAt,
+      })));
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.patch("/api/team/members/:id", isAuthenticated, withUser, requirePermission("team:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { role } = updateMemberRoleSchema.parse(req.body);
+
+      if (req.params.id === req.dbUser.id) {
+        return res.status(400).json({ message: "No puedes cambiar tu propio rol" });
+      }
+
+      const members = await storage.getTenantUsers(req.tenantId);
+      const member = members.find(m => m.id === req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      const ownersCount = members.filter(m => m.role === "owner").length;
+      if (member.role === "owner" && role !== "owner" && ownersCount <= 1) {
+        return res.status(400).json({ message: "El equipo debe tener al menos un propietario" });
+      }
+
+      const updated = await storage.updateUserRole(member.id, req.tenantId, role);
+      res.json({ id: updated?.id, role: updated?.role });
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/team/members/:id", isAuthenticated, withUser, requirePermission("team:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      if (req.params.id === req.dbUser.id) {
+        return res.status(400).json({ message: "No puedes eliminarte a ti mismo del equipo" });
+      }
+
+      const members = await storage.getTenantUsers(req.tenantId);
+      const member = members.find(m => m.id === req.params.id);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+
+      if (member.role === "owner" && members.filter(m => m.role === "owner").length <= 1) {
+        return res.status(400).json({ message: "El equipo debe tener al menos un propietario" });
+      }
+
+      await storage.removeUserFromTenant(member.id, req.tenantId);
+      res.json({ message: "Member removed successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/team/invitations", isAuthenticated, withUser, requirePermission("team:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const invitations = await storage.getTeamInvitations(req.tenantId);
+      // Never expose token hashes to the client
+      res.json(invitations.map(({ tokenHash, ...invitation }) => invitation));
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/team/invitations", isAuthenticated, withUser, requirePermission("team:invite"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { email, role } = createTeamInvitationSchema.parse(req.body);
+
+      // Admins can invite colleagues but cannot hand out the owner role
+      if (role === "owner" && req.dbUser.role !== "owner") {
+        return res.status(403).json({ message: "Only an owner can invite another owner" });
+      }
+
+      const { invitation, inviteUrl, emailSent } = await createTeamInvitation(req.tenantId, req.dbUser.id, email, role);
+      const { tokenHash, ...safeInvitation } = invitation;
+      res.status(201).json({ invitation: safeInvitation, inviteUrl, emailSent });
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/team/invitations/:id/revoke", isAuthenticated, withUser, requirePermission("team:invite"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const revoked = await storage.revokeTeamInvitation(req.params.id, req.tenantId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Pending invitation not found" });
+      }
+      res.json({ message: "Invitation revoked" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
   // Tenants
   app.get("/api/tenants/current", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
@@ -219,13 +455,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/tenants/current", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.patch("/api/tenants/current", isAuthenticated, withUser, requirePermission("tenant:update"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      // Only allow updating the logo field for security
-      const validatedData = updateTenantLogoSchema.parse(req.body);
+      // Only the logo and billing settings are editable; plan and Stripe fields are not
+      const validatedData = updateTenantSettingsSchema.parse(req.body);
       const tenant = await storage.updateTenant(req.tenantId, validatedData);
       if (!tenant) {
         return res.status(404).json({ message: "Tenant not found" });
@@ -237,7 +473,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // CSV Import & Templates
-  app.post("/api/import/contacts", isAuthenticated, withUser, async (req: CsvImportRequest, res) => {
+  app.post("/api/import/contacts", isAuthenticated, withUser, requirePermission("import:run"), async (req: CsvImportRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -253,7 +489,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import/properties", isAuthenticated, withUser, async (req: CsvImportRequest, res) => {
+  app.post("/api/import/properties", isAuthenticated, withUser, requirePermission("import:run"), async (req: CsvImportRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -269,7 +505,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import/payments", isAuthenticated, withUser, async (req: CsvImportRequest, res) => {
+  app.post("/api/import/payments", isAuthenticated, withUser, requirePermission("import:run"), async (req: CsvImportRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -285,7 +521,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import/contracts", isAuthenticated, withUser, async (req: CsvImportRequest, res) => {
+  app.post("/api/import/contracts", isAuthenticated, withUser, requirePermission("import:run"), async (req: CsvImportRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -301,7 +537,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/import/invoices", isAuthenticated, withUser, async (req: CsvImportRequest, res) => {
+  app.post("/api/import/invoices", isAuthenticated, withUser, requirePermission("import:run"), async (req: CsvImportRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -317,6 +553,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/import/price-indexes", isAuthenticated, withUser, requirePermission("import:run"), async (req: CsvImportRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { csvContent } = req.body;
+      if (typeof csvContent !== "string" || csvContent.trim().length === 0) {
+        return res.status(400).json({ message: "CSV content is required" });
+      }
+      const result = await importPriceIndexesCSV(csvContent, req.tenantId);
+      res.json(result);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
   app.get("/api/templates/contacts.csv", (req, res) => {
     res.setHeader('Content-Type', 'text/csv');
     res.setHeader('Content-Disposition', 'attachment; filename="plantilla_contactos.csv"');
@@ -347,8 +599,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.send(generateInvoicesTemplate());
   });
 
+  app.get("/api/templates/price-indexes.csv", (req, res) => {
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', 'attachment; filename="plantilla_indices.csv"');
+    res.send(generatePriceIndexesTemplate());
+  });
+
+  // Price indexes (IPC / INPC) used for rent escalation
+  app.get("/api/price-indexes", isAuthenticated, withUser, requirePermission("contracts:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { indexType } = req.query;
+      if (indexType !== undefined && indexType !== "ipc" && indexType !== "inpc") {
+        return res.status(400).json({ message: "indexType must be 'ipc' or 'inpc'" });
+      }
+      const values = await storage.getPriceIndexValues(req.tenantId, indexType);
+      res.json(values);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Tax profiles (IVA, retención en la fuente, reteICA) assigned to contracts
+  app.get("/api/tax-profiles", isAuthenticated, withUser, requirePermission("contracts:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const profiles = await storage.getTaxProfiles(req.tenantId);
+      res.json(profiles);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/tax-profiles", isAuthenticated, withUser, requirePermission("taxes:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const profileData = insertTaxProfileSchema.parse({
+        ...req.body,
+        tenantId: req.tenantId,
+      });
+      const profile = await storage.createTaxProfile(profileData);
+      res.json(profile);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.patch("/api/tax-profiles/:id", isAuthenticated, withUser, requirePermission("taxes:manage"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertTaxProfile>, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const updateData = updateTaxProfileSchema.parse(req.body);
+      const profile = await storage.updateTaxProfile(req.params.id, req.tenantId, updateData);
+      if (!profile) {
+        return res.status(404).json({ message: "Tax profile not found" });
+      }
+      res.json(profile);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/tax-profiles/:id", isAuthenticated, withUser, requirePermission("taxes:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      // Contracts would silently stop being taxed
+      const contract = await db.query.contracts.findFirst({
+        where: (contracts, { eq, and }) => and(
+          eq(contracts.taxProfileId, req.params.id),
+          eq(contracts.tenantId, req.tenantId)
+        ),
+      });
+      if (contract) {
+        return res.status(409).json({ message: `El perfil tributario está asignado al contrato ${contract.number}` });
+      }
+      await storage.deleteTaxProfile(req.params.id, req.tenantId);
+      res.json({ message: "Tax profile deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
   // Contacts
-  app.get("/api/contacts", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/contacts", isAuthenticated, withUser, requirePermission("contacts:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -360,7 +702,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/contacts", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/contacts", isAuthenticated, withUser, requirePermission("contacts:create"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -369,6 +711,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         tenantId: req.tenantId,
       });
+      contactData.phone = await normalizePhone(contactData.phone, req.tenantId);
       const contact = await storage.createContact(contactData);
       res.json(contact);
     } catch (error: unknown) {
@@ -376,7 +719,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/contacts/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/contacts/:id", isAuthenticated, withUser, requirePermission("contacts:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -391,12 +734,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/contacts/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertContact>, res) => {
+  app.patch("/api/contacts/:id", isAuthenticated, withUser, requirePermission("contacts:update"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertContact>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
       const updateData = updateContactSchema.parse(req.body);
+      updateData.phone = await normalizePhone(updateData.phone, req.tenantId);
       const contact = await storage.updateContact(req.params.id, req.tenantId, updateData);
       if (!contact) {
         return res.status(404).json({ message: "Contact not found" });
@@ -407,7 +751,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/contacts/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  // The contact's number as reminders would use it, with its WhatsApp and SMS opt-ins and opt-outs
+  app.get("/api/contacts/:id/messaging", isAuthenticated, withUser, requirePermission("contacts:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const contact = await storage.getContact(req.params.id, req.tenantId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      const tenant = await storage.getTenant(req.tenantId);
+      const consents = await storage.getMessagingConsents(contact.id, req.tenantId);
+      res.json({ phone: toE164(contact.phone, countryFromLocale(tenant?.locale)), consents });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.put("/api/contacts/:id/messaging/:channel", isAuthenticated, withUser, requirePermission("contacts:update"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    const channel = messagingChannelSchema.safeParse(req.params.channel);
+    if (!channel.success) {
+      return res.status(404).json({ message: "Messaging channel not found" });
+    }
+    try {
+      const { status } = messagingConsentInputSchema.parse(req.body);
+      const contact = await storage.getContact(req.params.id, req.tenantId);
+      if (!contact) {
+        return res.status(404).json({ message: "Contact not found" });
+      }
+      const tenant = await storage.getTenant(req.tenantId);
+      const phone = toE164(contact.phone, countryFromLocale(tenant?.locale));
+      if (!phone) {
+        return res.status(400).json({ message: "Contact has no valid phone number" });
+      }
+      const consent = await storage.upsertMessagingConsent({
+        tenantId: req.tenantId,
+        contactId: contact.id,
+        channel: channel.data,
+        status,
+        phone,
+        source: "manual",
+      });
+      res.json(consent);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/contacts/:id", isAuthenticated, withUser, requirePermission("contacts:delete"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -420,7 +815,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Properties
-  app.get("/api/properties", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/properties", isAuthenticated, withUser, requirePermission("properties:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -432,7 +827,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/properties", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/properties", isAuthenticated, withUser, requirePermission("properties:create"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -455,7 +850,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/properties/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/properties/:id", isAuthenticated, withUser, requirePermission("properties:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -470,7 +865,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/properties/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertProperty>, res) => {
+  app.patch("/api/properties/:id", isAuthenticated, withUser, requirePermission("properties:update"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertProperty>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -486,7 +881,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/properties/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.delete("/api/properties/:id", isAuthenticated, withUser, requirePermission("properties:delete"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -499,7 +894,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Contracts
-  app.get("/api/contracts", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/contracts", isAuthenticated, withUser, requirePermission("contracts:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -511,15 +906,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/contracts", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/contracts", isAuthenticated, withUser, requirePermission("contracts:create"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      const contractData = insertContractSchema.parse({
+      const contractData = createContractSchema.parse({
         ...req.body,
         tenantId: req.tenantId,
       });
+
+      if (contractData.taxProfileId && !(await storage.getTaxProfile(contractData.taxProfileId, req.tenantId))) {
+        return res.status(400).json({ message: "Tax profile not found" });
+      }
+      if (contractData.guarantorContactId && !(await isGuarantor(contractData.guarantorContactId, req.tenantId))) {
+        return res.status(400).json({ message: "Guarantor must be a contact with the guarantor role" });
+      }
       
       // Validate no active contracts for the same property with overlapping dates
       const existingContracts = await storage.getContractsByProperty(contractData.propertyId, req.tenantId);
@@ -548,7 +950,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/contracts/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/contracts/:id", isAuthenticated, withUser, requirePermission("contracts:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -563,7 +965,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/contracts/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertContract>, res) => {
+  app.patch("/api/contracts/:id", isAuthenticated, withUser, requirePermission("contracts:update"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertContract>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -575,6 +977,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Contract not found" });
       }
 
+      if (updateData.taxProfileId && !(await storage.getTaxProfile(updateData.taxProfileId, req.tenantId))) {
+        return res.status(400).json({ message: "Tax profile not found" });
+      }
+      if (updateData.guarantorContactId && !(await isGuarantor(updateData.guarantorContactId, req.tenantId))) {
+        return res.status(400).json({ message: "Guarantor must be a contact with the guarantor role" });
+      }
+
       // If updating dates or property, validate no overlap
       if (updateData.startDate || updateData.endDate || updateData.propertyId) {
         const propertyId = updateData.propertyId || existingContract.propertyId;
@@ -612,11 +1021,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/contracts/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.delete("/api/contracts/:id", isAuthenticated, withUser, requirePermission("contracts:delete"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
+      // Deleting cascades to invoices; contracts that billed anything are terminated instead
+      const [billed] = await db.select({ id: invoices.id }).from(invoices)
+        .where(and(eq(invoices.contractId, req.params.id), eq(invoices.tenantId, req.tenantId)))
+        .limit(1);
+      if (billed) {
+        return res.status(409).json({ message: "El contrato tiene facturas; termínalo en lugar de eliminarlo" });
+      }
+
       await storage.deleteContract(req.params.id, req.tenantId);
       res.json({ message: "Contract deleted successfully" });
     } catch (error: unknown) {
@@ -624,7 +1041,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/contracts/:id/activate", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/contracts/:id/activate", isAuthenticated, withUser, requirePermission("contracts:activate"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -636,8 +1053,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Contract not found" });
       }
 
-      const invoices = await createMonthlyInvoices(id);
+      if (contract.status !== "draft" && contract.status !== "signed") {
+        return res.status(409).json({ message: `Contract is already ${contract.status}` });
+      }
+
+      // Only invoices whose issue date has arrived are created now; the scheduler issues the rest
       await storage.updateContractStatus(id, req.tenantId, "active");
+      const invoices = await generateDueInvoices(id, req.tenantId);
       
       res.json({ message: "Contract activated", invoicesCreated: invoices.length, invoices });
     } catch (error: unknown) {
@@ -645,71 +1067,290 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Invoices
-  app.get("/api/invoices", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/contracts/:id/escalations", isAuthenticated, withUser, requirePermission("contracts:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      const invoices = await storage.getInvoices(req.tenantId);
-      res.json(invoices);
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const escalations = await storage.getRentEscalations(contract.id, req.tenantId);
+      res.json(escalations);
     } catch (error: unknown) {
       res.status(500).json({ message: getErrorMessage(error) });
     }
   });
 
-  app.get("/api/invoices/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/contracts/:id/invoice-preview", isAuthenticated, withUser, requirePermission("contracts:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
-      
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
       }
-      
-      res.json(invoice);
+
+      const months = typeof req.query.months === "string" ? Number.parseInt(req.query.months, 10) : 3;
+      if (!Number.isInteger(months) || months < 1 || months > 24) {
+        return res.status(400).json({ message: "months must be between 1 and 24" });
+      }
+
+      const preview = await previewUpcomingInvoices(contract.id, req.tenantId, months);
+      res.json(preview);
     } catch (error: unknown) {
       res.status(500).json({ message: getErrorMessage(error) });
     }
   });
 
-  app.post("/api/invoices/:id/remind", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/contracts/:id/renew", isAuthenticated, withUser, requirePermission("contracts:create"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
-      
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const input = renewContractSchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
       }
 
-      // Get tenant contact to send email
-      const contact = await storage.getContact(invoice.tenantContactId, req.tenantId);
-      
-      if (!contact) {
-        return res.status(404).json({ message: "Tenant contact not found" });
+      if (!["active", "expiring", "expired"].includes(contract.status)) {
+        return res.status(409).json({ message: `A ${contract.status} contract cannot be renewed` });
       }
 
-      if (!contact.email) {
-        return res.status(400).json({ message: "Tenant contact has no email address" });
+      const successor = await storage.getContractRenewal(contract.id, req.tenantId);
+      if (successor) {
+        return res.status(409).json({ message: `Contract was already renewed as ${successor.number}` });
       }
 
-      if (invoice.status === 'overdue') {
-        await sendReminderD1(invoice as any, contact as any);
-      } else {
-        await sendReminderD3(invoice as any, contact as any);
+      if (input.applyEscalation && !input.rentAmount && contract.escalationType === "none") {
+        return res.status(400).json({ message: "El contrato no tiene una regla de incremento" });
       }
-      
-      res.json({ message: "Reminder sent successfully" });
-    } catch (error: unknown) {
-      res.status(500).json({ message: getErrorMessage(error) });
-    }
+
+      // The successor must not overlap any other lease on the property
+      const startDate = input.startDate ?? defaultRenewalStart(contract);
+      const existingContracts = await storage.getContractsByProperty(contract.propertyId, req.tenantId);
+      const activeStatuses = ['signed', 'active', 'expiring'];
+      for (const existing of existingContracts) {
+        if (existing.id === contract.id || !activeStatuses.includes(existing.status)) continue;
+        if (startDate <= existing.endDate && input.endDate >= existing.startDate) {
+          return res.status(400).json({
+            message: `La propiedad ya tiene un contrato activo (${existing.number}) que se superpone con las fechas seleccionadas`
+          });
+        }
+      }
+
+      const renewal = await renewContract(contract, { ...input, startDate });
+      res.json(renewal);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/contracts/:id/termination-preview", isAuthenticated, withUser, requirePermission("contracts:terminate"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = terminateContractSchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const plan = await planTermination(contract, input);
+      res.json(plan);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/contracts/:id/terminate", isAuthenticated, withUser, requirePermission("contracts:terminate"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = terminateContractSchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      if (contract.status !== "active" && contract.status !== "expiring") {
+        return res.status(409).json({ message: `A ${contract.status} contract cannot be terminated` });
+      }
+
+      const result = await terminateContract(contract, input);
+      res.json(result);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Security deposits
+  app.get("/api/contracts/:id/deposit", isAuthenticated, withUser, requirePermission("deposits:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const summary = await getDepositSummary(contract);
+      res.json(summary);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/contracts/:id/deposit/entries", isAuthenticated, withUser, requirePermission("deposits:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = createDepositEntrySchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const entry = await recordDepositEntry(contract, input);
+      res.json(entry);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/contracts/:id/deposit/entries/:entryId", isAuthenticated, withUser, requirePermission("deposits:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const removed = await removeDepositEntry(contract, req.params.entryId);
+      if (!removed) {
+        return res.status(404).json({ message: "Deposit entry not found" });
+      }
+      res.json({ message: "Deposit entry deleted successfully" });
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/contracts/:id/recurring-charges", isAuthenticated, withUser, requirePermission("contracts:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const charges = await storage.getRecurringCharges(contract.id, req.tenantId);
+      res.json(charges);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/contracts/:id/recurring-charges", isAuthenticated, withUser, requirePermission("contracts:update"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = recurringChargeSchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      if (input.endDate && input.endDate < input.startDate) {
+        return res.status(400).json({ message: "endDate must be on or after startDate" });
+      }
+      const charge = await storage.createRecurringCharge({
+        ...input,
+        tenantId: req.tenantId,
+        contractId: contract.id,
+        taxable: input.taxable ?? defaultTaxable(input.category),
+      });
+      res.json(charge);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.patch("/api/contracts/:id/recurring-charges/:chargeId", isAuthenticated, withUser, requirePermission("contracts:update"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = updateRecurringChargeSchema.parse(req.body);
+      const existing = await storage.getRecurringCharge(req.params.chargeId, req.tenantId);
+      if (!existing || existing.contractId !== req.params.id) {
+        return res.status(404).json({ message: "Recurring charge not found" });
+      }
+      const startDate = input.startDate ?? existing.startDate;
+      const endDate = input.endDate === undefined ? existing.endDate : input.endDate;
+      if (endDate && endDate < startDate) {
+        return res.status(400).json({ message: "endDate must be on or after startDate" });
+      }
+      // Only invoices issued from now on pick up the change
+      const charge = await storage.updateRecurringCharge(existing.id, req.tenantId, input);
+      res.json(charge);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/contracts/:id/recurring-charges/:chargeId", isAuthenticated, withUser, requirePermission("contracts:update"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const existing = await storage.getRecurringCharge(req.params.chargeId, req.tenantId);
+      if (!existing || existing.contractId !== req.params.id) {
+        return res.status(404).json({ message: "Recurring charge not found" });
+      }
+      await storage.deleteRecurringCharge(existing.id, req.tenantId);
+      res.json({ message: "Recurring charge deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/export/deposits.csv", isAuthenticated, withUser, requirePermission("deposits:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const contractId = typeof req.query.contractId === "string" ? req.query.contractId : undefined;
+      const csv = await exportDepositsCSV(req.tenantId, contractId);
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="depositos.csv"');
+      res.send(csv);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Invoices
+  app.get("/api/invoices", isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const invoices = await storage.getInvoices(req.tenantId);
+      res.json(invoices);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
   });
 
-  app.post("/api/invoices/:id/recalc", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/invoices/:id", isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -719,129 +1360,1327 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
       }
+      
+      res.json(invoice);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
 
-      const totals = await recalcInvoiceTotals(req.params.id);
-      res.json({ message: "Invoice recalculated", totals });
+  app.post("/api/invoices/:id/remind", isAuthenticated, withUser, requirePermission("invoices:remind"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    const body = remindInvoiceSchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      return res.status(400).json({ message: getErrorMessage(body.error) });
+    }
+    try {
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const contact = await storage.getContact(invoice.tenantContactId, req.tenantId);
+      
+      if (!contact) {
+        return res.status(404).json({ message: "Tenant contact not found" });
+      }
+
+      const tenant = await storage.getTenant(req.tenantId);
+      const route = await routeReminder(body.data.channel, contact, { locale: tenant?.locale ?? "es-CO" });
+      if ("error" in route) {
+        return res.status(400).json({ message: route.error });
+      }
+
+      const daysOverdue = daysFromDue(invoice.dueDate, new Date().toISOString().split('T')[0]);
+      await sendReminder(route, daysOverdue > 0 ? 'overdue' : daysOverdue === 0 ? 'due_today' : 'friendly', {
+        invoice,
+        contact,
+        tenantContact: contact,
+        daysOverdue,
+      });
+      
+      res.json({ message: "Reminder sent successfully", channel: route.channel, sentTo: route.to });
     } catch (error: unknown) {
       res.status(500).json({ message: getErrorMessage(error) });
     }
   });
 
-  app.get("/api/invoices/:id/pdf", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/invoices/:id/dunning", isAuthenticated, withUser, requirePermission("dunning:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      // Get invoice with all required relations for PDF generation
-      const invoice = await db.query.invoices.findFirst({
-        where: and(eq(invoices.id, req.params.id), eq(invoices.tenantId, req.tenantId)),
-        with: {
-          tenantContact: true,
-          contract: {
-            with: {
-              property: true,
-            },
-          },
-          charges: true,
-        },
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const events = await storage.getInvoiceDunningEvents(invoice.id, req.tenantId);
+      res.json(events);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/invoices/:id/notifications", isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const notifications = await storage.getInvoiceNotifications(invoice.id, req.tenantId);
+      res.json(notifications);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Pauses the dunning steps that stop on a promise to pay until the promised date has passed
+  app.put("/api/invoices/:id/promise-to-pay", isAuthenticated, withUser, requirePermission("invoices:remind"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const promise = promiseToPaySchema.parse(req.body);
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (!['issued', 'partial', 'overdue'].includes(invoice.status)) {
+        return res.status(409).json({ message: "Only open invoices can have a promise to pay" });
+      }
+      const updated = await storage.updateInvoice(invoice.id, req.tenantId, {
+        promisedPaymentDate: promise.promisedPaymentDate,
+        promiseNote: promise.promiseNote ?? null,
       });
+      res.json(updated);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/invoices/:id/promise-to-pay", isAuthenticated, withUser, requirePermission("invoices:remind"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const updated = await storage.updateInvoice(req.params.id, req.tenantId, { promisedPaymentDate: null, promiseNote: null });
+      if (!updated) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(updated);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/invoices/:id/recalc", isAuthenticated, withUser, requirePermission("invoices:recalc"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
       
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
       }
-
-      const { generateInvoicePDF } = await import('./services/pdfService');
-      const pdfBuffer = await generateInvoicePDF(invoice);
-      
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `attachment; filename="${invoice.number}.pdf"`);
-      res.send(pdfBuffer);
+
+      const totals = await recalcInvoiceTotals(req.params.id);
+      res.json({ message: "Invoice recalculated", totals });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/invoices/:id/charges", isAuthenticated, withUser, requirePermission("invoices:update"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const chargeData = createInvoiceChargeSchema.parse(req.body);
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (!canEditCharges(invoice)) {
+        return res.status(409).json({ message: `Cannot add charges to a ${invoice.status} invoice` });
+      }
+
+      const charge = await addManualCharge(invoice, chargeData);
+      res.json(charge);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/invoices/:id/charges/:chargeId", isAuthenticated, withUser, requirePermission("invoices:update"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (!canEditCharges(invoice)) {
+        return res.status(409).json({ message: `Cannot remove charges from a ${invoice.status} invoice` });
+      }
+
+      const removed = await removeManualCharge(invoice, req.params.chargeId);
+      if (!removed) {
+        return res.status(404).json({ message: "Manual charge not found" });
+      }
+      res.json({ message: "Charge deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/invoices/:id/pdf", isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      // Get invoice with all required relations for PDF generation
+      const invoice = await db.query.invoices.findFirst({
+        where: and(eq(invoices.id, req.params.id), eq(invoices.tenantId, req.tenantId)),
+        with: {
+          tenantContact: true,
+          contract: {
+            with: {
+              property: true,
+              taxProfile: true,
+            },
+          },
+          charges: true,
+          creditNotes: true,
+        },
+      });
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const { generateInvoicePDF } = await import('./services/pdfService');
+      const pdfBuffer = await generateInvoicePDF(invoice);
+      
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoice.number}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/invoices", isAuthenticated, withUser, requirePermission("invoices:create"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const invoiceData = createInvoiceSchema.parse({
+        ...req.body,
+        tenantId: req.tenantId,
+      });
+      if (invoiceData.status === "void") {
+        return res.status(400).json({ message: "Invoices cannot be created void" });
+      }
+      
+      // Ensure all amounts are positive
+      if (parseFloat(invoiceData.subtotal) < 0 || 
+          parseFloat(invoiceData.tax || '0') < 0 || 
+          parseFloat(invoiceData.withholdings || '0') < 0 || 
+          parseFloat(invoiceData.otherCharges || '0') < 0 || 
+          parseFloat(invoiceData.lateFee || '0') < 0 || 
+          parseFloat(invoiceData.totalAmount) < 0 || 
+          parseFloat(invoiceData.amountPaid || '0') < 0) {
+        return res.status(400).json({ message: "Invoice amounts cannot be negative" });
+      }
+      
+      const invoice = await storage.createInvoice(invoiceData);
+      res.json(invoice);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.patch("/api/invoices/:id", isAuthenticated, withUser, requirePermission("invoices:update"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertInvoice>, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const updateData = updateInvoiceSchema.parse(req.body);
+      if (updateData.status === "void") {
+        return res.status(400).json({ message: "Use POST /api/invoices/:id/void to void an invoice" });
+      }
+      // Paid follows from the payments and credit notes recorded against the total
+      if (updateData.status === "paid") {
+        return res.status(400).json({ message: "Record a payment or credit note to settle an invoice" });
+      }
+      // Validate amounts if present
+      if (updateData.subtotal && parseFloat(updateData.subtotal) < 0) {
+        return res.status(400).json({ message: "Subtotal cannot be negative" });
+      }
+      if (updateData.tax && parseFloat(updateData.tax) < 0) {
+        return res.status(400).json({ message: "Tax cannot be negative" });
+      }
+      if (updateData.withholdings && parseFloat(updateData.withholdings) < 0) {
+        return res.status(400).json({ message: "Withholdings cannot be negative" });
+      }
+      if (updateData.otherCharges && parseFloat(updateData.otherCharges) < 0) {
+        return res.status(400).json({ message: "Other charges cannot be negative" });
+      }
+      if (updateData.lateFee && parseFloat(updateData.lateFee) < 0) {
+        return res.status(400).json({ message: "Late fee cannot be negative" });
+      }
+      if (updateData.totalAmount && parseFloat(updateData.totalAmount) < 0) {
+        return res.status(400).json({ message: "Total amount cannot be negative" });
+      }
+      if (updateData.amountPaid && parseFloat(updateData.amountPaid) < 0) {
+        return res.status(400).json({ message: "Amount paid cannot be negative" });
+      }
+
+      const existing = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!existing) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      // Void invoices stay void, and once money or credit notes are recorded the amounts are settled through them
+      if (existing.status === "void") {
+        return res.status(409).json({ message: "Void invoices cannot be changed" });
+      }
+      if (parseFloat(existing.amountPaid) > 0 || parseFloat(existing.creditedAmount) > 0) {
+        return res.status(409).json({ message: "Invoice has payments or credit notes; issue a credit note instead" });
+      }
+
+      const invoice = await storage.updateInvoice(existing.id, req.tenantId, updateData);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(await storage.getInvoice(invoice.id, req.tenantId));
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/invoices/:id", isAuthenticated, withUser, requirePermission("invoices:delete"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      // Issued invoices are part of the accounting trail; they are voided or credited instead
+      if (invoice.status !== "draft") {
+        return res.status(409).json({ message: "Only draft invoices can be deleted; void it or issue a credit note instead" });
+      }
+      await storage.deleteInvoice(req.params.id, req.tenantId);
+      res.json({ message: "Invoice deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/invoices/:id/void", isAuthenticated, withUser, requirePermission("invoices:void"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { reason } = voidInvoiceSchema.parse(req.body);
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status === "void" || invoice.status === "draft") {
+        return res.status(409).json({ message: `Cannot void a ${invoice.status} invoice` });
+      }
+      if (parseFloat(invoice.amountPaid) > 0) {
+        return res.status(409).json({ message: "Invoice has payments; issue a credit note for the unpaid part instead" });
+      }
+      const creditNote = await voidInvoice(invoice, reason);
+      res.json({ invoice: await storage.getInvoice(invoice.id, req.tenantId), creditNote });
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/invoices/:id/credit-notes", isAuthenticated, withUser, requirePermission("invoices:credit"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = createCreditNoteSchema.parse(req.body);
+      const invoice = await storage.getInvoice(req.params.id, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (!canCredit(invoice)) {
+        return res.status(409).json({ message: `Cannot credit a ${invoice.status} invoice` });
+      }
+      const creditNote = await issueCreditNote(invoice, input);
+      res.json(creditNote);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Credit notes
+  app.get("/api/credit-notes", isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const from = typeof req.query.from === "string" ? req.query.from : undefined;
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      const notes = await storage.getCreditNotes(req.tenantId, { from, to });
+      res.json(notes);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/export/credit-notes.csv", isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const from = typeof req.query.from === "string" ? req.query.from : undefined;
+      const to = typeof req.query.to === "string" ? req.query.to : undefined;
+      const csv = await exportCreditNotesCSV(req.tenantId, from, to);
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="notas-credito.csv"');
+      res.send(csv);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/credit-notes/:id/pdf", isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const note = await storage.getCreditNote(req.params.id, req.tenantId);
+      if (!note) {
+        return res.status(404).json({ message: "Credit note not found" });
+      }
+
+      const { generateCreditNotePDF } = await import('./services/pdfService');
+      const pdfBuffer = await generateCreditNotePDF(note);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${note.number}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Account statements, for a tenant contact across all their contracts or for a single contract
+  const statementScopes = [
+    { path: "contacts", scope: "contact", notFound: "Contact not found" },
+    { path: "contracts", scope: "contract", notFound: "Contract not found" },
+  ] as const;
+
+  for (const { path, scope, notFound } of statementScopes) {
+    app.get(`/api/${path}/:id/statement`, isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+      if (!ensureTenantRequest(req, res)) {
+        return;
+      }
+      try {
+        const range = statementRangeSchema.parse(req.query);
+        const statement = await buildAccountStatement(req.tenantId, scope, req.params.id, range);
+        if (!statement) {
+          return res.status(404).json({ message: notFound });
+        }
+        res.json(statement);
+      } catch (error: unknown) {
+        res.status(400).json({ message: getErrorMessage(error) });
+      }
+    });
+
+    app.get(`/api/${path}/:id/statement/pdf`, isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+      if (!ensureTenantRequest(req, res)) {
+        return;
+      }
+      try {
+        const range = statementRangeSchema.parse(req.query);
+        const statement = await buildAccountStatement(req.tenantId, scope, req.params.id, range);
+        if (!statement) {
+          return res.status(404).json({ message: notFound });
+        }
+
+        const tenant = await storage.getTenant(req.tenantId);
+        const { generateAccountStatementPDF } = await import('./services/pdfService');
+        const pdfBuffer = await generateAccountStatementPDF(statement, tenant?.name);
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="estado-de-cuenta-${statement.to}.pdf"`);
+        res.send(pdfBuffer);
+      } catch (error: unknown) {
+        res.status(400).json({ message: getErrorMessage(error) });
+      }
+    });
+
+    app.get(`/api/${path}/:id/statement/csv`, isAuthenticated, withUser, requirePermission("invoices:view"), async (req: AuthenticatedRequest, res) => {
+      if (!ensureTenantRequest(req, res)) {
+        return;
+      }
+      try {
+        const range = statementRangeSchema.parse(req.query);
+        const statement = await buildAccountStatement(req.tenantId, scope, req.params.id, range);
+        if (!statement) {
+          return res.status(404).json({ message: notFound });
+        }
+        res.setHeader('Content-Type', 'text/csv');
+        res.setHeader('Content-Disposition', `attachment; filename="estado-de-cuenta-${statement.to}.csv"`);
+        res.send(exportAccountStatementCSV(statement));
+      } catch (error: unknown) {
+        res.status(400).json({ message: getErrorMessage(error) });
+      }
+    });
+
+    app.post(`/api/${path}/:id/statement/email`, isAuthenticated, withUser, requirePermission("invoices:remind"), async (req: AuthenticatedRequest, res) => {
+      if (!ensureTenantRequest(req, res)) {
+        return;
+      }
+      try {
+        const range = statementRangeSchema.parse(req.body ?? {});
+        const statement = await buildAccountStatement(req.tenantId, scope, req.params.id, range);
+        if (!statement) {
+          return res.status(404).json({ message: notFound });
+        }
+        if (!statement.contact.email) {
+          return res.status(400).json({ message: "Tenant contact has no email address" });
+        }
+
+        const tenant = await storage.getTenant(req.tenantId);
+        const { generateAccountStatementPDF } = await import('./services/pdfService');
+        const pdfBuffer = await generateAccountStatementPDF(statement, tenant?.name);
+        await sendAccountStatement(req.tenantId, statement, pdfBuffer, tenant?.name ?? '');
+
+        res.json({ message: "Statement sent successfully" });
+      } catch (error: unknown) {
+        res.status(400).json({ message: getErrorMessage(error) });
+      }
+    });
+  }
+
+  // Owner statements (liquidación a propietarios)
+  app.get("/api/owner-statements/:year/:month", isAuthenticated, withUser, requirePermission("owners:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { year, month } = reportPeriodSchema.parse(req.params);
+      const statements = await buildOwnerStatements(req.tenantId, year, month);
+      res.json(statements.map(summarizeOwnerStatement));
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/owners/:id/statements/:year/:month", isAuthenticated, withUser, requirePermission("owners:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { year, month } = reportPeriodSchema.parse(req.params);
+      const statement = await buildOwnerStatement(req.tenantId, req.params.id, year, month);
+      if (!statement) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      res.json(statement);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/owners/:id/statements/:year/:month/pdf", isAuthenticated, withUser, requirePermission("owners:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { year, month } = reportPeriodSchema.parse(req.params);
+      const statement = await buildOwnerStatement(req.tenantId, req.params.id, year, month);
+      if (!statement) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+
+      const tenant = await storage.getTenant(req.tenantId);
+      const { generateOwnerStatementPDF } = await import('./services/pdfService');
+      const pdfBuffer = await generateOwnerStatementPDF(statement, tenant?.name);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="liquidacion-${statement.from.slice(0, 7)}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/owners/:id/statements/:year/:month/email", isAuthenticated, withUser, requirePermission("owners:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { year, month } = reportPeriodSchema.parse(req.params);
+      const statement = await buildOwnerStatement(req.tenantId, req.params.id, year, month);
+      if (!statement) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      if (!statement.owner.email) {
+        return res.status(400).json({ message: "Owner contact has no email address" });
+      }
+
+      const tenant = await storage.getTenant(req.tenantId);
+      const { generateOwnerStatementPDF } = await import('./services/pdfService');
+      const pdfBuffer = await generateOwnerStatementPDF(statement, tenant?.name);
+      await sendOwnerStatement(req.tenantId, statement, pdfBuffer, tenant?.name ?? '');
+
+      res.json({ message: "Statement sent successfully" });
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/owners/:id/expenses", isAuthenticated, withUser, requirePermission("owners:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const expenses = await storage.getOwnerExpenses(req.tenantId, req.params.id);
+      res.json(expenses);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/owners/:id/expenses", isAuthenticated, withUser, requirePermission("owners:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = createOwnerExpenseSchema.parse(req.body);
+      const owner = await storage.getContact(req.params.id, req.tenantId);
+      if (!owner) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      if (input.propertyId) {
+        const property = await storage.getProperty(input.propertyId, req.tenantId);
+        if (!property) {
+          return res.status(400).json({ message: "Property not found" });
+        }
+      }
+      const expense = await storage.createOwnerExpense({
+        tenantId: req.tenantId,
+        ownerContactId: owner.id,
+        ...input,
+      });
+      res.json(expense);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/owners/:id/expenses/:expenseId", isAuthenticated, withUser, requirePermission("owners:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const expenses = await storage.getOwnerExpenses(req.tenantId, req.params.id);
+      if (!expenses.some((expense) => expense.id === req.params.expenseId)) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      await storage.deleteOwnerExpense(req.params.expenseId, req.tenantId);
+      res.json({ message: "Expense deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/owners/:id/disbursements", isAuthenticated, withUser, requirePermission("owners:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const disbursements = await storage.getOwnerDisbursements(req.tenantId, req.params.id);
+      res.json(disbursements);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/owners/:id/disbursements", isAuthenticated, withUser, requirePermission("owners:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = createOwnerDisbursementSchema.parse(req.body);
+      const owner = await storage.getContact(req.params.id, req.tenantId);
+      if (!owner) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      const disbursement = await storage.createOwnerDisbursement({
+        tenantId: req.tenantId,
+        ownerContactId: owner.id,
+        ...input,
+      });
+      res.json(disbursement);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/owners/:id/disbursements/:disbursementId", isAuthenticated, withUser, requirePermission("owners:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const disbursements = await storage.getOwnerDisbursements(req.tenantId, req.params.id);
+      if (!disbursements.some((disbursement) => disbursement.id === req.params.disbursementId)) {
+        return res.status(404).json({ message: "Disbursement not found" });
+      }
+      await storage.deleteOwnerDisbursement(req.params.disbursementId, req.tenantId);
+      res.json({ message: "Disbursement deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Maintenance work orders
+  app.get("/api/work-orders", isAuthenticated, withUser, requirePermission("maintenance:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const filters = workOrderQuerySchema.parse(req.query);
+      const orders = await storage.getWorkOrders(req.tenantId, filters);
+      res.json(orders);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/work-orders/:id", isAuthenticated, withUser, requirePermission("maintenance:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const order = await storage.getWorkOrder(req.params.id, req.tenantId);
+      if (!order) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      res.json(order);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/work-orders", isAuthenticated, withUser, requirePermission("maintenance:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = createWorkOrderSchema.parse(req.body);
+      const property = await storage.getProperty(input.propertyId, req.tenantId);
+      if (!property) {
+        return res.status(400).json({ message: "Property not found" });
+      }
+      if (input.providerContactId) {
+        const provider = await storage.getContact(input.providerContactId, req.tenantId);
+        if (!provider || !provider.roles?.includes("provider")) {
+          return res.status(400).json({ message: "Provider contact not found" });
+        }
+      }
+
+      // Tickets are charged against the lease in force unless another one is given
+      let contractId = input.contractId ?? null;
+      if (contractId) {
+        const contract = await storage.getContract(contractId, req.tenantId);
+        if (!contract || contract.propertyId !== property.id) {
+          return res.status(400).json({ message: "Contract not found on this property" });
+        }
+      } else if (input.contractId === undefined) {
+        contractId = (await findLeaseForProperty(req.tenantId, property.id))?.id ?? null;
+      }
+
+      const order = await storage.createWorkOrder({
+        ...input,
+        tenantId: req.tenantId,
+        contractId,
+        status: input.providerContactId ? "assigned" : "open",
+        reportedDate: input.reportedDate ?? new Date().toISOString().split('T')[0],
+      });
+      res.json(order);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.patch("/api/work-orders/:id", isAuthenticated, withUser, requirePermission("maintenance:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = updateWorkOrderSchema.parse(req.body);
+      const order = await storage.getWorkOrder(req.params.id, req.tenantId);
+      if (!order) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      if (input.providerContactId) {
+        const provider = await storage.getContact(input.providerContactId, req.tenantId);
+        if (!provider || !provider.roles?.includes("provider")) {
+          return res.status(400).json({ message: "Provider contact not found" });
+        }
+      }
+
+      const updated = await storage.updateWorkOrder(order.id, req.tenantId, planWorkOrderUpdate(order, input));
+      res.json(updated);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/work-orders/:id", isAuthenticated, withUser, requirePermission("maintenance:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const order = await storage.getWorkOrder(req.params.id, req.tenantId);
+      if (!order) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      if (isWorkOrderBilled(order)) {
+        return res.status(409).json({ message: "Cannot delete a billed work order" });
+      }
+      await storage.deleteWorkOrder(order.id, req.tenantId);
+      res.json({ message: "Work order deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/work-orders/:id/bill", isAuthenticated, withUser, requirePermission("maintenance:bill"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = billWorkOrderSchema.parse(req.body);
+      const order = await storage.getWorkOrder(req.params.id, req.tenantId);
+      if (!order) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+
+      const billed = await billWorkOrder(order, input);
+      res.json(billed);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Inspections
+  app.get("/api/contracts/:id/inspections", isAuthenticated, withUser, requirePermission("inspections:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+      const inspections = await storage.getInspections(contract.id, req.tenantId);
+      res.json(inspections);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/contracts/:id/inspections", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = createInspectionSchema.parse(req.body);
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const items = await buildInitialChecklist(contract, input);
+      const inspection = await storage.createInspection({
+        tenantId: req.tenantId,
+        contractId: contract.id,
+        type: input.type,
+        inspectionDate: input.inspectionDate ?? new Date().toISOString().split('T')[0],
+        inspectorName: input.inspectorName,
+        notes: input.notes ?? null,
+      }, items);
+      res.json(inspection);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Side by side view of two inspections of the same contract, move-in against move-out by default
+  app.get("/api/contracts/:id/inspections/compare", isAuthenticated, withUser, requirePermission("inspections:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const query = inspectionComparisonQuerySchema.parse(req.query);
+      const contract = await storage.getContract(req.params.id, req.tenantId);
+      if (!contract) {
+        return res.status(404).json({ message: "Contract not found" });
+      }
+
+      const { fromId, toId } = pickComparisonPair(await storage.getInspections(contract.id, req.tenantId), query);
+      if (!fromId || !toId) {
+        return res.status(400).json({ message: "A move-in and a move-out inspection are needed to compare" });
+      }
+      const [from, to] = await Promise.all([
+        storage.getInspection(fromId, req.tenantId),
+        storage.getInspection(toId, req.tenantId),
+      ]);
+      if (!from || !to || from.contractId !== contract.id || to.contractId !== contract.id) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+
+      res.json(compareInspections(from, to));
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/inspections/:id", isAuthenticated, withUser, requirePermission("inspections:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const inspection = await storage.getInspection(req.params.id, req.tenantId);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      res.json(inspection);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/inspections/:id/pdf", isAuthenticated, withUser, requirePermission("inspections:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const inspection = await storage.getInspection(req.params.id, req.tenantId);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+
+      // Later inspections are reported against the move-in they are measured from
+      let comparison;
+      if (inspection.type !== "move_in") {
+        const { fromId } = pickComparisonPair(await storage.getInspections(inspection.contractId, req.tenantId), {});
+        const baseline = fromId ? await storage.getInspection(fromId, req.tenantId) : undefined;
+        if (baseline) {
+          comparison = compareInspections(baseline, inspection);
+        }
+      }
+
+      const { generateInspectionPDF } = await import('./services/pdfService');
+      const tenant = await storage.getTenant(req.tenantId);
+      const pdfBuffer = await generateInspectionPDF(inspection, comparison, tenant?.name);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="inspeccion-${inspection.contract.number}-${inspection.type}-${inspection.inspectionDate}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.patch("/api/inspections/:id", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = updateInspectionSchema.parse(req.body);
+      const inspection = await storage.getInspection(req.params.id, req.tenantId);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (isInspectionSigned(inspection)) {
+        return res.status(409).json({ message: "Signed inspections cannot be changed" });
+      }
+      const updated = await storage.updateInspection(inspection.id, req.tenantId, input);
+      res.json(updated);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/inspections/:id", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const inspection = await storage.getInspection(req.params.id, req.tenantId);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (isInspectionSigned(inspection)) {
+        return res.status(409).json({ message: "Signed inspections cannot be deleted" });
+      }
+      await storage.deleteInspection(inspection.id, req.tenantId);
+      res.json({ message: "Inspection deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/inspections/:id/sign", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = signInspectionSchema.parse(req.body);
+      const inspection = await storage.getInspection(req.params.id, req.tenantId);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (isInspectionSigned(inspection)) {
+        return res.status(409).json({ message: "Inspection is already signed" });
+      }
+      const signed = await storage.updateInspection(inspection.id, req.tenantId, planInspectionSignature(inspection, input));
+      res.json(signed);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/inspections/:id/items", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = createInspectionItemSchema.parse(req.body);
+      const inspection = await storage.getInspection(req.params.id, req.tenantId);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (isInspectionSigned(inspection)) {
+        return res.status(409).json({ message: "Signed inspections cannot be changed" });
+      }
+      const item = await storage.createInspectionItem({
+        ...input,
+        tenantId: req.tenantId,
+        inspectionId: inspection.id,
+      });
+      res.json(item);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.patch("/api/inspection-items/:id", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const input = updateInspectionItemSchema.parse(req.body);
+      const item = await storage.getInspectionItem(req.params.id, req.tenantId);
+      if (!item) {
+        return res.status(404).json({ message: "Inspection item not found" });
+      }
+      if (isInspectionSigned(item.inspection)) {
+        return res.status(409).json({ message: "Signed inspections cannot be changed" });
+      }
+      const updated = await storage.updateInspectionItem(item.id, req.tenantId, input);
+      res.json(updated);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/inspection-items/:id", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const item = await storage.getInspectionItem(req.params.id, req.tenantId);
+      if (!item) {
+        return res.status(404).json({ message: "Inspection item not found" });
+      }
+      if (isInspectionSigned(item.inspection)) {
+        return res.status(409).json({ message: "Signed inspections cannot be changed" });
+      }
+      await storage.deleteInspectionItem(item.id, req.tenantId);
+      res.json({ message: "Inspection item deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Dunning ladder
+  app.get("/api/dunning-steps", isAuthenticated, withUser, requirePermission("dunning:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const steps = await getDunningLadder(req.tenantId);
+      res.json(steps);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/dunning-steps", isAuthenticated, withUser, requirePermission("dunning:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const step = dunningStepInputSchema.parse(req.body);
+      const steps = await getDunningLadder(req.tenantId);
+      if (steps.some((existing) => existing.offsetDays === step.offsetDays && existing.recipient === step.recipient)) {
+        return res.status(409).json({ message: "There is already a step for this day and recipient" });
+      }
+      const created = await storage.createDunningStep({ ...step, tenantId: req.tenantId });
+      res.json(created);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.patch("/api/dunning-steps/:id", isAuthenticated, withUser, requirePermission("dunning:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const changes = updateDunningStepSchema.parse(req.body);
+      const step = await storage.getDunningStep(req.params.id, req.tenantId);
+      if (!step) {
+        return res.status(404).json({ message: "Dunning step not found" });
+      }
+      const offsetDays = changes.offsetDays ?? step.offsetDays;
+      const recipient = changes.recipient ?? step.recipient;
+      const steps = await storage.getDunningSteps(req.tenantId);
+      if (steps.some((existing) => existing.id !== step.id && existing.offsetDays === offsetDays && existing.recipient === recipient)) {
+        return res.status(409).json({ message: "There is already a step for this day and recipient" });
+      }
+      const updated = await storage.updateDunningStep(step.id, req.tenantId, changes);
+      res.json(updated);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/dunning-steps/:id", isAuthenticated, withUser, requirePermission("dunning:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const step = await storage.getDunningStep(req.params.id, req.tenantId);
+      if (!step) {
+        return res.status(404).json({ message: "Dunning step not found" });
+      }
+      await storage.deleteDunningStep(step.id, req.tenantId);
+      res.json({ message: "Dunning step deleted successfully" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Email templates (the tenant's wording of the dunning and insurer emails; defaults until saved)
+  app.get("/api/email-templates", isAuthenticated, withUser, requirePermission("templates:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const saved = await storage.getEmailTemplates(req.tenantId);
+      res.json(editableEmailTemplates.map((key) => {
+        const custom = saved.find((template) => template.key === key);
+        const { subject, html, text } = custom ?? defaultEmailTemplates[key];
+        return {
+          key,
+          subject,
+          html,
+          text: text ?? null,
+          isCustom: !!custom,
+          updatedAt: custom?.updatedAt ?? null,
+          variables: emailTemplateVariables[key],
+        };
+      }));
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.put("/api/email-templates/:key", isAuthenticated, withUser, requirePermission("templates:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    const key = emailTemplateKeySchema.safeParse(req.params.key);
+    if (!key.success) {
+      return res.status(404).json({ message: "Email template not found" });
+    }
+    try {
+      const template = emailTemplateInputSchema.parse(req.body);
+      const unknown = unknownVariables(key.data, template);
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown variables: ${unknown.map((name) => `{{${name}}}`).join(", ")}` });
+      }
+      const saved = await storage.upsertEmailTemplate({ ...template, text: template.text || null, key: key.data, tenantId: req.tenantId });
+      res.json(saved);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/email-templates/:key", isAuthenticated, withUser, requirePermission("templates:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    const key = emailTemplateKeySchema.safeParse(req.params.key);
+    if (!key.success) {
+      return res.status(404).json({ message: "Email template not found" });
+    }
+    try {
+      await storage.deleteEmailTemplate(req.tenantId, key.data);
+      res.json({ message: "Email template reset to default" });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Renders an unsaved draft against a real invoice (or, for the insurer report, last month's report of a real insurer)
+  app.post("/api/email-templates/:key/preview", isAuthenticated, withUser, requirePermission("templates:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    const key = emailTemplateKeySchema.safeParse(req.params.key);
+    if (!key.success) {
+      return res.status(404).json({ message: "Email template not found" });
+    }
+    try {
+      const { invoiceId, insurerId, ...draft } = emailTemplatePreviewSchema.parse(req.body);
+      const company = await storage.getTenant(req.tenantId);
+      if (!company) {
+        return res.status(404).json({ message: "Tenant not found" });
+      }
+
+      if (key.data === "insurer_report") {
+        if (!insurerId) {
+          return res.status(400).json({ message: "insurerId is required to preview this template" });
+        }
+        const insurer = await storage.getInsurer(insurerId, req.tenantId);
+        if (!insurer) {
+          return res.status(404).json({ message: "Insurer not found" });
+        }
+        const now = new Date();
+        const lastMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+        const report = await buildInsurerMonthlyReport(insurer, lastMonth.getUTCFullYear(), lastMonth.getUTCMonth() + 1);
+        return res.json(await renderEmailTemplate(req.tenantId, key.data, insurerReportVariables(company, report), draft));
+      }
+
+      if (!invoiceId) {
+        return res.status(400).json({ message: "invoiceId is required to preview this template" });
+      }
+      const invoice: any = await storage.getInvoice(invoiceId, req.tenantId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      const guarantor = key.data === "guarantor_notice" && invoice.contract?.guarantorContactId
+        ? await storage.getContact(invoice.contract.guarantorContactId, req.tenantId)
+        : undefined;
+      const variables = invoiceEmailVariables(company, {
+        invoice,
+        contact: guarantor ?? invoice.tenantContact,
+        tenantContact: invoice.tenantContact,
+        daysOverdue: daysFromDue(invoice.dueDate, new Date().toISOString().split('T')[0]),
+      });
+      res.json(await renderEmailTemplate(req.tenantId, key.data, variables, draft));
     } catch (error: unknown) {
-      res.status(500).json({ message: getErrorMessage(error) });
+      res.status(400).json({ message: getErrorMessage(error) });
     }
   });
 
-  app.post("/api/invoices", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  // Email settings (how the tenant's emails leave: the platform transport until it saves its own)
+  app.get("/api/email-settings", isAuthenticated, withUser, requirePermission("tenant:update"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      const invoiceData = insertInvoiceSchema.parse({
-        ...req.body,
-        tenantId: req.tenantId,
+      const settings = await storage.getEmailSettings(req.tenantId);
+      res.json({
+        platformTransport: platformTransportName(),
+        transports: tenantTransportNames(),
+        settings: settings ? publicEmailSettings(settings) : null,
       });
-      
-      // Ensure all amounts are positive
-      if (parseFloat(invoiceData.subtotal) < 0 || 
-          parseFloat(invoiceData.tax || '0') < 0 || 
-          parseFloat(invoiceData.otherCharges || '0') < 0 || 
-          parseFloat(invoiceData.lateFee || '0') < 0 || 
-          parseFloat(invoiceData.totalAmount) < 0 || 
-          parseFloat(invoiceData.amountPaid || '0') < 0) {
-        return res.status(400).json({ message: "Invoice amounts cannot be negative" });
-      }
-      
-      const invoice = await storage.createInvoice(invoiceData);
-      res.json(invoice);
     } catch (error: unknown) {
-      res.status(400).json({ message: getErrorMessage(error) });
+      res.status(500).json({ message: getErrorMessage(error) });
     }
   });
 
-  app.patch("/api/invoices/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertInvoice>, res) => {
+  // An omitted smtpPassword keeps the saved one so the form never has to show it
+  app.put("/api/email-settings", isAuthenticated, withUser, requirePermission("tenant:update"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      const updateData = updateInvoiceSchema.parse(req.body);
-      // Validate amounts if present
-      if (updateData.subtotal && parseFloat(updateData.subtotal) < 0) {
-        return res.status(400).json({ message: "Subtotal cannot be negative" });
-      }
-      if (updateData.tax && parseFloat(updateData.tax) < 0) {
-        return res.status(400).json({ message: "Tax cannot be negative" });
-      }
-      if (updateData.otherCharges && parseFloat(updateData.otherCharges) < 0) {
-        return res.status(400).json({ message: "Other charges cannot be negative" });
-      }
-      if (updateData.lateFee && parseFloat(updateData.lateFee) < 0) {
-        return res.status(400).json({ message: "Late fee cannot be negative" });
-      }
-      if (updateData.totalAmount && parseFloat(updateData.totalAmount) < 0) {
-        return res.status(400).json({ message: "Total amount cannot be negative" });
-      }
-      if (updateData.amountPaid && parseFloat(updateData.amountPaid) < 0) {
-        return res.status(400).json({ message: "Amount paid cannot be negative" });
+      const input = emailSettingsInputSchema.parse(req.body);
+      if (!tenantTransportNames().includes(input.transport)) {
+        return res.status(400).json({ message: `The ${input.transport} transport is not available in this environment` });
       }
-
-      const invoice = await storage.updateInvoice(req.params.id, req.tenantId, updateData);
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
-      }
-      if (updateData.status === "paid") {
-        await recalcInvoiceTotals(invoice.id);
-      }
-
-      res.json({ ...invoice, ...updateData });
+      const existing = await storage.getEmailSettings(req.tenantId);
+      const saved = await storage.upsertEmailSettings({ ...toEmailSettings(input, existing), tenantId: req.tenantId });
+      res.json(publicEmailSettings(saved));
     } catch (error: unknown) {
       res.status(400).json({ message: getErrorMessage(error) });
     }
   });
 
-  app.delete("/api/invoices/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.delete("/api/email-settings", isAuthenticated, withUser, requirePermission("tenant:update"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      await storage.deleteInvoice(req.params.id, req.tenantId);
-      res.json({ message: "Invoice deleted successfully" });
+      await storage.deleteEmailSettings(req.tenantId);
+      res.json({ message: "Email settings reset to the platform transport" });
     } catch (error: unknown) {
       res.status(500).json({ message: getErrorMessage(error) });
     }
   });
 
+  // Checks unsaved SMTP settings by connecting and logging in, without sending anything. The failure
+  // stays in the server log: echoing connection errors back would let the form probe other hosts
+  app.post("/api/email-settings/verify", isAuthenticated, withUser, requirePermission("tenant:update"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    const parsed = emailSettingsInputSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: getErrorMessage(parsed.error) });
+    }
+    if (parsed.data.transport !== "smtp") {
+      return res.status(400).json({ message: "Only SMTP settings can be verified" });
+    }
+    try {
+      const existing = await storage.getEmailSettings(req.tenantId);
+      await verifySmtpSettings(toEmailSettings(parsed.data, existing));
+      res.json({ message: "SMTP connection verified" });
+    } catch (error: unknown) {
+      console.error(`SMTP verification failed for tenant ${req.tenantId}:`, error);
+      res.status(400).json({ message: "Could not connect and log in to the SMTP server with these settings" });
+    }
+  });
+
   // Payments
-  app.get("/api/payments", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/payments", isAuthenticated, withUser, requirePermission("payments:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -853,12 +2692,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/payments", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/payments", isAuthenticated, withUser, requirePermission("payments:create"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
     try {
-      const paymentData = insertPaymentSchema.parse({
+      const paymentData = createPaymentSchema.parse({
         ...req.body,
         tenantId: req.tenantId,
       });
@@ -869,10 +2708,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Factura no encontrada" });
       }
       
-      const totalAmount = parseFloat(invoice.totalAmount);
-      const alreadyPaid = parseFloat(invoice.amountPaid);
       const newPayment = parseFloat(paymentData.amount);
-      const balanceDue = totalAmount - alreadyPaid;
+      const balanceDue = getInvoiceBalance(invoice);
       
       if (newPayment > balanceDue) {
         return res.status(400).json({ 
@@ -887,7 +2724,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/payments/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/payments/:id", isAuthenticated, withUser, requirePermission("payments:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -902,7 +2739,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/payments/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertPayment>, res) => {
+  app.patch("/api/payments/:id", isAuthenticated, withUser, requirePermission("payments:update"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertPayment>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -921,13 +2758,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Factura no encontrada" });
         }
 
-        const totalAmount = parseFloat(invoice.totalAmount);
-        const alreadyPaid = parseFloat(invoice.amountPaid);
         const oldPaymentAmount = parseFloat(existingPayment.amount);
         const newPaymentAmount = parseFloat(updateData.amount);
 
         // Calculate balance considering we're replacing the old payment
-        const balanceDue = totalAmount - alreadyPaid + oldPaymentAmount;
+        const balanceDue = getInvoiceBalance(invoice) + oldPaymentAmount;
 
         if (newPaymentAmount > balanceDue) {
           return res.status(400).json({ 
@@ -943,7 +2778,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/payments/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.delete("/api/payments/:id", isAuthenticated, withUser, requirePermission("payments:delete"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -956,7 +2791,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Insurers
-  app.get("/api/insurers", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/insurers", isAuthenticated, withUser, requirePermission("insurers:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -968,7 +2803,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/insurers", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/insurers", isAuthenticated, withUser, requirePermission("insurers:manage"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -984,7 +2819,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/insurers/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/insurers/:id", isAuthenticated, withUser, requirePermission("insurers:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -999,7 +2834,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/insurers/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertInsurer>, res) => {
+  app.patch("/api/insurers/:id", isAuthenticated, withUser, requirePermission("insurers:manage"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertInsurer>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1015,7 +2850,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/insurers/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.delete("/api/insurers/:id", isAuthenticated, withUser, requirePermission("insurers:manage"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1028,7 +2863,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Policies
-  app.get("/api/policies", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/policies", isAuthenticated, withUser, requirePermission("policies:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1040,7 +2875,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/policies", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/policies", isAuthenticated, withUser, requirePermission("policies:manage"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1056,7 +2891,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/policies/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/policies/:id", isAuthenticated, withUser, requirePermission("policies:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1071,7 +2906,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/policies/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertPolicy>, res) => {
+  app.patch("/api/policies/:id", isAuthenticated, withUser, requirePermission("policies:manage"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, PartialInsertPolicy>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1087,7 +2922,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/policies/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.delete("/api/policies/:id", isAuthenticated, withUser, requirePermission("policies:manage"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1100,7 +2935,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Policies with overdue invoices report
-  app.get("/api/insurers/:insurerId/overdue-policies-report", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/insurers/:insurerId/overdue-policies-report", isAuthenticated, withUser, requirePermission("reports:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1113,8 +2948,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The monthly report the scheduler emails, so staff can review it first; ?download=1 saves it instead
+  app.get("/api/insurers/:id/reports/:year/:month", isAuthenticated, withUser, requirePermission("reports:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { year, month } = reportPeriodSchema.parse(req.params);
+      const insurer = await storage.getInsurer(req.params.id, req.tenantId);
+      if (!insurer) {
+        return res.status(404).json({ message: "Insurer not found" });
+      }
+
+      const report = await buildInsurerMonthlyReport(insurer, year, month);
+      const tenant = await storage.getTenant(req.tenantId);
+      const { generateInsurerReportPDF } = await import('./services/pdfService');
+      const pdfBuffer = await generateInsurerReportPDF(report, tenant);
+
+      const disposition = req.query.download === '1' ? 'attachment' : 'inline';
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `${disposition}; filename="reporte-aseguradora-${report.from.slice(0, 7)}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
   // OCR
-  app.post("/api/ocr/process-invoice", isAuthenticated, withUser, upload.single('file'), async (req: AuthenticatedRequest, res) => {
+  app.post("/api/ocr/process-invoice", isAuthenticated, withUser, requirePermission("ocr:process"), upload.single('file'), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1134,7 +2995,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/ocr/logs", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/ocr/logs", isAuthenticated, withUser, requirePermission("ocr:process"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1147,7 +3008,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/ocr/:id/approve", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, OcrApproveBody>, res) => {
+  app.post("/api/ocr/:id/approve", isAuthenticated, withUser, requirePermission("ocr:approve"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, OcrApproveBody>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1160,14 +3021,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sanitizedAmount = typeof amount === "string" && amount.trim().length > 0 ? amount : undefined;
       const sanitizedDescription = typeof description === "string" && description.trim().length > 0 ? description : undefined;
 
-      await approveOCRAndCreateCharge(req.params.id, invoiceId, sanitizedDescription, sanitizedAmount);
+      await approveOCRAndCreateCharge(req.params.id, req.tenantId, invoiceId, sanitizedDescription, sanitizedAmount);
       res.json({ message: "OCR approved and charge created" });
     } catch (error: unknown) {
       res.status(500).json({ message: getErrorMessage(error) });
     }
   });
 
-  app.post("/api/ocr/:id/create-invoice", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, OcrCreateInvoiceBody>, res) => {
+  app.post("/api/ocr/:id/create-invoice", isAuthenticated, withUser, requirePermission("ocr:approve"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, OcrCreateInvoiceBody>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1222,21 +3083,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         tenantContactId: contract.tenantContactId,
         issueDate,
         dueDate,
-        subtotal: ocrLog.extractedAmount,
+        subtotal: "0",
         tax: "0",
-        otherCharges: "0",
+        otherCharges: ocrLog.extractedAmount,
         lateFee: "0",
         totalAmount: ocrLog.extractedAmount,
         amountPaid: "0",
         status: "issued" as const,
       };
 
-      const invoice = await storage.createInvoice(invoiceData);
+      const created = await storage.createInvoice(invoiceData);
+
+      // The extracted amount becomes the invoice's only line
+      await db.insert(invoiceCharges).values({
+        invoiceId: created.id,
+        description: `Cargo - ${ocrLog.extractedReference || 'Servicios'}`,
+        category: 'utility',
+        amount: ocrLog.extractedAmount,
+        sourceType: 'ocr_log',
+        sourceId: ocrLogId,
+        taxable: defaultTaxable('utility'),
+      });
+      await recalcInvoiceTotals(created.id);
+      const invoice = await storage.getInvoice(created.id, req.tenantId);
 
       // Update OCR log status to ok
-      await db.update(ocrLogs)
-        .set({ status: 'ok', message: `Factura ${invoiceNumber} creada exitosamente` })
-        .where(eq(ocrLogs.id, ocrLogId));
+      await storage.updateOCRLog(ocrLogId, req.tenantId, {
+        status: 'ok',
+        message: `Factura ${invoiceNumber} creada exitosamente`,
+      });
 
       res.json({ invoice, message: "Invoice created successfully" });
     } catch (error: unknown) {
@@ -1244,8 +3119,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit Logs
+  app.get("/api/audit-logs", isAuthenticated, withUser, requirePermission("audit:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const { entity, entityId, actor, from, to, limit } = req.query;
+      const filters: AuditLogFilters = {
+        entity: typeof entity === "string" && entity ? entity : undefined,
+        entityId: typeof entityId === "string" && entityId ? entityId : undefined,
+        actorUserId: typeof actor === "string" && actor ? actor : undefined,
+      };
+
+      if (typeof from === "string" && from) {
+        filters.from = new Date(from);
+      }
+      if (typeof to === "string" && to) {
+        // A bare date includes the whole day
+        filters.to = new Date(/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to);
+      }
+      if ([filters.from, filters.to].some((date) => date && Number.isNaN(date.getTime()))) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+      if (typeof limit === "string" && limit) {
+        const parsedLimit = Number.parseInt(limit, 10);
+        if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > 1000) {
+          return res.status(400).json({ message: "limit must be between 1 and 1000" });
+        }
+        filters.limit = parsedLimit;
+      }
+
+      const logs = await storage.getAuditLogs(req.tenantId, filters);
+      res.json(logs);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
   // Stripe Billing
-  app.post("/api/billing/create-checkout-session", isAuthenticated, withUser, async (req: AuthenticatedRequest<ParamsDictionary, unknown, BillingCheckoutBody>, res) => {
+  app.post("/api/billing/create-checkout-session", isAuthenticated, withUser, requirePermission("billing:manage"), async (req: AuthenticatedRequest<ParamsDictionary, unknown, BillingCheckoutBody>, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1299,7 +3212,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/billing/customer-portal", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  // SendGrid event webhook: delivery, bounce and drop events for the emails in the notifications log
+  app.post("/api/notifications/sendgrid/webhook", async (req, res) => {
+    const signature = req.headers['x-twilio-email-event-webhook-signature'];
+    const timestamp = req.headers['x-twilio-email-event-webhook-timestamp'];
+
+    if (typeof signature !== 'string' || typeof timestamp !== 'string' || !process.env.SENDGRID_WEBHOOK_PUBLIC_KEY) {
+      return res.status(400).json({ message: 'Webhook signature missing' });
+    }
+    if (!verifySendGridSignature(process.env.SENDGRID_WEBHOOK_PUBLIC_KEY, req.rawBody as Buffer, signature, timestamp)) {
+      return res.status(400).json({ message: 'Webhook Error: invalid signature' });
+    }
+    if (!Array.isArray(req.body)) {
+      return res.status(400).json({ message: 'Webhook Error: expected an array of events' });
+    }
+
+    try {
+      await applySendGridEvents(req.body);
+      res.json({ received: true });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Meta's one-time subscription check for the WhatsApp webhook
+  app.get("/api/notifications/whatsapp/webhook", (req, res) => {
+    const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+    if (verifyToken && req.query['hub.mode'] === 'subscribe' && req.query['hub.verify_token'] === verifyToken) {
+      return res.send(String(req.query['hub.challenge'] ?? ''));
+    }
+    res.status(403).json({ message: 'Webhook verification failed' });
+  });
+
+  app.post("/api/notifications/whatsapp/webhook", async (req, res) => {
+    const signature = req.headers['x-hub-signature-256'];
+
+    if (typeof signature !== 'string' || !process.env.WHATSAPP_APP_SECRET) {
+      return res.status(400).json({ message: 'Webhook signature missing' });
+    }
+    if (!verifyWhatsAppSignature(process.env.WHATSAPP_APP_SECRET, req.rawBody as Buffer, signature)) {
+      return res.status(400).json({ message: 'Webhook Error: invalid signature' });
+    }
+
+    try {
+      await applyWhatsAppWebhook(req.body);
+      res.json({ received: true });
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.post("/api/billing/customer-portal", isAuthenticated, withUser, requirePermission("billing:manage"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1323,7 +3286,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return;
     }
     try {
-      const invoices = await storage.getInvoices(req.tenantId);
+      // Voided invoices were never owed
+      const invoices = (await storage.getInvoices(req.tenantId)).filter(inv => inv.status !== 'void');
       
       const currentMonth = new Date().getMonth();
       const currentYear = new Date().getFullYear();
@@ -1333,15 +3297,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return issueDate.getMonth() === currentMonth && issueDate.getFullYear() === currentYear;
       });
 
-      const issued = thisMonthInvoices.reduce((sum, inv) => sum + parseFloat(inv.totalAmount), 0);
+      // Amounts billed are net of credit notes
+      const netAmount = (inv: typeof invoices[number]) => parseFloat(inv.totalAmount) - parseFloat(inv.creditedAmount);
+
+      const issued = thisMonthInvoices.reduce((sum, inv) => sum + netAmount(inv), 0);
       const collected = thisMonthInvoices.reduce((sum, inv) => sum + parseFloat(inv.amountPaid), 0);
       const overdue = invoices.filter(inv => inv.status === 'overdue')
-        .reduce((sum, inv) => sum + (parseFloat(inv.totalAmount) - parseFloat(inv.amountPaid)), 0);
+        .reduce((sum, inv) => sum + getInvoiceBalance(inv), 0);
       
       // Calculate recovery based on all invoices (issued and partial)
       const totalIssued = invoices
         .filter(inv => inv.status !== 'draft')
-        .reduce((sum, inv) => sum + parseFloat(inv.totalAmount), 0);
+        .reduce((sum, inv) => sum + netAmount(inv), 0);
       const totalCollected = invoices
         .filter(inv => inv.status !== 'draft')
         .reduce((sum, inv) => sum + parseFloat(inv.amountPaid), 0);
@@ -1359,11 +3326,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Receivables aging
+  app.get("/api/reports/aging", isAuthenticated, withUser, requirePermission("reports:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const query = agingReportQuerySchema.parse(req.query);
+      res.json(await buildAgingReport(req.tenantId, query));
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/reports/aging/csv", isAuthenticated, withUser, requirePermission("reports:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const query = agingReportQuerySchema.parse(req.query);
+      const report = await buildAgingReport(req.tenantId, query);
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="cartera-${report.asOf}.csv"`);
+      res.send(exportAgingReportCSV(report));
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.get("/api/reports/aging/pdf", isAuthenticated, withUser, requirePermission("reports:view"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+    try {
+      const query = agingReportQuerySchema.parse(req.query);
+      const report = await buildAgingReport(req.tenantId, query);
+      const tenant = await storage.getTenant(req.tenantId);
+
+      const { generateAgingReportPDF } = await import('./services/pdfService');
+      const pdfBuffer = await generateAgingReportPDF(report, tenant?.name);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="cartera-${report.asOf}.pdf"`);
+      res.send(pdfBuffer);
+    } catch (error: unknown) {
+      res.status(400).json({ message: getErrorMessage(error) });
+    }
+  });
+
   // Object Storage endpoints
   const { ObjectStorageService } = await import("./objectStorage");
   const objectStorageService = new ObjectStorageService();
 
-  app.post("/api/object-storage/upload-url", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/object-storage/upload-url", isAuthenticated, withUser, requirePermission("properties:update"), async (req: AuthenticatedRequest, res) => {
     try {
       const uploadUrl = await objectStorageService.getObjectEntityUploadURL();
       res.json({ 
@@ -1376,7 +3391,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/object-storage/normalize-path", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/object-storage/normalize-path", isAuthenticated, withUser, requirePermission("properties:update"), async (req: AuthenticatedRequest, res) => {
     try {
       const { rawPath } = req.body;
       const normalizedPath = objectStorageService.normalizeObjectEntityPath(rawPath as string);
@@ -1387,7 +3402,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Property Photos endpoints
-  app.get("/api/properties/:id/photos", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.get("/api/properties/:id/photos", isAuthenticated, withUser, requirePermission("properties:view"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1400,7 +3415,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/properties/:id/photos", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.post("/api/properties/:id/photos", isAuthenticated, withUser, requirePermission("properties:update"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1435,7 +3450,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/property-photos/:id", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.delete("/api/property-photos/:id", isAuthenticated, withUser, requirePermission("properties:update"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1460,7 +3475,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/property-photos/reorder", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
+  app.patch("/api/property-photos/reorder", isAuthenticated, withUser, requirePermission("properties:update"), async (req: AuthenticatedRequest, res) => {
     if (!ensureTenantRequest(req, res)) {
       return;
     }
@@ -1479,6 +3494,131 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Work Order Photos endpoints
+  app.post("/api/work-orders/:id/photos", isAuthenticated, withUser, requirePermission("maintenance:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+
+    try {
+      const { objectPath, caption } = req.body;
+      const order = await storage.getWorkOrder(req.params.id, req.tenantId);
+      if (!order) {
+        return res.status(404).json({ message: "Work order not found" });
+      }
+      if (order.photos.length >= 10) {
+        return res.status(400).json({ message: 'Máximo 10 fotos por orden de trabajo' });
+      }
+
+      // Public like property photos, so everyone on the team can see them, not just the uploader
+      const normalizedPath = await objectStorageService.trySetObjectEntityAclPolicy(objectPath as string, {
+        owner: req.dbUser!.id,
+        visibility: 'public',
+      });
+
+      const photo = await storage.createWorkOrderPhoto({
+        tenantId: req.tenantId,
+        workOrderId: order.id,
+        objectPath: normalizedPath,
+        caption: (caption && typeof caption === 'string') ? caption : null,
+      });
+
+      res.status(201).json(photo);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/work-order-photos/:id", isAuthenticated, withUser, requirePermission("maintenance:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+
+    try {
+      const photo = await storage.deleteWorkOrderPhoto(req.params.id, req.tenantId);
+      if (photo) {
+        try {
+          await objectStorageService.deleteObject(photo.objectPath);
+        } catch (err) {
+          console.error("Error deleting object from storage:", err);
+        }
+      }
+      res.status(204).send();
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  // Inspection Photos endpoints
+  app.post("/api/inspections/:id/photos", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+
+    try {
+      const { objectPath, caption, inspectionItemId } = req.body;
+      const inspection = await storage.getInspection(req.params.id, req.tenantId);
+      if (!inspection) {
+        return res.status(404).json({ message: "Inspection not found" });
+      }
+      if (isInspectionSigned(inspection)) {
+        return res.status(409).json({ message: "Signed inspections cannot be changed" });
+      }
+      if (inspectionItemId && !inspection.items.some((item: { id: string }) => item.id === inspectionItemId)) {
+        return res.status(400).json({ message: "Inspection item not found" });
+      }
+      if (inspection.photos.length >= 50) {
+        return res.status(400).json({ message: 'Máximo 50 fotos por inspección' });
+      }
+
+      // Public like property photos, so everyone on the team can see them, not just the uploader
+      const normalizedPath = await objectStorageService.trySetObjectEntityAclPolicy(objectPath as string, {
+        owner: req.dbUser!.id,
+        visibility: 'public',
+      });
+
+      const photo = await storage.createInspectionPhoto({
+        tenantId: req.tenantId,
+        inspectionId: inspection.id,
+        inspectionItemId: (inspectionItemId && typeof inspectionItemId === 'string') ? inspectionItemId : null,
+        objectPath: normalizedPath,
+        caption: (caption && typeof caption === 'string') ? caption : null,
+      });
+
+      res.status(201).json(photo);
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
+  app.delete("/api/inspection-photos/:id", isAuthenticated, withUser, requirePermission("inspections:manage"), async (req: AuthenticatedRequest, res) => {
+    if (!ensureTenantRequest(req, res)) {
+      return;
+    }
+
+    try {
+      const existing = await storage.getInspectionPhoto(req.params.id, req.tenantId);
+      if (existing) {
+        const inspection = await storage.getInspection(existing.inspectionId, req.tenantId);
+        if (inspection && isInspectionSigned(inspection)) {
+          return res.status(409).json({ message: "Signed inspections cannot be changed" });
+        }
+      }
+
+      const photo = await storage.deleteInspectionPhoto(req.params.id, req.tenantId);
+      if (photo) {
+        try {
+          await objectStorageService.deleteObject(photo.objectPath);
+        } catch (err) {
+          console.error("Error deleting object from storage:", err);
+        }
+      }
+      res.status(204).send();
+    } catch (error: unknown) {
+      res.status(500).json({ message: getErrorMessage(error) });
+    }
+  });
+
   // Serve object files
   app.get("/objects/*", isAuthenticated, withUser, async (req: AuthenticatedRequest, res) => {
     try {
@@ -0,0 +1,31 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+// Credentials tenants give us (their SMTP password) are stored encrypted with AES-256-GCM under
+// EMAIL_SETTINGS_KEY, 32 bytes in base64. Stored values read "v1:<iv>:<tag>:<ciphertext>".
+const VERSION = "v1";
+
+function secretKey(): Buffer {
+  const key = Buffer.from(process.env.EMAIL_SETTINGS_KEY ?? "", "base64");
+  if (key.length !== 32) {
+    throw new Error("EMAIL_SETTINGS_KEY must be set to 32 random bytes in base64");
+  }
+  return key;
+}
+
+export function encryptSecret(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", secretKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return [VERSION, iv.toString("base64"), cipher.getAuthTag().toString("base64"), encrypted.toString("base64")].join(":");
+}
+
+// Values saved before encryption are returned as they are and encrypted on the next save
+export function decryptSecret(stored: string): string {
+  const [version, iv, tag, encrypted] = stored.split(":");
+  if (version !== VERSION || encrypted === undefined) {
+    return stored;
+  }
+  const decipher = createDecipheriv("aes-256-gcm", secretKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, "base64")), decipher.final()]).toString("utf8");
+}
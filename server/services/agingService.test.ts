@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from "vitest";
+
+// balanceAsOf is pure; the storage it sits next to needs no database here
+vi.mock("../db", () => ({ db: null, pool: null }));
+
+const { balanceAsOf } = await import("./agingService");
+
+const invoice = {
+  issueDate: "2025-03-01",
+  createdAt: "2025-02-24T10:00:00Z", // generated ahead of its issue date
+  totalAmount: "1840000.00",
+  charges: [
+    { category: "rent", amount: "1500000.00", taxAmount: "0", withholdingAmount: "0", createdAt: "2025-02-24T10:00:00Z" },
+    { category: "late_fee", amount: "50000.00", taxAmount: "0", withholdingAmount: "0", createdAt: "2025-03-06T13:00:00Z" },
+    { category: "other", amount: "250000.00", taxAmount: "47500.00", withholdingAmount: "7500.00", createdAt: "2025-03-20T15:00:00Z" },
+  ],
+  payments: [{ amount: "500000.00", paymentDate: "2025-03-10" }],
+  creditNotes: [{ amount: "100000.00", issueDate: "2025-03-25" }],
+};
+
+describe("balanceAsOf", () => {
+  it("counts only the movements dated on or before the cut-off", () => {
+    expect(balanceAsOf(invoice, "2025-03-01")).toEqual({ totalAmount: 1500000, amountPaid: 0, creditedAmount: 0, balance: 1500000 });
+    expect(balanceAsOf(invoice, "2025-03-10")).toEqual({ totalAmount: 1550000, amountPaid: 500000, creditedAmount: 0, balance: 1050000 });
+    expect(balanceAsOf(invoice, "2025-03-31")).toEqual({ totalAmount: 1840000, amountPaid: 500000, creditedAmount: 100000, balance: 1240000 });
+  });
+});
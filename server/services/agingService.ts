@@ -0,0 +1,224 @@
+import { storage } from "../storage";
+import type { AgingGrouping, AgingReportQuery } from "@shared/schema";
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AgingBucket = "current" | "days_0_30" | "days_31_60" | "days_61_90" | "days_90_plus";
+
+export const agingBuckets: AgingBucket[] = ["current", "days_0_30", "days_31_60", "days_61_90", "days_90_plus"];
+
+export const agingBucketLabels: Record<AgingBucket, string> = {
+  current: 'Por vencer',
+  days_0_30: '0-30 días',
+  days_31_60: '31-60 días',
+  days_61_90: '61-90 días',
+  days_90_plus: 'Más de 90 días',
+};
+
+export const agingGroupingLabels: Record<AgingGrouping, string> = {
+  contact: 'Inquilino',
+  property: 'Propiedad',
+  owner: 'Propietario',
+  insurer: 'Aseguradora',
+};
+
+export type AgingTotals = Record<AgingBucket, string> & { total: string };
+
+export interface AgingInvoice {
+  id: string;
+  number: string;
+  contractId: string;
+  contractNumber: string | null;
+  tenantName: string | null;
+  propertyName: string | null;
+  issueDate: string;
+  dueDate: string;
+  daysPastDue: number; // negative while the invoice is not yet due
+  bucket: AgingBucket;
+  totalAmount: string; // as of the report date
+  amountPaid: string;
+  creditedAmount: string;
+  balance: string;
+}
+
+export interface AgingGroup {
+  key: string;
+  label: string;
+  totals: AgingTotals;
+  invoices: AgingInvoice[];
+}
+
+export interface AgingReport {
+  asOf: string;
+  groupBy: AgingGrouping;
+  totals: AgingTotals;
+  groups: AgingGroup[];
+}
+
+export function agingBucketFor(daysPastDue: number): AgingBucket {
+  if (daysPastDue < 0) {
+    return "current";
+  }
+  if (daysPastDue <= 30) {
+    return "days_0_30";
+  }
+  if (daysPastDue <= 60) {
+    return "days_31_60";
+  }
+  if (daysPastDue <= 90) {
+    return "days_61_90";
+  }
+  return "days_90_plus";
+}
+
+function emptyTotals(): Record<AgingBucket | "total", number> {
+  return { current: 0, days_0_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0, total: 0 };
+}
+
+function formatTotals(totals: Record<AgingBucket | "total", number>): AgingTotals {
+  return {
+    current: totals.current.toFixed(2),
+    days_0_30: totals.days_0_30.toFixed(2),
+    days_31_60: totals.days_31_60.toFixed(2),
+    days_61_90: totals.days_61_90.toFixed(2),
+    days_90_plus: totals.days_90_plus.toFixed(2),
+    total: totals.total.toFixed(2),
+  };
+}
+
+// Rebuilds what was owed on an invoice at the end of a given day: charges added later (late
+// fees, billed work orders, extra lines), and payments and credit notes dated later, did not
+// exist yet. Lines written together with the invoice count from its issue date
+export function balanceAsOf(invoice: any, asOf: string) {
+  const createdOn = invoice.createdAt ? toDateString(new Date(invoice.createdAt)) : null;
+  const laterCharges = (invoice.charges ?? [])
+    .filter((charge: any) => {
+      const addedOn = toDateString(new Date(charge.createdAt));
+      return addedOn > asOf && (!createdOn || addedOn > createdOn);
+    })
+    .reduce((sum: number, charge: any) =>
+      sum + parseFloat(charge.amount) + parseFloat(charge.taxAmount ?? "0") - parseFloat(charge.withholdingAmount ?? "0"), 0);
+  const totalAmount = parseFloat(invoice.totalAmount) - laterCharges;
+  const amountPaid = (invoice.payments ?? [])
+    .filter((payment: any) => payment.paymentDate <= asOf)
+    .reduce((sum: number, payment: any) => sum + parseFloat(payment.amount), 0);
+  const creditedAmount = (invoice.creditNotes ?? [])
+    .filter((note: any) => note.issueDate <= asOf)
+    .reduce((sum: number, note: any) => sum + parseFloat(note.amount), 0);
+
+  return { totalAmount, amountPaid, creditedAmount, balance: totalAmount - amountPaid - creditedAmount };
+}
+
+// A contract's insurer is the one whose policy covered it on the report date,
+// or failing that the most recently created policy on the contract
+function insurerByContract(policies: any[], asOf: string): Map<string, { id: string; name: string }> {
+  const byContract = new Map<string, { id: string; name: string; inForce: boolean }>();
+  for (const policy of policies) {
+    if (!policy.contractId || !policy.insurer) {
+      continue;
+    }
+    const inForce = policy.startDate <= asOf && policy.endDate >= asOf;
+    const current = byContract.get(policy.contractId);
+    if (!current || (inForce && !current.inForce)) {
+      byContract.set(policy.contractId, { id: policy.insurer.id, name: policy.insurer.name, inForce });
+    }
+  }
+  return byContract;
+}
+
+function groupFor(invoice: any, groupBy: AgingGrouping, insurers: Map<string, { id: string; name: string }>) {
+  switch (groupBy) {
+    case "property":
+      return { key: invoice.contract?.propertyId ?? "none", label: invoice.contract?.property?.name ?? 'Sin propiedad' };
+    case "owner":
+      return { key: invoice.contract?.ownerContactId ?? "none", label: invoice.contract?.owner?.fullName ?? 'Sin propietario' };
+    case "insurer": {
+      const insurer = insurers.get(invoice.contractId);
+      return { key: insurer?.id ?? "none", label: insurer?.name ?? 'Sin aseguradora' };
+    }
+    default:
+      return { key: invoice.tenantContactId, label: invoice.tenantContact?.fullName ?? 'Sin inquilino' };
+  }
+}
+
+// Open receivables on a date, bucketed by days past due and grouped for collections.
+// Balances are recomputed from the dates of charges, payments and credit notes, so past dates
+// show what was owed then rather than today's status.
+export async function buildAgingReport(tenantId: string, query: AgingReportQuery): Promise<AgingReport> {
+  const asOf = query.asOf ?? toDateString(new Date());
+  const asOfTime = new Date(asOf).getTime();
+
+  const invoices = await storage.getReceivableInvoices(tenantId, asOf);
+  const insurers = query.groupBy === "insurer"
+    ? insurerByContract(await storage.getPolicies(tenantId), asOf)
+    : new Map<string, { id: string; name: string }>();
+
+  const groups = new Map<string, { label: string; totals: ReturnType<typeof emptyTotals>; invoices: AgingInvoice[] }>();
+  const totals = emptyTotals();
+
+  for (const invoice of invoices) {
+    // Invoices voided before credit notes existed left no dated trail; they were never owed
+    if (invoice.status === "void" && !(invoice.creditNotes ?? []).some((note: any) => note.reasonCode === "void")) {
+      continue;
+    }
+    const amounts = balanceAsOf(invoice, asOf);
+    if (amounts.balance < 0.005) {
+      continue;
+    }
+
+    const daysPastDue = Math.round((asOfTime - new Date(invoice.dueDate).getTime()) / DAY_MS);
+    const bucket = agingBucketFor(daysPastDue);
+    const { key, label } = groupFor(invoice, query.groupBy, insurers);
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { label, totals: emptyTotals(), invoices: [] };
+      groups.set(key, group);
+    }
+
+    group.totals[bucket] += amounts.balance;
+    group.totals.total += amounts.balance;
+    totals[bucket] += amounts.balance;
+    totals.total += amounts.balance;
+
+    group.invoices.push({
+      id: invoice.id,
+      number: invoice.number,
+      contractId: invoice.contractId,
+      contractNumber: invoice.contract?.number ?? null,
+      tenantName: invoice.tenantContact?.fullName ?? null,
+      propertyName: invoice.contract?.property?.name ?? null,
+      issueDate: invoice.issueDate,
+      dueDate: invoice.dueDate,
+      daysPastDue,
+      bucket,
+      totalAmount: amounts.totalAmount.toFixed(2),
+      amountPaid: amounts.amountPaid.toFixed(2),
+      creditedAmount: amounts.creditedAmount.toFixed(2),
+      balance: amounts.balance.toFixed(2),
+    });
+  }
+
+  // Largest balances first, oldest invoices first within each group
+  const sortedGroups = Array.from(groups.entries())
+    .map(([key, group]) => ({
+      key,
+      label: group.label,
+      totals: formatTotals(group.totals),
+      invoices: group.invoices.sort((a, b) => b.daysPastDue - a.daysPastDue),
+      total: group.totals.total,
+    }))
+    .sort((a, b) => b.total - a.total)
+    .map(({ total, ...group }) => group);
+
+  return {
+    asOf,
+    groupBy: query.groupBy,
+    totals: formatTotals(totals),
+    groups: sortedGroups,
+  };
+}
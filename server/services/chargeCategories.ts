@@ -0,0 +1,80 @@
+import { db } from "../db";
+import { invoiceCharges, invoices, type ChargeCategory, type InvoiceCharge } from "@shared/schema";
+import { eq, isNull } from "drizzle-orm";
+
+// Interest, tax lines themselves and money held in guarantee never carry IVA or withholdings
+const untaxedCategories: ReadonlySet<ChargeCategory> = new Set<ChargeCategory>(["late_fee", "tax", "deposit"]);
+
+export function canBeTaxed(category: ChargeCategory): boolean {
+  return !untaxedCategories.has(category);
+}
+
+// Reimbursed utilities are passed through at cost; everything else that can be taxed is
+export function defaultTaxable(category: ChargeCategory): boolean {
+  return canBeTaxed(category) && category !== "utility";
+}
+
+// Which invoice total a line adds to
+export function totalForCategory(category: ChargeCategory): "subtotal" | "otherCharges" | "lateFee" | "tax" {
+  switch (category) {
+    case "late_fee":
+      return "lateFee";
+    case "utility":
+      return "otherCharges";
+    case "tax":
+      return "tax";
+    default:
+      return "subtotal";
+  }
+}
+
+// Best guess for lines written before categories existed, from the descriptions the
+// invoice engine, termination settlement and OCR approval used to generate
+function inferCategory(description: string): Pick<InvoiceCharge, "category" | "sourceType"> {
+  const text = description.toLowerCase();
+  if (text.includes("mora")) {
+    return { category: "late_fee", sourceType: "contract" };
+  }
+  if (text.startsWith("canon")) {
+    return { category: "rent", sourceType: "contract" };
+  }
+  if (text.includes("depósito de garantía")) {
+    return { category: "deposit", sourceType: "contract" };
+  }
+  if (text.startsWith("penalidad") || text.startsWith("saldo a favor")) {
+    return { category: "other", sourceType: "contract" };
+  }
+  if (text.startsWith("cargo adicional") || text.startsWith("cargo -")) {
+    return { category: "utility", sourceType: "ocr_log" };
+  }
+  return { category: "other", sourceType: "manual" };
+}
+
+// Categorizes the lines created before categories existed. Each line stays taxable only if
+// it was taxed when issued, so recalculating a legacy invoice never adds IVA it did not carry
+export async function backfillChargeCategories(): Promise<number> {
+  const legacy = await db.select({
+    id: invoiceCharges.id,
+    description: invoiceCharges.description,
+    taxAmount: invoiceCharges.taxAmount,
+    withholdingAmount: invoiceCharges.withholdingAmount,
+    contractId: invoices.contractId,
+  })
+    .from(invoiceCharges)
+    .innerJoin(invoices, eq(invoices.id, invoiceCharges.invoiceId))
+    .where(isNull(invoiceCharges.sourceType));
+
+  for (const charge of legacy) {
+    const { category, sourceType } = inferCategory(charge.description);
+    await db.update(invoiceCharges)
+      .set({
+        category,
+        sourceType,
+        sourceId: sourceType === "contract" ? charge.contractId : null,
+        taxable: parseFloat(charge.taxAmount) !== 0 || parseFloat(charge.withholdingAmount) !== 0,
+      })
+      .where(eq(invoiceCharges.id, charge.id));
+  }
+
+  return legacy.length;
+}
@@ -0,0 +1,92 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { contracts, creditNotes, invoices, tenants } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { terminateContract } = await import("./contractLifecycle");
+
+const termination = { terminationDate: "2025-03-31", reason: "Traslado", penaltyAmount: "1000000", utilities: [] };
+
+// A lease ended after March, with April and May already billed
+async function seedBilledLease() {
+  const lease = await seedTenant(testDb.db, "Inmobiliaria Norte");
+  for (const [number, periodStart, periodEnd] of [["F-4", "2025-04-01", "2025-04-30"], ["F-5", "2025-05-01", "2025-05-31"]]) {
+    await seedInvoice(testDb.db, lease, { number, periodStart, periodEnd, issueDate: periodStart, dueDate: periodStart });
+  }
+  return lease;
+}
+
+async function contractRows(contractId: string) {
+  const rows = await testDb.db.select().from(invoices).where(eq(invoices.contractId, contractId)).orderBy(invoices.number);
+  return {
+    contract: await testDb.db.query.contracts.findFirst({ where: eq(contracts.id, contractId) }),
+    invoices: rows.map((invoice) => ({ number: invoice.number, status: invoice.status })),
+    creditNotes: await testDb.db.select().from(creditNotes).where(eq(creditNotes.tenantId, rows[0].tenantId)),
+  };
+}
+
+describe("terminateContract", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    await testDb.db.delete(tenants);
+  });
+
+  it("voids later invoices, issues the settlement and closes the contract", async () => {
+    const lease = await seedBilledLease();
+
+    const result = await terminateContract(lease.contract, termination);
+
+    const rows = await contractRows(lease.contract.id);
+    expect(rows.contract?.status).toBe("closed");
+    expect(rows.invoices).toEqual([
+      { number: "C-1-LIQ", status: "issued" },
+      { number: "F-4", status: "void" },
+      { number: "F-5", status: "void" },
+    ]);
+    expect(rows.creditNotes).toHaveLength(2);
+    expect(result.settlementInvoice?.totalAmount).toBe("1000000.00");
+  });
+
+  it("writes nothing when a step fails", async () => {
+    const lease = await seedBilledLease();
+    const before = await contractRows(lease.contract.id);
+    vi.spyOn(storage, "updateProperty").mockRejectedValue(new Error("connection lost"));
+
+    await expect(terminateContract(lease.contract, termination)).rejects.toThrow("connection lost");
+
+    expect(await contractRows(lease.contract.id)).toEqual(before);
+  });
+
+  it("terminates a contract only once", async () => {
+    const lease = await seedBilledLease();
+
+    await terminateContract(lease.contract, termination);
+    await expect(terminateContract(lease.contract, termination)).rejects.toThrow("A closed contract cannot be terminated");
+
+    const settlements = (await contractRows(lease.contract.id)).invoices.filter((invoice) => invoice.number.endsWith("-LIQ"));
+    expect(settlements).toHaveLength(1);
+  });
+
+  it("credits the unused days of a partly paid invoice up to its balance and returns the rest", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Sur");
+    const march = await seedInvoice(testDb.db, lease, { number: "F-3", periodStart: "2025-03-01", periodEnd: "2025-03-31", issueDate: "2025-03-01", dueDate: "2025-03-05" });
+    await storage.createPayment({ tenantId: lease.tenant.id, invoiceId: march.id, amount: "1000000", paymentDate: "2025-03-05", method: "transfer" });
+
+    const result = await terminateContract(lease.contract, { ...termination, terminationDate: "2025-03-15" });
+
+    // 16 of March's 31 days are not lived in: 774193.55, of which 500000 were still owed
+    expect(result.plan.creditInvoice?.amount).toBe("500000.00");
+    const invoice = await storage.getInvoice(march.id, lease.tenant.id);
+    expect(invoice).toMatchObject({ creditedAmount: "500000.00", status: "paid" });
+    expect(result.settlementInvoice?.totalAmount).toBe("725806.45");
+  });
+});
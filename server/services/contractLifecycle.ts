@@ -0,0 +1,510 @@
+import { db } from "../db";
+import { contracts, invoices, invoiceCharges, priceIndexValues, tenants, type ChargeCategory, type Contract, type Invoice, type RenewContract, type TerminateContract } from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { buildRentSchedule, escalateRent, getRentForPeriod } from "./rentEscalation";
+import { getBillingPeriods, invoiceNumber, isRecurringChargeActive, prorateRent, recalcInvoiceTotals, recurringChargeAmount, summarizeCharges } from "./invoiceEngine";
+import { getContractTaxProfile, invoiceTaxRates } from "./taxService";
+import { getDepositBalance } from "./depositService";
+import { getInvoiceBalance, issueCreditNote, voidInvoice } from "./creditNoteService";
+import { sendContractExpiringNotice, sendContractExpiredNotice } from "./emailService";
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(value: string, days: number): string {
+  const [year, month, day] = value.split('-').map(Number);
+  return toDateString(new Date(Date.UTC(year, month - 1, day + days)));
+}
+
+function formatDate(value: string): string {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString('es-ES', { timeZone: 'UTC' });
+}
+
+function moneyLabel(amount: string): string {
+  return `$${parseFloat(amount).toLocaleString('es-CO')}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / 86_400_000);
+}
+
+async function loadIndexValues(contract: Contract) {
+  return contract.escalationType === "ipc" || contract.escalationType === "inpc"
+    ? await db.query.priceIndexValues.findMany({
+      where: and(eq(priceIndexValues.tenantId, contract.tenantId), eq(priceIndexValues.indexType, contract.escalationType)),
+    })
+    : [];
+}
+
+// Owner and tenant get the same notice; contacts without an email are skipped
+async function notifyParties(
+  contract: { number: string; owner?: { email: string | null } | null; tenantContact?: { email: string | null } | null },
+  send: (contact: any) => Promise<unknown>,
+) {
+  for (const contact of [contract.owner, contract.tenantContact]) {
+    if (!contact?.email) {
+      continue;
+    }
+    try {
+      await send(contact);
+    } catch (error) {
+      console.error(`Failed to send contract notice for ${contract.number} to ${contact.email}:`, error);
+    }
+  }
+}
+
+// Scheduler entry point: active contracts become expiring once inside the tenant's
+// notice window, and anything past its end date becomes expired. Each transition
+// happens once, so parties are notified once per stage. Contracts that already have
+// a successor change status silently.
+export async function updateContractLifecycleStatuses(asOf = toDateString(new Date())) {
+  const inForce = await db.query.contracts.findMany({
+    where: inArray(contracts.status, ["active", "expiring"]),
+    with: {
+      tenant: true,
+      property: true,
+      owner: true,
+      tenantContact: true,
+      renewals: true,
+    },
+  });
+
+  let expiring = 0;
+  let expired = 0;
+
+  for (const contract of inForce) {
+    const renewed = contract.renewals.length > 0;
+
+    if (contract.endDate < asOf) {
+      await storage.updateContractStatus(contract.id, contract.tenantId, "expired");
+      expired++;
+      if (!renewed) {
+        await notifyParties(contract, (contact) => sendContractExpiredNotice(contract, contact));
+      }
+      continue;
+    }
+
+    const noticeStart = addDays(contract.endDate, -contract.tenant.renewalNoticeDays);
+    if (contract.status === "active" && noticeStart <= asOf) {
+      await storage.updateContractStatus(contract.id, contract.tenantId, "expiring");
+      expiring++;
+      if (!renewed) {
+        const daysLeft = daysBetween(asOf, contract.endDate);
+        await notifyParties(contract, (contact) => sendContractExpiringNotice(contract, contact, daysLeft));
+      }
+    }
+  }
+
+  return { expiring, expired };
+}
+
+// Successor numbers keep the original's and count renewals: C-001 → C-001-R1 → C-001-R2
+export function renewalNumber(number: string): string {
+  const match = number.match(/^(.*)-R(\d+)$/);
+  return match ? `${match[1]}-R${Number(match[2]) + 1}` : `${number}-R1`;
+}
+
+// The rent the successor starts with: the one in force on the original's last day,
+// escalated once more by the original's rule when requested
+export async function getRenewalRent(contract: Contract, startDate: string, applyEscalation: boolean): Promise<string> {
+  const indexValues = await loadIndexValues(contract);
+  const lastRent = getRentForPeriod(buildRentSchedule(contract, indexValues), contract.endDate);
+  if ("blockedReason" in lastRent) {
+    throw new Error(lastRent.blockedReason);
+  }
+
+  if (!applyEscalation) {
+    return lastRent.rent;
+  }
+
+  const step = escalateRent(contract, parseFloat(lastRent.rent), startDate, indexValues);
+  if ("blockedReason" in step) {
+    throw new Error(step.blockedReason);
+  }
+  return step.newRent;
+}
+
+export function defaultRenewalStart(contract: Pick<Contract, "endDate">): string {
+  return addDays(contract.endDate, 1);
+}
+
+// Creates the successor as a draft with the original's parties and terms; it goes
+// through the usual activation once signed
+export async function renewContract(contract: Contract, input: RenewContract): Promise<Contract> {
+  const startDate = input.startDate ?? defaultRenewalStart(contract);
+  if (input.endDate <= startDate) {
+    throw new Error("endDate must be after startDate");
+  }
+
+  const rentAmount = input.rentAmount ?? await getRenewalRent(contract, startDate, input.applyEscalation);
+
+  const successor = await storage.createContract({
+    tenantId: contract.tenantId,
+    number: input.number ?? renewalNumber(contract.number),
+    propertyId: contract.propertyId,
+    ownerContactId: contract.ownerContactId,
+    tenantContactId: contract.tenantContactId,
+    guarantorContactId: contract.guarantorContactId,
+    startDate,
+    endDate: input.endDate,
+    rentAmount,
+    paymentDay: contract.paymentDay,
+    lateFeeType: contract.lateFeeType,
+    lateFeeValue: contract.lateFeeValue,
+    status: "draft",
+    policyId: contract.policyId,
+    escalationType: contract.escalationType,
+    escalationRate: contract.escalationRate,
+    escalationCap: contract.escalationCap,
+    escalationMonth: contract.escalationMonth,
+    taxProfileId: contract.taxProfileId,
+    renewedFromContractId: contract.id,
+  });
+
+  // Extras still running when the original ends carry over from the successor's start
+  for (const extra of await storage.getRecurringCharges(contract.id, contract.tenantId)) {
+    if (extra.endDate && extra.endDate < startDate) {
+      continue;
+    }
+    await storage.createRecurringCharge({
+      tenantId: contract.tenantId,
+      contractId: successor.id,
+      description: extra.description,
+      category: extra.category,
+      amount: extra.amount,
+      startDate: extra.startDate > startDate ? extra.startDate : startDate,
+      endDate: extra.endDate && extra.endDate <= input.endDate ? extra.endDate : null,
+      taxable: extra.taxable,
+    });
+  }
+
+  return successor;
+}
+
+export interface SettlementLine {
+  description: string;
+  category: ChargeCategory;
+  amount: string;
+  // Rent, recurring extras and their credits keep their taxability; penalties,
+  // reimbursed utilities and money already collected carry no IVA or withholdings
+  taxable: boolean;
+}
+
+const DEPOSIT_OFFSET_DESCRIPTION = "Aplicación del depósito de garantía";
+
+export interface TerminationPlan {
+  terminationDate: string;
+  depositBalance: string;
+  // Invoices for periods after the termination date; whatever was paid on them is credited
+  voidInvoices: { id: string; number: string; amountPaid: string }[];
+  // Untouched invoice for the period the contract ends in, credited the days not lived in
+  adjustInvoice?: { id: string; number: string; charges: SettlementLine[] };
+  // The same invoice once payments or credit notes were applied to it: the days not lived in
+  // are credited with a credit note up to its open balance, and the rest on the settlement
+  creditInvoice?: { id: string; number: string; issueDate: string; reason: string; amount: string };
+  settlement: {
+    number: string;
+    issueDate: string;
+    dueDate: string;
+    charges: SettlementLine[];
+    subtotal: string;
+    otherCharges: string;
+    tax: string;
+    withholdings: string;
+    totalAmount: string;
+  } | null;
+}
+
+// Works out what an early termination does to the contract's invoices and what the
+// final settlement invoice contains, without writing anything
+export async function planTermination(
+  contract: Contract,
+  input: TerminateContract,
+  today = toDateString(new Date()),
+): Promise<TerminationPlan> {
+  const terminationDate = input.terminationDate;
+  if (terminationDate < contract.startDate || terminationDate > contract.endDate) {
+    throw new Error("terminationDate must be between the contract's start and end dates");
+  }
+
+  const depositBalance = getDepositBalance(await storage.getDepositEntries(contract.id, contract.tenantId));
+  if (input.depositOffset && parseFloat(input.depositOffset) > depositBalance + 0.005) {
+    throw new Error(`depositOffset exceeds the deposit balance (${depositBalance.toFixed(2)})`);
+  }
+
+  const tenant = await db.query.tenants.findFirst({ where: eq(tenants.id, contract.tenantId) });
+  const prorationMethod = tenant?.prorationMethod ?? "actual_days";
+  const schedule = buildRentSchedule(contract, await loadIndexValues(contract));
+  const periods = getBillingPeriods({ ...contract, terminationDate: null }, 0);
+  const contractInvoices = await db.query.invoices.findMany({
+    where: and(eq(invoices.contractId, contract.id), eq(invoices.tenantId, contract.tenantId)),
+  });
+  const extras = await storage.getRecurringCharges(contract.id, contract.tenantId);
+  const taxRates = await getContractTaxProfile(contract);
+
+  // Invoices issued before periods were tracked are matched by their number
+  const invoiceFor = (sequence: number, periodStart: string): Invoice | undefined => {
+    const number = invoiceNumber(contract, sequence);
+    return contractInvoices.find((invoice) =>
+      invoice.status !== "void" &&
+      (invoice.periodStart === periodStart || (!invoice.periodStart && invoice.number === number)));
+  };
+
+  const rentCharges: SettlementLine[] = [];
+  const credits: SettlementLine[] = [];
+  const plan: TerminationPlan = {
+    terminationDate,
+    depositBalance: depositBalance.toFixed(2),
+    voidInvoices: [],
+    settlement: null,
+  };
+
+  for (const period of periods) {
+    const invoice = invoiceFor(period.sequence, period.periodStart);
+
+    if (period.periodStart > terminationDate) {
+      if (invoice) {
+        plan.voidInvoices.push({ id: invoice.id, number: invoice.number, amountPaid: invoice.amountPaid });
+        if (parseFloat(invoice.amountPaid) > 0) {
+          credits.push({
+            description: `Saldo a favor factura ${invoice.number} (anulada)`,
+            category: "other",
+            amount: (-parseFloat(invoice.amountPaid)).toFixed(2),
+            taxable: false,
+          });
+        }
+      }
+      continue;
+    }
+
+    if (period.periodEnd <= terminationDate) {
+      continue;
+    }
+
+    // The period the contract now ends in
+    const periodRent = getRentForPeriod(schedule, period.periodStart);
+    if ("blockedReason" in periodRent) {
+      throw new Error(periodRent.blockedReason);
+    }
+
+    // Rent and the recurring extras billed with it are settled by day the same way
+    const monthlyLines = [
+      { label: "Canon", monthly: periodRent.rent, category: "rent" as ChargeCategory, taxable: true },
+      ...extras
+        .filter((extra) => isRecurringChargeActive(extra, period))
+        .map((extra) => ({ label: extra.description, monthly: recurringChargeAmount(extra), category: extra.category, taxable: extra.taxable })),
+    ];
+
+    if (!invoice) {
+      for (const line of monthlyLines) {
+        const used = prorateRent(line.monthly, period.periodStart, terminationDate, prorationMethod);
+        rentCharges.push({
+          description: `${line.label} proporcional del ${formatDate(period.periodStart)} al ${formatDate(terminationDate)} (${used.days}/${used.basis} días × ${moneyLabel(line.monthly)})`,
+          category: line.category,
+          amount: used.amount,
+          taxable: line.taxable,
+        });
+      }
+      continue;
+    }
+
+    const unusedFrom = addDays(terminationDate, 1);
+    const unusedCharges = monthlyLines.map((line) => {
+      const unused = prorateRent(line.monthly, unusedFrom, period.periodEnd, prorationMethod);
+      return {
+        description: `${line.label} no causado del ${formatDate(unusedFrom)} al ${formatDate(period.periodEnd)} (${unused.days}/${unused.basis} días × ${moneyLabel(line.monthly)})`,
+        category: line.category,
+        amount: (-parseFloat(unused.amount)).toFixed(2),
+        taxable: line.taxable,
+      };
+    });
+    if (parseFloat(invoice.amountPaid) === 0 && parseFloat(invoice.creditedAmount) === 0) {
+      plan.adjustInvoice = { id: invoice.id, number: invoice.number, charges: unusedCharges };
+      continue;
+    }
+
+    const unused = -summarizeCharges(unusedCharges, invoiceTaxRates(invoice)).total;
+    const credited = Math.min(unused, Math.max(getInvoiceBalance(invoice), 0));
+    const unusedRange = `del ${formatDate(unusedFrom)} al ${formatDate(period.periodEnd)}`;
+    if (credited > 0) {
+      plan.creditInvoice = {
+        id: invoice.id,
+        number: invoice.number,
+        issueDate: today,
+        reason: `Terminación anticipada del contrato ${contract.number}: días no causados ${unusedRange}`,
+        amount: credited.toFixed(2),
+      };
+    }
+    if (unused - credited > 0.005) {
+      credits.push({
+        description: `Saldo a favor factura ${invoice.number} (días no causados ${unusedRange})`,
+        category: "other",
+        amount: (credited - unused).toFixed(2),
+        taxable: false,
+      });
+    }
+  }
+
+  const charges: SettlementLine[] = [
+    ...rentCharges,
+    ...(input.penaltyAmount
+      ? [{ description: "Penalidad por terminación anticipada", category: "other" as const, amount: input.penaltyAmount, taxable: false }]
+      : []),
+    ...input.utilities.map((utility) => ({ ...utility, category: "utility" as const, taxable: false })),
+    ...credits,
+    ...(input.depositOffset
+      ? [{ description: DEPOSIT_OFFSET_DESCRIPTION, category: "deposit" as const, amount: (-parseFloat(input.depositOffset)).toFixed(2), taxable: false }]
+      : []),
+  ];
+
+  if (charges.length > 0) {
+    const totals = summarizeCharges(charges, taxRates);
+    plan.settlement = {
+      number: `${contract.number}-LIQ`,
+      issueDate: today,
+      dueDate: input.dueDate ?? (terminationDate > today ? terminationDate : today),
+      charges,
+      subtotal: totals.subtotal.toFixed(2),
+      otherCharges: totals.otherCharges.toFixed(2),
+      tax: totals.tax.toFixed(2),
+      withholdings: totals.withholdings.toFixed(2),
+      totalAmount: totals.total.toFixed(2),
+    };
+  }
+
+  return plan;
+}
+
+// Closes the contract on the termination date: voids later invoices, credits the unused
+// days of the last period, issues the settlement invoice and frees the property. Everything
+// is written in one transaction, with the contract locked so it is terminated only once
+export async function terminateContract(contract: Contract, input: TerminateContract) {
+  return await db.transaction(async () => {
+    const [current] = await db.select({ status: contracts.status })
+      .from(contracts)
+      .where(and(eq(contracts.id, contract.id), eq(contracts.tenantId, contract.tenantId)))
+      .for("update");
+    if (current?.status !== "active" && current?.status !== "expiring") {
+      throw new Error(`A ${current?.status ?? "deleted"} contract cannot be terminated`);
+    }
+
+    const plan = await planTermination(contract, input);
+
+    for (const planned of plan.voidInvoices) {
+      const invoice = await storage.getInvoice(planned.id, contract.tenantId);
+      if (invoice) {
+        await voidInvoice(invoice, `Terminación anticipada del contrato ${contract.number}: ${input.reason}`);
+      }
+    }
+
+    if (plan.adjustInvoice) {
+      const before = await storage.getInvoice(plan.adjustInvoice.id, contract.tenantId);
+      await db.insert(invoiceCharges).values(
+        plan.adjustInvoice.charges.map((charge) => ({
+          invoiceId: plan.adjustInvoice!.id,
+          ...charge,
+          sourceType: "contract" as const,
+          sourceId: contract.id,
+        })),
+      );
+      const totals = await recalcInvoiceTotals(plan.adjustInvoice.id);
+      await storage.createAuditLog({
+        tenantId: contract.tenantId,
+        action: "update",
+        entity: "invoice",
+        entityId: plan.adjustInvoice.id,
+        meta: {
+          before: {
+            subtotal: before?.subtotal,
+            otherCharges: before?.otherCharges,
+            tax: before?.tax,
+            withholdings: before?.withholdings,
+            totalAmount: before?.totalAmount,
+          },
+          after: {
+            subtotal: totals.subtotal.toFixed(2),
+            otherCharges: totals.otherCharges.toFixed(2),
+            tax: totals.tax.toFixed(2),
+            withholdings: totals.withholdings.toFixed(2),
+            totalAmount: totals.total.toFixed(2),
+          },
+        },
+      });
+    }
+
+    if (plan.creditInvoice) {
+      const invoice = await storage.getInvoice(plan.creditInvoice.id, contract.tenantId);
+      if (invoice) {
+        await issueCreditNote(invoice, {
+          reasonCode: "service_not_provided",
+          reason: plan.creditInvoice.reason,
+          amount: plan.creditInvoice.amount,
+          issueDate: plan.creditInvoice.issueDate,
+        });
+      }
+    }
+
+    // A settlement already issued under the contract's number is kept, never billed twice
+    let settlementInvoice: Invoice | null = null;
+    if (plan.settlement) {
+      settlementInvoice = await db.query.invoices.findFirst({
+        where: and(eq(invoices.tenantId, contract.tenantId), eq(invoices.number, plan.settlement.number)),
+      }) ?? null;
+      if (settlementInvoice && settlementInvoice.contractId !== contract.id) {
+        throw new Error(`Invoice ${plan.settlement.number} already exists for another contract`);
+      }
+    }
+    if (plan.settlement && !settlementInvoice) {
+      const total = parseFloat(plan.settlement.totalAmount);
+      settlementInvoice = await storage.createInvoice({
+        tenantId: contract.tenantId,
+        number: plan.settlement.number,
+        contractId: contract.id,
+        tenantContactId: contract.tenantContactId,
+        issueDate: plan.settlement.issueDate,
+        dueDate: plan.settlement.dueDate,
+        subtotal: plan.settlement.subtotal,
+        otherCharges: plan.settlement.otherCharges,
+        tax: plan.settlement.tax,
+        withholdings: plan.settlement.withholdings,
+        totalAmount: plan.settlement.totalAmount,
+        // A settlement in the tenant's favour has nothing left to collect
+        status: total > 0 ? "issued" : "paid",
+      });
+      const charges = await db.insert(invoiceCharges).values(
+        plan.settlement.charges.map((charge) => ({
+          invoiceId: settlementInvoice!.id,
+          ...charge,
+          sourceType: "contract" as const,
+          sourceId: contract.id,
+        })),
+      ).returning();
+      await recalcInvoiceTotals(settlementInvoice.id);
+
+      // The deposit applied leaves the ledger as a deduction tied to its settlement line
+      const depositCharge = charges.find((charge) => charge.category === "deposit");
+      if (depositCharge && input.depositOffset) {
+        await storage.createDepositEntry({
+          tenantId: contract.tenantId,
+          contractId: contract.id,
+          type: "deduction",
+          amount: input.depositOffset,
+          entryDate: plan.settlement.issueDate,
+          description: `Aplicado a la liquidación ${settlementInvoice.number}`,
+          invoiceChargeId: depositCharge.id,
+        });
+      }
+    }
+
+    const closed = await storage.updateContract(contract.id, contract.tenantId, {
+      status: "closed",
+      terminationDate: plan.terminationDate,
+      terminationReason: input.reason,
+    });
+    await storage.updateProperty(contract.propertyId, contract.tenantId, { status: "available" });
+
+    return { contract: closed, plan, settlementInvoice };
+  });
+}
@@ -0,0 +1,42 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { creditNotes } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { voidInvoice } = await import("./creditNoteService");
+
+describe("voidInvoice", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("cancels the balance with a credit note and voids the invoice", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Norte");
+    const invoice = await seedInvoice(testDb.db, lease, { number: "F-1", dueDate: "2025-01-05" });
+
+    const creditNote = await voidInvoice(invoice, "Emitida por error");
+
+    expect(creditNote).toMatchObject({ amount: "1500000.00", reasonCode: "void" });
+    expect(await storage.getInvoice(invoice.id, lease.tenant.id)).toMatchObject({ status: "void", creditedAmount: "1500000.00" });
+  });
+
+  it("leaves no credit note behind when the invoice cannot be voided", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Sur");
+    const invoice = await seedInvoice(testDb.db, lease, { number: "F-1", dueDate: "2025-01-05" });
+    vi.spyOn(storage, "updateInvoiceStatus").mockRejectedValue(new Error("connection lost"));
+
+    await expect(voidInvoice(invoice, "Emitida por error")).rejects.toThrow("connection lost");
+
+    expect(await testDb.db.select().from(creditNotes).where(eq(creditNotes.invoiceId, invoice.id))).toHaveLength(0);
+    expect(await storage.getInvoice(invoice.id, lease.tenant.id)).toMatchObject({ status: "issued", creditedAmount: "0.00" });
+  });
+});
@@ -0,0 +1,73 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import type { CreateCreditNote, CreditNote, CreditNoteReason, Invoice } from "@shared/schema";
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export const creditNoteReasonLabels: Record<CreditNoteReason, string> = {
+  billing_error: 'Error de facturación',
+  price_adjustment: 'Ajuste de precio',
+  discount: 'Descuento',
+  service_not_provided: 'Servicio no prestado',
+  void: 'Anulación de factura',
+  other: 'Otro',
+};
+
+// Drafts are still edited directly and void invoices are closed
+const creditableStatuses: Invoice['status'][] = ["issued", "overdue", "partial", "paid"];
+
+export function canCredit(invoice: Pick<Invoice, 'status'>): boolean {
+  return creditableStatuses.includes(invoice.status);
+}
+
+// Credit notes can take an invoice down to zero but never below what was billed;
+// crediting a paid invoice leaves the difference in the tenant's favour
+export function getCreditableAmount(invoice: Pick<Invoice, 'totalAmount' | 'creditedAmount'>): number {
+  return Math.max(parseFloat(invoice.totalAmount) - parseFloat(invoice.creditedAmount), 0);
+}
+
+export function getInvoiceBalance(invoice: Pick<Invoice, 'totalAmount' | 'amountPaid' | 'creditedAmount'>): number {
+  return parseFloat(invoice.totalAmount) - parseFloat(invoice.amountPaid) - parseFloat(invoice.creditedAmount);
+}
+
+export async function issueCreditNote(invoice: Invoice, input: CreateCreditNote): Promise<CreditNote> {
+  const creditable = getCreditableAmount(invoice);
+  if (parseFloat(input.amount) > creditable + 0.005) {
+    throw new Error(`amount exceeds what is left to credit on invoice ${invoice.number} (${creditable.toFixed(2)})`);
+  }
+
+  return await storage.createCreditNote({
+    tenantId: invoice.tenantId,
+    invoiceId: invoice.id,
+    issueDate: input.issueDate ?? toDateString(new Date()),
+    reasonCode: input.reasonCode,
+    reason: input.reason,
+    amount: input.amount,
+  });
+}
+
+// Voiding keeps the invoice and cancels what is still owed on it with a credit note.
+// Money already received stays recorded; the caller decides what happens to it.
+// The note and the status change are written together.
+export async function voidInvoice(invoice: Invoice, reason: string): Promise<CreditNote | null> {
+  return await db.transaction(async () => {
+    const outstanding = getInvoiceBalance(invoice);
+    let creditNote: CreditNote | null = null;
+
+    if (outstanding > 0) {
+      creditNote = await storage.createCreditNote({
+        tenantId: invoice.tenantId,
+        invoiceId: invoice.id,
+        issueDate: toDateString(new Date()),
+        reasonCode: "void",
+        reason,
+        amount: outstanding.toFixed(2),
+      });
+    }
+
+    await storage.updateInvoiceStatus(invoice.id, invoice.tenantId, "void");
+    return creditNote;
+  });
+}
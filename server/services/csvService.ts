@@ -1,5 +1,9 @@
 import { parse } from 'csv-parse/sync';
 import { storage } from '../storage';
+import { signedDepositAmount } from './depositService';
+import { creditNoteReasonLabels } from './creditNoteService';
+import { statementEntryTypeLabels, type AccountStatement } from './statementService';
+import { agingBucketLabels, type AgingReport } from './agingService';
 import { z } from 'zod';
 
 // CSV-specific schemas with type coercion
@@ -48,6 +52,11 @@ const csvContractSchema = z.object({
   lateFeeValue: z.coerce.number().optional(),
   status: z.enum(['draft', 'active', 'expired', 'cancelled']).optional(),
   policyId: z.string().optional(),
+  escalationType: z.enum(['none', 'fixed', 'ipc', 'inpc']).optional(),
+  escalationRate: z.coerce.number().optional(),
+  escalationCap: z.coerce.number().min(0).optional(),
+  escalationMonth: z.coerce.number().int().min(1).max(12).optional(),
+  depositAmount: z.coerce.number().min(0).optional(),
 });
 
 const csvInvoiceSchema = z.object({
@@ -59,6 +68,7 @@ const csvInvoiceSchema = z.object({
   dueDate: z.string().min(1),
   subtotal: z.coerce.number().min(0),
   tax: z.coerce.number().optional(),
+  withholdings: z.coerce.number().min(0).optional(),
   otherCharges: z.coerce.number().optional(),
   lateFee: z.coerce.number().optional(),
   totalAmount: z.coerce.number().min(0),
@@ -66,6 +76,14 @@ const csvInvoiceSchema = z.object({
   status: z.enum(['draft', 'issued', 'paid', 'partial', 'overdue', 'cancelled']).optional(),
 });
 
+const csvPriceIndexSchema = z.object({
+  tenantId: z.string(),
+  indexType: z.enum(['ipc', 'inpc']),
+  year: z.coerce.number().int().min(1990).max(2100),
+  month: z.coerce.number().int().min(1).max(12),
+  annualChange: z.coerce.number(),
+});
+
 export interface CSVImportResult {
   success: number;
   errors: Array<{ row: number; error: string; data?: any }>;
@@ -228,6 +246,11 @@ export async function importContractsCSV(csvContent: string, tenantId: string):
         lateFeeValue: row.lateFeeValue || row.late_fee_value || undefined,
         status: row.status || 'draft',
         policyId: row.policyId || row.policy_id || undefined,
+        escalationType: row.escalationType || row.escalation_type || undefined,
+        escalationRate: row.escalationRate || row.escalation_rate || undefined,
+        escalationCap: row.escalationCap || row.escalation_cap || undefined,
+        escalationMonth: row.escalationMonth || row.escalation_month || undefined,
+        depositAmount: row.depositAmount || row.deposit_amount || undefined,
       });
       
       await storage.createContract(contractData as any);
@@ -265,6 +288,7 @@ export async function importInvoicesCSV(csvContent: string, tenantId: string): P
         dueDate: row.dueDate || row.due_date,
         subtotal: row.subtotal,
         tax: row.tax || 0,
+        withholdings: row.withholdings || 0,
         otherCharges: row.otherCharges || row.other_charges || 0,
         lateFee: row.lateFee || row.late_fee || 0,
         totalAmount: row.totalAmount || row.total_amount,
@@ -286,6 +310,41 @@ export async function importInvoicesCSV(csvContent: string, tenantId: string): P
   return result;
 }
 
+export async function importPriceIndexesCSV(csvContent: string, tenantId: string): Promise<CSVImportResult> {
+  const records = parse(csvContent, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  });
+
+  const result: CSVImportResult = { success: 0, errors: [], total: records.length };
+
+  for (let i = 0; i < records.length; i++) {
+    const row = records[i] as any;
+    try {
+      const indexData = csvPriceIndexSchema.parse({
+        tenantId,
+        indexType: (row.indexType || row.index_type || '').toLowerCase(),
+        year: row.year,
+        month: row.month,
+        annualChange: row.annualChange || row.annual_change,
+      });
+      
+      // Re-importing a month overwrites its value, so corrections are just another upload
+      await storage.upsertPriceIndexValue({ ...indexData, annualChange: indexData.annualChange.toString() });
+      result.success++;
+    } catch (error: any) {
+      result.errors.push({
+        row: i + 2,
+        error: error.message,
+        data: row,
+      });
+    }
+  }
+
+  return result;
+}
+
 // CSV Template Generators
 export function generateContactsTemplate(): string {
   const headers = ['fullName', 'email', 'phone', 'roles', 'docType', 'docNumber'];
@@ -331,7 +390,7 @@ export function generatePaymentsTemplate(): string {
 }
 
 export function generateContractsTemplate(): string {
-  const headers = ['number', 'propertyId', 'ownerContactId', 'tenantContactId', 'startDate', 'endDate', 'rentAmount', 'paymentDay', 'lateFeeType', 'lateFeeValue', 'status', 'policyId'];
+  const headers = ['number', 'propertyId', 'ownerContactId', 'tenantContactId', 'startDate', 'endDate', 'rentAmount', 'paymentDay', 'lateFeeType', 'lateFeeValue', 'status', 'policyId', 'escalationType', 'escalationRate', 'escalationCap', 'escalationMonth', 'depositAmount'];
   const example = [
     'CTR-001',
     'property-id-here',
@@ -345,13 +404,18 @@ export function generateContractsTemplate(): string {
     '0',
     'active',
     '',
+    'ipc',
+    '0',
+    '',
+    '1',
+    '1500000',
   ];
   
   return `${headers.join(',')}\n${example.join(',')}\n`;
 }
 
 export function generateInvoicesTemplate(): string {
-  const headers = ['number', 'contractId', 'tenantContactId', 'issueDate', 'dueDate', 'subtotal', 'tax', 'otherCharges', 'lateFee', 'totalAmount', 'amountPaid', 'status'];
+  const headers = ['number', 'contractId', 'tenantContactId', 'issueDate', 'dueDate', 'subtotal', 'tax', 'withholdings', 'otherCharges', 'lateFee', 'totalAmount', 'amountPaid', 'status'];
   const example = [
     'INV-2024-001',
     'contract-id-here',
@@ -362,6 +426,7 @@ export function generateInvoicesTemplate(): string {
     '0',
     '0',
     '0',
+    '0',
     '1500000',
     '0',
     'issued',
@@ -369,3 +434,129 @@ export function generateInvoicesTemplate(): string {
   
   return `${headers.join(',')}\n${example.join(',')}\n`;
 }
+
+export function generatePriceIndexesTemplate(): string {
+  const headers = ['indexType', 'year', 'month', 'annualChange'];
+  const example = [
+    'ipc',
+    '2024',
+    '12',
+    '5.20',
+  ];
+  
+  return `${headers.join(',')}\n${example.join(',')}\n`;
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  const text = value == null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const depositEntryTypeLabels: Record<string, string> = {
+  receipt: 'Recibo',
+  deduction: 'Descuento',
+  refund: 'Devolución',
+};
+
+// Deposit ledger with a running balance per contract
+export async function exportDepositsCSV(tenantId: string, contractId?: string): Promise<string> {
+  const entries = await storage.getAllDepositEntries(tenantId);
+  const headers = ['contractNumber', 'property', 'tenant', 'entryDate', 'type', 'description', 'amount', 'balance'];
+  const rows: string[] = [headers.join(',')];
+  const balances = new Map<string, number>();
+
+  for (const entry of entries) {
+    if (contractId && entry.contractId !== contractId) {
+      continue;
+    }
+    const signed = signedDepositAmount(entry);
+    const balance = (balances.get(entry.contractId) ?? 0) + signed;
+    balances.set(entry.contractId, balance);
+
+    rows.push([
+      entry.contract?.number,
+      entry.contract?.property?.name,
+      entry.contract?.tenantContact?.fullName,
+      entry.entryDate,
+      depositEntryTypeLabels[entry.type] ?? entry.type,
+      entry.description,
+      signed.toFixed(2),
+      balance.toFixed(2),
+    ].map(csvCell).join(','));
+  }
+
+  return `${rows.join('\n')}\n`;
+}
+
+// Credit notes issued in a date range, with the invoice each one reduces
+export async function exportCreditNotesCSV(tenantId: string, from?: string, to?: string): Promise<string> {
+  const notes = await storage.getCreditNotes(tenantId, { from, to });
+  const headers = ['number', 'issueDate', 'invoiceNumber', 'contractNumber', 'tenant', 'reasonCode', 'reason', 'amount'];
+  const rows: string[] = [headers.join(',')];
+
+  for (const note of [...notes].reverse()) {
+    rows.push([
+      note.number,
+      note.issueDate,
+      note.invoice?.number,
+      note.invoice?.contract?.number,
+      note.invoice?.tenantContact?.fullName,
+      creditNoteReasonLabels[note.reasonCode as keyof typeof creditNoteReasonLabels] ?? note.reasonCode,
+      note.reason,
+      note.amount,
+    ].map(csvCell).join(','));
+  }
+
+  return `${rows.join('\n')}\n`;
+}
+
+// One row per ledger movement, framed by the opening and closing balance rows
+export function exportAccountStatementCSV(statement: AccountStatement): string {
+  const headers = ['date', 'type', 'reference', 'contractNumber', 'description', 'debit', 'credit', 'balance'];
+  const rows: string[] = [headers.join(',')];
+
+  rows.push([statement.from, 'Saldo inicial', '', '', '', '', '', statement.openingBalance].map(csvCell).join(','));
+  for (const entry of statement.entries) {
+    rows.push([
+      entry.date,
+      statementEntryTypeLabels[entry.type],
+      entry.reference,
+      entry.contractNumber,
+      entry.description,
+      entry.debit,
+      entry.credit,
+      entry.balance,
+    ].map(csvCell).join(','));
+  }
+  rows.push([statement.to, 'Saldo final', '', '', '', statement.totalDebits, statement.totalCredits, statement.closingBalance].map(csvCell).join(','));
+
+  return `${rows.join('\n')}\n`;
+}
+
+// Open invoices with the group they were reported under, for reconciling against the summary
+export function exportAgingReportCSV(report: AgingReport): string {
+  const headers = ['group', 'invoiceNumber', 'contractNumber', 'tenant', 'property', 'issueDate', 'dueDate', 'daysPastDue', 'bucket', 'totalAmount', 'amountPaid', 'creditedAmount', 'balance'];
+  const rows: string[] = [headers.join(',')];
+
+  for (const group of report.groups) {
+    for (const invoice of group.invoices) {
+      rows.push([
+        group.label,
+        invoice.number,
+        invoice.contractNumber,
+        invoice.tenantName,
+        invoice.propertyName,
+        invoice.issueDate,
+        invoice.dueDate,
+        invoice.daysPastDue,
+        agingBucketLabels[invoice.bucket],
+        invoice.totalAmount,
+        invoice.amountPaid,
+        invoice.creditedAmount,
+        invoice.balance,
+      ].map(csvCell).join(','));
+    }
+  }
+
+  return `${rows.join('\n')}\n`;
+}
@@ -0,0 +1,78 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { invoiceCharges, payments } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { recordDepositEntry, removeDepositEntry } = await import("./depositService");
+
+// A lease holding a deposit of 1.500.000 with an unpaid cleaning charge of 200.000
+async function seedDepositLease(name: string) {
+  const lease = await seedTenant(testDb.db, name);
+  await recordDepositEntry(lease.contract, { type: "receipt", amount: "1500000", entryDate: "2025-01-02", description: "Consignación inicial" });
+  const invoice = await seedInvoice(testDb.db, lease, { number: "F-12", dueDate: "2025-12-05", subtotal: "200000", totalAmount: "200000" });
+  const [charge] = await testDb.db.insert(invoiceCharges).values({
+    invoiceId: invoice.id,
+    description: "Aseo final",
+    category: "maintenance",
+    amount: "200000",
+    sourceType: "manual",
+  }).returning();
+  return { lease, invoice, charge };
+}
+
+describe("deposit deductions linked to an invoice charge", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  it("pays the invoice from the deposit", async () => {
+    const { lease, invoice, charge } = await seedDepositLease("Inmobiliaria Norte");
+
+    const entry = await recordDepositEntry(lease.contract, {
+      type: "deduction",
+      amount: "200000",
+      entryDate: "2025-12-31",
+      description: "Aseo final",
+      invoiceChargeId: charge.id,
+    });
+
+    const [payment] = await testDb.db.select().from(payments).where(eq(payments.invoiceId, invoice.id));
+    expect(payment).toMatchObject({ id: entry.paymentId, amount: "200000.00", method: "deposito", paymentDate: "2025-12-31" });
+    expect(await storage.getInvoice(invoice.id, lease.tenant.id)).toMatchObject({ amountPaid: "200000.00", status: "paid" });
+  });
+
+  it("reopens the invoice when the deduction is removed", async () => {
+    const { lease, invoice, charge } = await seedDepositLease("Inmobiliaria Sur");
+    const entry = await recordDepositEntry(lease.contract, {
+      type: "deduction",
+      amount: "200000",
+      entryDate: "2025-12-31",
+      description: "Aseo final",
+      invoiceChargeId: charge.id,
+    });
+
+    expect(await removeDepositEntry(lease.contract, entry.id)).toBe(true);
+
+    expect(await testDb.db.select().from(payments).where(eq(payments.invoiceId, invoice.id))).toHaveLength(0);
+    expect(await storage.getInvoice(invoice.id, lease.tenant.id)).toMatchObject({ amountPaid: "0.00" });
+  });
+
+  it("refuses a deduction larger than the invoice balance and records nothing", async () => {
+    const { lease, charge } = await seedDepositLease("Inmobiliaria Centro");
+
+    await expect(recordDepositEntry(lease.contract, {
+      type: "deduction",
+      amount: "300000",
+      entryDate: "2025-12-31",
+      description: "Aseo final",
+      invoiceChargeId: charge.id,
+    })).rejects.toThrow("Amount exceeds the balance of invoice F-12");
+
+    expect(await storage.getDepositEntries(lease.contract.id, lease.tenant.id)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { db } from "../db";
+import { invoiceCharges, type Contract, type CreateDepositEntry, type DepositEntry } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { getInvoiceBalance } from "./creditNoteService";
+
+export interface DepositSummary {
+  depositAmount: string | null;
+  depositReceivedDate: string | null;
+  received: string;
+  deducted: string;
+  refunded: string;
+  balance: string;
+  entries: DepositEntry[];
+}
+
+// Receipts add to the deposit held; deductions and refunds take from it
+export function signedDepositAmount(entry: Pick<DepositEntry, "type" | "amount">): number {
+  const amount = parseFloat(entry.amount);
+  return entry.type === "receipt" ? amount : -amount;
+}
+
+export function getDepositBalance(entries: Pick<DepositEntry, "type" | "amount">[]): number {
+  return entries.reduce((sum, entry) => sum + signedDepositAmount(entry), 0);
+}
+
+export async function getDepositSummary(contract: Contract): Promise<DepositSummary> {
+  const entries = await storage.getDepositEntries(contract.id, contract.tenantId);
+  const totalOf = (type: DepositEntry["type"]) =>
+    entries.filter((entry) => entry.type === type).reduce((sum, entry) => sum + parseFloat(entry.amount), 0);
+
+  return {
+    depositAmount: contract.depositAmount,
+    depositReceivedDate: contract.depositReceivedDate,
+    received: totalOf("receipt").toFixed(2),
+    deducted: totalOf("deduction").toFixed(2),
+    refunded: totalOf("refund").toFixed(2),
+    balance: getDepositBalance(entries).toFixed(2),
+    entries,
+  };
+}
+
+// A deduction linked to an invoice charge pays that invoice from the deposit, so the
+// ledger entry and the payment are written together
+export async function recordDepositEntry(contract: Contract, input: CreateDepositEntry): Promise<DepositEntry> {
+  return await db.transaction(async () => {
+    const entries = await storage.getDepositEntries(contract.id, contract.tenantId);
+    const balance = getDepositBalance(entries);
+
+    if (input.type !== "receipt" && parseFloat(input.amount) > balance + 0.005) {
+      throw new Error(`Amount exceeds the deposit balance (${balance.toFixed(2)})`);
+    }
+
+    let paymentId: string | null = null;
+    if (input.invoiceChargeId) {
+      if (input.type !== "deduction") {
+        throw new Error("Only deductions can be linked to an invoice charge");
+      }
+      const charge = await db.query.invoiceCharges.findFirst({
+        where: eq(invoiceCharges.id, input.invoiceChargeId),
+        with: { invoice: true },
+      });
+      if (!charge || charge.invoice.contractId !== contract.id || charge.invoice.tenantId !== contract.tenantId) {
+        throw new Error("Invoice charge not found for this contract");
+      }
+      const outstanding = getInvoiceBalance(charge.invoice);
+      if (parseFloat(input.amount) > outstanding + 0.005) {
+        throw new Error(`Amount exceeds the balance of invoice ${charge.invoice.number} (${outstanding.toFixed(2)})`);
+      }
+      const payment = await storage.createPayment({
+        tenantId: contract.tenantId,
+        invoiceId: charge.invoice.id,
+        amount: input.amount,
+        paymentDate: input.entryDate,
+        method: "deposito",
+      });
+      paymentId = payment.id;
+    }
+
+    if (input.inspectionItemId) {
+      if (input.type !== "deduction") {
+        throw new Error("Only deductions can be linked to an inspection item");
+      }
+      const item = await storage.getInspectionItem(input.inspectionItemId, contract.tenantId);
+      if (!item || item.inspection.contractId !== contract.id) {
+        throw new Error("Inspection item not found for this contract");
+      }
+    }
+
+    const entry = await storage.createDepositEntry({
+      tenantId: contract.tenantId,
+      contractId: contract.id,
+      ...input,
+      paymentId,
+    });
+
+    // The first receipt dates the deposit on the contract
+    if (input.type === "receipt" && !contract.depositReceivedDate) {
+      await storage.updateContract(contract.id, contract.tenantId, { depositReceivedDate: input.entryDate });
+    }
+
+    return entry;
+  });
+}
+
+// Removing an entry may not leave more deducted or refunded than was received. A deduction
+// that paid an invoice takes its payment with it, reopening the invoice
+export async function removeDepositEntry(contract: Contract, entryId: string): Promise<boolean> {
+  return await db.transaction(async () => {
+    const entries = await storage.getDepositEntries(contract.id, contract.tenantId);
+    const entry = entries.find((candidate) => candidate.id === entryId);
+    if (!entry) {
+      return false;
+    }
+
+    const remaining = entries.filter((candidate) => candidate.id !== entryId);
+    if (getDepositBalance(remaining) < -0.005) {
+      throw new Error("Removing this receipt would leave a negative deposit balance");
+    }
+
+    if (entry.paymentId) {
+      await storage.deletePayment(entry.paymentId, contract.tenantId);
+    }
+    await storage.deleteDepositEntry(entryId, contract.tenantId);
+    return true;
+  });
+}
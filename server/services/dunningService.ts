@@ -0,0 +1,141 @@
+import { storage } from "../storage";
+import { routeReminder, sendReminder } from "./messagingService";
+import type { DunningRecipient, DunningStep, DunningStepInput, Tenant } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(value: string, days: number): string {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+// The ladder every tenant starts with
+const defaultDunningLadder: DunningStepInput[] = [
+  { name: 'Recordatorio 5 días antes', offsetDays: -5, template: 'friendly' },
+  { name: 'Vence hoy', offsetDays: 0, template: 'due_today' },
+  { name: 'Factura vencida', offsetDays: 1, template: 'overdue' },
+  { name: 'Segundo aviso', offsetDays: 7, template: 'firm' },
+  { name: 'Último aviso', offsetDays: 15, template: 'final' },
+  { name: 'Aviso al codeudor', offsetDays: 30, template: 'guarantor_notice', recipient: 'guarantor' },
+].map((step) => ({
+  channel: 'auto',
+  recipient: 'tenant',
+  stopConditions: ['promise_to_pay'],
+  active: true,
+  ...step,
+} as DunningStepInput));
+
+// A step missed while the scheduler was down still fires until the next step is due, or
+// for this many days after the last one; older steps are never sent late
+const LAST_STEP_GRACE_DAYS = 7;
+
+// The tenant's ladder, created from the default the first time it is needed
+export async function getDunningLadder(tenantId: string): Promise<DunningStep[]> {
+  const steps = await storage.getDunningSteps(tenantId);
+  if (steps.length > 0) {
+    return steps;
+  }
+  for (const step of defaultDunningLadder) {
+    await storage.createDunningStep({ ...step, tenantId });
+  }
+  return await storage.getDunningSteps(tenantId);
+}
+
+export function daysFromDue(dueDate: string, today: string): number {
+  return Math.round((new Date(today).getTime() - new Date(dueDate).getTime()) / DAY_MS);
+}
+
+// For each recipient, the latest step whose day has come, if the invoice is still within its window
+export function currentDunningSteps(steps: DunningStep[], daysSinceDue: number): DunningStep[] {
+  const current: DunningStep[] = [];
+  const recipients = new Set<DunningRecipient>(steps.map((step) => step.recipient));
+
+  recipients.forEach((recipient) => {
+    const track = steps
+      .filter((step) => step.active && step.recipient === recipient)
+      .sort((a, b) => a.offsetDays - b.offsetDays);
+    const index = track.findLastIndex((step) => step.offsetDays <= daysSinceDue);
+    if (index === -1) {
+      return;
+    }
+    const windowEnd = index + 1 < track.length
+      ? track[index + 1].offsetDays
+      : track[index].offsetDays + LAST_STEP_GRACE_DAYS;
+    if (daysSinceDue < windowEnd) {
+      current.push(track[index]);
+    }
+  });
+
+  return current;
+}
+
+// Why a step should not fire for an invoice today; paid and void invoices never reach here
+export function dunningStopReason(step: DunningStep, invoice: any, today: string): string | null {
+  if (step.stopConditions.includes("partial_payment") && parseFloat(invoice.amountPaid) > 0) {
+    return "Invoice has a partial payment";
+  }
+  if (step.stopConditions.includes("promise_to_pay") && invoice.promisedPaymentDate && invoice.promisedPaymentDate >= today) {
+    return `Promise to pay on ${invoice.promisedPaymentDate}`;
+  }
+  return null;
+}
+
+// Fires the current step of every open invoice of the tenant. Each step is claimed in
+// dunning_events before it is sent, so it goes out at most once per invoice even across restarts
+export async function runDunning(tenant: Tenant, today: string) {
+  const steps = (await getDunningLadder(tenant.id)).filter((step) => step.active);
+  if (steps.length === 0) {
+    return 0;
+  }
+  const earliest = Math.min(...steps.map((step) => step.offsetDays));
+  const latest = Math.max(...steps.map((step) => step.offsetDays)) + LAST_STEP_GRACE_DAYS;
+
+  const invoices = await storage.getDunningCandidates(tenant.id, addDays(today, -latest), addDays(today, -earliest));
+
+  let sent = 0;
+  for (const invoice of invoices) {
+    const daysSinceDue = daysFromDue(invoice.dueDate, today);
+    const fired = new Set((invoice.dunningEvents ?? []).map((event: any) => event.stepId));
+
+    for (const step of currentDunningSteps(steps, daysSinceDue)) {
+      if (fired.has(step.id) || dunningStopReason(step, invoice, today)) {
+        continue;
+      }
+
+      const contact = step.recipient === "guarantor" ? invoice.contract?.guarantor : invoice.tenantContact;
+      const route = contact
+        ? await routeReminder(step.channel, contact, tenant)
+        : { error: "Contract has no guarantor" };
+      const missing = "error" in route ? route.error : null;
+
+      const event = await storage.claimDunningEvent({
+        tenantId: tenant.id,
+        invoiceId: invoice.id,
+        stepId: step.id,
+        stepName: step.name,
+        offsetDays: step.offsetDays,
+        channel: "error" in route ? step.channel : route.channel,
+        recipient: step.recipient,
+        template: step.template,
+        status: missing ? "skipped" : "sent",
+        sentTo: "error" in route ? null : route.to,
+        error: missing,
+      });
+      if (!event || "error" in route) {
+        continue;
+      }
+
+      try {
+        await sendReminder(route, step.template, { invoice, contact, tenantContact: invoice.tenantContact, daysOverdue: daysSinceDue });
+        sent++;
+      } catch (error) {
+        await storage.updateDunningEvent(event.id, tenant.id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        console.error(`Failed to send dunning step "${step.name}" for ${invoice.number}:`, error);
+      }
+    }
+  }
+  return sent;
+}
@@ -1,101 +1,229 @@
-import { getUncachableSendGridClient } from "../sendgridClient";
+import { storage } from "../storage";
+import { getEmailTransport, type EmailAttachment } from "./emailTransport";
+import { escapeHtml, insurerReportVariables, invoiceEmailVariables, logoAttachment, renderEmailTemplate, type EmailVariables } from "./emailTemplateService";
+import type { InsurerReport } from "./insurerReportService";
+import type { DunningTemplate, EmailTemplateKey, NotificationTemplate, Tenant } from "@shared/schema";
 
-interface EmailTemplate {
+interface EmailMessage {
   to: string;
   subject: string;
   html: string;
   text?: string;
+  attachments?: EmailAttachment[];
 }
 
-export async function sendEmail(template: EmailTemplate) {
-  const { client, fromEmail } = await getUncachableSendGridClient();
-  
-  const msg = {
-    to: template.to,
-    from: fromEmail,
-    subject: template.subject,
-    html: template.html,
-    text: template.text || template.subject,
-  };
+// What an email is about, recorded with it in the notifications log
+export interface NotificationContext {
+  tenantId: string;
+  template: NotificationTemplate;
+  contactId?: string | null;
+  invoiceId?: string | null;
+  contractId?: string | null;
+}
+
+// Every email is logged as queued before it is handed to the tenant's transport, then marked sent or failed
+export async function sendEmail(message: EmailMessage, context: NotificationContext) {
+  const transport = await getEmailTransport(context.tenantId);
+  const notification = await storage.createNotification({
+    tenantId: context.tenantId,
+    recipient: message.to,
+    contactId: context.contactId ?? null,
+    template: context.template,
+    subject: message.subject,
+    transport: transport.name,
+    invoiceId: context.invoiceId ?? null,
+    contractId: context.contractId ?? null,
+    status: 'queued',
+  });
 
   try {
-    await client.send(msg);
-    return { success: true };
+    const { messageId } = await transport.send({
+      ...message,
+      text: message.text || message.subject,
+      notificationId: notification.id,
+    });
+
+    await storage.updateNotification(notification.id, context.tenantId, {
+      status: 'sent',
+      providerMessageId: messageId,
+      sentAt: new Date(),
+    });
+    return { success: true, notificationId: notification.id };
   } catch (error: any) {
-    console.error('SendGrid Error:', error.response?.body || error);
+    console.error(`Email Error (${transport.name}):`, error.response?.body || error);
+    await storage.updateNotification(notification.id, context.tenantId, { status: 'failed', error: error.message });
     throw new Error(`Failed to send email: ${error.message}`);
   }
 }
 
-export async function sendReminderD3(invoice: any, contact: any) {
-  const dueDate = new Date(invoice.dueDate).toLocaleDateString('es-ES');
-  
+// Date-only values are midnight UTC; formatting them in UTC keeps the calendar day everywhere
+function formatDate(value: string): string {
+  return new Date(`${value}T00:00:00Z`).toLocaleDateString('es-ES', { timeZone: 'UTC' });
+}
+
+// The tenant's template with its logo sent inline, attached only when the template shows it
+async function renderCompanyEmail(company: Tenant, key: EmailTemplateKey, variables: EmailVariables) {
+  const logo = logoAttachment(company.logo);
+  if (!logo) {
+    return { ...(await renderEmailTemplate(company.id, key, variables)), attachments: [] };
+  }
+  const src = `cid:${logo.contentId}`;
+  const email = await renderEmailTemplate(company.id, key, { ...variables, "company.logo": src });
+  return { ...email, attachments: email.html.includes(src) ? [logo] : [] };
+}
+
+export interface DunningEmailContext {
+  invoice: any;
+  contact: any; // who receives it: the tenant, or the guarantor for guarantor_notice
+  tenantContact: any;
+  daysOverdue: number; // negative while the invoice is not yet due
+}
+
+// Worded with the tenant's own template when it has one, formatted in its locale and currency
+export async function sendDunningEmail(template: DunningTemplate, context: DunningEmailContext) {
+  const { invoice, contact } = context;
+  const company = await storage.getTenant(invoice.tenantId);
+  if (!company) {
+    throw new Error('Tenant not found');
+  }
+  const email = await renderCompanyEmail(company, template, invoiceEmailVariables(company, context));
+
+  return await sendEmail({ to: contact.email, ...email }, {
+    tenantId: invoice.tenantId,
+    template,
+    contactId: contact.id,
+    invoiceId: invoice.id,
+    contractId: invoice.contractId,
+  });
+}
+
+export async function sendInsurerMonthlyReport(company: Tenant, report: InsurerReport, pdfBuffer: Buffer) {
+  const period = `${report.year}-${String(report.month).padStart(2, '0')}`;
+  const email = await renderCompanyEmail(company, 'insurer_report', insurerReportVariables(company, report));
+
+  return await sendEmail({
+    to: report.insurer.emailReports!,
+    ...email,
+    attachments: [
+      ...email.attachments,
+      {
+        content: pdfBuffer,
+        filename: `reporte-${report.insurer.name.toLowerCase().replace(/\s+/g, '-')}-${period}.pdf`,
+        type: 'application/pdf',
+      },
+    ],
+  }, { tenantId: company.id, template: 'insurer_report' });
+}
+
+export async function sendAccountStatement(tenantId: string, statement: any, pdfBuffer: Buffer, companyName: string) {
+  const from = formatDate(statement.from);
+  const to = formatDate(statement.to);
+  const closing = parseFloat(statement.closingBalance);
+
   return await sendEmail({
-    to: contact.email,
-    subject: `Recordatorio: Factura ${invoice.number} vence en 3 días`,
+    to: statement.contact.email,
+    subject: `Estado de cuenta ${companyName} - ${from} al ${to}`,
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #3B82F6;">Recordatorio de Pago</h2>
-        <p>Estimado/a ${contact.fullName},</p>
-        <p>Le recordamos que su factura <strong>${invoice.number}</strong> vence el <strong>${dueDate}</strong>.</p>
-        <p><strong>Monto a pagar:</strong> $${parseFloat(invoice.totalAmount).toLocaleString('es-CO')}</p>
-        <p>Por favor, realice el pago antes de la fecha de vencimiento para evitar cargos por mora.</p>
+        <h2 style="color: #3B82F6;">Estado de Cuenta</h2>
+        <p>Estimado/a ${escapeHtml(statement.contact.fullName)},</p>
+        <p>Adjunto encontrará su estado de cuenta${statement.contract ? ` del contrato <strong>${escapeHtml(statement.contract.number)}</strong>` : ''} entre el <strong>${from}</strong> y el <strong>${to}</strong>.</p>
+        <p><strong>${closing < 0 ? 'Saldo a favor' : 'Saldo pendiente'}:</strong> $${Math.abs(closing).toLocaleString('es-CO')}</p>
+        <p>Si tiene alguna pregunta sobre los movimientos, por favor comuníquese con nosotros.</p>
         <p>Gracias por su atención.</p>
       </div>
     `,
+    attachments: [
+      {
+        content: pdfBuffer,
+        filename: `estado-de-cuenta-${statement.to}.pdf`,
+        type: 'application/pdf',
+      },
+    ],
+  }, {
+    tenantId,
+    template: 'account_statement',
+    contactId: statement.contact.id,
+    contractId: statement.contract?.id,
   });
 }
 
-export async function sendReminderD1(invoice: any, contact: any) {
-  const dueDate = new Date(invoice.dueDate).toLocaleDateString('es-ES');
-  
+export async function sendOwnerStatement(tenantId: string, statement: any, pdfBuffer: Buffer, companyName: string) {
+  const closing = parseFloat(statement.closingBalance);
+
+  return await sendEmail({
+    to: statement.owner.email,
+    subject: `Liquidación ${companyName} - ${statement.periodLabel}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3B82F6;">Liquidación a Propietario</h2>
+        <p>Estimado/a ${escapeHtml(statement.owner.fullName)},</p>
+        <p>Adjunto encontrará la liquidación de sus inmuebles correspondiente a <strong>${escapeHtml(statement.periodLabel)}</strong>.</p>
+        <p><strong>Total recaudado:</strong> $${parseFloat(statement.collected).toLocaleString('es-CO')}</p>
+        <p><strong>${closing < 0 ? 'Saldo a su cargo' : 'Saldo a su favor'}:</strong> $${Math.abs(closing).toLocaleString('es-CO')}</p>
+        <p>Gracias por su confianza.</p>
+      </div>
+    `,
+    attachments: [
+      {
+        content: pdfBuffer,
+        filename: `liquidacion-${statement.year}-${String(statement.month).padStart(2, '0')}.pdf`,
+        type: 'application/pdf',
+      },
+    ],
+  }, { tenantId, template: 'owner_statement', contactId: statement.owner.id });
+}
+
+// The company name is whatever the tenant typed, so it is escaped before going into the HTML
+export async function sendTeamInvitation(tenantId: string, email: string, companyName: string, roleLabel: string, inviteUrl: string) {
+  const company = escapeHtml(companyName);
+  return await sendEmail({
+    to: email,
+    subject: `Invitación para unirte a ${companyName}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #3B82F6;">Te han invitado a ${company}</h2>
+        <p>Has sido invitado/a a unirte al equipo de <strong>${company}</strong> con el rol <strong>${escapeHtml(roleLabel)}</strong>.</p>
+        <p><a href="${escapeHtml(inviteUrl)}" style="color: #3B82F6;">Aceptar invitación</a></p>
+        <p>Este enlace es de un solo uso y vence en 7 días.</p>
+      </div>
+    `,
+  }, { tenantId, template: 'team_invitation' });
+}
+
+// Names, numbers and addresses are whatever users typed, so everything is escaped before going into the HTML
+export async function sendContractExpiringNotice(contract: any, contact: any, daysLeft: number) {
+  const endDate = formatDate(contract.endDate);
+
   return await sendEmail({
     to: contact.email,
-    subject: `URGENTE: Factura ${invoice.number} venció ayer`,
+    subject: `Aviso: el contrato ${contract.number} vence en ${daysLeft} días`,
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #EF4444;">Factura Vencida</h2>
-        <p>Estimado/a ${contact.fullName},</p>
-        <p>Su factura <strong>${invoice.number}</strong> venció el <strong>${dueDate}</strong>.</p>
-        <p><strong>Monto a pagar:</strong> $${parseFloat(invoice.totalAmount).toLocaleString('es-CO')}</p>
-        <p style="color: #EF4444;"><strong>Se han aplicado cargos por mora.</strong></p>
-        <p>Por favor, realice el pago a la mayor brevedad posible.</p>
+        <h2 style="color: #F59E0B;">Contrato por vencer</h2>
+        <p>Estimado/a ${escapeHtml(contact.fullName)},</p>
+        <p>Le informamos que el contrato de arrendamiento <strong>${escapeHtml(contract.number)}</strong>${contract.property?.address ? ` del inmueble <strong>${escapeHtml(contract.property.address)}</strong>` : ''} vence el <strong>${endDate}</strong>.</p>
+        <p>Si desea renovarlo, por favor comuníquese con nosotros antes de esa fecha.</p>
         <p>Gracias por su atención.</p>
       </div>
     `,
-  });
+  }, { tenantId: contract.tenantId, template: 'contract_expiring', contactId: contact.id, contractId: contract.id });
 }
 
-export async function sendInsurerMonthlyReport(insurer: any, pdfBuffer: Buffer, period: string) {
-  const { client, fromEmail } = await getUncachableSendGridClient();
-  
-  const msg = {
-    to: insurer.emailReports,
-    from: fromEmail,
-    subject: `Reporte Mensual - ${period}`,
+export async function sendContractExpiredNotice(contract: any, contact: any) {
+  const endDate = formatDate(contract.endDate);
+
+  return await sendEmail({
+    to: contact.email,
+    subject: `El contrato ${contract.number} ha vencido`,
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #3B82F6;">Reporte Mensual de Cartera</h2>
-        <p>Estimados,</p>
-        <p>Adjunto encontrará el reporte mensual de cartera correspondiente al período <strong>${period}</strong>.</p>
+        <h2 style="color: #EF4444;">Contrato vencido</h2>
+        <p>Estimado/a ${escapeHtml(contact.fullName)},</p>
+        <p>El contrato de arrendamiento <strong>${escapeHtml(contract.number)}</strong>${contract.property?.address ? ` del inmueble <strong>${escapeHtml(contract.property.address)}</strong>` : ''} venció el <strong>${endDate}</strong> y no se emitirán nuevas facturas.</p>
+        <p>Si continúa ocupando el inmueble, por favor comuníquese con nosotros para formalizar la renovación.</p>
         <p>Gracias por su atención.</p>
       </div>
     `,
-    attachments: [
-      {
-        content: pdfBuffer.toString('base64'),
-        filename: `reporte-${insurer.name.toLowerCase().replace(/\s+/g, '-')}-${period}.pdf`,
-        type: 'application/pdf',
-        disposition: 'attachment',
-      },
-    ],
-  };
-
-  try {
-    await client.send(msg);
-    return { success: true };
-  } catch (error: any) {
-    console.error('SendGrid Error:', error.response?.body || error);
-    throw new Error(`Failed to send email: ${error.message}`);
-  }
+  }, { tenantId: contract.tenantId, template: 'contract_expired', contactId: contact.id, contractId: contract.id });
 }
@@ -0,0 +1,280 @@
+import { storage } from "../storage";
+import type { EmailAttachment } from "./emailTransport";
+import type { InsurerReport } from "./insurerReportService";
+import type { EmailTemplateInput, EmailTemplateKey, Tenant } from "@shared/schema";
+
+export type EmailVariables = Record<string, string>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type Company = Pick<Tenant, "name" | "logo" | "locale" | "currency">;
+
+// {{path}} inserts a value, {{#path}}…{{/path}} keeps its content only when the value is not empty
+const SECTION = /\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+const VARIABLE = /\{\{\s*([#/]?)\s*([\w.]+)\s*\}\}/g;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Values are escaped in HTML so a contact named "<script>" is shown, not run; unknown names render empty
+export function renderTemplate(source: string, variables: EmailVariables, html: boolean): string {
+  return source
+    .replace(SECTION, (_match, name: string, content: string) => (variables[name] ? content : ""))
+    .replace(VARIABLE, (_match, _section, name: string) => {
+      const value = variables[name] ?? "";
+      return html ? escapeHtml(value) : value;
+    });
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(br|\/p|\/h\d|\/div|\/li)\s*\/?>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line, index, lines) => line !== "" || (index > 0 && lines[index - 1] !== ""))
+    .join("\n")
+    .trim();
+}
+
+const invoiceVariables = [
+  "company.name", "company.logo",
+  "contact.fullName", "contact.email",
+  "tenant.fullName", "tenant.email",
+  "invoice.number", "invoice.issueDate", "invoice.dueDate", "invoice.total", "invoice.balance",
+  "invoice.daysOverdue", "invoice.daysUntilDue",
+  "contract.number", "property.name", "property.address",
+];
+
+const insurerVariables = [
+  "company.name", "company.logo",
+  "insurer.name",
+  "report.period", "report.policies", "report.issued", "report.collected", "report.balance",
+  "report.overdueBalance", "report.overdueInvoices",
+];
+
+// What each template can use; contact is whoever receives the email (the guarantor for guarantor_notice)
+export const emailTemplateVariables: Record<EmailTemplateKey, string[]> = {
+  friendly: invoiceVariables,
+  due_today: invoiceVariables,
+  overdue: invoiceVariables,
+  firm: invoiceVariables,
+  final: invoiceVariables,
+  guarantor_notice: invoiceVariables,
+  insurer_report: insurerVariables,
+};
+
+// Names used in a draft that its template does not provide
+export function unknownVariables(key: EmailTemplateKey, input: EmailTemplateInput): string[] {
+  const used = new Set<string>();
+  for (const source of [input.subject, input.html, input.text ?? ""]) {
+    for (const match of Array.from(source.matchAll(VARIABLE))) {
+      used.add(match[2]);
+    }
+  }
+  return Array.from(used).filter((name) => !emailTemplateVariables[key].includes(name));
+}
+
+function layout(color: string, title: string, paragraphs: string[]): string {
+  return `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+  {{#company.logo}}<img src="{{company.logo}}" alt="{{company.name}}" style="max-height: 60px; margin-bottom: 16px;">{{/company.logo}}
+  <h2 style="color: ${color};">${title}</h2>
+${paragraphs.map((paragraph) => `  <p>${paragraph}</p>`).join("\n")}
+</div>`;
+}
+
+function defaultTemplate(subject: string, color: string, title: string, paragraphs: string[]): EmailTemplateInput {
+  const html = layout(color, title, paragraphs);
+  return { subject, html, text: htmlToText(html.replace(SECTION, "")) };
+}
+
+const greeting = "Estimado/a {{contact.fullName}},";
+const balanceLine = "<strong>Saldo pendiente:</strong> {{invoice.balance}}";
+const closing = "Gracias por su atención.";
+
+// Used until a tenant saves its own version; tone escalates from a heads-up to the guarantor's letter
+export const defaultEmailTemplates: Record<EmailTemplateKey, EmailTemplateInput> = {
+  friendly: defaultTemplate(
+    "Recordatorio: Factura {{invoice.number}} vence en {{invoice.daysUntilDue}} días",
+    "#3B82F6",
+    "Recordatorio de Pago",
+    [
+      greeting,
+      "Le recordamos que su factura <strong>{{invoice.number}}</strong> vence el <strong>{{invoice.dueDate}}</strong>.",
+      "Por favor, realice el pago antes de la fecha de vencimiento para evitar cargos por mora.",
+      balanceLine,
+      closing,
+    ],
+  ),
+  due_today: defaultTemplate(
+    "Su factura {{invoice.number}} vence hoy",
+    "#3B82F6",
+    "Vence Hoy",
+    [
+      greeting,
+      "Su factura <strong>{{invoice.number}}</strong> vence <strong>hoy</strong>.",
+      "Si ya realizó el pago, por favor ignore este mensaje.",
+      balanceLine,
+      closing,
+    ],
+  ),
+  overdue: defaultTemplate(
+    "Factura {{invoice.number}} vencida",
+    "#EF4444",
+    "Factura Vencida",
+    [
+      greeting,
+      "Su factura <strong>{{invoice.number}}</strong> venció el <strong>{{invoice.dueDate}}</strong>.",
+      "Según su contrato, el saldo vencido genera cargos por mora. Por favor, realice el pago a la mayor brevedad posible.",
+      balanceLine,
+      closing,
+    ],
+  ),
+  firm: defaultTemplate(
+    "Segundo aviso: Factura {{invoice.number}} con {{invoice.daysOverdue}} días de mora",
+    "#EF4444",
+    "Segundo Aviso de Cobro",
+    [
+      greeting,
+      "Su factura <strong>{{invoice.number}}</strong>, vencida el <strong>{{invoice.dueDate}}</strong>, completa <strong>{{invoice.daysOverdue}} días</strong> sin pago.",
+      "Le solicitamos ponerse al día o comunicarse con nosotros para acordar una fecha de pago.",
+      balanceLine,
+      closing,
+    ],
+  ),
+  final: defaultTemplate(
+    "Último aviso: Factura {{invoice.number}} con {{invoice.daysOverdue}} días de mora",
+    "#B91C1C",
+    "Último Aviso antes de Notificar al Codeudor",
+    [
+      greeting,
+      "Su factura <strong>{{invoice.number}}</strong>, vencida el <strong>{{invoice.dueDate}}</strong>, completa <strong>{{invoice.daysOverdue}} días</strong> sin pago.",
+      "De no recibir el pago o un acuerdo de pago, informaremos la deuda a su codeudor y a la aseguradora del contrato.",
+      balanceLine,
+      closing,
+    ],
+  ),
+  guarantor_notice: defaultTemplate(
+    "Aviso al codeudor: Factura {{invoice.number}} en mora",
+    "#B91C1C",
+    "Aviso al Codeudor",
+    [
+      greeting,
+      "Como codeudor del contrato de arrendamiento de <strong>{{tenant.fullName}}</strong>, le informamos que la factura <strong>{{invoice.number}}</strong>, vencida el <strong>{{invoice.dueDate}}</strong>, completa <strong>{{invoice.daysOverdue}} días</strong> sin pago.",
+      "Le solicitamos gestionar el pago o comunicarse con nosotros.",
+      balanceLine,
+      closing,
+    ],
+  ),
+  insurer_report: defaultTemplate(
+    "Reporte Mensual - {{report.period}}",
+    "#3B82F6",
+    "Reporte Mensual de Cartera",
+    [
+      "Estimados,",
+      "Adjunto encontrará el reporte mensual de cartera correspondiente al período <strong>{{report.period}}</strong>.",
+      "<strong>Pólizas reportadas:</strong> {{report.policies}} · <strong>Saldo vencido:</strong> {{report.overdueBalance}}",
+      closing,
+    ],
+  ),
+};
+
+export function formatMoney(company: Company, value: string | number): string {
+  return new Intl.NumberFormat(company.locale, { style: "currency", currency: company.currency })
+    .format(typeof value === "number" ? value : parseFloat(value));
+}
+
+function formatDate(company: Company, value: string): string {
+  return new Date(value).toLocaleDateString(company.locale, { timeZone: "UTC", day: "numeric", month: "long", year: "numeric" });
+}
+
+// Logos are stored as data URLs of up to 2 MB, which mail clients clip or refuse to show. Sent
+// emails carry the image as an inline attachment that the template points to as cid:company-logo
+export function logoAttachment(logo: string | null | undefined): EmailAttachment | null {
+  const match = logo?.match(/^data:(image\/(png|jpe?g|gif|webp|svg\+xml));base64,(.+)$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    content: Buffer.from(match[3], "base64"),
+    filename: `logo.${match[2] === "svg+xml" ? "svg" : match[2]}`,
+    type: match[1],
+    contentId: "company-logo",
+  };
+}
+
+function companyVariables(company: Company): EmailVariables {
+  return { "company.name": company.name, "company.logo": company.logo ?? "" };
+}
+
+export function invoiceEmailVariables(
+  company: Company,
+  { invoice, contact, tenantContact, daysOverdue }: { invoice: any; contact: any; tenantContact: any; daysOverdue: number },
+): EmailVariables {
+  const balance = parseFloat(invoice.totalAmount) - parseFloat(invoice.amountPaid) - parseFloat(invoice.creditedAmount ?? "0");
+  return {
+    ...companyVariables(company),
+    "contact.fullName": contact?.fullName ?? "",
+    "contact.email": contact?.email ?? "",
+    "tenant.fullName": tenantContact?.fullName ?? "",
+    "tenant.email": tenantContact?.email ?? "",
+    "invoice.number": invoice.number,
+    "invoice.issueDate": formatDate(company, invoice.issueDate),
+    "invoice.dueDate": formatDate(company, invoice.dueDate),
+    "invoice.total": formatMoney(company, invoice.totalAmount),
+    "invoice.balance": formatMoney(company, balance),
+    "invoice.daysOverdue": String(Math.max(daysOverdue, 0)),
+    "invoice.daysUntilDue": String(Math.max(-daysOverdue, 0)),
+    "contract.number": invoice.contract?.number ?? "",
+    "property.name": invoice.contract?.property?.name ?? "",
+    "property.address": invoice.contract?.property?.address ?? "",
+  };
+}
+
+export function insurerReportVariables(company: Company, report: InsurerReport): EmailVariables {
+  const period = new Date(Date.UTC(report.year, report.month - 1, 1))
+    .toLocaleDateString(company.locale, { timeZone: "UTC", month: "long", year: "numeric" });
+  return {
+    ...companyVariables(company),
+    "insurer.name": report.insurer.name,
+    "report.period": period,
+    "report.policies": String(report.summary.policies),
+    "report.issued": formatMoney(company, report.summary.issued),
+    "report.collected": formatMoney(company, report.summary.collected),
+    "report.balance": formatMoney(company, report.summary.balance),
+    "report.overdueBalance": formatMoney(company, report.summary.overdueBalance),
+    "report.overdueInvoices": String(report.summary.overdueInvoices),
+  };
+}
+
+// The tenant's saved version of the template (or the default), or a draft when previewing
+export async function renderEmailTemplate(
+  tenantId: string,
+  key: EmailTemplateKey,
+  variables: EmailVariables,
+  draft?: EmailTemplateInput,
+): Promise<RenderedEmail> {
+  const template = draft ?? (await storage.getEmailTemplate(tenantId, key)) ?? defaultEmailTemplates[key];
+  const html = renderTemplate(template.html, variables, true);
+  return {
+    subject: renderTemplate(template.subject, variables, false).replace(/\s+/g, " ").trim(),
+    html,
+    text: template.text ? renderTemplate(template.text, variables, false) : htmlToText(html),
+  };
+}
@@ -0,0 +1,60 @@
+import { randomBytes } from "crypto";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { emailSettings } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { getEmailTransport, tenantTransportNames, verifySmtpSettings } = await import("./emailTransport");
+
+const smtpSettings = (smtpHost: string) => ({
+  transport: "smtp" as const,
+  smtpHost,
+  smtpPort: 587,
+  smtpSecure: false,
+  smtpUser: "cobranza",
+  smtpPassword: "secreto",
+  fromEmail: "cobranza@norte.test",
+  fromName: null,
+});
+
+describe("tenant email settings", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each(["localhost", "127.0.0.1", "10.0.0.5", "169.254.169.254", "192.168.1.20"])("refuses to connect to %s", async (host) => {
+    await expect(verifySmtpSettings(smtpSettings(host))).rejects.toThrow("does not resolve to a public address");
+  });
+
+  it("stores the SMTP password encrypted and reads it back for sending", async () => {
+    vi.stubEnv("EMAIL_SETTINGS_KEY", randomBytes(32).toString("base64"));
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Norte");
+
+    const saved = await storage.upsertEmailSettings({ ...smtpSettings("smtp.norte.test"), tenantId: lease.tenant.id });
+
+    const [row] = await testDb.db.select().from(emailSettings).where(eq(emailSettings.tenantId, lease.tenant.id));
+    expect(row.smtpPassword).toMatch(/^v1:/);
+    expect(row.smtpPassword).not.toContain("secreto");
+    expect(saved.smtpPassword).toBe("secreto");
+    expect((await storage.getEmailSettings(lease.tenant.id))?.smtpPassword).toBe("secreto");
+  });
+
+  it("keeps the outbox out of production, even when it was saved before", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    vi.stubEnv("EMAIL_TRANSPORT", "sendgrid");
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Sur");
+    await testDb.db.insert(emailSettings).values({ tenantId: lease.tenant.id, transport: "outbox" });
+
+    expect(tenantTransportNames()).not.toContain("outbox");
+    expect((await getEmailTransport(lease.tenant.id)).name).toBe("sendgrid");
+  });
+});
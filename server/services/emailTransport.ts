@@ -0,0 +1,242 @@
+import { lookup } from "dns/promises";
+import { mkdir, writeFile } from "fs/promises";
+import { BlockList, isIPv4 } from "net";
+import path from "path";
+import nodemailer from "nodemailer";
+import { getUncachableSendGridClient } from "../sendgridClient";
+import { storage } from "../storage";
+import type { EmailSettings, EmailTransportName } from "@shared/schema";
+
+export interface EmailAttachment {
+  content: Buffer;
+  filename: string;
+  type: string;
+  contentId?: string; // shown inline where the HTML references cid:<contentId>
+}
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+  notificationId: string; // echoed back by transports that report delivery
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(email: OutgoingEmail): Promise<{ messageId: string | null }>;
+}
+
+interface SmtpConfig {
+  host: string | null;
+  port: number;
+  secure: boolean;
+  user: string | null;
+  password: string | null;
+  from: string | null;
+  publicOnly?: boolean; // servers a tenant entered may not resolve into our own network
+}
+
+// Loopback, private, link-local, shared, reserved and multicast ranges
+const internalAddresses = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  internalAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  internalAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+function isInternalAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped || isIPv4(address)) {
+    return internalAddresses.check(mapped?.[1] ?? address, "ipv4");
+  }
+  return internalAddresses.check(address, "ipv6");
+}
+
+// Resolves the host once and connects to that address, so a second lookup cannot point elsewhere
+async function publicAddress(host: string): Promise<string> {
+  const addresses = await lookup(host, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isInternalAddress(address))) {
+    throw new Error(`SMTP host ${host} does not resolve to a public address`);
+  }
+  return addresses[0].address;
+}
+
+function formatFrom(email: string | null, name?: string | null): string | null {
+  if (!email) {
+    return null;
+  }
+  return name ? `"${name.replace(/"/g, "'")}" <${email}>` : email;
+}
+
+function toMailOptions(email: OutgoingEmail, from: string) {
+  return {
+    from,
+    to: email.to,
+    subject: email.subject,
+    html: email.html,
+    text: email.text,
+    attachments: email.attachments?.map((attachment) => ({
+      filename: attachment.filename,
+      content: attachment.content,
+      contentType: attachment.type,
+      cid: attachment.contentId,
+    })),
+    headers: { "X-Notification-Id": email.notificationId },
+  };
+}
+
+// Sends from the connector's verified sender, under the tenant's name when it set one. The notification
+// id travels as a custom arg so the event webhook can report delivery and bounces
+function sendgridTransport(fromName: string | null): EmailTransport {
+  return {
+    name: "sendgrid",
+    async send(email) {
+      const { client, fromEmail } = await getUncachableSendGridClient();
+      const [response] = await client.send({
+        to: email.to,
+        from: fromName ? { email: fromEmail, name: fromName } : fromEmail,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        attachments: email.attachments?.map((attachment) => ({
+          content: attachment.content.toString("base64"),
+          filename: attachment.filename,
+          type: attachment.type,
+          disposition: attachment.contentId ? "inline" : "attachment",
+          contentId: attachment.contentId,
+        })),
+        customArgs: { notification_id: email.notificationId },
+      });
+      return { messageId: response.headers["x-message-id"] ?? null };
+    },
+  };
+}
+
+async function createSmtpTransporter(config: SmtpConfig) {
+  if (!config.host || !config.from) {
+    throw new Error("SMTP is not configured: host and sender address are required");
+  }
+  return nodemailer.createTransport({
+    host: config.publicOnly ? await publicAddress(config.host) : config.host,
+    port: config.port,
+    secure: config.secure,
+    tls: { servername: config.host }, // certificates are checked against the name, not the address
+    connectionTimeout: 10_000,
+    auth: config.user ? { user: config.user, pass: config.password ?? "" } : undefined,
+  });
+}
+
+// Any SMTP server, such as the tenant's own domain; it reports acceptance but not delivery
+function smtpTransport(config: SmtpConfig): EmailTransport {
+  return {
+    name: "smtp",
+    async send(email) {
+      const info = await (await createSmtpTransporter(config)).sendMail(toMailOptions(email, config.from!));
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
+
+export function outboxDir(): string {
+  return path.resolve(process.env.EMAIL_OUTBOX_DIR || ".outbox");
+}
+
+// Writes each message, attachments included, as an .eml file instead of sending it
+function outboxTransport(from: string | null): EmailTransport {
+  return {
+    name: "outbox",
+    async send(email) {
+      const info = await nodemailer
+        .createTransport({ streamTransport: true, buffer: true, newline: "unix" })
+        .sendMail(toMailOptions(email, from ?? "no-reply@localhost"));
+      const dir = outboxDir();
+      await mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      await writeFile(path.join(dir, `${stamp}-${email.notificationId}.eml`), info.message);
+      return { messageId: info.messageId ?? null };
+    },
+  };
+}
+
+// EMAIL_TRANSPORT picks the platform transport. Without it production sends through SendGrid and
+// every other environment writes to the outbox, so development and tests never mail real people
+export function platformTransportName(): EmailTransportName {
+  const name = process.env.EMAIL_TRANSPORT;
+  if (name === "sendgrid" || name === "smtp" || name === "outbox") {
+    return name;
+  }
+  return process.env.NODE_ENV === "production" ? "sendgrid" : "outbox";
+}
+
+// The outbox only writes files on this server, so tenants can pick it only outside production
+export function tenantTransportNames(): EmailTransportName[] {
+  return process.env.NODE_ENV === "production" ? ["sendgrid", "smtp"] : ["sendgrid", "smtp", "outbox"];
+}
+
+function platformTransport(): EmailTransport {
+  const from = formatFrom(process.env.SMTP_FROM ?? null, process.env.SMTP_FROM_NAME);
+  switch (platformTransportName()) {
+    case "sendgrid":
+      return sendgridTransport(null);
+    case "smtp":
+      return smtpTransport({
+        host: process.env.SMTP_HOST ?? null,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER ?? null,
+        password: process.env.SMTP_PASSWORD ?? null,
+        from,
+      });
+    case "outbox":
+      return outboxTransport(from);
+  }
+}
+
+type TransportSettings = Pick<EmailSettings, "transport" | "smtpHost" | "smtpPort" | "smtpSecure" | "smtpUser" | "smtpPassword" | "fromEmail" | "fromName">;
+
+export function transportFromSettings(settings: TransportSettings): EmailTransport {
+  const from = formatFrom(settings.fromEmail, settings.fromName);
+  switch (settings.transport) {
+    case "sendgrid":
+      return sendgridTransport(settings.fromName);
+    case "smtp":
+      return smtpTransport({
+        host: settings.smtpHost,
+        port: settings.smtpPort ?? 587,
+        secure: settings.smtpSecure,
+        user: settings.smtpUser,
+        password: settings.smtpPassword,
+        from,
+        publicOnly: true,
+      });
+    case "outbox":
+      return outboxTransport(from);
+  }
+}
+
+// Connects and authenticates against the SMTP server without sending anything
+export async function verifySmtpSettings(settings: TransportSettings): Promise<void> {
+  const transporter = await createSmtpTransporter({
+    host: settings.smtpHost,
+    port: settings.smtpPort ?? 587,
+    secure: settings.smtpSecure,
+    user: settings.smtpUser,
+    password: settings.smtpPassword,
+    from: formatFrom(settings.fromEmail, settings.fromName),
+    publicOnly: true,
+  });
+  await transporter.verify();
+}
+
+// A tenant with its own settings sends through them; every other tenant uses the platform transport,
+// as does one whose saved transport is not offered in this environment
+export async function getEmailTransport(tenantId: string): Promise<EmailTransport> {
+  const settings = await storage.getEmailSettings(tenantId);
+  return settings && tenantTransportNames().includes(settings.transport) ? transportFromSettings(settings) : platformTransport();
+}
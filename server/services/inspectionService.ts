@@ -0,0 +1,160 @@
+import { storage } from "../storage";
+import {
+  inspectionConditionEnum,
+  type Contract,
+  type CreateInspection,
+  type Inspection,
+  type InspectionCondition,
+  type InspectionItem,
+  type InspectionType,
+  type InsertInspectionItem,
+  type SignInspection,
+} from "@shared/schema";
+
+export const inspectionTypeLabels: Record<InspectionType, string> = {
+  move_in: 'Entrega',
+  periodic: 'Periódica',
+  move_out: 'Restitución',
+};
+
+export const inspectionConditionLabels: Record<InspectionCondition, string> = {
+  excellent: 'Excelente',
+  good: 'Bueno',
+  fair: 'Regular',
+  poor: 'Malo',
+  damaged: 'Dañado',
+};
+
+// Starting checklist when the contract has no earlier inspection to copy rooms from
+const defaultChecklist: { room: string; items: string[] }[] = [
+  { room: 'Sala comedor', items: ['Pisos', 'Paredes y techo', 'Puertas y ventanas', 'Iluminación y tomas'] },
+  { room: 'Cocina', items: ['Pisos', 'Paredes y techo', 'Mesón y gabinetes', 'Lavaplatos y grifería', 'Estufa y campana'] },
+  { room: 'Habitación principal', items: ['Pisos', 'Paredes y techo', 'Puertas y ventanas', 'Closet', 'Iluminación y tomas'] },
+  { room: 'Baño', items: ['Pisos y enchape', 'Sanitario', 'Lavamanos y grifería', 'Ducha y división'] },
+  { room: 'Zona de ropas', items: ['Lavadero', 'Conexiones de lavadora'] },
+  { room: 'General', items: ['Llaves entregadas', 'Medidores de servicios', 'Citófono'] },
+];
+
+export type InspectionChange = "same" | "better" | "worse" | "added" | "removed";
+
+export interface InspectionComparisonRow {
+  room: string;
+  item: string;
+  before: InspectionItem | null;
+  after: InspectionItem | null;
+  change: InspectionChange;
+}
+
+export interface InspectionComparison {
+  from: Inspection;
+  to: Inspection;
+  rows: InspectionComparisonRow[];
+  worsened: number;
+}
+
+// Signed reports are final; a correction is a new inspection
+export function isInspectionSigned(inspection: Pick<Inspection, 'status'>): boolean {
+  return inspection.status === "signed";
+}
+
+// A new inspection starts from the rooms of the contract's latest one, unrated, so the
+// move-out walks through exactly what the move-in recorded
+export async function buildInitialChecklist(
+  contract: Contract,
+  input: CreateInspection,
+): Promise<Omit<InsertInspectionItem, "tenantId" | "inspectionId">[]> {
+  if (input.items) {
+    return input.items.map((item, index) => ({ ...item, displayOrder: index }));
+  }
+
+  const [latest] = await storage.getInspections(contract.id, contract.tenantId);
+  if (latest) {
+    const previous = await storage.getInspection(latest.id, contract.tenantId);
+    if (previous?.items.length) {
+      return previous.items.map((item: InspectionItem, index: number) => ({
+        room: item.room,
+        item: item.item,
+        displayOrder: index,
+      }));
+    }
+  }
+
+  return defaultChecklist.flatMap(({ room, items }) => items.map((item) => ({ room, item })))
+    .map((item, index) => ({ ...item, displayOrder: index }));
+}
+
+export function planInspectionSignature(inspection: any, input: SignInspection) {
+  if (isInspectionSigned(inspection)) {
+    throw new Error("this inspection is already signed");
+  }
+  if (inspection.items.length === 0) {
+    throw new Error("an inspection needs at least one checklist item to be signed");
+  }
+  const unrated = inspection.items.filter((item: InspectionItem) => !item.condition);
+  if (unrated.length > 0) {
+    throw new Error(`${unrated.length} checklist item(s) still have no condition rating`);
+  }
+
+  return {
+    ...input,
+    status: "signed" as const,
+    signedAt: new Date(),
+  };
+}
+
+// Latest signed move-in against the latest move-out when no pair is given
+export function pickComparisonPair(
+  inspections: Inspection[],
+  query: { from?: string; to?: string },
+): { fromId?: string; toId?: string } {
+  const latestOf = (type: InspectionType) =>
+    inspections.find((inspection) => inspection.type === type && isInspectionSigned(inspection))
+      ?? inspections.find((inspection) => inspection.type === type);
+
+  return {
+    fromId: query.from ?? latestOf("move_in")?.id,
+    toId: query.to ?? latestOf("move_out")?.id,
+  };
+}
+
+const conditionRank = (condition: InspectionCondition | null) =>
+  condition ? inspectionConditionEnum.enumValues.indexOf(condition) : null;
+
+const itemKey = (item: Pick<InspectionItem, 'room' | 'item'>) =>
+  `${item.room.trim().toLowerCase()}|${item.item.trim().toLowerCase()}`;
+
+// Items are matched by room and name, so renamed items show as removed and added
+export function compareInspections(from: any, to: any): InspectionComparison {
+  const beforeByKey = new Map<string, InspectionItem>(from.items.map((item: InspectionItem) => [itemKey(item), item]));
+  const matched = new Set<string>();
+
+  const rows: InspectionComparisonRow[] = to.items.map((after: InspectionItem) => {
+    const key = itemKey(after);
+    const before = beforeByKey.get(key) ?? null;
+    if (!before) {
+      return { room: after.room, item: after.item, before: null, after, change: "added" as const };
+    }
+    matched.add(key);
+
+    const beforeRank = conditionRank(before.condition);
+    const afterRank = conditionRank(after.condition);
+    let change: InspectionChange = "same";
+    if (beforeRank !== null && afterRank !== null && afterRank !== beforeRank) {
+      change = afterRank > beforeRank ? "worse" : "better";
+    }
+    return { room: after.room, item: after.item, before, after, change };
+  });
+
+  for (const before of from.items as InspectionItem[]) {
+    if (!matched.has(itemKey(before))) {
+      rows.push({ room: before.room, item: before.item, before, after: null, change: "removed" });
+    }
+  }
+
+  return {
+    from,
+    to,
+    rows,
+    worsened: rows.filter((row) => row.change === "worse").length,
+  };
+}
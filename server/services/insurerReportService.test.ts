@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedPolicy, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { buildInsurerMonthlyReport } = await import("./insurerReportService");
+
+// Two agencies insured by the same company over the same months, with invoices numbered alike
+describe("insurer reports across tenants", () => {
+  let north: Awaited<ReturnType<typeof seedTenant>> & Awaited<ReturnType<typeof seedPolicy>>;
+  let south: typeof north;
+
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+    for (const name of ["Inmobiliaria Norte", "Inmobiliaria Sur"]) {
+      const lease = await seedTenant(testDb.db, name);
+      const coverage = await seedPolicy(testDb.db, lease, "Seguros Comunes");
+      const lot = { ...lease, ...coverage };
+      if (name.endsWith("Norte")) {
+        north = lot;
+      } else {
+        south = lot;
+      }
+    }
+    await seedInvoice(testDb.db, north, { number: "F-1", issueDate: "2025-03-01", dueDate: "2025-03-05" });
+    await seedInvoice(testDb.db, south, {
+      number: "F-1",
+      issueDate: "2025-03-01",
+      dueDate: "2025-03-05",
+      subtotal: "2000000",
+      totalAmount: "2000000",
+    });
+  });
+
+  it("loads only the calling tenant's insured invoices", async () => {
+    const invoices = await storage.getInsuredInvoices(north.insurer.id, north.tenant.id, "2025-03-31");
+    expect(invoices).toHaveLength(1);
+    expect(invoices[0].tenantId).toBe(north.tenant.id);
+    expect(invoices[0].contract.policy.id).toBe(north.policy.id);
+  });
+
+  it("finds nothing when the insurer belongs to another tenant", async () => {
+    expect(await storage.getInsuredInvoices(south.insurer.id, north.tenant.id, "2025-03-31")).toEqual([]);
+  });
+
+  it("reports only the insurer's own tenant's policies and amounts", async () => {
+    const report = await buildInsurerMonthlyReport(north.insurer, 2025, 3);
+    expect(report.policies.map((policy) => policy.policyId)).toEqual([north.policy.id]);
+    expect(report.policies[0].contractId).toBe(north.contract.id);
+    expect(report.summary).toMatchObject({ policies: 1, invoicesIssued: 1, issued: "1500000.00", balance: "1500000.00" });
+
+    const other = await buildInsurerMonthlyReport(south.insurer, 2025, 3);
+    expect(other.policies.map((policy) => policy.policyId)).toEqual([south.policy.id]);
+    expect(other.summary).toMatchObject({ policies: 1, invoicesIssued: 1, issued: "2000000.00" });
+  });
+});
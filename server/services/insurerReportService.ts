@@ -0,0 +1,201 @@
+import { storage } from "../storage";
+import { balanceAsOf } from "./agingService";
+import { monthRange } from "./ownerStatementService";
+import type { ChargeCategory, Insurer } from "@shared/schema";
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface InsurerReportInvoice {
+  id: string;
+  number: string;
+  issueDate: string;
+  dueDate: string;
+  issuedInPeriod: boolean; // false for earlier invoices that were still open
+  totalAmount: string;
+  amountPaid: string;
+  creditedAmount: string;
+  balance: string; // as of the report date
+  daysOverdue: number; // 0 unless past due with a balance
+}
+
+export interface InsurerReportPolicy {
+  policyId: string;
+  policyNumber: string;
+  coverageType: string | null;
+  contractId: string;
+  contractNumber: string;
+  tenantName: string | null;
+  propertyName: string | null;
+  issued: string;
+  collected: string;
+  balance: string;
+  overdueBalance: string;
+  maxDaysOverdue: number;
+  invoices: InsurerReportInvoice[];
+}
+
+export interface InsurerReportSummary {
+  policies: number;
+  invoicesIssued: number;
+  issued: string;
+  tax: string;
+  withholdings: string;
+  collected: string; // payments dated in the period, on any covered invoice
+  credited: string;
+  balance: string;
+  overdueBalance: string;
+  overdueInvoices: number;
+}
+
+export interface InsurerReport {
+  insurer: Pick<Insurer, "id" | "name" | "emailReports">;
+  year: number;
+  month: number;
+  from: string;
+  to: string;
+  asOf: string; // end of the month, or today while the month is running
+  periodLabel: string;
+  summary: InsurerReportSummary;
+  byCategory: { category: ChargeCategory; amount: string }[];
+  policies: InsurerReportPolicy[];
+}
+
+const sumOf = (rows: any[], field: string, within: (row: any) => boolean) =>
+  rows.filter(within).reduce((sum, row) => sum + parseFloat(row[field]), 0);
+
+// What an insurer needs each month for the leases it guarantees: what was billed and collected
+// in the month, and every invoice still owed at the end of it with its days overdue, per policy
+export async function buildInsurerMonthlyReport(insurer: Insurer, year: number, month: number): Promise<InsurerReport> {
+  const { from, to } = monthRange(year, month);
+  const today = toDateString(new Date());
+  const asOf = to < today ? to : today;
+  const asOfTime = new Date(asOf).getTime();
+
+  const invoices = await storage.getInsuredInvoices(insurer.id, insurer.tenantId, asOf);
+
+  const policies = new Map<string, InsurerReportPolicy & { totals: Record<string, number> }>();
+  const totals = { invoicesIssued: 0, issued: 0, tax: 0, withholdings: 0, collected: 0, credited: 0, balance: 0, overdueBalance: 0, overdueInvoices: 0 };
+  const byCategory = new Map<ChargeCategory, number>();
+
+  for (const invoice of invoices) {
+    const policy = invoice.contract?.policy;
+    if (!policy) {
+      continue;
+    }
+    // Invoices voided before credit notes existed left no dated trail; they were never owed
+    if (invoice.status === "void" && !(invoice.creditNotes ?? []).some((note: any) => note.reasonCode === "void")) {
+      continue;
+    }
+
+    const amounts = balanceAsOf(invoice, asOf);
+    const issuedInPeriod = invoice.issueDate >= from;
+    const inPeriod = (field: string) => (row: any) => row[field] >= from && row[field] <= asOf;
+    const collected = sumOf(invoice.payments ?? [], "amount", inPeriod("paymentDate"));
+    const credited = sumOf(invoice.creditNotes ?? [], "amount", inPeriod("issueDate"));
+    const open = amounts.balance >= 0.005;
+    if (!issuedInPeriod && !open && collected === 0 && credited === 0) {
+      continue;
+    }
+
+    let entry = policies.get(policy.id);
+    if (!entry) {
+      entry = {
+        policyId: policy.id,
+        policyNumber: policy.policyNumber,
+        coverageType: policy.coverageType,
+        contractId: invoice.contractId,
+        contractNumber: invoice.contract.number,
+        tenantName: invoice.tenantContact?.fullName ?? null,
+        propertyName: invoice.contract.property?.name ?? null,
+        issued: "0.00",
+        collected: "0.00",
+        balance: "0.00",
+        overdueBalance: "0.00",
+        maxDaysOverdue: 0,
+        invoices: [],
+        totals: { issued: 0, collected: 0, balance: 0, overdueBalance: 0 },
+      };
+      policies.set(policy.id, entry);
+    }
+
+    const daysPastDue = Math.round((asOfTime - new Date(invoice.dueDate).getTime()) / DAY_MS);
+    const daysOverdue = open && daysPastDue > 0 ? daysPastDue : 0;
+
+    if (issuedInPeriod) {
+      totals.invoicesIssued += 1;
+      totals.issued += amounts.totalAmount;
+      totals.tax += parseFloat(invoice.tax);
+      totals.withholdings += parseFloat(invoice.withholdings);
+      entry.totals.issued += amounts.totalAmount;
+      for (const charge of invoice.charges ?? []) {
+        byCategory.set(charge.category, (byCategory.get(charge.category) ?? 0) + parseFloat(charge.amount));
+      }
+    }
+    totals.collected += collected;
+    totals.credited += credited;
+    entry.totals.collected += collected;
+    if (open) {
+      totals.balance += amounts.balance;
+      entry.totals.balance += amounts.balance;
+    }
+    if (daysOverdue > 0) {
+      totals.overdueBalance += amounts.balance;
+      totals.overdueInvoices += 1;
+      entry.totals.overdueBalance += amounts.balance;
+      entry.maxDaysOverdue = Math.max(entry.maxDaysOverdue, daysOverdue);
+    }
+
+    entry.invoices.push({
+      id: invoice.id,
+      number: invoice.number,
+      issueDate: invoice.issueDate,
+      dueDate: invoice.dueDate,
+      issuedInPeriod,
+      totalAmount: amounts.totalAmount.toFixed(2),
+      amountPaid: amounts.amountPaid.toFixed(2),
+      creditedAmount: amounts.creditedAmount.toFixed(2),
+      balance: amounts.balance.toFixed(2),
+      daysOverdue,
+    });
+  }
+
+  // Most overdue policies first, so the insurer sees its exposure at the top
+  const policyList: InsurerReportPolicy[] = Array.from(policies.values())
+    .map(({ totals: policyTotals, ...policy }) => ({
+      ...policy,
+      issued: policyTotals.issued.toFixed(2),
+      collected: policyTotals.collected.toFixed(2),
+      balance: policyTotals.balance.toFixed(2),
+      overdueBalance: policyTotals.overdueBalance.toFixed(2),
+    }))
+    .sort((a, b) =>
+      parseFloat(b.overdueBalance) - parseFloat(a.overdueBalance) || a.policyNumber.localeCompare(b.policyNumber));
+
+  return {
+    insurer: { id: insurer.id, name: insurer.name, emailReports: insurer.emailReports },
+    year,
+    month,
+    from,
+    to,
+    asOf,
+    periodLabel: new Date(`${from}T00:00:00Z`).toLocaleString('es-ES', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+    summary: {
+      policies: policyList.length,
+      invoicesIssued: totals.invoicesIssued,
+      issued: totals.issued.toFixed(2),
+      tax: totals.tax.toFixed(2),
+      withholdings: totals.withholdings.toFixed(2),
+      collected: totals.collected.toFixed(2),
+      credited: totals.credited.toFixed(2),
+      balance: totals.balance.toFixed(2),
+      overdueBalance: totals.overdueBalance.toFixed(2),
+      overdueInvoices: totals.overdueInvoices,
+    },
+    byCategory: Array.from(byCategory.entries()).map(([category, amount]) => ({ category, amount: amount.toFixed(2) })),
+    policies: policyList,
+  };
+}
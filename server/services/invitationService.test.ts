@@ -0,0 +1,66 @@
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { teamInvitations, tenants, users } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { acceptTeamInvitation, createTeamInvitation } = await import("./invitationService");
+
+describe("team invitations", () => {
+  let outbox: string;
+
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+    outbox = await mkdtemp(path.join(tmpdir(), "outbox-"));
+    vi.stubEnv("EMAIL_OUTBOX_DIR", outbox);
+    vi.stubEnv("EMAIL_TRANSPORT", "outbox");
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  async function invite(companyName: string, email: string) {
+    const [tenant] = await testDb.db.insert(tenants).values({ name: companyName }).returning();
+    const [owner] = await testDb.db.insert(users).values({ id: `owner-${tenant.id}`, tenantId: tenant.id, role: "owner" }).returning();
+    const { inviteUrl } = await createTeamInvitation(tenant.id, owner.id, email, "collections");
+    return { tenant, token: new URL(inviteUrl).searchParams.get("invite")! };
+  }
+
+  it("escapes the company name in the invitation email", async () => {
+    await invite(`Rentas <script>alert("x")</script> & Cía`, "ana@example.test");
+
+    const [name] = await readdir(outbox);
+    const email = await readFile(path.join(outbox, name), "utf8");
+    // The HTML part, decoded from quoted-printable
+    const decoded = Buffer.from(
+      email.split("Content-Type: text/html")[1]
+        .replace(/=\r?\n/g, "")
+        .replace(/=([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+      "latin1",
+    ).toString("utf8");
+    expect(decoded).not.toContain("<script>");
+    expect(decoded).toContain("Rentas &lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; Cía");
+  });
+
+  it("leaves the invitation pending when the user cannot join the tenant", async () => {
+    const { tenant, token } = await invite("Inmobiliaria Norte", "luis@example.test");
+    const [user] = await testDb.db.insert(users).values({ id: "luis", email: "luis@example.test" }).returning();
+    vi.spyOn(storage, "upsertUser").mockRejectedValueOnce(new Error("connection lost"));
+
+    await expect(acceptTeamInvitation(token, user)).rejects.toThrow("connection lost");
+    const [invitation] = await testDb.db.select().from(teamInvitations).where(eq(teamInvitations.tenantId, tenant.id));
+    expect(invitation.status).toBe("pending");
+
+    expect((await acceptTeamInvitation(token, user)).id).toBe(tenant.id);
+    const [joined] = await testDb.db.select().from(users).where(eq(users.id, user.id));
+    expect(joined).toMatchObject({ tenantId: tenant.id, role: "collections" });
+  });
+});
@@ -0,0 +1,135 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "../db";
+import { storage } from "../storage";
+import { sendTeamInvitation } from "./emailService";
+import type { TeamInvitation, User } from "@shared/schema";
+
+const INVITATION_TTL_DAYS = 7;
+
+const ROLE_LABELS: Record<User["role"], string> = {
+  owner: "Propietario",
+  admin: "Administrador",
+  collections: "Cobranza",
+};
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function isInvitationExpired(invitation: TeamInvitation): boolean {
+  return new Date(invitation.expiresAt).getTime() < Date.now();
+}
+
+export async function createTeamInvitation(
+  tenantId: string,
+  invitedByUserId: string,
+  email: string,
+  role: User["role"]
+) {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const existingUser = await storage.getUserByEmail(normalizedEmail);
+  if (existingUser?.tenantId === tenantId) {
+    throw new Error("Este usuario ya es miembro del equipo");
+  }
+
+  const invitations = await storage.getTeamInvitations(tenantId);
+  const pendingInvitation = invitations.find(
+    inv => inv.email === normalizedEmail && inv.status === "pending" && !isInvitationExpired(inv)
+  );
+  if (pendingInvitation) {
+    throw new Error("Ya existe una invitación pendiente para este correo");
+  }
+
+  const tenant = await storage.getTenant(tenantId);
+  if (!tenant) {
+    throw new Error("Tenant not found");
+  }
+
+  // Only the hash is stored; the raw token travels in the invitation link
+  const token = randomBytes(32).toString("hex");
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  const invitation = await storage.createTeamInvitation({
+    tenantId,
+    email: normalizedEmail,
+    role,
+    tokenHash: hashInvitationToken(token),
+    status: "pending",
+    invitedByUserId,
+    expiresAt,
+  });
+
+  const inviteUrl = `${process.env.APP_URL || 'http://localhost:5000'}/?invite=${token}`;
+  let emailSent = true;
+
+  try {
+    await sendTeamInvitation(tenantId, normalizedEmail, tenant.name, ROLE_LABELS[role], inviteUrl);
+  } catch (error) {
+    console.error(`Failed to send invitation email to ${normalizedEmail}:`, error);
+    emailSent = false;
+  }
+
+  return { invitation, inviteUrl, emailSent };
+}
+
+export async function getInvitationPreview(token: string) {
+  const invitation = await storage.getTeamInvitationByTokenHash(hashInvitationToken(token));
+  if (!invitation) {
+    return undefined;
+  }
+
+  const tenant = await storage.getTenant(invitation.tenantId);
+
+  return {
+    email: invitation.email,
+    role: invitation.role,
+    status: invitation.status === "pending" && isInvitationExpired(invitation) ? "expired" : invitation.status,
+    expiresAt: invitation.expiresAt,
+    tenantName: tenant?.name ?? null,
+  };
+}
+
+export async function acceptTeamInvitation(token: string, user: User) {
+  const invitation = await storage.getTeamInvitationByTokenHash(hashInvitationToken(token));
+  if (!invitation) {
+    throw new Error("Invitación no encontrada");
+  }
+
+  if (invitation.status !== "pending") {
+    throw new Error("Esta invitación ya no es válida");
+  }
+
+  if (isInvitationExpired(invitation)) {
+    throw new Error("Esta invitación ha expirado");
+  }
+
+  if (!user.email || user.email.toLowerCase() !== invitation.email) {
+    throw new Error("Esta invitación fue enviada a otro correo electrónico");
+  }
+
+  if (user.tenantId) {
+    throw new Error("User already has a tenant");
+  }
+
+  // Redeeming the token and joining the tenant happen together, or not at all
+  return await db.transaction(async () => {
+    const accepted = await storage.acceptTeamInvitation(invitation.id, user.id);
+    if (!accepted) {
+      throw new Error("Esta invitación ya no es válida");
+    }
+
+    await storage.upsertUser({
+      id: user.id,
+      tenantId: invitation.tenantId,
+      role: invitation.role,
+    });
+
+    const tenant = await storage.getTenant(invitation.tenantId);
+    if (!tenant) {
+      throw new Error("Tenant not found");
+    }
+
+    return tenant;
+  });
+}
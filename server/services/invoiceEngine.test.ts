@@ -0,0 +1,122 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { contracts, invoiceCharges, invoices, taxProfiles, tenants } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { addManualCharge, applyLateFee, generateDueInvoices, recalcInvoiceTotals, removeManualCharge } = await import("./invoiceEngine");
+
+async function invoicesOf(contractId: string) {
+  const rows = await testDb.db.select().from(invoices).where(eq(invoices.contractId, contractId)).orderBy(invoices.periodStart);
+  return await Promise.all(rows.map(async (invoice) => ({
+    number: invoice.number,
+    periodStart: invoice.periodStart,
+    charges: (await testDb.db.select().from(invoiceCharges).where(eq(invoiceCharges.invoiceId, invoice.id))).length,
+  })));
+}
+
+describe("generateDueInvoices", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  beforeEach(async () => {
+    await testDb.db.delete(tenants);
+  });
+
+  it("issues each due period once, with its charges", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Norte");
+
+    const issued = await generateDueInvoices(lease.contract.id, lease.tenant.id, "2025-02-15");
+    expect(await generateDueInvoices(lease.contract.id, lease.tenant.id, "2025-02-15")).toEqual([]);
+
+    expect(issued.map((invoice) => invoice.number)).toEqual(["C-1-001", "C-1-002"]);
+    expect(await invoicesOf(lease.contract.id)).toEqual([
+      { number: "C-1-001", periodStart: "2025-01-01", charges: 1 },
+      { number: "C-1-002", periodStart: "2025-02-01", charges: 1 },
+    ]);
+  });
+
+  it("retries with a suffix when another invoice of the tenant has the number", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Norte");
+    const [other] = await testDb.db.insert(contracts).values({ ...lease.contract, id: undefined, number: "C-2" }).returning();
+    await seedInvoice(testDb.db, { ...lease, contract: other }, { number: "C-1-001", dueDate: "2025-01-05" });
+
+    const issued = await generateDueInvoices(lease.contract.id, lease.tenant.id, "2025-01-15");
+
+    expect(issued.map((invoice) => invoice.number)).toEqual(["C-1-001-2"]);
+    expect(await invoicesOf(lease.contract.id)).toEqual([{ number: "C-1-001-2", periodStart: "2025-01-01", charges: 1 }]);
+  });
+});
+
+describe("recalcInvoiceTotals", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  it("keeps the tax rates the invoice was issued with when the profile changes", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Sur");
+    const [profile] = await testDb.db.insert(taxProfiles).values({ tenantId: lease.tenant.id, name: "Régimen común", ivaRate: "19" }).returning();
+    await testDb.db.update(contracts).set({ taxProfileId: profile.id }).where(eq(contracts.id, lease.contract.id));
+    const [issued] = await generateDueInvoices(lease.contract.id, lease.tenant.id, "2025-01-15");
+    expect(issued).toMatchObject({ ivaRate: "19.0000", tax: "285000.00", totalAmount: "1785000.00" });
+
+    await testDb.db.update(taxProfiles).set({ ivaRate: "0" }).where(eq(taxProfiles.id, profile.id));
+
+    const totals = await recalcInvoiceTotals(issued.id);
+    expect(totals.tax).toBe(285000);
+    expect(totals.total).toBe(1785000);
+  });
+});
+
+describe("manual charges", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  it("settles a partly paid invoice when the charge it still owed is removed", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Centro");
+    const [issued] = await generateDueInvoices(lease.contract.id, lease.tenant.id, "2025-01-15");
+    const charge = await addManualCharge(issued, { description: "Parqueadero", category: "other", amount: "100000" });
+    await storage.createPayment({ tenantId: lease.tenant.id, invoiceId: issued.id, amount: "1500000", paymentDate: "2025-01-05", method: "transferencia" });
+    expect((await storage.getInvoice(issued.id, lease.tenant.id))?.status).not.toBe("paid");
+
+    expect(await removeManualCharge(issued, charge.id)).toBe(true);
+
+    expect(await storage.getInvoice(issued.id, lease.tenant.id)).toMatchObject({ totalAmount: "1500000.00", status: "paid" });
+  });
+
+  it("reopens a paid invoice that gets a new charge", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Oeste");
+    const [issued] = await generateDueInvoices(lease.contract.id, lease.tenant.id, "2025-01-15");
+    await storage.createPayment({ tenantId: lease.tenant.id, invoiceId: issued.id, amount: "1500000", paymentDate: "2025-01-05", method: "transferencia" });
+
+    await addManualCharge(issued, { description: "Parqueadero", category: "other", amount: "100000" });
+
+    expect((await storage.getInvoice(issued.id, lease.tenant.id))?.status).not.toBe("paid");
+  });
+});
+
+describe("applyLateFee", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  it("charges the contract's late fee once when the job runs again", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Centro");
+    const [issued] = await generateDueInvoices(lease.contract.id, lease.tenant.id, "2025-01-15");
+
+    expect(await applyLateFee(issued.id, lease.tenant.id)).toBe(50000);
+    expect(await applyLateFee(issued.id, lease.tenant.id)).toBe(0);
+
+    const lateFees = await testDb.db.select().from(invoiceCharges)
+      .where(eq(invoiceCharges.invoiceId, issued.id))
+      .then((charges) => charges.filter((charge) => charge.category === "late_fee"));
+    expect(lateFees).toHaveLength(1);
+    expect(await storage.getInvoice(issued.id, lease.tenant.id)).toMatchObject({ lateFee: "50000.00", totalAmount: "1550000.00" });
+  });
+});
@@ -1,70 +1,428 @@
 import { db } from "../db";
-import { contracts, invoices, invoiceCharges, insertInvoiceSchema, insertInvoiceChargeSchema } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { contracts, invoices, invoiceCharges, tenants, priceIndexValues, rentEscalations, recurringCharges, type Contract, type CreateInvoiceCharge, type Invoice, type InvoiceCharge, type RecurringCharge, type Tenant } from "@shared/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { storage } from "../storage";
+import { getErrorMessage, isUniqueViolation } from "../errors";
+import { buildRentSchedule, getRentForPeriod, describeRentStep, type RentSchedule, type RentStep } from "./rentEscalation";
+import { computeChargeTaxes, getContractTaxProfile, invoiceTaxRates, taxRateColumns, type ChargeTaxes, type TaxRates } from "./taxService";
+import { canBeTaxed, defaultTaxable, totalForCategory } from "./chargeCategories";
 
-export async function createMonthlyInvoices(contractId: string) {
+export interface BillingPeriod {
+  sequence: number;
+  periodStart: string;
+  periodEnd: string;
+  issueDate: string;
+  dueDate: string;
+}
+
+export type PlannedCharge = Pick<InvoiceCharge, 'description' | 'category' | 'quantity' | 'unitPrice' | 'amount' | 'sourceType' | 'sourceId' | 'taxable'>;
+
+export interface PlannedInvoice extends BillingPeriod {
+  number: string;
+  subtotal: string;
+  otherCharges: string;
+  tax: string;
+  withholdings: string;
+  totalAmount: string;
+  charges: (PlannedCharge & ChargeTaxes)[];
+  escalation?: RentStep;
+  // Set when the rent for the period cannot be computed yet (missing index value)
+  blockedReason?: string;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function parseDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// One period per calendar month touched by the contract, clipped to its start date and
+// to its end (or termination) date. Invoices are issued `leadDays` before their period starts.
+export function getBillingPeriods(
+  contract: Pick<Contract, 'startDate' | 'endDate' | 'paymentDay'> & Partial<Pick<Contract, 'terminationDate'>>,
+  leadDays: number,
+): BillingPeriod[] {
+  const contractStart = parseDate(contract.startDate);
+  const contractEnd = parseDate(contract.terminationDate ?? contract.endDate);
+  const periods: BillingPeriod[] = [];
+
+  let year = contractStart.getUTCFullYear();
+  let month = contractStart.getUTCMonth();
+  let sequence = 1;
+
+  while (Date.UTC(year, month, 1) <= contractEnd.getTime()) {
+    const monthStart = new Date(Date.UTC(year, month, 1));
+    const monthEnd = new Date(Date.UTC(year, month + 1, 0));
+    const periodStart = monthStart < contractStart ? contractStart : monthStart;
+    const periodEnd = monthEnd > contractEnd ? contractEnd : monthEnd;
+
+    // If payment day is beyond the month's days, use last day of month
+    const dueDate = new Date(Date.UTC(year, month, Math.min(contract.paymentDay, monthEnd.getUTCDate())));
+    const issueDate = new Date(periodStart);
+    issueDate.setUTCDate(issueDate.getUTCDate() - leadDays);
+
+    periods.push({
+      sequence,
+      periodStart: toDateString(periodStart),
+      periodEnd: toDateString(periodEnd),
+      issueDate: toDateString(issueDate),
+      dueDate: toDateString(dueDate),
+    });
+
+    month++;
+    if (month > 11) {
+      month = 0;
+      year++;
+    }
+    sequence++;
+  }
+
+  return periods;
+}
+
+export type ProrationMethod = Tenant['prorationMethod'];
+
+// Share of a monthly rent for the days from `from` to `to` (inclusive, same month).
+// `actual_days` divides by the real length of the month; `days_30` counts every month
+// as 30 days, with the last day of the month standing for day 30.
+export function prorateRent(rent: string, from: string, to: string, method: ProrationMethod = 'actual_days') {
+  const start = parseDate(from);
+  const end = parseDate(to);
+  const daysInMonth = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).getUTCDate();
+
+  let days: number;
+  let basis: number;
+  if (method === 'days_30') {
+    const endDay = end.getUTCDate() === daysInMonth ? 30 : Math.min(end.getUTCDate(), 30);
+    days = endDay - Math.min(start.getUTCDate(), 30) + 1;
+    basis = 30;
+  } else {
+    days = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+    basis = daysInMonth;
+  }
+
+  const amount = Math.round(parseFloat(rent) * days / basis * 100) / 100;
+  return { days, basis, amount: amount.toFixed(2) };
+}
+
+export function describeProration(rent: string, from: string, to: string, proration: { days: number; basis: number }): string {
+  const range = `${parseDate(from).getUTCDate()} al ${parseDate(to).getUTCDate()}`;
+  return `proporcional del ${range}: ${proration.days}/${proration.basis} días × $${parseFloat(rent).toLocaleString('es-CO')}`;
+}
+
+function isFullMonth(period: Pick<BillingPeriod, 'periodStart' | 'periodEnd'>): boolean {
+  const start = parseDate(period.periodStart);
+  const end = parseDate(period.periodEnd);
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).getUTCDate();
+  return start.getUTCDate() === 1 && end.getUTCDate() === lastDay;
+}
+
+export function invoiceNumber(contract: Contract, sequence: number): string {
+  return `${contract.number}-${String(sequence).padStart(3, '0')}`;
+}
+
+// A recurring charge is billed in every period that overlaps its start and end dates
+export function isRecurringChargeActive(
+  charge: Pick<RecurringCharge, 'startDate' | 'endDate'>,
+  period: Pick<BillingPeriod, 'periodStart' | 'periodEnd'>,
+): boolean {
+  return charge.startDate <= period.periodEnd && (!charge.endDate || charge.endDate >= period.periodStart);
+}
+
+// Signed monthly amount of a recurring charge: discounts reduce the invoice
+export function recurringChargeAmount(charge: Pick<RecurringCharge, 'category' | 'amount'>): string {
+  const amount = Math.abs(parseFloat(charge.amount));
+  return (charge.category === 'discount' ? -amount : amount).toFixed(2);
+}
+
+// Extras follow the rent: billed whole on full months and by day on partial ones
+function planRecurringCharge(
+  charge: RecurringCharge,
+  period: BillingPeriod,
+  monthLabel: string,
+  fullMonth: boolean,
+  prorationMethod: ProrationMethod,
+): PlannedCharge {
+  const monthly = recurringChargeAmount(charge);
+  let amount = monthly;
+  let note = '';
+
+  if (!fullMonth) {
+    const proration = prorateRent(monthly, period.periodStart, period.periodEnd, prorationMethod);
+    note = ` (${describeProration(monthly, period.periodStart, period.periodEnd, proration)})`;
+    amount = proration.amount;
+  }
+
+  return {
+    description: `${charge.description} - ${monthLabel}${note}`,
+    category: charge.category,
+    quantity: fullMonth ? '1' : null,
+    unitPrice: fullMonth ? monthly : null,
+    amount,
+    sourceType: 'recurring_charge',
+    sourceId: charge.id,
+    taxable: charge.taxable,
+  };
+}
+
+function planInvoice(
+  contract: Contract,
+  period: BillingPeriod,
+  schedule: RentSchedule,
+  prorationMethod: ProrationMethod,
+  taxRates: TaxRates | null,
+  extras: RecurringCharge[],
+): PlannedInvoice {
+  const monthLabel = parseDate(period.periodStart).toLocaleString('es-ES', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+  const number = invoiceNumber(contract, period.sequence);
+  const periodRent = getRentForPeriod(schedule, period.periodStart);
+
+  if ('blockedReason' in periodRent) {
+    return {
+      ...period,
+      number,
+      subtotal: "0",
+      otherCharges: "0",
+      tax: "0",
+      withholdings: "0",
+      totalAmount: "0",
+      charges: [],
+      blockedReason: periodRent.blockedReason,
+    };
+  }
+
+  const notes: string[] = [];
+  let amount = periodRent.rent;
+  const fullMonth = isFullMonth(period);
+
+  // First and last periods that cover part of a month are billed by day
+  if (!fullMonth) {
+    const proration = prorateRent(periodRent.rent, period.periodStart, period.periodEnd, prorationMethod);
+    notes.push(describeProration(periodRent.rent, period.periodStart, period.periodEnd, proration));
+    amount = proration.amount;
+  }
+
+  // The first invoice at a new rent explains the change
+  const step = periodRent.step;
+  if (step && step.effectiveDate === period.periodStart) {
+    notes.push(describeRentStep(step));
+  }
+
+  const note = notes.length > 0 ? ` (${notes.join('; ')})` : '';
+  const charges: PlannedCharge[] = [
+    {
+      description: `Canon de Arrendamiento - ${monthLabel}${note}`,
+      category: 'rent',
+      quantity: fullMonth ? '1' : null,
+      unitPrice: fullMonth ? periodRent.rent : null,
+      amount,
+      sourceType: 'contract',
+      sourceId: contract.id,
+      taxable: true,
+    },
+    ...extras
+      .filter((charge) => isRecurringChargeActive(charge, period))
+      .map((charge) => planRecurringCharge(charge, period, monthLabel, fullMonth, prorationMethod)),
+  ];
+  const totals = summarizeCharges(charges, taxRates);
+
+  return {
+    ...period,
+    number,
+    subtotal: totals.subtotal.toFixed(2),
+    otherCharges: totals.otherCharges.toFixed(2),
+    tax: totals.tax.toFixed(2),
+    withholdings: totals.withholdings.toFixed(2),
+    totalAmount: totals.total.toFixed(2),
+    charges: charges.map((charge, index) => ({ ...charge, ...totals.lines[index] })),
+    escalation: step,
+  };
+}
+
+async function loadContractForBilling(contractId: string, tenantId: string) {
   const contract = await db.query.contracts.findFirst({
-    where: eq(contracts.id, contractId),
+    where: and(eq(contracts.id, contractId), eq(contracts.tenantId, tenantId)),
   });
 
   if (!contract) {
     throw new Error("Contract not found");
   }
 
-  const startDate = new Date(contract.startDate);
-  const endDate = new Date(contract.endDate);
-  const createdInvoices = [];
+  const tenant = await db.query.tenants.findFirst({
+    where: eq(tenants.id, tenantId),
+  });
 
-  let currentDate = new Date(startDate);
-  let invoiceNumber = 1;
+  const existing = await db.select({ number: invoices.number, periodStart: invoices.periodStart })
+    .from(invoices)
+    .where(eq(invoices.contractId, contractId));
 
-  while (currentDate <= endDate) {
-    const issueDate = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1);
-    const dueDate = new Date(currentDate.getFullYear(), currentDate.getMonth(), contract.paymentDay);
-    
-    // If payment day is beyond the month's days, use last day of month
-    if (dueDate.getMonth() !== currentDate.getMonth()) {
-      dueDate.setDate(0); // Last day of previous month
+  // Invoices generated before periods were tracked have no periodStart; their number
+  // still identifies the period, so they count as already invoiced
+  const invoicedPeriods = new Set<string>();
+  const existingNumbers = new Set(existing.map((row) => row.number));
+  for (const period of getBillingPeriods(contract, 0)) {
+    if (existingNumbers.has(invoiceNumber(contract, period.sequence))) {
+      invoicedPeriods.add(period.periodStart);
+    }
+  }
+  for (const row of existing) {
+    if (row.periodStart) {
+      invoicedPeriods.add(row.periodStart);
     }
+  }
 
-    const invoiceData = {
-      tenantId: contract.tenantId,
-      number: `${contract.number}-${String(invoiceNumber).padStart(3, '0')}`,
-      contractId: contract.id,
-      tenantContactId: contract.tenantContactId,
-      issueDate: issueDate.toISOString().split('T')[0],
-      dueDate: dueDate.toISOString().split('T')[0],
-      subtotal: contract.rentAmount.toString(),
-      tax: "0",
-      otherCharges: "0",
-      lateFee: "0",
-      totalAmount: contract.rentAmount.toString(),
-      amountPaid: "0",
-      status: "issued" as const,
-    };
+  const indexValues = contract.escalationType === "ipc" || contract.escalationType === "inpc"
+    ? await db.query.priceIndexValues.findMany({
+      where: and(eq(priceIndexValues.tenantId, tenantId), eq(priceIndexValues.indexType, contract.escalationType)),
+    })
+    : [];
 
-    const [newInvoice] = await db.insert(invoices).values(invoiceData).returning();
-    
-    // Create default charge for rent
-    await db.insert(invoiceCharges).values({
-      invoiceId: newInvoice.id,
-      description: `Canon de Arrendamiento - ${currentDate.toLocaleString('es-ES', { month: 'long', year: 'numeric' })}`,
-      amount: contract.rentAmount.toString(),
-    });
+  return {
+    contract,
+    leadDays: tenant?.invoiceLeadDays ?? 5,
+    prorationMethod: tenant?.prorationMethod ?? 'actual_days',
+    taxRates: await getContractTaxProfile(contract),
+    extras: await db.query.recurringCharges.findMany({
+      where: and(eq(recurringCharges.contractId, contractId), eq(recurringCharges.tenantId, tenantId)),
+    }),
+    invoicedPeriods,
+    schedule: buildRentSchedule(contract, indexValues),
+  };
+}
+
+// Invoices the contract still needs, in period order, without persisting anything
+export async function previewUpcomingInvoices(contractId: string, tenantId: string, limit = 3): Promise<PlannedInvoice[]> {
+  const { contract, leadDays, prorationMethod, taxRates, extras, invoicedPeriods, schedule } = await loadContractForBilling(contractId, tenantId);
+
+  return getBillingPeriods(contract, leadDays)
+    .filter((period) => !invoicedPeriods.has(period.periodStart))
+    .slice(0, limit)
+    .map((period) => planInvoice(contract, period, schedule, prorationMethod, taxRates, extras));
+}
+
+// Issues every invoice whose issue date has arrived. Keyed by contract + period start,
+// so running it again (or concurrently) never duplicates a period.
+export async function generateDueInvoices(contractId: string, tenantId: string, asOf = toDateString(new Date())): Promise<Invoice[]> {
+  const { contract, leadDays, prorationMethod, taxRates, extras, invoicedPeriods, schedule } = await loadContractForBilling(contractId, tenantId);
+  const createdInvoices: Invoice[] = [];
+
+  const duePeriods = getBillingPeriods(contract, leadDays)
+    .filter((period) => period.issueDate <= asOf && !invoicedPeriods.has(period.periodStart));
+
+  for (const period of duePeriods) {
+    const planned = planInvoice(contract, period, schedule, prorationMethod, taxRates, extras);
+
+    // Never issue an invoice with a guessed rent; it goes out once the index is loaded
+    if (planned.blockedReason) {
+      console.warn(`Invoice ${planned.number} on hold: ${planned.blockedReason}`);
+      break;
+    }
+
+    if (planned.escalation) {
+      await recordRentEscalation(contract, planned.escalation);
+    }
+
+    const newInvoice = await issuePlannedInvoice(contract, planned, taxRates);
+    if (!newInvoice) {
+      continue;
+    }
 
     createdInvoices.push(newInvoice);
-    
-    // Move to next month
-    currentDate.setMonth(currentDate.getMonth() + 1);
-    invoiceNumber++;
   }
 
   return createdInvoices;
 }
 
-export async function applyLateFee(invoiceId: string) {
+// Writes the invoice and its lines together. The period index makes a second run a no-op;
+// a number already taken by another invoice of the tenant (a manual one, or the same
+// contract number reused) is retried with a suffix, each attempt in its own savepoint
+async function issuePlannedInvoice(contract: Contract, planned: PlannedInvoice, taxRates: TaxRates | null): Promise<Invoice | null> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await db.transaction(async () => {
+        const [newInvoice] = await db.insert(invoices).values({
+          tenantId: contract.tenantId,
+          number: attempt === 0 ? planned.number : `${planned.number}-${attempt + 1}`,
+          contractId: contract.id,
+          tenantContactId: contract.tenantContactId,
+          issueDate: planned.issueDate,
+          dueDate: planned.dueDate,
+          periodStart: planned.periodStart,
+          periodEnd: planned.periodEnd,
+          subtotal: planned.subtotal,
+          tax: planned.tax,
+          withholdings: planned.withholdings,
+          otherCharges: planned.otherCharges,
+          lateFee: "0",
+          totalAmount: planned.totalAmount,
+          amountPaid: "0",
+          ...taxRateColumns(taxRates),
+          status: "issued" as const,
+        })
+          .onConflictDoNothing({ target: [invoices.contractId, invoices.periodStart] })
+          .returning();
+
+        if (!newInvoice) {
+          return null;
+        }
+
+        await db.insert(invoiceCharges).values(
+          planned.charges.map((charge) => ({ invoiceId: newInvoice.id, ...charge })),
+        );
+
+        await storage.createAuditLog({
+          tenantId: contract.tenantId,
+          action: "create",
+          entity: "invoice",
+          entityId: newInvoice.id,
+          meta: { after: newInvoice },
+        });
+        return newInvoice;
+      });
+    } catch (error: unknown) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+      if (attempt >= 2) {
+        throw new Error(`Invoice number ${planned.number} is taken: ${getErrorMessage(error)}`);
+      }
+    }
+  }
+}
+
+async function recordRentEscalation(contract: Contract, step: RentStep) {
+  await db.insert(rentEscalations).values({
+    tenantId: contract.tenantId,
+    contractId: contract.id,
+    ...step,
+  }).onConflictDoNothing({ target: [rentEscalations.contractId, rentEscalations.effectiveDate] });
+}
+
+// Scheduler entry point: issues due invoices for every contract currently in force
+export async function generateDueInvoicesForActiveContracts(asOf = toDateString(new Date())) {
+  const activeContracts = await db.query.contracts.findMany({
+    where: inArray(contracts.status, ["active", "expiring"]),
+  });
+
+  let created = 0;
+  for (const contract of activeContracts) {
+    try {
+      const issued = await generateDueInvoices(contract.id, contract.tenantId, asOf);
+      created += issued.length;
+    } catch (error) {
+      console.error(`Failed to generate invoices for contract ${contract.number}:`, error);
+    }
+  }
+
+  return { contracts: activeContracts.length, created };
+}
+
+export async function applyLateFee(invoiceId: string, tenantId: string) {
   const invoice = await db.query.invoices.findFirst({
-    where: eq(invoices.id, invoiceId),
+    where: and(eq(invoices.id, invoiceId), eq(invoices.tenantId, tenantId)),
     with: {
       contract: true,
     },
@@ -85,33 +443,69 @@ export async function applyLateFee(invoiceId: string) {
     lateFeeAmount = parseFloat(contract.lateFeeValue);
   }
 
-  if (lateFeeAmount > 0) {
-    const newLateFee = lateFeeAmount.toFixed(2);
-    const newTotal = (parseFloat(invoice.subtotal) + parseFloat(invoice.tax) + parseFloat(invoice.otherCharges) + lateFeeAmount).toFixed(2);
-
+  return await db.transaction(async () => {
     await db.update(invoices)
-      .set({
-        lateFee: newLateFee,
-        totalAmount: newTotal,
-        status: "overdue",
-      })
+      .set({ status: "overdue" })
       .where(eq(invoices.id, invoiceId));
 
-    // Add late fee charge
-    await db.insert(invoiceCharges).values({
+    if (lateFeeAmount <= 0) {
+      return 0;
+    }
+    const [charge] = await db.insert(invoiceCharges).values({
       invoiceId: invoiceId,
       description: `Mora por pago tardío (${contract.lateFeeType === 'percent' ? contract.lateFeeValue + '%' : 'Monto fijo'})`,
-      amount: newLateFee,
-    });
-  } else {
-    await db.update(invoices)
-      .set({ status: "overdue" })
-      .where(eq(invoices.id, invoiceId));
-  }
+      category: 'late_fee',
+      amount: lateFeeAmount.toFixed(2),
+      sourceType: 'contract',
+      sourceId: contract.id,
+      taxable: false,
+    }).onConflictDoNothing().returning();
+    // Already charged by an earlier run
+    if (!charge) {
+      return 0;
+    }
+    await recalcInvoiceTotals(invoiceId);
+    return lateFeeAmount;
+  });
+}
 
-  return lateFeeAmount;
+export type ChargeTotals = {
+  subtotal: number;
+  otherCharges: number;
+  lateFee: number;
+  tax: number;
+  withholdings: number;
+  total: number;
+  // Per-line IVA and withholdings, in the order of the charges given
+  lines: ChargeTaxes[];
+};
+
+// Invoice totals from its lines: each category adds to its own total, and lines that
+// can be taxed carry IVA and withholdings at the given rates
+export function summarizeCharges(
+  charges: Pick<InvoiceCharge, 'category' | 'amount' | 'taxable'>[],
+  taxRates: TaxRates | null,
+): ChargeTotals {
+  const totals = { subtotal: 0, otherCharges: 0, lateFee: 0, tax: 0 };
+  let withholdings = 0;
+
+  const lines = charges.map((charge) => {
+    const taxes = computeChargeTaxes(charge.amount, taxRates, charge.taxable && canBeTaxed(charge.category));
+    totals[totalForCategory(charge.category)] += parseFloat(charge.amount);
+    totals.tax += parseFloat(taxes.taxAmount);
+    withholdings += parseFloat(taxes.withholdingAmount);
+    return taxes;
+  });
+
+  return {
+    ...totals,
+    withholdings,
+    total: totals.subtotal + totals.otherCharges + totals.lateFee + totals.tax - withholdings,
+    lines,
+  };
 }
 
+// Rebuilds the invoice totals from its charge lines, taxed at the rates it was issued with
 export async function recalcInvoiceTotals(invoiceId: string) {
   const invoice = await db.query.invoices.findFirst({
     where: eq(invoices.id, invoiceId),
@@ -124,27 +518,98 @@ export async function recalcInvoiceTotals(invoiceId: string) {
     throw new Error("Invoice not found");
   }
 
-  let subtotal = 0;
-  let lateFee = 0;
+  const totals = summarizeCharges(invoice.charges, invoiceTaxRates(invoice));
 
-  for (const charge of invoice.charges) {
-    const amount = parseFloat(charge.amount);
-    if (charge.description.toLowerCase().includes('mora')) {
-      lateFee += amount;
-    } else {
-      subtotal += amount;
+  for (let index = 0; index < invoice.charges.length; index++) {
+    const charge = invoice.charges[index];
+    const taxes = totals.lines[index];
+    if (taxes.taxAmount !== charge.taxAmount || taxes.withholdingAmount !== charge.withholdingAmount) {
+      await db.update(invoiceCharges)
+        .set(taxes)
+        .where(eq(invoiceCharges.id, charge.id));
     }
   }
 
-  const total = subtotal + parseFloat(invoice.tax) + parseFloat(invoice.otherCharges) + lateFee;
-
   await db.update(invoices)
     .set({
-      subtotal: subtotal.toFixed(2),
-      lateFee: lateFee.toFixed(2),
-      totalAmount: total.toFixed(2),
+      subtotal: totals.subtotal.toFixed(2),
+      otherCharges: totals.otherCharges.toFixed(2),
+      tax: totals.tax.toFixed(2),
+      withholdings: totals.withholdings.toFixed(2),
+      lateFee: totals.lateFee.toFixed(2),
+      totalAmount: totals.total.toFixed(2),
     })
     .where(eq(invoices.id, invoiceId));
 
-  return { subtotal, lateFee, total };
+  // A new total can settle the invoice or reopen it; drafts stay drafts until issued
+  if (invoice.status !== "draft") {
+    await storage.recalculateInvoicePayments(invoiceId, invoice.tenantId);
+  }
+
+  const { subtotal, otherCharges, lateFee, tax, withholdings, total } = totals;
+  return { subtotal, otherCharges, lateFee, tax, withholdings, total };
+}
+
+// Invoices still being collected; paid and void invoices are closed to new lines
+const editableStatuses: Invoice['status'][] = ["draft", "issued", "overdue", "partial"];
+
+export function canEditCharges(invoice: Pick<Invoice, 'status'>): boolean {
+  return editableStatuses.includes(invoice.status);
+}
+
+export async function addManualCharge(invoice: Invoice, input: CreateInvoiceCharge): Promise<InvoiceCharge> {
+  const amount = input.quantity !== undefined && input.unitPrice !== undefined
+    ? Math.round(parseFloat(input.quantity) * parseFloat(input.unitPrice) * 100) / 100
+    : parseFloat(input.amount!);
+
+  // Discounts always reduce the invoice
+  const sign = input.category === 'discount' ? -1 : 1;
+
+  const [charge] = await db.insert(invoiceCharges).values({
+    invoiceId: invoice.id,
+    description: input.description,
+    category: input.category,
+    quantity: input.quantity ?? null,
+    unitPrice: input.unitPrice !== undefined ? (sign * Math.abs(parseFloat(input.unitPrice))).toFixed(2) : null,
+    amount: (sign * Math.abs(amount)).toFixed(2),
+    sourceType: 'manual',
+    taxable: input.taxable ?? defaultTaxable(input.category),
+  }).returning();
+
+  await recalcInvoiceTotals(invoice.id);
+  await storage.createAuditLog({
+    tenantId: invoice.tenantId,
+    action: "update",
+    entity: "invoice",
+    entityId: invoice.id,
+    meta: { after: { chargeId: charge.id, category: charge.category, description: charge.description, amount: charge.amount } },
+  });
+
+  return charge;
+}
+
+// Only lines added by hand can be removed; contract and OCR lines are fixed once issued
+export async function removeManualCharge(invoice: Invoice, chargeId: string): Promise<boolean> {
+  const [deleted] = await db.delete(invoiceCharges)
+    .where(and(
+      eq(invoiceCharges.id, chargeId),
+      eq(invoiceCharges.invoiceId, invoice.id),
+      eq(invoiceCharges.sourceType, 'manual'),
+    ))
+    .returning();
+
+  if (!deleted) {
+    return false;
+  }
+
+  await recalcInvoiceTotals(invoice.id);
+  await storage.createAuditLog({
+    tenantId: invoice.tenantId,
+    action: "update",
+    entity: "invoice",
+    entityId: invoice.id,
+    meta: { before: { chargeId: deleted.id, category: deleted.category, description: deleted.description, amount: deleted.amount } },
+  });
+
+  return true;
 }
@@ -0,0 +1,123 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { outboxDir } from "./emailTransport";
+import type { MessagingChannel, MessagingProviderName } from "@shared/schema";
+
+// Business-initiated WhatsApp messages must use a template approved in Meta's WhatsApp Manager
+export interface WhatsAppTemplate {
+  name: string;
+  language: string;
+  parameters: string[]; // the template body's {{1}}, {{2}}… in order
+}
+
+export interface OutgoingMessage {
+  to: string; // E.164
+  text: string;
+  whatsappTemplate?: WhatsAppTemplate;
+  notificationId: string;
+}
+
+export interface MessagingProvider {
+  name: MessagingProviderName;
+  send(message: OutgoingMessage): Promise<{ messageId: string | null }>;
+}
+
+async function responseError(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.error?.message ?? body?.message ?? `${response.status} ${response.statusText}`;
+}
+
+// WhatsApp Business Cloud API. Delivery and read receipts, and STOP replies, come back through its webhook
+const whatsappCloudProvider: MessagingProvider = {
+  name: "whatsapp_cloud",
+  async send(message) {
+    const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+    const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+    if (!phoneNumberId || !accessToken) {
+      throw new Error("WhatsApp is not configured: WHATSAPP_PHONE_NUMBER_ID and WHATSAPP_ACCESS_TOKEN are required");
+    }
+
+    const template = message.whatsappTemplate;
+    const response = await fetch(
+      `https://graph.facebook.com/${process.env.WHATSAPP_API_VERSION || "v21.0"}/${phoneNumberId}/messages`,
+      {
+        method: "POST",
+        headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          messaging_product: "whatsapp",
+          to: message.to.replace(/^\+/, ""),
+          ...(template
+            ? {
+              type: "template",
+              template: {
+                name: template.name,
+                language: { code: template.language },
+                components: [{
+                  type: "body",
+                  parameters: template.parameters.map((text) => ({ type: "text", text })),
+                }],
+              },
+            }
+            : { type: "text", text: { body: message.text } }),
+        }),
+      },
+    );
+    if (!response.ok) {
+      throw new Error(await responseError(response));
+    }
+    const body = await response.json();
+    return { messageId: body.messages?.[0]?.id ?? null };
+  },
+};
+
+// Any SMS gateway that takes a JSON POST of { to, from, text } with a bearer key and answers with an id
+const smsHttpProvider: MessagingProvider = {
+  name: "sms_http",
+  async send(message) {
+    const url = process.env.SMS_API_URL;
+    if (!url) {
+      throw new Error("SMS is not configured: SMS_API_URL is required");
+    }
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.SMS_API_KEY && { Authorization: `Bearer ${process.env.SMS_API_KEY}` }),
+      },
+      body: JSON.stringify({ to: message.to, from: process.env.SMS_FROM, text: message.text }),
+    });
+    if (!response.ok) {
+      throw new Error(await responseError(response));
+    }
+    const body = await response.json().catch(() => null);
+    const id = body?.id ?? body?.messageId ?? body?.sid;
+    return { messageId: id != null ? String(id) : null };
+  },
+};
+
+// Writes each message as a .json file next to the email outbox instead of sending it
+function stubProvider(channel: MessagingChannel): MessagingProvider {
+  return {
+    name: "stub",
+    async send(message) {
+      const dir = outboxDir();
+      await mkdir(dir, { recursive: true });
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      await writeFile(
+        path.join(dir, `${stamp}-${message.notificationId}.${channel}.json`),
+        JSON.stringify({ channel, ...message }, null, 2),
+      );
+      return { messageId: `stub-${message.notificationId}` };
+    },
+  };
+}
+
+// MESSAGING_PROVIDER=live sends through WhatsApp Cloud and the SMS gateway, =stub writes files. Without it
+// production is live and every other environment is stubbed, like the email outbox
+export function getMessagingProvider(channel: MessagingChannel): MessagingProvider {
+  const mode = process.env.MESSAGING_PROVIDER ?? (process.env.NODE_ENV === "production" ? "live" : "stub");
+  if (mode !== "live") {
+    return stubProvider(channel);
+  }
+  return channel === "whatsapp" ? whatsappCloudProvider : smsHttpProvider;
+}
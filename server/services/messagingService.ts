@@ -0,0 +1,138 @@
+import { storage } from "../storage";
+import { countryFromLocale, toE164 } from "@shared/phone";
+import { getMessagingProvider, type WhatsAppTemplate } from "./messagingProvider";
+import { sendDunningEmail, type DunningEmailContext, type NotificationContext } from "./emailService";
+import { invoiceEmailVariables, renderTemplate } from "./emailTemplateService";
+import type { Contact, DunningChannel, DunningTemplate, MessagingChannel, NotificationChannel, Tenant } from "@shared/schema";
+
+interface Message {
+  to: string; // E.164
+  text: string;
+  whatsappTemplate?: WhatsAppTemplate;
+}
+
+// Logged like an email: queued before it is handed to the channel's provider, then marked sent or failed
+export async function sendMessage(channel: MessagingChannel, message: Message, context: NotificationContext) {
+  const provider = getMessagingProvider(channel);
+  const notification = await storage.createNotification({
+    tenantId: context.tenantId,
+    channel,
+    recipient: message.to,
+    contactId: context.contactId ?? null,
+    template: context.template,
+    subject: message.text,
+    provider: provider.name,
+    invoiceId: context.invoiceId ?? null,
+    contractId: context.contractId ?? null,
+    status: 'queued',
+  });
+
+  try {
+    const { messageId } = await provider.send({ ...message, notificationId: notification.id });
+    await storage.updateNotification(notification.id, context.tenantId, {
+      status: 'sent',
+      providerMessageId: messageId,
+      sentAt: new Date(),
+    });
+    return { success: true, notificationId: notification.id };
+  } catch (error: any) {
+    console.error(`Messaging Error (${provider.name}):`, error);
+    await storage.updateNotification(notification.id, context.tenantId, { status: 'failed', error: error.message });
+    throw new Error(`Failed to send ${channel} message: ${error.message}`);
+  }
+}
+
+// SMS text and stub output. WhatsApp sends the approved template of the same name instead, filled with
+// the contact's name, the invoice number, its balance and its due date
+const dunningMessageTexts: Record<DunningTemplate, string> = {
+  friendly: "{{company.name}}: Hola {{contact.fullName}}, su factura {{invoice.number}} por {{invoice.balance}} vence el {{invoice.dueDate}}.",
+  due_today: "{{company.name}}: Hola {{contact.fullName}}, su factura {{invoice.number}} por {{invoice.balance}} vence hoy.",
+  overdue: "{{company.name}}: Hola {{contact.fullName}}, su factura {{invoice.number}} venció el {{invoice.dueDate}}. Saldo pendiente: {{invoice.balance}}.",
+  firm: "{{company.name}}: Hola {{contact.fullName}}, su factura {{invoice.number}} completa {{invoice.daysOverdue}} días de mora. Saldo: {{invoice.balance}}. Por favor póngase al día o contáctenos.",
+  final: "{{company.name}}: Último aviso. Su factura {{invoice.number}} completa {{invoice.daysOverdue}} días de mora. Saldo: {{invoice.balance}}. Sin pago o acuerdo informaremos a su codeudor y a la aseguradora.",
+  guarantor_notice: "{{company.name}}: Hola {{contact.fullName}}, como codeudor de {{tenant.fullName}} le informamos que la factura {{invoice.number}} completa {{invoice.daysOverdue}} días de mora. Saldo: {{invoice.balance}}.",
+};
+
+export async function sendDunningMessage(channel: MessagingChannel, to: string, template: DunningTemplate, context: DunningEmailContext) {
+  const { invoice, contact } = context;
+  const company = await storage.getTenant(invoice.tenantId);
+  if (!company) {
+    throw new Error('Tenant not found');
+  }
+  const variables = invoiceEmailVariables(company, context);
+
+  return await sendMessage(channel, {
+    to,
+    text: renderTemplate(dunningMessageTexts[template], variables, false),
+    whatsappTemplate: {
+      name: `${process.env.WHATSAPP_TEMPLATE_PREFIX ?? ""}${template}`,
+      language: process.env.WHATSAPP_TEMPLATE_LANGUAGE || "es",
+      parameters: [variables["contact.fullName"], variables["invoice.number"], variables["invoice.balance"], variables["invoice.dueDate"]],
+    },
+  }, {
+    tenantId: invoice.tenantId,
+    template,
+    contactId: contact.id,
+    invoiceId: invoice.id,
+    contractId: invoice.contractId,
+  });
+}
+
+export type ReminderRoute = { channel: NotificationChannel; to: string } | { error: string };
+
+// Where a reminder to the contact goes on the given channel, or why it cannot be sent. WhatsApp needs an
+// opt-in for the contact's current number; SMS goes out unless the contact opted out
+export async function routeReminder(
+  channel: DunningChannel,
+  contact: Contact,
+  company: Pick<Tenant, "locale">,
+): Promise<ReminderRoute> {
+  const phone = toE164(contact.phone, countryFromLocale(company.locale));
+  const consents = phone ? await storage.getMessagingConsents(contact.id, contact.tenantId) : [];
+  const consent = (name: MessagingChannel) => consents.find((row) => row.channel === name);
+
+  const routes: Record<Exclude<DunningChannel, "auto">, () => ReminderRoute> = {
+    email: () => contact.email
+      ? { channel: "email", to: contact.email }
+      : { error: `${contact.fullName} has no email address` },
+    whatsapp: () => {
+      if (!phone) {
+        return { error: `${contact.fullName} has no valid phone number` };
+      }
+      const whatsapp = consent("whatsapp");
+      return whatsapp?.status === "opted_in" && whatsapp.phone === phone
+        ? { channel: "whatsapp", to: phone }
+        : { error: `${contact.fullName} has not opted in to WhatsApp on ${phone}` };
+    },
+    sms: () => {
+      if (!phone) {
+        return { error: `${contact.fullName} has no valid phone number` };
+      }
+      return consent("sms")?.status === "opted_out"
+        ? { error: `${contact.fullName} opted out of SMS` }
+        : { channel: "sms", to: phone };
+    },
+  };
+
+  if (channel !== "auto") {
+    return routes[channel]();
+  }
+  for (const name of ["whatsapp", "email", "sms"] as const) {
+    const route = routes[name]();
+    if (!("error" in route)) {
+      return route;
+    }
+  }
+  return { error: `${contact.fullName} has no email address and cannot receive WhatsApp or SMS` };
+}
+
+export async function sendReminder(
+  route: Exclude<ReminderRoute, { error: string }>,
+  template: DunningTemplate,
+  context: DunningEmailContext,
+) {
+  if (route.channel === "email") {
+    return await sendDunningEmail(template, context);
+  }
+  return await sendDunningMessage(route.channel, route.to, template, context);
+}
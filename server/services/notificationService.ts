@@ -0,0 +1,129 @@
+import { createHmac, timingSafeEqual, verify } from "crypto";
+import { storage } from "../storage";
+import type { InsertNotification } from "@shared/schema";
+
+// The fields we read from SendGrid's event webhook; custom args arrive as top-level fields
+export interface SendGridEvent {
+  event: string;
+  timestamp: number; // unix seconds
+  sg_message_id?: string; // "<x-message-id>.<filter suffix>"
+  notification_id?: string;
+  reason?: string;
+  response?: string;
+}
+
+// Checks SendGrid's signed event webhook: an ECDSA signature over the timestamp header followed by
+// the raw body, verified with the base64 public key shown in SendGrid's mail settings
+export function verifySendGridSignature(publicKey: string, payload: Buffer, signature: string, timestamp: string): boolean {
+  try {
+    return verify(
+      "sha256",
+      Buffer.concat([Buffer.from(timestamp), payload]),
+      { key: Buffer.from(publicKey, "base64"), format: "der", type: "spki" },
+      Buffer.from(signature, "base64"),
+    );
+  } catch {
+    return false;
+  }
+}
+
+// The status change an event means for its notification; opens, clicks and deferrals change nothing
+function deliveryUpdate(event: SendGridEvent, status: string): Partial<InsertNotification> | null {
+  const at = new Date(event.timestamp * 1000);
+  switch (event.event) {
+    case "processed":
+      return status === "queued" ? { status: "sent", sentAt: at } : null;
+    case "delivered":
+      return status === "queued" || status === "sent" ? { status: "sent", deliveredAt: at } : null;
+    case "bounce":
+      return { status: "bounced", error: event.reason ?? event.response ?? "Bounced" };
+    case "dropped":
+      return { status: "failed", error: event.reason ?? "Dropped by SendGrid" };
+    default:
+      return null;
+  }
+}
+
+// Applies a batch of webhook events to the notifications they refer to; events for emails not
+// sent from here (or already purged) are ignored
+export async function applySendGridEvents(events: SendGridEvent[]) {
+  let applied = 0;
+  for (const event of events) {
+    const notification = await storage.findNotificationForDeliveryEvent(
+      event.notification_id,
+      event.sg_message_id?.split(".")[0],
+    );
+    if (!notification) {
+      continue;
+    }
+    const update = deliveryUpdate(event, notification.status);
+    if (update) {
+      await storage.updateNotification(notification.id, notification.tenantId, update);
+      applied++;
+    }
+  }
+  return applied;
+}
+
+// The parts of WhatsApp Cloud API webhook payloads we read: message status changes and inbound messages
+export interface WhatsAppWebhook {
+  entry?: {
+    changes?: {
+      value?: {
+        statuses?: { id: string; status: string; timestamp: string; errors?: { title?: string; message?: string }[] }[];
+        messages?: { from: string; type: string; text?: { body: string } }[];
+      };
+    }[];
+  }[];
+}
+
+// Meta signs the raw body with the app secret: X-Hub-Signature-256: sha256=<hex HMAC>
+export function verifyWhatsAppSignature(appSecret: string, payload: Buffer, signature: string): boolean {
+  const expected = Buffer.from(`sha256=${createHmac("sha256", appSecret).update(payload).digest("hex")}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Replies that opt a number out of WhatsApp reminders
+const STOP_WORDS = ["STOP", "BAJA", "ALTO", "CANCELAR", "NO MAS", "NO MÁS"];
+
+function whatsAppUpdate(status: { status: string; timestamp: string; errors?: { title?: string; message?: string }[] }, current: string): Partial<InsertNotification> | null {
+  const at = new Date(Number(status.timestamp) * 1000);
+  switch (status.status) {
+    case "sent":
+      return current === "queued" ? { status: "sent", sentAt: at } : null;
+    case "delivered":
+    case "read":
+      return current === "queued" || current === "sent" ? { status: "sent", deliveredAt: at } : null;
+    case "failed":
+      return { status: "failed", error: status.errors?.[0]?.message ?? status.errors?.[0]?.title ?? "Failed on WhatsApp" };
+    default:
+      return null;
+  }
+}
+
+// Applies status changes to the messages they refer to and opts out every number that replied STOP
+export async function applyWhatsAppWebhook(payload: WhatsAppWebhook) {
+  let applied = 0;
+  for (const change of (payload.entry ?? []).flatMap((entry) => entry.changes ?? [])) {
+    for (const status of change.value?.statuses ?? []) {
+      const notification = await storage.findNotificationForDeliveryEvent(undefined, status.id);
+      const update = notification && whatsAppUpdate(status, notification.status);
+      if (notification && update) {
+        // "read" after "delivered" keeps the first delivery time
+        if (update.deliveredAt && notification.deliveredAt) {
+          continue;
+        }
+        await storage.updateNotification(notification.id, notification.tenantId, update);
+        applied++;
+      }
+    }
+    for (const message of change.value?.messages ?? []) {
+      const body = message.text?.body.trim().toUpperCase();
+      if (message.type === "text" && body && STOP_WORDS.includes(body)) {
+        applied += (await storage.optOutPhone("whatsapp", `+${message.from}`)).length;
+      }
+    }
+  }
+  return applied;
+}
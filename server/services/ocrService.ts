@@ -2,7 +2,9 @@ import { createWorker, type Worker } from 'tesseract.js';
 import { pdf } from 'pdf-to-img';
 import { db } from "../db";
 import { ocrLogs, invoiceCharges } from "@shared/schema";
-import { recalcInvoiceTotals } from "./invoiceEngine";
+import { canEditCharges, recalcInvoiceTotals } from "./invoiceEngine";
+import { defaultTaxable } from "./chargeCategories";
+import { storage } from "../storage";
 
 interface OCRResult {
   rawText: string;
@@ -149,32 +151,53 @@ export async function processOCRAndSave(
 
 export async function approveOCRAndCreateCharge(
   ocrLogId: string,
+  tenantId: string,
   invoiceId: string,
   description?: string,
   amount?: string
 ) {
   const ocrLog = await db.query.ocrLogs.findFirst({
-    where: (ocrLogs, { eq }) => eq(ocrLogs.id, ocrLogId),
+    where: (ocrLogs, { eq, and }) => and(eq(ocrLogs.id, ocrLogId), eq(ocrLogs.tenantId, tenantId)),
   });
 
   if (!ocrLog) {
     throw new Error('OCR log not found');
   }
 
+  const invoice = await storage.getInvoice(invoiceId, tenantId);
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+  if (!canEditCharges(invoice)) {
+    throw new Error(`Cannot add charges to a ${invoice.status} invoice`);
+  }
+
   const chargeAmount = amount || ocrLog.extractedAmount;
   
   if (!chargeAmount) {
     throw new Error('No amount provided or extracted from OCR');
   }
 
-  await db.insert(invoiceCharges).values({
+  const [charge] = await db.insert(invoiceCharges).values({
     invoiceId,
     description: description || `Cargo adicional - ${ocrLog.extractedReference || 'Servicios'}`,
+    category: 'utility',
     amount: chargeAmount,
-  });
+    sourceType: 'ocr_log',
+    sourceId: ocrLogId,
+    taxable: defaultTaxable('utility'),
+  }).returning();
 
   await recalcInvoiceTotals(invoiceId);
 
+  await storage.createAuditLog({
+    tenantId,
+    action: 'approve',
+    entity: 'ocr_log',
+    entityId: ocrLogId,
+    meta: { after: { invoiceId, chargeId: charge.id, description: charge.description, amount: charge.amount } },
+  });
+
   return { success: true };
 }
 
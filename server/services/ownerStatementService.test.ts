@@ -0,0 +1,90 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { contacts, invoiceCharges } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { buildOwnerStatement } = await import("./ownerStatementService");
+
+// An invoice of the lease with the given lines
+async function seedInvoiceWithLines(
+  lease: Awaited<ReturnType<typeof seedTenant>>,
+  number: string,
+  dueDate: string,
+  lines: { category: "rent" | "tax" | "late_fee" | "utility"; amount: number }[],
+) {
+  const total = lines.reduce((sum, line) => sum + line.amount, 0).toFixed(2);
+  const invoice = await seedInvoice(testDb.db, lease, { number, dueDate, subtotal: total, totalAmount: total });
+  await testDb.db.insert(invoiceCharges).values(lines.map((line) => ({
+    invoiceId: invoice.id,
+    description: line.category,
+    category: line.category,
+    amount: line.amount.toFixed(2),
+    sourceType: "manual" as const,
+  })));
+  return invoice;
+}
+
+describe("owner statements", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  it("keeps the fee rate in force when each payment was received", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Norte");
+    const setOwnerRate = (rate: string) =>
+      testDb.db.update(contacts).set({ managementFeeRate: rate }).where(eq(contacts.id, lease.owner.id));
+    const pay = async (number: string, date: string) => {
+      const invoice = await seedInvoiceWithLines(lease, number, date, [{ category: "rent", amount: 1000000 }]);
+      await storage.createPayment({ tenantId: lease.tenant.id, invoiceId: invoice.id, amount: "1000000", paymentDate: date, method: "transfer" });
+    };
+
+    await setOwnerRate("10");
+    await pay("F-3", "2025-03-05");
+    await setOwnerRate("20");
+    await pay("F-4", "2025-04-05");
+
+    const march = await buildOwnerStatement(lease.tenant.id, lease.owner.id, 2025, 3);
+    expect(march?.collections.map((collection) => collection.feeRate)).toEqual(["10.00"]);
+    expect(march?.fees).toBe("100000.00");
+
+    const april = await buildOwnerStatement(lease.tenant.id, lease.owner.id, 2025, 4);
+    expect(april?.openingBalance).toBe("900000.00");
+    expect(april?.collections.map((collection) => collection.feeRate)).toEqual(["20.00"]);
+    expect(april?.fees).toBe("200000.00");
+  });
+
+  it("credits the owner only with the rent share of each payment", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Sur");
+    await testDb.db.update(contacts).set({ managementFeeRate: "10" }).where(eq(contacts.id, lease.owner.id));
+    // 1.000.000 rent, 190.000 IVA, 50.000 late fee and 60.000 water: 1.300.000
+    const invoice = await seedInvoiceWithLines(lease, "F-5", "2025-05-05", [
+      { category: "rent", amount: 1000000 },
+      { category: "tax", amount: 190000 },
+      { category: "late_fee", amount: 50000 },
+      { category: "utility", amount: 60000 },
+    ]);
+    await storage.createPayment({ tenantId: lease.tenant.id, invoiceId: invoice.id, amount: "650000", paymentDate: "2025-05-10", method: "transfer" });
+
+    const may = await buildOwnerStatement(lease.tenant.id, lease.owner.id, 2025, 5);
+
+    expect(may?.collections).toMatchObject([{ paymentAmount: "650000.00", amount: "500000.00", fee: "50000.00" }]);
+    expect(may?.collected).toBe("500000.00");
+    expect(may?.netAmount).toBe("450000.00");
+  });
+
+  it("leaves out payments of invoices without rent", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Centro");
+    const invoice = await seedInvoiceWithLines(lease, "F-6", "2025-06-05", [{ category: "utility", amount: 80000 }]);
+    await storage.createPayment({ tenantId: lease.tenant.id, invoiceId: invoice.id, amount: "80000", paymentDate: "2025-06-10", method: "transfer" });
+
+    const june = await buildOwnerStatement(lease.tenant.id, lease.owner.id, 2025, 6);
+
+    expect(june?.collections).toEqual([]);
+    expect(june?.collected).toBe("0.00");
+  });
+});
@@ -0,0 +1,240 @@
+import { storage } from "../storage";
+import type { Contact, OwnerDisbursement } from "@shared/schema";
+
+export interface OwnerCollection {
+  paymentId: string;
+  paymentDate: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  contractNumber: string;
+  propertyName: string;
+  paymentAmount: string;
+  amount: string; // the rent share of the payment
+  feeRate: string; // % applied to this payment
+  fee: string;
+}
+
+export interface OwnerExpenseItem {
+  id: string;
+  expenseDate: string;
+  description: string;
+  propertyName: string | null;
+  amount: string;
+}
+
+export interface OwnerStatementTotals {
+  openingBalance: string; // owed to the owner at the start of the month
+  collected: string;
+  fees: string;
+  expenses: string;
+  netAmount: string; // collected - fees - expenses
+  disbursed: string;
+  closingBalance: string; // still owed to the owner at the end of the month; negative when they owe us
+}
+
+export interface OwnerStatement extends OwnerStatementTotals {
+  owner: Pick<Contact, "id" | "fullName" | "email" | "docType" | "docNumber">;
+  year: number;
+  month: number;
+  from: string;
+  to: string;
+  periodLabel: string;
+  collections: OwnerCollection[];
+  expenseItems: OwnerExpenseItem[];
+  disbursements: OwnerDisbursement[];
+}
+
+export type OwnerStatementSummary = Omit<OwnerStatement, "collections" | "expenseItems" | "disbursements">;
+
+export function monthRange(year: number, month: number): { from: string; to: string } {
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return {
+    from: `${year}-${pad(month)}-01`,
+    to: `${year}-${pad(month)}-${pad(lastDay)}`,
+  };
+}
+
+// The rate kept with the payment when it was received. Older payments fall back to today's:
+// the property's own rate wins over the owner's, and with neither we keep nothing
+function feeRateFor(collection: { paymentFeeRate: string | null; propertyFeeRate: string | null; ownerFeeRate: string | null }): number {
+  return parseFloat(collection.paymentFeeRate ?? collection.propertyFeeRate ?? collection.ownerFeeRate ?? "0");
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Only rent belongs to the owner: taxes, late fees, utilities and repairs paid with it do not.
+// A payment is split across the invoice in proportion to its lines
+function rentShare(collection: { amount: string; invoiceTotal: string; rentAmount: string }): number {
+  const total = parseFloat(collection.invoiceTotal);
+  const rent = parseFloat(collection.rentAmount);
+  if (total <= 0 || rent <= 0) {
+    return 0;
+  }
+  return roundMoney(parseFloat(collection.amount) * Math.min(rent / total, 1));
+}
+
+function ownerInfo(contact: Contact | undefined, id: string): OwnerStatement["owner"] {
+  return {
+    id,
+    fullName: contact?.fullName ?? "",
+    email: contact?.email ?? null,
+    docType: contact?.docType ?? null,
+    docNumber: contact?.docNumber ?? null,
+  };
+}
+
+function emptyStatement(owner: OwnerStatement["owner"], year: number, month: number): OwnerStatement {
+  const { from, to } = monthRange(year, month);
+  return {
+    owner,
+    year,
+    month,
+    from,
+    to,
+    periodLabel: new Date(`${from}T00:00:00Z`).toLocaleString('es-ES', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+    openingBalance: "0.00",
+    collected: "0.00",
+    fees: "0.00",
+    expenses: "0.00",
+    netAmount: "0.00",
+    disbursed: "0.00",
+    closingBalance: "0.00",
+    collections: [],
+    expenseItems: [],
+    disbursements: [],
+  };
+}
+
+// Monthly liquidation for every owner with activity up to the end of the month: rent collected
+// on their contracts minus our management fee and the expenses we paid for them, less what we
+// already transferred. Earlier months roll into the opening balance.
+export async function buildOwnerStatements(
+  tenantId: string,
+  year: number,
+  month: number,
+  ownerContactId?: string,
+): Promise<OwnerStatement[]> {
+  const { from, to } = monthRange(year, month);
+
+  const [contacts, collections, expenses, disbursements] = await Promise.all([
+    storage.getContacts(tenantId),
+    storage.getOwnerCollections(tenantId, to, ownerContactId),
+    storage.getOwnerExpenses(tenantId, ownerContactId),
+    storage.getOwnerDisbursements(tenantId, ownerContactId),
+  ]);
+
+  const statements = new Map<string, OwnerStatement & { totals: Record<string, number> }>();
+  const statementFor = (ownerId: string) => {
+    let statement = statements.get(ownerId);
+    if (!statement) {
+      const owner = ownerInfo(contacts.find((candidate) => candidate.id === ownerId), ownerId);
+      statement = {
+        ...emptyStatement(owner, year, month),
+        totals: { opening: 0, collected: 0, fees: 0, expenses: 0, disbursed: 0 },
+      };
+      statements.set(ownerId, statement);
+    }
+    return statement;
+  };
+
+  for (const collection of collections) {
+    const amount = rentShare(collection);
+    if (amount === 0) {
+      continue;
+    }
+    const statement = statementFor(collection.ownerContactId);
+    const rate = feeRateFor(collection);
+    const fee = roundMoney(amount * rate / 100);
+
+    if (collection.paymentDate < from) {
+      statement.totals.opening += amount - fee;
+      continue;
+    }
+    statement.totals.collected += amount;
+    statement.totals.fees += fee;
+    statement.collections.push({
+      paymentId: collection.paymentId,
+      paymentDate: collection.paymentDate,
+      invoiceId: collection.invoiceId,
+      invoiceNumber: collection.invoiceNumber,
+      contractNumber: collection.contractNumber,
+      propertyName: collection.propertyName,
+      paymentAmount: parseFloat(collection.amount).toFixed(2),
+      amount: amount.toFixed(2),
+      feeRate: rate.toFixed(2),
+      fee: fee.toFixed(2),
+    });
+  }
+
+  for (const expense of expenses) {
+    if (expense.expenseDate > to) {
+      continue;
+    }
+    const statement = statementFor(expense.ownerContactId);
+    const amount = parseFloat(expense.amount);
+    if (expense.expenseDate < from) {
+      statement.totals.opening -= amount;
+      continue;
+    }
+    statement.totals.expenses += amount;
+    statement.expenseItems.push({
+      id: expense.id,
+      expenseDate: expense.expenseDate,
+      description: expense.description,
+      propertyName: expense.property?.name ?? null,
+      amount: amount.toFixed(2),
+    });
+  }
+
+  for (const disbursement of disbursements) {
+    if (disbursement.disbursementDate > to) {
+      continue;
+    }
+    const statement = statementFor(disbursement.ownerContactId);
+    const amount = parseFloat(disbursement.amount);
+    if (disbursement.disbursementDate < from) {
+      statement.totals.opening -= amount;
+      continue;
+    }
+    statement.totals.disbursed += amount;
+    statement.disbursements.push(disbursement);
+  }
+
+  return Array.from(statements.values())
+    .map(({ totals, ...statement }) => {
+      const net = totals.collected - totals.fees - totals.expenses;
+      return {
+        ...statement,
+        openingBalance: totals.opening.toFixed(2),
+        collected: totals.collected.toFixed(2),
+        fees: totals.fees.toFixed(2),
+        expenses: totals.expenses.toFixed(2),
+        netAmount: net.toFixed(2),
+        disbursed: totals.disbursed.toFixed(2),
+        closingBalance: (totals.opening + net - totals.disbursed).toFixed(2),
+      };
+    })
+    .sort((a, b) => a.owner.fullName.localeCompare(b.owner.fullName));
+}
+
+export async function buildOwnerStatement(
+  tenantId: string,
+  ownerContactId: string,
+  year: number,
+  month: number,
+): Promise<OwnerStatement | undefined> {
+  const contact = await storage.getContact(ownerContactId, tenantId);
+  if (!contact) {
+    return undefined;
+  }
+  const [statement] = await buildOwnerStatements(tenantId, year, month, ownerContactId);
+  return statement ?? emptyStatement(ownerInfo(contact, contact.id), year, month);
+}
+
+export function summarizeOwnerStatement(statement: OwnerStatement): OwnerStatementSummary {
+  const { collections, expenseItems, disbursements, ...summary } = statement;
+  return summary;
+}
@@ -1,131 +1,177 @@
-import { db } from "../db";
-import { eq, and, gte, lte } from "drizzle-orm";
-import { invoices, contracts, properties, contacts } from "@shared/schema";
+import type { ChargeCategory, CreditNoteReason } from "@shared/schema";
+import { creditNoteReasonLabels } from "./creditNoteService";
+import { statementEntryTypeLabels, type AccountStatement } from "./statementService";
+import { agingBucketLabels, agingBuckets, agingGroupingLabels, type AgingReport } from "./agingService";
+import type { OwnerStatement } from "./ownerStatementService";
+import type { InsurerReport } from "./insurerReportService";
+import { inspectionConditionLabels, inspectionTypeLabels, type InspectionComparison } from "./inspectionService";
 import PDFDocument from 'pdfkit';
 
-export async function generateInsurerMonthlyReport(
-  insurerId: string,
-  year: number,
-  month: number
-): Promise<Buffer> {
-  // Get all invoices for the period
-  const startDate = new Date(year, month - 1, 1).toISOString().split('T')[0];
-  const endDate = new Date(year, month, 0).toISOString().split('T')[0];
-
-  const invoicesList = await db.query.invoices.findMany({
-    where: and(
-      gte(invoices.issueDate, startDate),
-      lte(invoices.issueDate, endDate)
-    ),
-    with: {
-      contract: {
-        with: {
-          property: true,
-          tenantContact: true,
-          policy: true,
-        },
-      },
-    },
-  });
+const categoryLabels: Record<ChargeCategory, string> = {
+  rent: 'Canon de arrendamiento',
+  late_fee: 'Mora',
+  utility: 'Servicios públicos',
+  maintenance: 'Mantenimiento',
+  tax: 'Impuestos',
+  discount: 'Descuentos',
+  deposit: 'Depósito en garantía',
+  other: 'Otros conceptos',
+};
+
+// Lines are shown and summed in this order
+const categoryOrder = Object.keys(categoryLabels) as ChargeCategory[];
+
+// Tenant logos are stored as data URLs; pdfkit only embeds PNG and JPEG
+function logoImage(logo?: string | null): Buffer | null {
+  const match = logo?.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  return match ? Buffer.from(match[2], 'base64') : null;
+}
 
-  // Filter by insurer through policy
-  const filteredInvoices = invoicesList.filter(
-    inv => inv.contract.policy?.insurerId === insurerId
-  );
+export async function generateInsurerReportPDF(
+  report: InsurerReport,
+  company?: { name: string; logo?: string | null }
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 40, layout: 'landscape' });
+    const buffers: Buffer[] = [];
 
-  // Generate HTML for PDF
-  const html = generateReportHTML(filteredInvoices, year, month);
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
 
-  // Convert HTML to PDF (using a simple library approach)
-  // In production, you'd use puppeteer or similar
-  const pdf = await htmlToPdf(html);
+    const leftCol = 40;
+    const money = (value: string | number) => `$${parseFloat(String(value)).toLocaleString('es-CO')}`;
+    const date = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+    const logo = logoImage(company?.logo);
+    if (logo) {
+      try {
+        doc.image(logo, leftCol, 30, { fit: [120, 50] });
+      } catch {
+        // An unreadable logo should not keep the report from going out
+      }
+    }
 
-  return pdf;
-}
+    doc.fontSize(20).text('Reporte Mensual de Cartera Asegurada', leftCol, 40, { align: 'center' });
+    if (company?.name) {
+      doc.fontSize(10).text(company.name, { align: 'center' });
+    }
+    doc.fontSize(11).text(`${report.insurer.name} · ${report.periodLabel}`, { align: 'center' });
+    doc.fontSize(9).text(`Saldos al ${date(report.asOf)}`, { align: 'center' });
+    doc.moveDown(2);
 
-function generateReportHTML(invoicesList: any[], year: number, month: number) {
-  const monthNames = ['Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio', 
-    'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'];
+    // Summary
+    doc.fontSize(12).font('Helvetica-Bold').text('Resumen', leftCol, doc.y);
+    doc.font('Helvetica');
+    doc.moveDown(0.5);
 
-  let totalIssued = 0;
-  let totalCollected = 0;
-  let totalOverdue = 0;
+    const { summary } = report;
+    const summaryRows: [string, string][] = [
+      ['Pólizas con movimiento', String(summary.policies)],
+      ['Facturas emitidas', String(summary.invoicesIssued)],
+      ['Total emitido', money(summary.issued)],
+      ['IVA facturado', money(summary.tax)],
+      ['Retenciones', money(summary.withholdings)],
+      ['Total cobrado en el mes', money(summary.collected)],
+      ['Notas crédito', money(summary.credited)],
+      ['Saldo pendiente', money(summary.balance)],
+      [`Saldo vencido (${summary.overdueInvoices} facturas)`, money(summary.overdueBalance)],
+    ];
+    const summaryTop = doc.y;
+    summaryRows.forEach(([label, value]) => {
+      doc.fontSize(10).text(label, leftCol, doc.y, { width: 220, continued: true })
+         .text(value, { align: 'right' });
+      doc.moveDown(0.2);
+    });
+    const summaryBottom = doc.y;
+
+    // Billed by concept, beside the summary
+    const categoryX = 420;
+    doc.fontSize(12).font('Helvetica-Bold').text('Por concepto', categoryX, summaryTop - 22);
+    doc.font('Helvetica');
+    doc.y = summaryTop;
+    for (const category of categoryOrder) {
+      const line = report.byCategory.find((entry) => entry.category === category);
+      if (!line) {
+        continue;
+      }
+      doc.fontSize(10).text(categoryLabels[category], categoryX, doc.y, { width: 200, continued: true })
+         .text(money(line.amount), { align: 'right' });
+      doc.moveDown(0.2);
+    }
+    doc.y = Math.max(doc.y, summaryBottom);
+
+    // Detail per policy
+    const columns = [
+      { label: 'Factura', x: leftCol, width: 90 },
+      { label: 'Emisión', x: leftCol + 95, width: 70 },
+      { label: 'Vencimiento', x: leftCol + 170, width: 70 },
+      { label: 'Total', x: leftCol + 245, width: 85, align: 'right' as const },
+      { label: 'Pagado', x: leftCol + 335, width: 85, align: 'right' as const },
+      { label: 'Notas crédito', x: leftCol + 425, width: 85, align: 'right' as const },
+      { label: 'Saldo', x: leftCol + 515, width: 85, align: 'right' as const },
+      { label: 'Días de mora', x: leftCol + 610, width: 90, align: 'right' as const },
+    ];
+
+    if (report.policies.length === 0) {
+      doc.moveDown(2);
+      doc.fontSize(10).text('Sin facturas de contratos asegurados en el período.', leftCol, doc.y);
+    }
 
-  const rows = invoicesList.map(inv => {
-    const total = parseFloat(inv.totalAmount);
-    const paid = parseFloat(inv.amountPaid);
-    
-    totalIssued += total;
-    totalCollected += paid;
-    if (inv.status === 'overdue') {
-      totalOverdue += (total - paid);
-    }
-
-    return `
-      <tr>
-        <td>${inv.number}</td>
-        <td>${inv.contract.tenantContact.fullName}</td>
-        <td>${inv.contract.property.name}</td>
-        <td>${new Date(inv.issueDate).toLocaleDateString('es-ES')}</td>
-        <td>${new Date(inv.dueDate).toLocaleDateString('es-ES')}</td>
-        <td>$${total.toLocaleString('es-CO')}</td>
-        <td>$${paid.toLocaleString('es-CO')}</td>
-        <td>${inv.status}</td>
-      </tr>
-    `;
-  }).join('');
-
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="UTF-8">
-      <style>
-        body { font-family: Arial, sans-serif; }
-        h1 { color: #3B82F6; }
-        table { width: 100%; border-collapse: collapse; margin-top: 20px; }
-        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-        th { background-color: #3B82F6; color: white; }
-        .summary { margin: 20px 0; padding: 15px; background: #f0f9ff; }
-      </style>
-    </head>
-    <body>
-      <h1>Reporte Mensual de Cartera</h1>
-      <p><strong>Período:</strong> ${monthNames[month - 1]} ${year}</p>
-      
-      <div class="summary">
-        <h3>Resumen</h3>
-        <p><strong>Total Emitido:</strong> $${totalIssued.toLocaleString('es-CO')}</p>
-        <p><strong>Total Cobrado:</strong> $${totalCollected.toLocaleString('es-CO')}</p>
-        <p><strong>Total Vencido:</strong> $${totalOverdue.toLocaleString('es-CO')}</p>
-      </div>
-
-      <table>
-        <thead>
-          <tr>
-            <th>Factura</th>
-            <th>Inquilino</th>
-            <th>Propiedad</th>
-            <th>Emisión</th>
-            <th>Vencimiento</th>
-            <th>Total</th>
-            <th>Pagado</th>
-            <th>Estado</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${rows}
-        </tbody>
-      </table>
-    </body>
-    </html>
-  `;
-}
+    for (const policy of report.policies) {
+      doc.moveDown(1.5);
+      if (doc.y > 460) {
+        doc.addPage();
+      }
+      doc.fontSize(11).font('Helvetica-Bold')
+         .text(`Póliza ${policy.policyNumber}${policy.coverageType ? ` · ${policy.coverageType}` : ''}`, leftCol, doc.y);
+      doc.font('Helvetica').fontSize(9)
+         .text(`Contrato ${policy.contractNumber} · ${policy.tenantName ?? 'N/A'} · ${policy.propertyName ?? 'N/A'}`, leftCol, doc.y);
+      doc.moveDown(0.5);
+
+      let y = doc.y;
+      doc.fontSize(9).font('Helvetica-Bold');
+      columns.forEach((column) => doc.text(column.label, column.x, y, { width: column.width, align: column.align }));
+      doc.font('Helvetica');
+      doc.moveTo(leftCol, doc.y + 2).lineTo(760, doc.y + 2).stroke();
+      doc.moveDown(0.5);
+
+      for (const invoice of policy.invoices) {
+        if (doc.y > 540) {
+          doc.addPage();
+        }
+        y = doc.y;
+        const values = [
+          invoice.number,
+          date(invoice.issueDate),
+          date(invoice.dueDate),
+          money(invoice.totalAmount),
+          money(invoice.amountPaid),
+          money(invoice.creditedAmount),
+          money(invoice.balance),
+          invoice.daysOverdue > 0 ? `${invoice.daysOverdue} días` : 'Al día',
+        ];
+        doc.fontSize(9).fillColor(invoice.daysOverdue > 0 ? '#B91C1C' : 'black');
+        columns.forEach((column, index) => doc.text(values[index], column.x, y, { width: column.width, align: column.align }));
+        doc.fillColor('black');
+        doc.moveDown(0.4);
+      }
+
+      y = doc.y;
+      doc.moveTo(leftCol, y).lineTo(760, y).stroke();
+      doc.moveDown(0.3);
+      y = doc.y;
+      doc.fontSize(9).font('Helvetica-Bold');
+      doc.text('Total póliza', leftCol, y);
+      doc.text(money(policy.issued), columns[3].x, y, { width: columns[3].width, align: 'right' });
+      doc.text(money(policy.collected), columns[4].x, y, { width: columns[4].width, align: 'right' });
+      doc.text(money(policy.balance), columns[6].x, y, { width: columns[6].width, align: 'right' });
+      doc.text(policy.maxDaysOverdue > 0 ? `Máx. ${policy.maxDaysOverdue} días` : '', columns[7].x, y, { width: columns[7].width, align: 'right' });
+      doc.font('Helvetica');
+    }
 
-async function htmlToPdf(html: string): Promise<Buffer> {
-  // This is a placeholder - in production use puppeteer or similar
-  // For now, return the HTML as a buffer (you'd implement actual PDF conversion)
-  return Buffer.from(html, 'utf-8');
+    doc.end();
+  });
 }
 
 export async function generateInvoicePDF(invoice: any): Promise<Buffer> {
@@ -178,13 +224,36 @@ export async function generateInvoicePDF(invoice: any): Promise<Buffer> {
     doc.fontSize(12).text('Conceptos facturados', { underline: true });
     doc.moveDown(0.5);
 
-    if (invoice.charges && invoice.charges.length > 0) {
-      invoice.charges.forEach((charge: any) => {
+    // Grouped by category, each group with its own subtotal when it has several lines
+    for (const category of categoryOrder) {
+      const lines = (invoice.charges ?? []).filter((charge: any) => charge.category === category);
+      if (lines.length === 0) {
+        continue;
+      }
+
+      doc.fontSize(10).font('Helvetica-Bold').text(categoryLabels[category], leftCol, doc.y);
+      doc.font('Helvetica');
+      doc.moveDown(0.2);
+
+      lines.forEach((charge: any) => {
+        const detail = charge.quantity && charge.unitPrice
+          ? ` (${parseFloat(charge.quantity)} × $${parseFloat(charge.unitPrice).toLocaleString('es-CO')})`
+          : '';
         doc.fontSize(10)
-           .text(charge.description, leftCol, doc.y, { width: 350, continued: true })
+           .text(`${charge.description}${detail}`, leftCol + 10, doc.y, { width: 340, continued: true })
            .text(`$${parseFloat(charge.amount).toLocaleString('es-CO')}`, { align: 'right' });
         doc.moveDown(0.3);
       });
+
+      if (lines.length > 1) {
+        const groupTotal = lines.reduce((sum: number, charge: any) => sum + parseFloat(charge.amount), 0);
+        doc.fontSize(9).fillColor('#555555')
+           .text(`Total ${categoryLabels[category].toLowerCase()}`, leftCol + 10, doc.y, { width: 340, continued: true })
+           .text(`$${groupTotal.toLocaleString('es-CO')}`, { align: 'right' });
+        doc.fillColor('black');
+        doc.moveDown(0.3);
+      }
+      doc.moveDown(0.3);
     }
 
     doc.moveDown();
@@ -197,7 +266,41 @@ export async function generateInvoicePDF(invoice: any): Promise<Buffer> {
     doc.fontSize(10)
        .text('Subtotal', leftCol, doc.y, { width: 350, continued: true })
        .text(`$${parseFloat(invoice.subtotal).toLocaleString('es-CO')}`, { align: 'right' });
-    doc.moveDown(0.5);
+    doc.moveDown(0.3);
+
+    if (parseFloat(invoice.otherCharges) !== 0) {
+      doc.text('Servicios públicos', leftCol, doc.y, { width: 350, continued: true })
+         .text(`$${parseFloat(invoice.otherCharges).toLocaleString('es-CO')}`, { align: 'right' });
+      doc.moveDown(0.3);
+    }
+
+    if (parseFloat(invoice.lateFee) !== 0) {
+      doc.text('Mora', leftCol, doc.y, { width: 350, continued: true })
+         .text(`$${parseFloat(invoice.lateFee).toLocaleString('es-CO')}`, { align: 'right' });
+      doc.moveDown(0.3);
+    }
+
+    const taxProfile = invoice.contract?.taxProfile;
+    if (parseFloat(invoice.tax) !== 0) {
+      const label = taxProfile ? `IVA (${parseFloat(taxProfile.ivaRate)}%)` : 'IVA';
+      doc.text(label, leftCol, doc.y, { width: 350, continued: true })
+         .text(`$${parseFloat(invoice.tax).toLocaleString('es-CO')}`, { align: 'right' });
+      doc.moveDown(0.3);
+    }
+
+    // Withheld by the tenant and paid to the tax authority on the landlord's behalf
+    if (parseFloat(invoice.withholdings) !== 0) {
+      const rates = taxProfile
+        ? [
+            parseFloat(taxProfile.withholdingRate) > 0 ? `ReteFuente ${parseFloat(taxProfile.withholdingRate)}%` : null,
+            parseFloat(taxProfile.icaRate) > 0 ? `ReteICA ${parseFloat(taxProfile.icaRate)}%` : null,
+          ].filter(Boolean).join(', ')
+        : '';
+      doc.text(rates ? `Retenciones (${rates})` : 'Retenciones', leftCol, doc.y, { width: 350, continued: true })
+         .text(`-$${parseFloat(invoice.withholdings).toLocaleString('es-CO')}`, { align: 'right' });
+      doc.moveDown(0.3);
+    }
+    doc.moveDown(0.2);
 
     doc.fontSize(14).font('Helvetica-Bold')
        .text('Total', leftCol, doc.y, { width: 350, continued: true })
@@ -218,7 +321,13 @@ export async function generateInvoicePDF(invoice: any): Promise<Buffer> {
        .text(`$${parseFloat(invoice.amountPaid).toLocaleString('es-CO')}`, { align: 'right' });
     doc.moveDown(0.3);
 
-    const balance = parseFloat(invoice.totalAmount) - parseFloat(invoice.amountPaid);
+    for (const note of invoice.creditNotes ?? []) {
+      doc.text(`Nota crédito ${note.number}`, leftCol, doc.y, { width: 350, continued: true })
+         .text(`-$${parseFloat(note.amount).toLocaleString('es-CO')}`, { align: 'right' });
+      doc.moveDown(0.3);
+    }
+
+    const balance = parseFloat(invoice.totalAmount) - parseFloat(invoice.amountPaid) - parseFloat(invoice.creditedAmount ?? '0');
     doc.fontSize(12).font('Helvetica-Bold')
        .text('Saldo pendiente', leftCol, doc.y, { width: 350, continued: true })
        .text(`$${balance.toLocaleString('es-CO')}`, { align: 'right' });
@@ -226,3 +335,509 @@ export async function generateInvoicePDF(invoice: any): Promise<Buffer> {
     doc.end();
   });
 }
+
+export async function generateCreditNotePDF(note: any): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const buffers: Buffer[] = [];
+
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+
+    const invoice = note.invoice;
+    const leftCol = 70;
+    const rightCol = 320;
+
+    // Header
+    doc.fontSize(24).text('Nota Crédito', { align: 'center' });
+    doc.moveDown();
+
+    doc.fontSize(16).text(note.number, { align: 'center' });
+    if (note.tenant?.name) {
+      doc.fontSize(10).text(note.tenant.name, { align: 'center' });
+    }
+    doc.moveDown(2);
+
+    doc.fontSize(12).text('Información de la nota', { underline: true });
+    doc.moveDown(0.5);
+
+    let y = doc.y;
+    doc.text('Inquilino', leftCol, y);
+    doc.fontSize(10).text(invoice?.tenantContact?.fullName || 'N/A', leftCol, y + 20);
+    doc.text(invoice?.tenantContact?.email || '', leftCol, y + 35);
+
+    doc.fontSize(12).text('Propiedad', rightCol, y);
+    doc.fontSize(10).text(invoice?.contract?.property?.name || 'N/A', rightCol, y + 20);
+    doc.text(invoice?.contract?.property?.address || '', rightCol, y + 35);
+
+    doc.moveDown(4);
+    y = doc.y;
+
+    doc.fontSize(12).text('Fecha de emisión', leftCol, y);
+    doc.fontSize(10).text(new Date(note.issueDate).toLocaleDateString('es-ES'), leftCol, y + 20);
+
+    doc.fontSize(12).text('Factura afectada', rightCol, y);
+    doc.fontSize(10).text(
+      invoice ? `${invoice.number} del ${new Date(invoice.issueDate).toLocaleDateString('es-ES')}` : 'N/A',
+      rightCol,
+      y + 20,
+    );
+
+    doc.moveDown(3);
+
+    doc.fontSize(12).text('Motivo', leftCol, doc.y, { underline: true });
+    doc.moveDown(0.5);
+    doc.fontSize(10).font('Helvetica-Bold').text(creditNoteReasonLabels[note.reasonCode as CreditNoteReason] ?? note.reasonCode, leftCol, doc.y);
+    doc.font('Helvetica').text(note.reason, leftCol, doc.y, { width: 450 });
+    doc.moveDown(2);
+
+    const startY = doc.y;
+    doc.moveTo(leftCol, startY).lineTo(520, startY).stroke();
+    doc.moveDown(0.5);
+
+    if (invoice) {
+      doc.fontSize(10)
+         .text('Total de la factura', leftCol, doc.y, { width: 350, continued: true })
+         .text(`$${parseFloat(invoice.totalAmount).toLocaleString('es-CO')}`, { align: 'right' });
+      doc.moveDown(0.3);
+    }
+
+    doc.fontSize(14).font('Helvetica-Bold')
+       .text('Valor acreditado', leftCol, doc.y, { width: 350, continued: true })
+       .text(`$${parseFloat(note.amount).toLocaleString('es-CO')}`, { align: 'right' });
+
+    doc.end();
+  });
+}
+
+export async function generateAccountStatementPDF(statement: AccountStatement, companyName?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const buffers: Buffer[] = [];
+
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+
+    const leftCol = 70;
+    const rightCol = 320;
+    const money = (value: string | number) => `$${parseFloat(String(value)).toLocaleString('es-CO')}`;
+    const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+    // Header
+    doc.fontSize(24).text('Estado de Cuenta', { align: 'center' });
+    if (companyName) {
+      doc.fontSize(10).text(companyName, { align: 'center' });
+    }
+    doc.moveDown();
+    doc.fontSize(12).text(`Del ${formatDate(statement.from)} al ${formatDate(statement.to)}`, { align: 'center' });
+    doc.moveDown(2);
+
+    let y = doc.y;
+    doc.fontSize(12).text('Inquilino', leftCol, y);
+    doc.fontSize(10).text(statement.contact.fullName, leftCol, y + 20);
+    const document = [statement.contact.docType, statement.contact.docNumber].filter(Boolean).join(' ');
+    doc.text(document || statement.contact.email || '', leftCol, y + 35);
+
+    if (statement.contract) {
+      doc.fontSize(12).text('Contrato', rightCol, y);
+      doc.fontSize(10).text(statement.contract.number, rightCol, y + 20);
+      doc.text(statement.contract.property?.address || '', rightCol, y + 35);
+    }
+
+    doc.moveDown(4);
+
+    // Ledger
+    const columns = { date: leftCol, type: leftCol + 60, detail: leftCol + 130, debit: 330, credit: 395, balance: 460 };
+    const amountWidth = 60;
+
+    const drawHeader = () => {
+      y = doc.y;
+      doc.fontSize(9).font('Helvetica-Bold');
+      doc.text('Fecha', columns.date, y);
+      doc.text('Movimiento', columns.type, y);
+      doc.text('Detalle', columns.detail, y);
+      doc.text('Cargos', columns.debit, y, { width: amountWidth, align: 'right' });
+      doc.text('Abonos', columns.credit, y, { width: amountWidth, align: 'right' });
+      doc.text('Saldo', columns.balance, y, { width: amountWidth, align: 'right' });
+      doc.font('Helvetica');
+      doc.moveTo(leftCol, doc.y + 2).lineTo(520, doc.y + 2).stroke();
+      doc.moveDown(0.5);
+    };
+
+    drawHeader();
+
+    y = doc.y;
+    doc.fontSize(9).font('Helvetica-Bold')
+       .text('Saldo inicial', columns.detail, y)
+       .text(money(statement.openingBalance), columns.balance, y, { width: amountWidth, align: 'right' });
+    doc.font('Helvetica');
+    doc.moveDown(0.5);
+
+    for (const entry of statement.entries) {
+      if (doc.y > 700) {
+        doc.addPage();
+        drawHeader();
+      }
+      y = doc.y;
+      doc.fontSize(9);
+      doc.text(formatDate(entry.date), columns.date, y);
+      doc.text(statementEntryTypeLabels[entry.type], columns.type, y);
+      doc.text(parseFloat(entry.debit) !== 0 ? money(entry.debit) : '', columns.debit, y, { width: amountWidth, align: 'right' });
+      doc.text(parseFloat(entry.credit) !== 0 ? money(entry.credit) : '', columns.credit, y, { width: amountWidth, align: 'right' });
+      doc.text(money(entry.balance), columns.balance, y, { width: amountWidth, align: 'right' });
+      doc.text(`${entry.reference} · ${entry.description}`, columns.detail, y, { width: columns.debit - columns.detail - 10 });
+      doc.moveDown(0.4);
+    }
+
+    doc.moveDown();
+    const startY = doc.y;
+    doc.moveTo(leftCol, startY).lineTo(520, startY).stroke();
+    doc.moveDown(0.5);
+
+    doc.fontSize(10)
+       .text('Saldo inicial', leftCol, doc.y, { width: 350, continued: true })
+       .text(money(statement.openingBalance), { align: 'right' });
+    doc.moveDown(0.3);
+    doc.text('Cargos del periodo', leftCol, doc.y, { width: 350, continued: true })
+       .text(money(statement.totalDebits), { align: 'right' });
+    doc.moveDown(0.3);
+    doc.text('Abonos del periodo', leftCol, doc.y, { width: 350, continued: true })
+       .text(`-${money(statement.totalCredits)}`, { align: 'right' });
+    doc.moveDown(0.5);
+
+    // A negative closing balance is money in the tenant's favour
+    const closing = parseFloat(statement.closingBalance);
+    doc.fontSize(14).font('Helvetica-Bold')
+       .text(closing < 0 ? 'Saldo a favor' : 'Saldo final', leftCol, doc.y, { width: 350, continued: true })
+       .text(money(Math.abs(closing)), { align: 'right' });
+
+    doc.end();
+  });
+}
+
+export async function generateAgingReportPDF(report: AgingReport, companyName?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 40, layout: 'landscape' });
+    const buffers: Buffer[] = [];
+
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+
+    const leftCol = 40;
+    const money = (value: string | number) => `$${parseFloat(String(value)).toLocaleString('es-CO')}`;
+    const groupLabel = agingGroupingLabels[report.groupBy];
+
+    // Group name, then one column per bucket and the total
+    const nameWidth = 200;
+    const amountWidth = 85;
+    const amountColumns = [...agingBuckets, 'total' as const];
+    const amountX = (index: number) => leftCol + nameWidth + index * (amountWidth + 5);
+
+    doc.fontSize(20).text('Cartera por Edades', { align: 'center' });
+    if (companyName) {
+      doc.fontSize(10).text(companyName, { align: 'center' });
+    }
+    doc.fontSize(11).text(`Corte al ${new Date(report.asOf).toLocaleDateString('es-ES')} · Agrupada por ${groupLabel.toLowerCase()}`, { align: 'center' });
+    doc.moveDown(2);
+
+    const drawRow = (label: string, totals: Record<string, string>, bold = false) => {
+      if (doc.y > 520) {
+        doc.addPage();
+      }
+      const y = doc.y;
+      doc.fontSize(9).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+      doc.text(label, leftCol, y, { width: nameWidth - 10 });
+      const nextY = doc.y;
+      amountColumns.forEach((column, index) => {
+        doc.text(money(totals[column]), amountX(index), y, { width: amountWidth, align: 'right' });
+      });
+      doc.font('Helvetica');
+      doc.y = Math.max(nextY, y + 12);
+      doc.moveDown(0.3);
+    };
+
+    // Summary by group
+    let y = doc.y;
+    doc.fontSize(9).font('Helvetica-Bold').text(groupLabel, leftCol, y);
+    amountColumns.forEach((column, index) => {
+      doc.text(column === 'total' ? 'Total' : agingBucketLabels[column], amountX(index), y, { width: amountWidth, align: 'right' });
+    });
+    doc.font('Helvetica');
+    doc.moveTo(leftCol, doc.y + 2).lineTo(760, doc.y + 2).stroke();
+    doc.moveDown(0.5);
+
+    for (const group of report.groups) {
+      drawRow(group.label, group.totals);
+    }
+    doc.moveTo(leftCol, doc.y).lineTo(760, doc.y).stroke();
+    doc.moveDown(0.3);
+    drawRow('Total cartera', report.totals, true);
+
+    // Invoice detail per group
+    for (const group of report.groups) {
+      doc.moveDown(1.5);
+      if (doc.y > 480) {
+        doc.addPage();
+      }
+      doc.fontSize(11).font('Helvetica-Bold').text(group.label, leftCol, doc.y);
+      doc.font('Helvetica');
+      doc.moveDown(0.3);
+
+      for (const invoice of group.invoices) {
+        if (doc.y > 540) {
+          doc.addPage();
+        }
+        y = doc.y;
+        doc.fontSize(9);
+        doc.text(invoice.number, leftCol, y);
+        doc.text(invoice.contractNumber ?? '', leftCol + 100, y);
+        doc.text(report.groupBy === 'contact' ? (invoice.propertyName ?? '') : (invoice.tenantName ?? ''), leftCol + 200, y, { width: 180 });
+        doc.text(`Vence ${new Date(invoice.dueDate).toLocaleDateString('es-ES')}`, leftCol + 390, y);
+        doc.text(invoice.daysPastDue > 0 ? `${invoice.daysPastDue} días` : 'Al día', leftCol + 490, y);
+        doc.text(agingBucketLabels[invoice.bucket], leftCol + 560, y);
+        doc.text(money(invoice.balance), leftCol + 630, y, { width: amountWidth, align: 'right' });
+        doc.moveDown(0.4);
+      }
+    }
+
+    doc.end();
+  });
+}
+
+export async function generateOwnerStatementPDF(statement: OwnerStatement, companyName?: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const buffers: Buffer[] = [];
+
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+
+    const leftCol = 70;
+    const money = (value: string | number) => `$${parseFloat(String(value)).toLocaleString('es-CO')}`;
+    const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+    const line = (label: string, value: string, size = 10) => {
+      doc.fontSize(size)
+         .text(label, leftCol, doc.y, { width: 350, continued: true })
+         .text(value, { align: 'right' });
+      doc.moveDown(0.3);
+    };
+    const section = (title: string) => {
+      if (doc.y > 650) {
+        doc.addPage();
+      }
+      doc.moveDown();
+      doc.fontSize(12).font('Helvetica').text(title, leftCol, doc.y, { underline: true });
+      doc.moveDown(0.5);
+    };
+
+    // Header
+    doc.fontSize(24).text('Liquidación a Propietario', { align: 'center' });
+    if (companyName) {
+      doc.fontSize(10).text(companyName, { align: 'center' });
+    }
+    doc.moveDown();
+    doc.fontSize(14).text(statement.periodLabel.charAt(0).toUpperCase() + statement.periodLabel.slice(1), { align: 'center' });
+    doc.moveDown(2);
+
+    doc.fontSize(12).text('Propietario', leftCol, doc.y);
+    doc.fontSize(10).text(statement.owner.fullName, leftCol, doc.y + 5);
+    const document = [statement.owner.docType, statement.owner.docNumber].filter(Boolean).join(' ');
+    if (document) {
+      doc.text(document, leftCol, doc.y);
+    }
+
+    section('Recaudo del periodo');
+    if (statement.collections.length === 0) {
+      doc.fontSize(10).text('Sin recaudos en el periodo', leftCol, doc.y);
+    }
+    for (const collection of statement.collections) {
+      line(
+        `${formatDate(collection.paymentDate)} · ${collection.propertyName} · ${collection.invoiceNumber}`,
+        money(collection.amount),
+      );
+      if (parseFloat(collection.fee) !== 0) {
+        doc.fillColor('#555555');
+        line(`    Comisión de administración (${parseFloat(collection.feeRate)}%)`, `-${money(collection.fee)}`, 9);
+        doc.fillColor('black');
+      }
+    }
+
+    if (statement.expenseItems.length > 0) {
+      section('Gastos por cuenta del propietario');
+      for (const expense of statement.expenseItems) {
+        line(
+          `${formatDate(expense.expenseDate)} · ${expense.description}${expense.propertyName ? ` (${expense.propertyName})` : ''}`,
+          `-${money(expense.amount)}`,
+        );
+      }
+    }
+
+    if (statement.disbursements.length > 0) {
+      section('Giros realizados');
+      for (const disbursement of statement.disbursements) {
+        line(
+          `${formatDate(disbursement.disbursementDate)} · ${disbursement.method}${disbursement.reference ? ` ${disbursement.reference}` : ''}`,
+          `-${money(disbursement.amount)}`,
+        );
+      }
+    }
+
+    // Summary
+    section('Resumen');
+    line('Saldo anterior', money(statement.openingBalance));
+    line('Total recaudado', money(statement.collected));
+    line('Comisión de administración', `-${money(statement.fees)}`);
+    line('Gastos', `-${money(statement.expenses)}`);
+    line('Giros realizados', `-${money(statement.disbursed)}`);
+    doc.moveDown(0.2);
+
+    // A negative balance is owed by the owner, usually expenses above what was collected
+    const closing = parseFloat(statement.closingBalance);
+    doc.font('Helvetica-Bold');
+    line(closing < 0 ? 'Saldo a cargo del propietario' : 'Saldo a favor del propietario', money(Math.abs(closing)), 14);
+    doc.font('Helvetica');
+
+    doc.end();
+  });
+}
+
+// Checklist by room with the signatures at the end; with a comparison, each item also
+// shows the condition it had in the earlier inspection
+export async function generateInspectionPDF(
+  inspection: any,
+  comparison?: InspectionComparison,
+  companyName?: string,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const buffers: Buffer[] = [];
+
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+
+    const leftCol = 70;
+    const rightCol = 320;
+    const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+    const conditionText = (condition: string | null | undefined) =>
+      condition ? inspectionConditionLabels[condition as keyof typeof inspectionConditionLabels] : 'Sin calificar';
+    const photosOf = (itemId: string) =>
+      (inspection.photos ?? []).filter((photo: any) => photo.inspectionItemId === itemId).length;
+    const earlier = new Map<string, any>(
+      (comparison?.rows ?? []).filter((row) => row.after).map((row) => [row.after!.id, row]),
+    );
+
+    // Header
+    doc.fontSize(24).text('Acta de Inspección', { align: 'center' });
+    if (companyName) {
+      doc.fontSize(10).text(companyName, { align: 'center' });
+    }
+    doc.moveDown();
+    doc.fontSize(14).text(`${inspectionTypeLabels[inspection.type as keyof typeof inspectionTypeLabels]} · ${formatDate(inspection.inspectionDate)}`, { align: 'center' });
+    doc.moveDown(2);
+
+    let y = doc.y;
+    doc.fontSize(12).text('Propiedad', leftCol, y);
+    doc.fontSize(10).text(inspection.contract?.property?.name || 'N/A', leftCol, y + 20);
+    doc.text(inspection.contract?.property?.address || '', leftCol, y + 35);
+
+    doc.fontSize(12).text('Contrato', rightCol, y);
+    doc.fontSize(10).text(inspection.contract?.number || 'N/A', rightCol, y + 20);
+    doc.text(`Inquilino: ${inspection.contract?.tenantContact?.fullName || 'N/A'}`, rightCol, y + 35);
+    doc.text(`Inspector: ${inspection.inspectorName}`, rightCol, y + 50);
+
+    doc.y = y + 75;
+    if (comparison) {
+      doc.fontSize(9).fillColor('#555555')
+         .text(
+           `Comparado con la inspección de ${inspectionTypeLabels[comparison.from.type].toLowerCase()} del ${formatDate(comparison.from.inspectionDate)}`,
+           leftCol, doc.y,
+         );
+      doc.fillColor('black');
+    }
+
+    // Checklist grouped by room, in checklist order
+    let currentRoom: string | null = null;
+    for (const item of inspection.items ?? []) {
+      if (doc.y > 680) {
+        doc.addPage();
+        currentRoom = null;
+      }
+      if (item.room !== currentRoom) {
+        currentRoom = item.room;
+        doc.moveDown();
+        doc.fontSize(12).font('Helvetica-Bold').text(item.room, leftCol, doc.y);
+        doc.font('Helvetica');
+        doc.moveDown(0.3);
+      }
+
+      const row = earlier.get(item.id);
+      const condition = row?.before
+        ? `${conditionText(row.before.condition)} → ${conditionText(item.condition)}`
+        : conditionText(item.condition);
+      doc.fontSize(10);
+      if (row?.change === 'worse') {
+        doc.fillColor('#b91c1c');
+      }
+      doc.text(item.item, leftCol + 10, doc.y, { width: 250, continued: true })
+         .text(condition, { align: 'right' });
+      doc.fillColor('black');
+
+      const photos = photosOf(item.id);
+      const detail = [item.notes, photos > 0 ? `${photos} foto(s) adjunta(s)` : null].filter(Boolean).join(' · ');
+      if (detail) {
+        doc.fontSize(9).fillColor('#555555').text(detail, leftCol + 20, doc.y, { width: 440 });
+        doc.fillColor('black');
+      }
+      doc.moveDown(0.3);
+    }
+
+    const removed = (comparison?.rows ?? []).filter((row) => row.change === 'removed');
+    if (removed.length > 0) {
+      doc.moveDown();
+      doc.fontSize(10).fillColor('#555555')
+         .text(`No revisado en esta inspección: ${removed.map((row) => `${row.room} - ${row.item}`).join(', ')}`, leftCol, doc.y, { width: 470 });
+      doc.fillColor('black');
+    }
+
+    if (inspection.notes) {
+      doc.moveDown();
+      doc.fontSize(12).text('Observaciones', leftCol, doc.y, { underline: true });
+      doc.moveDown(0.3);
+      doc.fontSize(10).text(inspection.notes, leftCol, doc.y, { width: 470 });
+    }
+
+    // Signatures
+    if (doc.y > 600) {
+      doc.addPage();
+    }
+    doc.moveDown(2);
+    y = doc.y;
+    const signatureBox = (dataUrl: string | null, x: number, label: string, name: string) => {
+      if (dataUrl) {
+        doc.image(Buffer.from(dataUrl.split(',')[1], 'base64'), x, y, { fit: [200, 70] });
+      }
+      doc.moveTo(x, y + 75).lineTo(x + 200, y + 75).stroke();
+      doc.fontSize(10).text(name, x, y + 80, { width: 200 });
+      doc.fontSize(9).fillColor('#555555').text(label, x, y + 95, { width: 200 });
+      doc.fillColor('black');
+    };
+    signatureBox(inspection.tenantSignature, leftCol, 'Por el inquilino', inspection.tenantSignedName || '');
+    signatureBox(inspection.inspectorSignature, rightCol, 'Inspector', inspection.inspectorName);
+
+    doc.y = y + 120;
+    doc.fontSize(9).fillColor('#555555').text(
+      inspection.signedAt
+        ? `Firmado el ${new Date(inspection.signedAt).toLocaleString('es-ES')}`
+        : 'Borrador sin firmar',
+      leftCol, doc.y,
+    );
+    doc.fillColor('black');
+
+    doc.end();
+  });
+}
@@ -0,0 +1,115 @@
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { emailSettings, notifications, tenants } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { runDunning } = await import("./dunningService");
+const { sendAccountStatement } = await import("./emailService");
+
+async function outboxFiles(dir: string) {
+  const names = (await readdir(dir)).filter((name) => name.endsWith(".eml"));
+  return await Promise.all(names.map(async (name) => ({ name, content: await readFile(path.join(dir, name), "utf8") })));
+}
+
+describe("reminders through the outbox transport", () => {
+  let outbox: string;
+
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  beforeEach(async () => {
+    outbox = await mkdtemp(path.join(tmpdir(), "outbox-"));
+    vi.stubEnv("EMAIL_OUTBOX_DIR", outbox);
+    vi.stubEnv("EMAIL_TRANSPORT", "outbox");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(outbox, { recursive: true, force: true });
+  });
+
+  it("writes the due-today dunning email to the outbox and logs it as sent", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Norte");
+    const invoice = await seedInvoice(testDb.db, lease, { number: "F-100", dueDate: "2025-03-05" });
+
+    expect(await runDunning(lease.tenant, "2025-03-05")).toBe(1);
+
+    const [notification] = await testDb.db.select().from(notifications).where(eq(notifications.invoiceId, invoice.id));
+    expect(notification).toMatchObject({ template: "due_today", transport: "outbox", status: "sent", recipient: lease.renter.email });
+
+    const files = await outboxFiles(outbox);
+    expect(files).toHaveLength(1);
+    expect(files[0].name).toContain(notification.id);
+    expect(files[0].content).toContain(`To: ${lease.renter.email}`);
+    expect(files[0].content).toMatch(/^Subject: .+/m);
+    expect(files[0].content).toContain("F-100");
+  });
+
+  it("does not send the same step twice", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Sur");
+    await seedInvoice(testDb.db, lease, { number: "F-200", dueDate: "2025-03-05" });
+
+    expect(await runDunning(lease.tenant, "2025-03-05")).toBe(1);
+    expect(await runDunning(lease.tenant, "2025-03-05")).toBe(0);
+    expect(await outboxFiles(outbox)).toHaveLength(1);
+  });
+
+  it("attaches the statement PDF to the .eml", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Centro");
+    const pdf = Buffer.from("%PDF-1.4 estado de cuenta");
+
+    await sendAccountStatement(lease.tenant.id, {
+      from: "2025-01-01",
+      to: "2025-03-31",
+      closingBalance: "1500000",
+      contact: lease.renter,
+      contract: lease.contract,
+    }, pdf, lease.tenant.name);
+
+    const [file] = await outboxFiles(outbox);
+    expect(file.content).toContain(`To: ${lease.renter.email}`);
+    expect(file.content).toMatch(/Content-Type: application\/pdf; name=estado-de-cuenta-2025-03-31\.pdf/);
+    expect(file.content).toContain('filename=estado-de-cuenta-2025-03-31.pdf');
+    expect(file.content.replace(/\r?\n/g, "")).toContain(pdf.toString("base64"));
+  });
+
+  it("uses the tenant's own outbox settings over the platform transport", async () => {
+    vi.stubEnv("EMAIL_TRANSPORT", "sendgrid");
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Oeste");
+    await testDb.db.insert(emailSettings).values({
+      tenantId: lease.tenant.id,
+      transport: "outbox",
+      fromEmail: "cobranza@oeste.test",
+      fromName: "Cobranza Oeste",
+    });
+    await seedInvoice(testDb.db, lease, { number: "F-300", dueDate: "2025-03-05" });
+
+    expect(await runDunning(lease.tenant, "2025-03-05")).toBe(1);
+
+    const [file] = await outboxFiles(outbox);
+    expect(file.content).toContain("From: Cobranza Oeste <cobranza@oeste.test>");
+  });
+
+  it("sends the tenant's logo as an inline attachment instead of a data URL", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Este");
+    const png = Buffer.from("89504e470d0a1a0a", "hex");
+    const logo = `data:image/png;base64,${png.toString("base64")}`;
+    await testDb.db.update(tenants).set({ logo }).where(eq(tenants.id, lease.tenant.id));
+    await seedInvoice(testDb.db, lease, { number: "F-400", dueDate: "2025-03-05" });
+
+    expect(await runDunning({ ...lease.tenant, logo }, "2025-03-05")).toBe(1);
+
+    const [file] = await outboxFiles(outbox);
+    expect(file.content).toContain('src=3D"cid:company-logo"');
+    expect(file.content).toMatch(/Content-ID: <company-logo>/);
+    expect(file.content).not.toContain("data:image/png");
+  });
+});
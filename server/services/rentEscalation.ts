@@ -0,0 +1,160 @@
+import type { Contract, PriceIndexValue } from "@shared/schema";
+
+export interface RentStep {
+  effectiveDate: string;
+  previousRent: string;
+  newRent: string;
+  escalationType: Contract["escalationType"];
+  indexYear: number | null;
+  indexMonth: number | null;
+  indexChange: string | null;
+  appliedRate: string;
+  capped: boolean;
+}
+
+export interface RentSchedule {
+  baseRent: string;
+  steps: RentStep[];
+  // First anniversary that could not be computed (index value not loaded yet);
+  // periods from this date on have no known rent
+  blocked?: { effectiveDate: string; reason: string };
+}
+
+const indexLabels: Record<PriceIndexValue["indexType"], string> = {
+  ipc: "IPC",
+  inpc: "INPC",
+};
+
+const monthKey = (year: number, month: number) => year * 12 + (month - 1);
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function monthLabel(year: number, month: number): string {
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleString("es-ES", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+// Rent changes on the first day of the anniversary month, once at least twelve
+// months have passed since the start month and then every year until the end date
+export function getAnniversaries(contract: Pick<Contract, "startDate" | "endDate" | "escalationMonth">): string[] {
+  const [startYear, startMonth] = contract.startDate.split("-").map(Number);
+  const escalationMonth = contract.escalationMonth ?? startMonth;
+  const earliest = monthKey(startYear + 1, startMonth);
+
+  let year = startYear;
+  while (monthKey(year, escalationMonth) < earliest) {
+    year++;
+  }
+
+  const anniversaries: string[] = [];
+  for (; ; year++) {
+    const date = `${year}-${String(escalationMonth).padStart(2, "0")}-01`;
+    if (date > contract.endDate) {
+      break;
+    }
+    anniversaries.push(date);
+  }
+  return anniversaries;
+}
+
+// The latest 12-month variation published before the anniversary month, as long as
+// it is not more than a year old
+function findIndexValue(values: PriceIndexValue[], year: number, month: number): PriceIndexValue | undefined {
+  const target = monthKey(year, month);
+  return values
+    .filter((value) => {
+      const key = monthKey(value.year, value.month);
+      return key < target && key >= target - 12;
+    })
+    .sort((a, b) => monthKey(b.year, b.month) - monthKey(a.year, a.month))[0];
+}
+
+// Applies the contract's yearly rule to `rent` at `effectiveDate`
+export function escalateRent(
+  contract: Contract,
+  rent: number,
+  effectiveDate: string,
+  indexValues: PriceIndexValue[],
+): RentStep | { blockedReason: string } {
+  const [year, month] = effectiveDate.split("-").map(Number);
+  const cap = contract.escalationCap ? parseFloat(contract.escalationCap) : null;
+  let rate = contract.escalationRate ? parseFloat(contract.escalationRate) : 0;
+  let indexValue: PriceIndexValue | undefined;
+
+  if (contract.escalationType === "ipc" || contract.escalationType === "inpc") {
+    indexValue = findIndexValue(
+      indexValues.filter((value) => value.indexType === contract.escalationType),
+      year,
+      month,
+    );
+    if (!indexValue) {
+      return {
+        blockedReason: `Falta el valor de ${indexLabels[contract.escalationType]} anterior a ${monthLabel(year, month)}`,
+      };
+    }
+    rate += parseFloat(indexValue.annualChange);
+  }
+
+  // Deflation never lowers the rent
+  rate = Math.max(rate, 0);
+  const capped = cap !== null && rate > cap;
+  if (capped) {
+    rate = cap;
+  }
+
+  return {
+    effectiveDate,
+    previousRent: rent.toFixed(2),
+    newRent: roundMoney(rent * (1 + rate / 100)).toFixed(2),
+    escalationType: contract.escalationType,
+    indexYear: indexValue?.year ?? null,
+    indexMonth: indexValue?.month ?? null,
+    indexChange: indexValue?.annualChange ?? null,
+    appliedRate: rate.toFixed(4),
+    capped,
+  };
+}
+
+export function buildRentSchedule(contract: Contract, indexValues: PriceIndexValue[]): RentSchedule {
+  const schedule: RentSchedule = { baseRent: contract.rentAmount, steps: [] };
+  if (contract.escalationType === "none") {
+    return schedule;
+  }
+
+  let rent = parseFloat(contract.rentAmount);
+
+  for (const effectiveDate of getAnniversaries(contract)) {
+    const step = escalateRent(contract, rent, effectiveDate, indexValues);
+    if ("blockedReason" in step) {
+      schedule.blocked = { effectiveDate, reason: step.blockedReason };
+      break;
+    }
+    schedule.steps.push(step);
+    rent = parseFloat(step.newRent);
+  }
+
+  return schedule;
+}
+
+export type PeriodRent =
+  | { rent: string; step?: RentStep }
+  | { blockedReason: string };
+
+export function getRentForPeriod(schedule: RentSchedule, periodStart: string): PeriodRent {
+  if (schedule.blocked && periodStart >= schedule.blocked.effectiveDate) {
+    return { blockedReason: schedule.blocked.reason };
+  }
+
+  const step = schedule.steps.filter((candidate) => candidate.effectiveDate <= periodStart).pop();
+  return step ? { rent: step.newRent, step } : { rent: schedule.baseRent };
+}
+
+export function describeRentStep(step: RentStep): string {
+  const rate = `${parseFloat(step.appliedRate).toFixed(2)}%`;
+  if (step.escalationType === "fixed") {
+    return `incremento anual ${rate}`;
+  }
+  const label = indexLabels[step.escalationType as PriceIndexValue["indexType"]];
+  return step.capped ? `incremento ${label} ${rate}, con tope` : `incremento ${label} ${rate}`;
+}
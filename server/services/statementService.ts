@@ -0,0 +1,218 @@
+import { storage } from "../storage";
+import type { ChargeCategory, StatementRange } from "@shared/schema";
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('es-ES');
+
+export type StatementScope = "contact" | "contract";
+
+export type StatementEntryType = "invoice" | "late_fee" | "credit_note" | "payment";
+
+export interface StatementEntry {
+  date: string;
+  type: StatementEntryType;
+  reference: string; // invoice or credit note number
+  description: string;
+  invoiceId: string;
+  contractNumber: string | null;
+  debit: string;
+  credit: string;
+  balance: string; // running balance after the entry
+  charges?: { description: string; category: ChargeCategory; amount: string }[]; // invoice lines, on invoice entries
+}
+
+export interface AccountStatement {
+  scope: StatementScope;
+  contact: { id: string; fullName: string; email: string | null; docType: string | null; docNumber: string | null };
+  contract: { id: string; number: string; property: { name: string; address: string } | null } | null;
+  from: string;
+  to: string;
+  openingBalance: string;
+  totalDebits: string;
+  totalCredits: string;
+  closingBalance: string;
+  entries: StatementEntry[];
+}
+
+export const statementEntryTypeLabels: Record<StatementEntryType, string> = {
+  invoice: 'Factura',
+  late_fee: 'Mora',
+  credit_note: 'Nota crédito',
+  payment: 'Pago',
+};
+
+// Charges before credits on the same day, so a same-day payment never shows a balance in favour
+const entryTypeOrder: StatementEntryType[] = ["invoice", "late_fee", "credit_note", "payment"];
+
+const paymentMethodLabels: Record<string, string> = {
+  transfer: 'transferencia',
+  cash: 'efectivo',
+  check: 'cheque',
+  card: 'tarjeta',
+};
+
+type LedgerMovement = Omit<StatementEntry, "debit" | "credit" | "balance"> & { amount: number };
+
+// Turns each invoice into the movements it produced: the invoice itself when issued, each
+// late fee when it was applied, then every credit note and payment against it. Late fees are
+// posted apart because they are added to the invoice after it was issued.
+function toMovements(invoice: any): LedgerMovement[] {
+  const contractNumber = invoice.contract?.number ?? null;
+  const lateFees = (invoice.charges ?? []).filter((charge: any) => charge.category === "late_fee");
+  const lateFeeTotal = lateFees.reduce((sum: number, charge: any) => sum + parseFloat(charge.amount), 0);
+
+  const movements: LedgerMovement[] = [{
+    date: invoice.issueDate,
+    type: "invoice",
+    reference: invoice.number,
+    description: invoice.periodStart
+      ? `Periodo del ${formatDate(invoice.periodStart)} al ${formatDate(invoice.periodEnd)}`
+      : `Vence el ${formatDate(invoice.dueDate)}`,
+    invoiceId: invoice.id,
+    contractNumber,
+    amount: parseFloat(invoice.totalAmount) - lateFeeTotal,
+    charges: (invoice.charges ?? [])
+      .filter((charge: any) => charge.category !== "late_fee")
+      .map((charge: any) => ({ description: charge.description, category: charge.category, amount: charge.amount })),
+  }];
+
+  for (const charge of lateFees) {
+    movements.push({
+      date: toDateString(new Date(charge.createdAt)),
+      type: "late_fee",
+      reference: invoice.number,
+      description: charge.description,
+      invoiceId: invoice.id,
+      contractNumber,
+      amount: parseFloat(charge.amount),
+    });
+  }
+
+  for (const note of invoice.creditNotes ?? []) {
+    movements.push({
+      date: note.issueDate,
+      type: "credit_note",
+      reference: note.number,
+      description: `${note.reason} (factura ${invoice.number})`,
+      invoiceId: invoice.id,
+      contractNumber,
+      amount: -parseFloat(note.amount),
+    });
+  }
+
+  for (const payment of invoice.payments ?? []) {
+    movements.push({
+      date: payment.paymentDate,
+      type: "payment",
+      reference: invoice.number,
+      description: `Pago por ${paymentMethodLabels[payment.method] ?? payment.method}`,
+      invoiceId: invoice.id,
+      contractNumber,
+      amount: -parseFloat(payment.amount),
+    });
+  }
+
+  return movements;
+}
+
+export function resolveStatementRange(range: StatementRange, today: Date = new Date()): { from: string; to: string } {
+  const to = range.to ?? toDateString(today);
+  const from = range.from ?? `${to.slice(0, 4)}-01-01`;
+  return { from, to };
+}
+
+// Chronological ledger of everything billed to and received from a tenant contact, or on one
+// contract, between two dates. Movements before the range are summed into the opening balance.
+export async function buildAccountStatement(
+  tenantId: string,
+  scope: StatementScope,
+  id: string,
+  range: StatementRange,
+): Promise<AccountStatement | undefined> {
+  const { from, to } = resolveStatementRange(range);
+
+  let contract: AccountStatement["contract"] = null;
+  let contactId: string;
+  if (scope === "contract") {
+    const found: any = await storage.getContract(id, tenantId);
+    if (!found) {
+      return undefined;
+    }
+    contract = {
+      id: found.id,
+      number: found.number,
+      property: found.property ? { name: found.property.name, address: found.property.address } : null,
+    };
+    contactId = found.tenantContactId;
+  } else {
+    contactId = id;
+  }
+
+  const contact = await storage.getContact(contactId, tenantId);
+  if (!contact) {
+    return undefined;
+  }
+
+  const invoices = await storage.getAccountInvoices(
+    tenantId,
+    scope === "contract" ? { contractId: id } : { contactId },
+  );
+
+  const movements = invoices
+    .flatMap(toMovements)
+    .sort((a, b) =>
+      a.date.localeCompare(b.date)
+      || entryTypeOrder.indexOf(a.type) - entryTypeOrder.indexOf(b.type)
+      || a.reference.localeCompare(b.reference));
+
+  let balance = 0;
+  let totalDebits = 0;
+  let totalCredits = 0;
+  const entries: StatementEntry[] = [];
+
+  for (const { amount, ...movement } of movements) {
+    if (movement.date > to) {
+      break;
+    }
+    balance += amount;
+    if (movement.date < from) {
+      continue;
+    }
+    if (amount >= 0) {
+      totalDebits += amount;
+    } else {
+      totalCredits -= amount;
+    }
+    entries.push({
+      ...movement,
+      debit: amount >= 0 ? amount.toFixed(2) : "0.00",
+      credit: amount < 0 ? (-amount).toFixed(2) : "0.00",
+      balance: balance.toFixed(2),
+    });
+  }
+
+  const closingBalance = balance;
+  const openingBalance = closingBalance - totalDebits + totalCredits;
+
+  return {
+    scope,
+    contact: {
+      id: contact.id,
+      fullName: contact.fullName,
+      email: contact.email,
+      docType: contact.docType,
+      docNumber: contact.docNumber,
+    },
+    contract,
+    from,
+    to,
+    openingBalance: openingBalance.toFixed(2),
+    totalDebits: totalDebits.toFixed(2),
+    totalCredits: totalCredits.toFixed(2),
+    closingBalance: closingBalance.toFixed(2),
+    entries,
+  };
+}
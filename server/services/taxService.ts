@@ -0,0 +1,55 @@
+import { db } from "../db";
+import { taxProfiles, type Contract, type Invoice, type TaxProfile } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+
+export type TaxRates = Pick<TaxProfile, "ivaRate" | "withholdingRate" | "icaRate">;
+
+export interface ChargeTaxes {
+  taxAmount: string;
+  withholdingAmount: string;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// IVA and withholdings (retención en la fuente + reteICA) on one charge line. Negative
+// lines (credits) carry negative taxes so they reverse what the original line added.
+export function computeChargeTaxes(amount: string, rates: TaxRates | null | undefined, taxable = true): ChargeTaxes {
+  if (!rates || !taxable) {
+    return { taxAmount: "0.00", withholdingAmount: "0.00" };
+  }
+
+  const base = parseFloat(amount);
+  const tax = roundMoney(base * parseFloat(rates.ivaRate) / 100);
+  const withholding = roundMoney(base * parseFloat(rates.withholdingRate) / 100)
+    + roundMoney(base * parseFloat(rates.icaRate) / 100);
+
+  return { taxAmount: tax.toFixed(2), withholdingAmount: withholding.toFixed(2) };
+}
+
+// Invoices keep the rates they were issued with, so editing a profile never changes them
+export function invoiceTaxRates(invoice: Pick<Invoice, "ivaRate" | "withholdingRate" | "icaRate">): TaxRates | null {
+  if (invoice.ivaRate === null || invoice.withholdingRate === null || invoice.icaRate === null) {
+    return null;
+  }
+  return { ivaRate: invoice.ivaRate, withholdingRate: invoice.withholdingRate, icaRate: invoice.icaRate };
+}
+
+export function taxRateColumns(rates: TaxRates | null): Pick<Invoice, "ivaRate" | "withholdingRate" | "icaRate"> {
+  return {
+    ivaRate: rates?.ivaRate ?? null,
+    withholdingRate: rates?.withholdingRate ?? null,
+    icaRate: rates?.icaRate ?? null,
+  };
+}
+
+export async function getContractTaxProfile(contract: Pick<Contract, "tenantId" | "taxProfileId">): Promise<TaxProfile | null> {
+  if (!contract.taxProfileId) {
+    return null;
+  }
+  const profile = await db.query.taxProfiles.findFirst({
+    where: and(eq(taxProfiles.id, contract.taxProfileId), eq(taxProfiles.tenantId, contract.tenantId)),
+  });
+  return profile ?? null;
+}
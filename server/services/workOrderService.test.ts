@@ -0,0 +1,60 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { invoiceCharges, ownerExpenses } from "@shared/schema";
+import { createTestDb } from "../testing/db";
+import { seedInvoice, seedTenant } from "../testing/fixtures";
+
+const testDb = vi.hoisted(() => ({} as Awaited<ReturnType<typeof createTestDb>>));
+vi.mock("../db", () => ({ get db() { return testDb.db; }, pool: null }));
+
+const { storage } = await import("../storage");
+const { billWorkOrder } = await import("./workOrderService");
+
+// A completed repair of 300.000 on the leased property
+async function seedCompletedOrder(lease: Awaited<ReturnType<typeof seedTenant>>) {
+  return await storage.createWorkOrder({
+    tenantId: lease.tenant.id,
+    propertyId: lease.property.id,
+    contractId: lease.contract.id,
+    title: "Fuga en el baño",
+    category: "plumbing",
+    status: "completed",
+    reportedDate: "2025-03-01",
+    completedDate: "2025-03-03",
+    cost: "300000",
+  });
+}
+
+describe("billWorkOrder", () => {
+  beforeAll(async () => {
+    Object.assign(testDb, await createTestDb());
+  });
+
+  it("adds the cost to the tenant invoice once", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Norte");
+    const invoice = await seedInvoice(testDb.db, lease, { number: "F-3", dueDate: "2099-03-05" });
+    await testDb.db.insert(invoiceCharges).values({ invoiceId: invoice.id, description: "Canon marzo", category: "rent", amount: "1500000", sourceType: "contract" });
+    await storage.createPayment({ tenantId: lease.tenant.id, invoiceId: invoice.id, amount: "1000000", paymentDate: "2025-03-04", method: "transferencia" });
+    const order = await seedCompletedOrder(lease);
+
+    const billed = await billWorkOrder(order, { billTo: "tenant", invoiceId: invoice.id });
+
+    expect(billed).toMatchObject({ billedTo: "tenant" });
+    expect(await storage.getInvoice(invoice.id, lease.tenant.id)).toMatchObject({ totalAmount: "1800000.00", status: "partial" });
+
+    // A second request that read the ticket before the first one billed it
+    await expect(billWorkOrder(order, { billTo: "tenant", invoiceId: invoice.id })).rejects.toThrow("is already billed");
+    expect(await testDb.db.select().from(invoiceCharges).where(eq(invoiceCharges.sourceId, order.id))).toHaveLength(1);
+  });
+
+  it("bills the owner once", async () => {
+    const lease = await seedTenant(testDb.db, "Inmobiliaria Sur");
+    const order = await seedCompletedOrder(lease);
+
+    const billed = await billWorkOrder(order, { billTo: "owner" });
+
+    expect(billed).toMatchObject({ billedTo: "owner", ownerExpenseId: expect.any(String) });
+    await expect(billWorkOrder(order, { billTo: "owner" })).rejects.toThrow("is already billed");
+    expect(await testDb.db.select().from(ownerExpenses).where(eq(ownerExpenses.tenantId, lease.tenant.id))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,167 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import { canEditCharges, recalcInvoiceTotals } from "./invoiceEngine";
+import { defaultTaxable } from "./chargeCategories";
+import {
+  invoiceCharges,
+  type BillWorkOrder,
+  type Contract,
+  type InsertWorkOrder,
+  type UpdateWorkOrder,
+  type WorkOrder,
+  type WorkOrderCategory,
+  type WorkOrderStatus,
+} from "@shared/schema";
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export const workOrderCategoryLabels: Record<WorkOrderCategory, string> = {
+  plumbing: 'Plomería',
+  electrical: 'Electricidad',
+  appliances: 'Electrodomésticos',
+  locksmith: 'Cerrajería',
+  painting: 'Pintura',
+  structural: 'Estructura',
+  cleaning: 'Aseo',
+  other: 'Otro',
+};
+
+// Where a ticket can move next. Completed tickets can be reopened until they are billed.
+const workOrderTransitions: Record<WorkOrderStatus, WorkOrderStatus[]> = {
+  open: ["assigned", "in_progress", "completed", "cancelled"],
+  assigned: ["open", "in_progress", "completed", "cancelled"],
+  in_progress: ["assigned", "completed", "cancelled"],
+  completed: ["in_progress"],
+  cancelled: ["open"],
+};
+
+// Leases that can still be charged for what happens in the property
+const chargeableContractStatuses: Contract['status'][] = ["signed", "active", "expiring"];
+
+// Deleting the invoice or the owner expense clears the link, which releases the ticket
+export function isWorkOrderBilled(order: Pick<WorkOrder, 'invoiceChargeId' | 'ownerExpenseId'>): boolean {
+  return !!order.invoiceChargeId || !!order.ownerExpenseId;
+}
+
+export async function findLeaseForProperty(tenantId: string, propertyId: string): Promise<Contract | undefined> {
+  const contracts = await storage.getContracts(tenantId);
+  return contracts.find((contract) =>
+    contract.propertyId === propertyId && chargeableContractStatuses.includes(contract.status));
+}
+
+// Works out the row changes for an edit: checks the status move, stamps or clears the
+// completion date and assigns the ticket when a provider is set on an open one
+export function planWorkOrderUpdate(order: WorkOrder, input: UpdateWorkOrder): Partial<InsertWorkOrder> {
+  const billed = isWorkOrderBilled(order);
+  if (billed && (input.cost !== undefined || (input.status !== undefined && input.status !== order.status))) {
+    throw new Error(`work order ${order.number} is already billed; its cost and status can no longer change`);
+  }
+
+  const { status: requestedStatus, ...fields } = input;
+  const update: Partial<InsertWorkOrder> = { ...fields };
+
+  let status = requestedStatus ?? order.status;
+  if (!requestedStatus && order.status === "open" && input.providerContactId) {
+    status = "assigned";
+  }
+  if (status !== order.status) {
+    if (!workOrderTransitions[order.status].includes(status)) {
+      throw new Error(`cannot move a work order from ${order.status} to ${status}`);
+    }
+    update.status = status;
+  }
+
+  if (status === "completed") {
+    update.completedDate = input.completedDate ?? order.completedDate ?? toDateString(new Date());
+  } else if (order.completedDate || input.completedDate) {
+    update.completedDate = null;
+  }
+
+  return update;
+}
+
+// Bills the final cost of a completed ticket once: as a maintenance line on an open invoice
+// of the lease it happened under, or as an expense deducted in the owner's statement.
+// The ticket is claimed in the same transaction, so a concurrent request rolls back.
+export async function billWorkOrder(order: WorkOrder, input: BillWorkOrder): Promise<WorkOrder> {
+  if (order.status !== "completed") {
+    throw new Error(`work order ${order.number} must be completed before it is billed`);
+  }
+  if (isWorkOrderBilled(order)) {
+    throw new Error(`work order ${order.number} is already billed`);
+  }
+  if (!order.cost || parseFloat(order.cost) <= 0) {
+    throw new Error(`work order ${order.number} has no cost to bill`);
+  }
+  const cost = order.cost;
+
+  const description = input.description
+    ?? `${workOrderCategoryLabels[order.category]} - ${order.title} (${order.number})`;
+
+  const claim = async (billing: Parameters<typeof storage.claimWorkOrderBilling>[2]) => {
+    const claimed = await storage.claimWorkOrderBilling(order.id, order.tenantId, billing);
+    if (!claimed) {
+      throw new Error(`work order ${order.number} is already billed`);
+    }
+    return claimed;
+  };
+
+  if (input.billTo === "tenant") {
+    if (!order.contractId) {
+      throw new Error(`work order ${order.number} is not linked to a lease`);
+    }
+    const invoice = await storage.getInvoice(input.invoiceId, order.tenantId);
+    if (!invoice || invoice.contractId !== order.contractId) {
+      throw new Error('Invoice not found on the work order contract');
+    }
+    if (!canEditCharges(invoice)) {
+      throw new Error(`Cannot add charges to a ${invoice.status} invoice`);
+    }
+
+    return await db.transaction(async () => {
+      const [charge] = await db.insert(invoiceCharges).values({
+        invoiceId: invoice.id,
+        description,
+        category: 'maintenance',
+        quantity: null,
+        unitPrice: null,
+        amount: cost,
+        sourceType: 'work_order',
+        sourceId: order.id,
+        taxable: defaultTaxable('maintenance'),
+      }).returning();
+
+      await recalcInvoiceTotals(invoice.id);
+      await storage.createAuditLog({
+        tenantId: invoice.tenantId,
+        action: "update",
+        entity: "invoice",
+        entityId: invoice.id,
+        meta: { after: { chargeId: charge.id, category: charge.category, description: charge.description, amount: charge.amount } },
+      });
+
+      return await claim({ billedTo: "tenant", invoiceChargeId: charge.id });
+    });
+  }
+
+  const property = await storage.getProperty(order.propertyId, order.tenantId);
+  if (!property?.ownerContactId) {
+    throw new Error(`property ${property?.name ?? ''} has no owner to bill`);
+  }
+  const ownerContactId = property.ownerContactId;
+
+  return await db.transaction(async () => {
+    const expense = await storage.createOwnerExpense({
+      tenantId: order.tenantId,
+      ownerContactId,
+      propertyId: order.propertyId,
+      expenseDate: input.expenseDate ?? order.completedDate ?? toDateString(new Date()),
+      description,
+      amount: cost,
+    });
+
+    return await claim({ billedTo: "owner", ownerExpenseId: expense.id });
+  });
+}
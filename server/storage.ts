@@ -1,14 +1,40 @@
 import { db } from "./db";
 import { 
   users, tenants, contacts, properties, contracts, invoices, 
-  invoiceCharges, payments, insurers, policies, ocrLogs, auditLogs, propertyPhotos,
+  invoiceCharges, creditNotes, payments, insurers, policies, ocrLogs, auditLogs, propertyPhotos, teamInvitations,
+  priceIndexValues, rentEscalations, depositEntries, taxProfiles, recurringCharges, ownerExpenses, ownerDisbursements,
+  workOrders, workOrderPhotos, inspections, inspectionItems, inspectionPhotos, dunningSteps, dunningEvents, schedulerRuns, notifications, emailTemplates, emailSettings, messagingConsents,
   type User, type UpsertUser, type Tenant, type InsertTenant,
+  type TeamInvitation, type InsertTeamInvitation,
   type Contact, type InsertContact, type Property, type InsertProperty,
   type Contract, type InsertContract, type Invoice, type InsertInvoice,
   type Payment, type InsertPayment, type Insurer, type InsertInsurer,
-  type Policy, type InsertPolicy, type PropertyPhoto, type InsertPropertyPhoto
+  type Policy, type InsertPolicy, type PropertyPhoto, type InsertPropertyPhoto,
+  type OcrLog, type InsertOcrLog, type AuditLog, type InsertAuditLog, type AuditAction,
+  type PriceIndexValue, type InsertPriceIndexValue, type RentEscalation,
+  type DepositEntry, type InsertDepositEntry, type TaxProfile, type InsertTaxProfile,
+  type RecurringCharge, type InsertRecurringCharge, type CreditNote, type InsertCreditNote,
+  type OwnerExpense, type InsertOwnerExpense, type OwnerDisbursement, type InsertOwnerDisbursement,
+  type WorkOrder, type InsertWorkOrder, type WorkOrderStatus, type WorkOrderPhoto, type InsertWorkOrderPhoto,
+  type Inspection, type InsertInspection, type InspectionItem, type InsertInspectionItem,
+  type InspectionPhoto, type InsertInspectionPhoto,
+  type DunningStep, type InsertDunningStep, type DunningEvent, type InsertDunningEvent, type SchedulerRun, type SchedulerJob,
+  type Notification, type InsertNotification, type EmailTemplate, type InsertEmailTemplate, type EmailTemplateKey,
+  type EmailSettings, type InsertEmailSettings, type MessagingConsent, type InsertMessagingConsent, type MessagingChannel
 } from "@shared/schema";
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, or, desc, gte, lte, lt, ne, inArray, isNull, sql } from "drizzle-orm";
+import { getAuditActor } from "./auditContext";
+import { getErrorMessage, isUniqueViolation } from "./errors";
+import { decryptSecret, encryptSecret } from "./secrets";
+
+export type AuditLogFilters = {
+  entity?: string;
+  entityId?: string;
+  actorUserId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+};
 
 export interface IStorage {
   // Users (Replit Auth)
@@ -16,8 +42,20 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   getUserByEmail(email: string): Promise<User | undefined>;
   
+  // Team members & invitations
+  getTenantUsers(tenantId: string): Promise<User[]>;
+  updateUserRole(id: string, tenantId: string, role: User["role"]): Promise<User | undefined>;
+  removeUserFromTenant(id: string, tenantId: string): Promise<void>;
+  getTeamInvitations(tenantId: string): Promise<TeamInvitation[]>;
+  getTeamInvitation(id: string, tenantId: string): Promise<TeamInvitation | undefined>;
+  getTeamInvitationByTokenHash(tokenHash: string): Promise<TeamInvitation | undefined>;
+  createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation>;
+  revokeTeamInvitation(id: string, tenantId: string): Promise<TeamInvitation | undefined>;
+  acceptTeamInvitation(id: string, userId: string): Promise<TeamInvitation | undefined>;
+  
   // Tenants
   getTenant(id: string): Promise<Tenant | undefined>;
+  getActiveTenants(): Promise<Tenant[]>;
   createTenant(tenant: InsertTenant): Promise<Tenant>;
   updateTenant(id: string, tenant: Partial<InsertTenant>): Promise<Tenant | undefined>;
   updateTenantPlan(id: string, plan: string, maxProperties: number): Promise<void>;
@@ -43,22 +81,32 @@ export interface IStorage {
   createContract(contract: InsertContract): Promise<Contract>;
   updateContract(id: string, tenantId: string, contract: Partial<InsertContract>): Promise<Contract | undefined>;
   updateContractStatus(id: string, tenantId: string, status: string): Promise<void>;
+  getContractRenewal(id: string, tenantId: string): Promise<Contract | undefined>;
   deleteContract(id: string, tenantId: string): Promise<void>;
   
   // Invoices
   getInvoices(tenantId: string, filters?: any): Promise<Invoice[]>;
   getInvoice(id: string, tenantId: string): Promise<Invoice | undefined>;
+  getAccountInvoices(tenantId: string, filters: { contactId?: string; contractId?: string }): Promise<any[]>;
+  getReceivableInvoices(tenantId: string, asOf: string): Promise<any[]>;
+  getOpenInvoicesDue(tenantId: string, filters: { dueDate?: string; dueBefore?: string }): Promise<any[]>;
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
   updateInvoice(id: string, tenantId: string, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined>;
   updateInvoiceStatus(id: string, tenantId: string, status: string): Promise<void>;
   deleteInvoice(id: string, tenantId: string): Promise<void>;
   
+  // Credit notes
+  getCreditNotes(tenantId: string, filters?: { from?: string; to?: string }): Promise<any[]>;
+  getCreditNote(id: string, tenantId: string): Promise<any | undefined>;
+  createCreditNote(note: Omit<InsertCreditNote, "sequence" | "number">): Promise<CreditNote>;
+  
   // Payments
   getPayments(tenantId: string): Promise<Payment[]>;
   getPayment(id: string, tenantId: string): Promise<Payment | undefined>;
   createPayment(payment: InsertPayment): Promise<Payment>;
   updatePayment(id: string, tenantId: string, payment: Partial<InsertPayment>): Promise<Payment | undefined>;
   deletePayment(id: string, tenantId: string): Promise<void>;
+  recalculateInvoicePayments(invoiceId: string, tenantId: string): Promise<void>;
   
   // Insurers & Policies
   getInsurers(tenantId: string): Promise<Insurer[]>;
@@ -73,9 +121,106 @@ export interface IStorage {
   updatePolicy(id: string, tenantId: string, policy: Partial<InsertPolicy>): Promise<Policy | undefined>;
   deletePolicy(id: string, tenantId: string): Promise<void>;
   getPoliciesWithOverdueInvoices(insurerId: string, tenantId: string): Promise<any[]>;
+  getInsuredInvoices(insurerId: string, tenantId: string, to: string): Promise<any[]>;
+  
+  // Rent escalation
+  getPriceIndexValues(tenantId: string, indexType?: PriceIndexValue["indexType"]): Promise<PriceIndexValue[]>;
+  upsertPriceIndexValue(value: InsertPriceIndexValue): Promise<PriceIndexValue>;
+  getRentEscalations(contractId: string, tenantId: string): Promise<RentEscalation[]>;
+  
+  // Tax profiles
+  getTaxProfiles(tenantId: string): Promise<TaxProfile[]>;
+  getTaxProfile(id: string, tenantId: string): Promise<TaxProfile | undefined>;
+  createTaxProfile(profile: InsertTaxProfile): Promise<TaxProfile>;
+  updateTaxProfile(id: string, tenantId: string, profile: Partial<InsertTaxProfile>): Promise<TaxProfile | undefined>;
+  deleteTaxProfile(id: string, tenantId: string): Promise<void>;
+  
+  // Recurring charges
+  getRecurringCharges(contractId: string, tenantId: string): Promise<RecurringCharge[]>;
+  getRecurringCharge(id: string, tenantId: string): Promise<RecurringCharge | undefined>;
+  createRecurringCharge(charge: InsertRecurringCharge): Promise<RecurringCharge>;
+  updateRecurringCharge(id: string, tenantId: string, charge: Partial<InsertRecurringCharge>): Promise<RecurringCharge | undefined>;
+  deleteRecurringCharge(id: string, tenantId: string): Promise<void>;
+  
+  // Security deposits
+  getDepositEntries(contractId: string, tenantId: string): Promise<DepositEntry[]>;
+  getAllDepositEntries(tenantId: string): Promise<any[]>;
+  createDepositEntry(entry: InsertDepositEntry): Promise<DepositEntry>;
+  deleteDepositEntry(id: string, tenantId: string): Promise<void>;
+  
+  // Owner statements
+  getOwnerCollections(tenantId: string, to: string, ownerContactId?: string): Promise<any[]>;
+  getOwnerExpenses(tenantId: string, ownerContactId?: string): Promise<any[]>;
+  createOwnerExpense(expense: InsertOwnerExpense): Promise<OwnerExpense>;
+  deleteOwnerExpense(id: string, tenantId: string): Promise<void>;
+  getOwnerDisbursements(tenantId: string, ownerContactId?: string): Promise<OwnerDisbursement[]>;
+  createOwnerDisbursement(disbursement: InsertOwnerDisbursement): Promise<OwnerDisbursement>;
+  deleteOwnerDisbursement(id: string, tenantId: string): Promise<void>;
+  
+  // Maintenance work orders
+  getWorkOrders(tenantId: string, filters?: { propertyId?: string; providerContactId?: string; status?: WorkOrderStatus }): Promise<any[]>;
+  getWorkOrder(id: string, tenantId: string): Promise<any | undefined>;
+  createWorkOrder(order: Omit<InsertWorkOrder, "sequence" | "number">): Promise<WorkOrder>;
+  updateWorkOrder(id: string, tenantId: string, order: Partial<InsertWorkOrder>): Promise<WorkOrder | undefined>;
+  claimWorkOrderBilling(id: string, tenantId: string, billing: Pick<InsertWorkOrder, "billedTo" | "invoiceChargeId" | "ownerExpenseId">): Promise<WorkOrder | undefined>;
+  deleteWorkOrder(id: string, tenantId: string): Promise<void>;
+  createWorkOrderPhoto(photo: InsertWorkOrderPhoto): Promise<WorkOrderPhoto>;
+  deleteWorkOrderPhoto(id: string, tenantId: string): Promise<WorkOrderPhoto | undefined>;
+  
+  // Inspections
+  getInspections(contractId: string, tenantId: string): Promise<any[]>;
+  getInspection(id: string, tenantId: string): Promise<any | undefined>;
+  createInspection(inspection: InsertInspection, items: Omit<InsertInspectionItem, "tenantId" | "inspectionId">[]): Promise<Inspection>;
+  updateInspection(id: string, tenantId: string, inspection: Partial<InsertInspection>): Promise<Inspection | undefined>;
+  deleteInspection(id: string, tenantId: string): Promise<void>;
+  getInspectionItem(id: string, tenantId: string): Promise<any | undefined>;
+  createInspectionItem(item: InsertInspectionItem): Promise<InspectionItem>;
+  updateInspectionItem(id: string, tenantId: string, item: Partial<InsertInspectionItem>): Promise<InspectionItem | undefined>;
+  deleteInspectionItem(id: string, tenantId: string): Promise<void>;
+  getInspectionPhoto(id: string, tenantId: string): Promise<InspectionPhoto | undefined>;
+  createInspectionPhoto(photo: InsertInspectionPhoto): Promise<InspectionPhoto>;
+  deleteInspectionPhoto(id: string, tenantId: string): Promise<InspectionPhoto | undefined>;
+  
+  // Dunning
+  getDunningSteps(tenantId: string): Promise<DunningStep[]>;
+  getDunningStep(id: string, tenantId: string): Promise<DunningStep | undefined>;
+  createDunningStep(step: InsertDunningStep): Promise<DunningStep>;
+  updateDunningStep(id: string, tenantId: string, step: Partial<InsertDunningStep>): Promise<DunningStep | undefined>;
+  deleteDunningStep(id: string, tenantId: string): Promise<void>;
+  getDunningCandidates(tenantId: string, dueFrom: string, dueTo: string): Promise<any[]>;
+  getInvoiceDunningEvents(invoiceId: string, tenantId: string): Promise<DunningEvent[]>;
+  claimDunningEvent(event: InsertDunningEvent): Promise<DunningEvent | undefined>;
+  updateDunningEvent(id: string, tenantId: string, event: Partial<InsertDunningEvent>): Promise<DunningEvent | undefined>;
+
+  // Scheduler Runs
+  claimSchedulerRun(tenantId: string, job: SchedulerJob, period: string): Promise<SchedulerRun | undefined>;
+  finishSchedulerRun(id: string, tenantId: string, error: string | null): Promise<void>;
+
+  // Notifications
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: string, tenantId: string, notification: Partial<InsertNotification>): Promise<Notification | undefined>;
+  getInvoiceNotifications(invoiceId: string, tenantId: string): Promise<Notification[]>;
+  findNotificationForDeliveryEvent(notificationId?: string, providerMessageId?: string): Promise<Notification | undefined>;
+
+  // Email Templates
+  getEmailTemplates(tenantId: string): Promise<EmailTemplate[]>;
+  getEmailTemplate(tenantId: string, key: EmailTemplateKey): Promise<EmailTemplate | undefined>;
+  upsertEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate>;
+  deleteEmailTemplate(tenantId: string, key: EmailTemplateKey): Promise<void>;
+
+  // Email Settings
+  getEmailSettings(tenantId: string): Promise<EmailSettings | undefined>;
+  upsertEmailSettings(settings: InsertEmailSettings): Promise<EmailSettings>;
+  deleteEmailSettings(tenantId: string): Promise<void>;
+
+  // Messaging Consents
+  getMessagingConsents(contactId: string, tenantId: string): Promise<MessagingConsent[]>;
+  upsertMessagingConsent(consent: InsertMessagingConsent): Promise<MessagingConsent>;
+  optOutPhone(channel: MessagingChannel, phone: string): Promise<MessagingConsent[]>;
   
   // OCR
   getOCRLogs(tenantId: string, status?: string): Promise<any[]>;
+  updateOCRLog(id: string, tenantId: string, ocrLog: Partial<InsertOcrLog>): Promise<OcrLog | undefined>;
   
   // Property Photos
   getPropertyPhotos(propertyId: string, tenantId: string): Promise<PropertyPhoto[]>;
@@ -83,6 +228,10 @@ export interface IStorage {
   deletePropertyPhoto(id: string, tenantId: string): Promise<void>;
   updatePhotoOrder(photoId: string, newOrder: number, tenantId: string): Promise<void>;
   getPropertyPhotosCount(propertyId: string, tenantId: string): Promise<number>;
+  
+  // Audit Logs
+  getAuditLogs(tenantId: string, filters?: AuditLogFilters): Promise<AuditLog[]>;
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
 }
 
 // Helper function to sanitize update payloads
@@ -91,6 +240,34 @@ function sanitizeUpdate<T extends Record<string, any>>(data: T): Omit<T, 'id' |
   return sanitized;
 }
 
+// Signature images are kept out of the audit trail; signedAt and the signer's name record the event
+function withoutSignatures(inspection: Inspection) {
+  const { tenantSignature, inspectorSignature, ...rest } = inspection;
+  return rest;
+}
+
+// The SMTP password stays out of the audit trail like everywhere else it could be read back
+function withoutPassword(settings: EmailSettings) {
+  const { smtpPassword, ...rest } = settings;
+  return rest;
+}
+
+// The SMTP password is encrypted at rest and decrypted only when read back for sending
+function withDecryptedPassword(settings: EmailSettings): EmailSettings {
+  return settings.smtpPassword ? { ...settings, smtpPassword: decryptSecret(settings.smtpPassword) } : settings;
+}
+
+// Keeps only the fields that changed so audit entries stay small and readable
+function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>) {
+  const changedKeys = Object.keys(after).filter(
+    (key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]),
+  );
+  return {
+    before: Object.fromEntries(changedKeys.map((key) => [key, before[key]])),
+    after: Object.fromEntries(changedKeys.map((key) => [key, after[key]])),
+  };
+}
+
 export class DatabaseStorage implements IStorage {
   async getUser(id: string): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -119,29 +296,136 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getTenantUsers(tenantId: string): Promise<User[]> {
+    return await db.query.users.findMany({
+      where: eq(users.tenantId, tenantId),
+      orderBy: [users.createdAt],
+    });
+  }
+
+  async updateUserRole(id: string, tenantId: string, role: User["role"]): Promise<User | undefined> {
+    const [before] = await db.select().from(users)
+      .where(and(eq(users.id, id), eq(users.tenantId, tenantId)));
+    const [updated] = await db.update(users)
+      .set({ role, updatedAt: new Date() })
+      .where(and(eq(users.id, id), eq(users.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "team_member", id, { role: before.role }, { role: updated.role });
+    }
+    return updated;
+  }
+
+  async removeUserFromTenant(id: string, tenantId: string): Promise<void> {
+    const [before] = await db.select().from(users)
+      .where(and(eq(users.id, id), eq(users.tenantId, tenantId)));
+    await db.update(users)
+      .set({ tenantId: null, role: "admin", updatedAt: new Date() })
+      .where(and(eq(users.id, id), eq(users.tenantId, tenantId)));
+    if (before) {
+      await this.recordDelete(tenantId, "team_member", { id, email: before.email, role: before.role });
+    }
+  }
+
+  async getTeamInvitations(tenantId: string): Promise<TeamInvitation[]> {
+    return await db.query.teamInvitations.findMany({
+      where: eq(teamInvitations.tenantId, tenantId),
+      orderBy: [desc(teamInvitations.createdAt)],
+    });
+  }
+
+  async getTeamInvitation(id: string, tenantId: string): Promise<TeamInvitation | undefined> {
+    return await db.query.teamInvitations.findFirst({
+      where: and(eq(teamInvitations.id, id), eq(teamInvitations.tenantId, tenantId)),
+    });
+  }
+
+  async getTeamInvitationByTokenHash(tokenHash: string): Promise<TeamInvitation | undefined> {
+    return await db.query.teamInvitations.findFirst({
+      where: eq(teamInvitations.tokenHash, tokenHash),
+    });
+  }
+
+  async createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation> {
+    const [newInvitation] = await db.insert(teamInvitations).values(invitation).returning();
+    const { tokenHash, ...loggable } = newInvitation;
+    await this.recordCreate(newInvitation.tenantId, "team_invitation", loggable);
+    return newInvitation;
+  }
+
+  async revokeTeamInvitation(id: string, tenantId: string): Promise<TeamInvitation | undefined> {
+    const [revoked] = await db.update(teamInvitations)
+      .set({ status: "revoked" })
+      .where(and(
+        eq(teamInvitations.id, id),
+        eq(teamInvitations.tenantId, tenantId),
+        eq(teamInvitations.status, "pending"),
+      ))
+      .returning();
+    if (revoked) {
+      await this.recordUpdate(tenantId, "team_invitation", id, { status: "pending" }, { status: revoked.status });
+    }
+    return revoked;
+  }
+
+  async acceptTeamInvitation(id: string, userId: string): Promise<TeamInvitation | undefined> {
+    // Conditional on "pending" so a token can only ever be redeemed once
+    const [accepted] = await db.update(teamInvitations)
+      .set({ status: "accepted", acceptedByUserId: userId, acceptedAt: new Date() })
+      .where(and(eq(teamInvitations.id, id), eq(teamInvitations.status, "pending")))
+      .returning();
+    if (accepted) {
+      // Accepting happens during onboarding, outside the usual request actor context
+      await this.createAuditLog({
+        tenantId: accepted.tenantId,
+        actorUserId: userId,
+        action: "update",
+        entity: "team_invitation",
+        entityId: id,
+        meta: { before: { status: "pending" }, after: { status: accepted.status, acceptedByUserId: userId } },
+      });
+    }
+    return accepted;
+  }
+
   async getTenant(id: string): Promise<Tenant | undefined> {
     return await db.query.tenants.findFirst({
       where: eq(tenants.id, id),
     });
   }
 
+  async getActiveTenants(): Promise<Tenant[]> {
+    return await db.query.tenants.findMany({
+      where: eq(tenants.status, "active"),
+    });
+  }
+
   async createTenant(tenant: InsertTenant): Promise<Tenant> {
     const [newTenant] = await db.insert(tenants).values(tenant).returning();
     return newTenant;
   }
 
   async updateTenant(id: string, tenant: Partial<InsertTenant>): Promise<Tenant | undefined> {
+    const [before] = await db.select().from(tenants).where(eq(tenants.id, id));
     const [updated] = await db.update(tenants)
       .set(tenant)
       .where(eq(tenants.id, id))
       .returning();
+    if (before && updated) {
+      await this.recordUpdate(id, "tenant", id, before, updated);
+    }
     return updated;
   }
 
   async updateTenantPlan(id: string, plan: string, maxProperties: number): Promise<void> {
-    await db.update(tenants)
+    const [before] = await db.select().from(tenants).where(eq(tenants.id, id));
+    const [updated] = await db.update(tenants)
       .set({ plan: plan as any, maxProperties })
-      .where(eq(tenants.id, id));
+      .where(eq(tenants.id, id))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(id, "tenant", id, before, updated);
+    }
   }
 
   async getContacts(tenantId: string): Promise<Contact[]> {
@@ -153,6 +437,7 @@ export class DatabaseStorage implements IStorage {
 
   async createContact(contact: InsertContact): Promise<Contact> {
     const [newContact] = await db.insert(contacts).values(contact).returning();
+    await this.recordCreate(newContact.tenantId, "contact", newContact);
     return newContact;
   }
 
@@ -175,6 +460,7 @@ export class DatabaseStorage implements IStorage {
 
   async createProperty(property: InsertProperty): Promise<Property> {
     const [newProperty] = await db.insert(properties).values(property).returning();
+    await this.recordCreate(newProperty.tenantId, "property", newProperty);
     return newProperty;
   }
 
@@ -198,10 +484,23 @@ export class DatabaseStorage implements IStorage {
         property: true,
         tenantContact: true,
         owner: true,
+        guarantor: true,
+        renewedFrom: {
+          columns: { id: true, number: true, startDate: true, endDate: true, status: true },
+        },
+        renewals: {
+          columns: { id: true, number: true, startDate: true, endDate: true, status: true },
+        },
       },
     });
   }
 
+  async getContractRenewal(id: string, tenantId: string): Promise<Contract | undefined> {
+    return await db.query.contracts.findFirst({
+      where: and(eq(contracts.renewedFromContractId, id), eq(contracts.tenantId, tenantId)),
+    });
+  }
+
   async getContractsByProperty(propertyId: string, tenantId: string): Promise<Contract[]> {
     return await db.query.contracts.findMany({
       where: and(eq(contracts.propertyId, propertyId), eq(contracts.tenantId, tenantId)),
@@ -210,13 +509,20 @@ export class DatabaseStorage implements IStorage {
 
   async createContract(contract: InsertContract): Promise<Contract> {
     const [newContract] = await db.insert(contracts).values(contract).returning();
+    await this.recordCreate(newContract.tenantId, "contract", newContract);
     return newContract;
   }
 
   async updateContractStatus(id: string, tenantId: string, status: string): Promise<void> {
-    await db.update(contracts)
-      .set({ status: status as any })
+    const [before] = await db.select().from(contracts)
       .where(and(eq(contracts.id, id), eq(contracts.tenantId, tenantId)));
+    const [updated] = await db.update(contracts)
+      .set({ status: status as any })
+      .where(and(eq(contracts.id, id), eq(contracts.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "contract", id, before, updated);
+    }
   }
 
   async getInvoices(tenantId: string, filters?: any): Promise<Invoice[]> {
@@ -248,19 +554,179 @@ export class DatabaseStorage implements IStorage {
         tenantContact: true,
         charges: true,
         payments: true,
+        creditNotes: {
+          orderBy: [creditNotes.sequence],
+        },
+      },
+    });
+  }
+
+  // Every issued invoice of a tenant contact or contract, with what was charged, paid and credited on it
+  async getAccountInvoices(tenantId: string, filters: { contactId?: string; contractId?: string }): Promise<any[]> {
+    const conditions = [eq(invoices.tenantId, tenantId), ne(invoices.status, "draft")];
+    if (filters.contactId) {
+      conditions.push(eq(invoices.tenantContactId, filters.contactId));
+    }
+    if (filters.contractId) {
+      conditions.push(eq(invoices.contractId, filters.contractId));
+    }
+    return await db.query.invoices.findMany({
+      where: and(...conditions),
+      with: {
+        contract: {
+          with: { property: true },
+        },
+        charges: true,
+        payments: true,
+        creditNotes: true,
+      },
+      orderBy: [invoices.issueDate],
+    });
+  }
+
+  // Invoices issued up to a date, with everything needed to rebuild their balance on that date
+  async getReceivableInvoices(tenantId: string, asOf: string): Promise<any[]> {
+    return await db.query.invoices.findMany({
+      where: and(
+        eq(invoices.tenantId, tenantId),
+        ne(invoices.status, "draft"),
+        lte(invoices.issueDate, asOf),
+      ),
+      with: {
+        contract: {
+          with: {
+            property: true,
+            owner: true,
+          },
+        },
+        tenantContact: true,
+        charges: true,
+        payments: true,
+        creditNotes: true,
+      },
+      orderBy: [invoices.dueDate],
+    });
+  }
+
+  // Invoices still owed (issued, partial or overdue) due on a date or before it, for the scheduled jobs
+  async getOpenInvoicesDue(tenantId: string, filters: { dueDate?: string; dueBefore?: string }): Promise<any[]> {
+    const conditions = [
+      eq(invoices.tenantId, tenantId),
+      inArray(invoices.status, ["issued", "partial", "overdue"]),
+    ];
+    if (filters.dueDate) {
+      conditions.push(eq(invoices.dueDate, filters.dueDate));
+    }
+    if (filters.dueBefore) {
+      conditions.push(lt(invoices.dueDate, filters.dueBefore));
+    }
+    return await db.query.invoices.findMany({
+      where: and(...conditions),
+      with: {
+        contract: true,
+        tenantContact: true,
       },
+      orderBy: [invoices.dueDate],
     });
   }
 
+  // Invoices are taxed at the contract's profile as it stands when they are issued
   async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
-    const [newInvoice] = await db.insert(invoices).values(invoice).returning();
+    const [rates] = invoice.ivaRate === undefined
+      ? await db.select({ ivaRate: taxProfiles.ivaRate, withholdingRate: taxProfiles.withholdingRate, icaRate: taxProfiles.icaRate })
+        .from(contracts)
+        .innerJoin(taxProfiles, eq(contracts.taxProfileId, taxProfiles.id))
+        .where(and(eq(contracts.id, invoice.contractId), eq(contracts.tenantId, invoice.tenantId)))
+      : [];
+    const [newInvoice] = await db.insert(invoices).values({ ...invoice, ...rates }).returning();
+    await this.recordCreate(newInvoice.tenantId, "invoice", newInvoice);
     return newInvoice;
   }
 
   async updateInvoiceStatus(id: string, tenantId: string, status: string): Promise<void> {
-    await db.update(invoices)
-      .set({ status: status as any })
+    const [before] = await db.select().from(invoices)
       .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)));
+    const [updated] = await db.update(invoices)
+      .set({ status: status as any })
+      .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "invoice", id, before, updated);
+    }
+  }
+
+  // Credit notes
+  async getCreditNotes(tenantId: string, filters?: { from?: string; to?: string }): Promise<any[]> {
+    const conditions = [eq(creditNotes.tenantId, tenantId)];
+    if (filters?.from) {
+      conditions.push(gte(creditNotes.issueDate, filters.from));
+    }
+    if (filters?.to) {
+      conditions.push(lte(creditNotes.issueDate, filters.to));
+    }
+    return await db.query.creditNotes.findMany({
+      where: and(...conditions),
+      with: {
+        invoice: {
+          with: {
+            contract: {
+              with: { property: true },
+            },
+            tenantContact: true,
+          },
+        },
+      },
+      orderBy: [desc(creditNotes.sequence)],
+    });
+  }
+
+  async getCreditNote(id: string, tenantId: string): Promise<any | undefined> {
+    return await db.query.creditNotes.findFirst({
+      where: and(eq(creditNotes.id, id), eq(creditNotes.tenantId, tenantId)),
+      with: {
+        tenant: true,
+        invoice: {
+          with: {
+            contract: {
+              with: { property: true },
+            },
+            tenantContact: true,
+          },
+        },
+      },
+    });
+  }
+
+  // Numbers are consecutive per tenant; a concurrent note taking the same sequence
+  // fails the unique index and the next free one is tried. Each attempt is its own
+  // transaction, a savepoint when the caller has one open, so a collision can be retried
+  async createCreditNote(note: Omit<InsertCreditNote, "sequence" | "number">): Promise<CreditNote> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await db.transaction(async () => {
+          const [last] = await db.select({ sequence: sql<number>`coalesce(max(${creditNotes.sequence}), 0)` })
+            .from(creditNotes)
+            .where(eq(creditNotes.tenantId, note.tenantId));
+          const sequence = Number(last.sequence) + 1;
+
+          const [newNote] = await db.insert(creditNotes).values({
+            ...note,
+            sequence,
+            number: `NC-${String(sequence).padStart(5, '0')}`,
+          }).returning();
+          await this.recordCreate(newNote.tenantId, "credit_note", newNote);
+          await this.recalculateInvoicePayments(newNote.invoiceId, newNote.tenantId);
+          return newNote;
+        });
+      } catch (error: unknown) {
+        if (!isUniqueViolation(error)) {
+          throw error;
+        }
+        if (attempt >= 2) {
+          throw new Error(`Could not number the credit note: ${getErrorMessage(error)}`);
+        }
+      }
+    }
   }
 
   async getPayments(tenantId: string): Promise<Payment[]> {
@@ -288,8 +754,21 @@ export class DatabaseStorage implements IStorage {
     if (!invoice) {
       throw new Error('Invoice not found or does not belong to this tenant');
     }
+    if (invoice.status === 'void') {
+      throw new Error(`Invoice ${invoice.number} is void and cannot receive payments`);
+    }
     
-    const [newPayment] = await db.insert(payments).values(payment).returning();
+    // The owner's fee rate in force today is kept with the payment, so later rate changes
+    // do not rewrite past owner statements
+    const [rates] = await db
+      .select({ managementFeeRate: sql<string>`coalesce(${properties.managementFeeRate}, ${contacts.managementFeeRate}, 0)` })
+      .from(contracts)
+      .innerJoin(properties, eq(contracts.propertyId, properties.id))
+      .innerJoin(contacts, eq(contracts.ownerContactId, contacts.id))
+      .where(eq(contracts.id, invoice.contractId));
+
+    const [newPayment] = await db.insert(payments).values({ ...payment, managementFeeRate: rates?.managementFeeRate ?? "0" }).returning();
+    await this.recordCreate(newPayment.tenantId, "payment", newPayment);
     
     // Recalculate invoice amount paid and status using shared logic
     await this.recalculateInvoicePayments(payment.invoiceId, payment.tenantId);
@@ -306,6 +785,7 @@ export class DatabaseStorage implements IStorage {
 
   async createInsurer(insurer: InsertInsurer): Promise<Insurer> {
     const [newInsurer] = await db.insert(insurers).values(insurer).returning();
+    await this.recordCreate(newInsurer.tenantId, "insurer", newInsurer);
     return newInsurer;
   }
 
@@ -321,6 +801,7 @@ export class DatabaseStorage implements IStorage {
 
   async createPolicy(policy: InsertPolicy): Promise<Policy> {
     const [newPolicy] = await db.insert(policies).values(policy).returning();
+    await this.recordCreate(newPolicy.tenantId, "policy", newPolicy);
     return newPolicy;
   }
 
@@ -337,6 +818,19 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  async updateOCRLog(id: string, tenantId: string, ocrLog: Partial<InsertOcrLog>): Promise<OcrLog | undefined> {
+    const [before] = await db.select().from(ocrLogs)
+      .where(and(eq(ocrLogs.id, id), eq(ocrLogs.tenantId, tenantId)));
+    const [updated] = await db.update(ocrLogs)
+      .set(sanitizeUpdate(ocrLog))
+      .where(and(eq(ocrLogs.id, id), eq(ocrLogs.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "ocr_log", id, before, updated);
+    }
+    return updated;
+  }
+
   // Extended CRUD methods for Contacts
   async getContact(id: string, tenantId: string): Promise<Contact | undefined> {
     return await db.query.contacts.findFirst({
@@ -345,16 +839,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateContact(id: string, tenantId: string, contact: Partial<InsertContact>): Promise<Contact | undefined> {
+    const [before] = await db.select().from(contacts)
+      .where(and(eq(contacts.id, id), eq(contacts.tenantId, tenantId)));
     const [updated] = await db.update(contacts)
       .set(sanitizeUpdate(contact))
       .where(and(eq(contacts.id, id), eq(contacts.tenantId, tenantId)))
       .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "contact", id, before, updated);
+    }
     return updated;
   }
 
   async deleteContact(id: string, tenantId: string): Promise<void> {
-    await db.delete(contacts)
-      .where(and(eq(contacts.id, id), eq(contacts.tenantId, tenantId)));
+    const [deleted] = await db.delete(contacts)
+      .where(and(eq(contacts.id, id), eq(contacts.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "contact", deleted);
+    }
   }
 
   // Extended CRUD methods for Properties
@@ -366,44 +869,71 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateProperty(id: string, tenantId: string, property: Partial<InsertProperty>): Promise<Property | undefined> {
+    const [before] = await db.select().from(properties)
+      .where(and(eq(properties.id, id), eq(properties.tenantId, tenantId)));
     const [updated] = await db.update(properties)
       .set(sanitizeUpdate(property))
       .where(and(eq(properties.id, id), eq(properties.tenantId, tenantId)))
       .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "property", id, before, updated);
+    }
     return updated;
   }
 
   async deleteProperty(id: string, tenantId: string): Promise<void> {
-    await db.delete(properties)
-      .where(and(eq(properties.id, id), eq(properties.tenantId, tenantId)));
+    const [deleted] = await db.delete(properties)
+      .where(and(eq(properties.id, id), eq(properties.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "property", deleted);
+    }
   }
 
   // Extended CRUD methods for Contracts
   async updateContract(id: string, tenantId: string, contract: Partial<InsertContract>): Promise<Contract | undefined> {
+    const [before] = await db.select().from(contracts)
+      .where(and(eq(contracts.id, id), eq(contracts.tenantId, tenantId)));
     const [updated] = await db.update(contracts)
       .set(sanitizeUpdate(contract))
       .where(and(eq(contracts.id, id), eq(contracts.tenantId, tenantId)))
       .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "contract", id, before, updated);
+    }
     return updated;
   }
 
   async deleteContract(id: string, tenantId: string): Promise<void> {
-    await db.delete(contracts)
-      .where(and(eq(contracts.id, id), eq(contracts.tenantId, tenantId)));
+    const [deleted] = await db.delete(contracts)
+      .where(and(eq(contracts.id, id), eq(contracts.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "contract", deleted);
+    }
   }
 
   // Extended CRUD methods for Invoices
   async updateInvoice(id: string, tenantId: string, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined> {
+    const [before] = await db.select().from(invoices)
+      .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)));
     const [updated] = await db.update(invoices)
       .set(sanitizeUpdate(invoice))
       .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)))
       .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "invoice", id, before, updated);
+    }
     return updated;
   }
 
   async deleteInvoice(id: string, tenantId: string): Promise<void> {
-    await db.delete(invoices)
-      .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)));
+    const [deleted] = await db.delete(invoices)
+      .where(and(eq(invoices.id, id), eq(invoices.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "invoice", deleted);
+    }
   }
 
   // Extended CRUD methods for Payments
@@ -441,6 +971,9 @@ export class DatabaseStorage implements IStorage {
       .set(sanitizeUpdate(payment))
       .where(and(eq(payments.id, id), eq(payments.tenantId, tenantId)))
       .returning();
+    if (updated) {
+      await this.recordUpdate(tenantId, "payment", id, currentPayment, updated);
+    }
     
     // Recalculate old invoice if invoice changed
     if (payment.invoiceId && payment.invoiceId !== currentPayment.invoiceId) {
@@ -461,15 +994,20 @@ export class DatabaseStorage implements IStorage {
       return;
     }
     
-    await db.delete(payments)
-      .where(and(eq(payments.id, id), eq(payments.tenantId, tenantId)));
+    const [deleted] = await db.delete(payments)
+      .where(and(eq(payments.id, id), eq(payments.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "payment", deleted);
+    }
     
     // Recalculate invoice after payment deletion
     await this.recalculateInvoicePayments(payment.invoiceId, tenantId);
   }
   
   // Helper method to recalculate invoice payments
-  private async recalculateInvoicePayments(invoiceId: string, tenantId: string): Promise<void> {
+  // Amount paid, amount credited and status from the invoice's payments and credit notes
+  async recalculateInvoicePayments(invoiceId: string, tenantId: string): Promise<void> {
     const invoice = await this.getInvoice(invoiceId, tenantId);
     if (!invoice) {
       return;
@@ -481,6 +1019,10 @@ export class DatabaseStorage implements IStorage {
     });
     
     const totalPaid = invoicePayments.reduce((sum, p) => sum + parseFloat(p.amount.toString()), 0);
+    const invoiceCredits = await db.query.creditNotes.findMany({
+      where: and(eq(creditNotes.invoiceId, invoiceId), eq(creditNotes.tenantId, tenantId)),
+    });
+    const totalCredited = invoiceCredits.reduce((sum, note) => sum + parseFloat(note.amount), 0);
     const total = parseFloat(invoice.totalAmount);
     
     // Check if invoice is overdue
@@ -490,9 +1032,13 @@ export class DatabaseStorage implements IStorage {
     const isOverdue = dueDate < today;
     
     let newStatus: any = 'issued';
-    if (totalPaid >= total) {
+    if (invoice.status === 'void') {
+      // Voiding is final; payments recorded before it stay as history
+      newStatus = 'void';
+    } else if (totalPaid + totalCredited >= total) {
+      // Credit notes settle the balance the same way payments do
       newStatus = 'paid';
-    } else if (totalPaid > 0) {
+    } else if (totalPaid + totalCredited > 0) {
       // If invoice is overdue and has partial payment, keep it as overdue
       newStatus = isOverdue ? 'overdue' : 'partial';
     } else {
@@ -503,6 +1049,7 @@ export class DatabaseStorage implements IStorage {
     await db.update(invoices)
       .set({ 
         amountPaid: totalPaid.toFixed(2),
+        creditedAmount: totalCredited.toFixed(2),
         status: newStatus,
       })
       .where(and(eq(invoices.id, invoiceId), eq(invoices.tenantId, tenantId)));
@@ -516,16 +1063,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateInsurer(id: string, tenantId: string, insurer: Partial<InsertInsurer>): Promise<Insurer | undefined> {
+    const [before] = await db.select().from(insurers)
+      .where(and(eq(insurers.id, id), eq(insurers.tenantId, tenantId)));
     const [updated] = await db.update(insurers)
       .set(sanitizeUpdate(insurer))
       .where(and(eq(insurers.id, id), eq(insurers.tenantId, tenantId)))
       .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "insurer", id, before, updated);
+    }
     return updated;
   }
 
   async deleteInsurer(id: string, tenantId: string): Promise<void> {
-    await db.delete(insurers)
-      .where(and(eq(insurers.id, id), eq(insurers.tenantId, tenantId)));
+    const [deleted] = await db.delete(insurers)
+      .where(and(eq(insurers.id, id), eq(insurers.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "insurer", deleted);
+    }
   }
 
   // Extended CRUD methods for Policies
@@ -537,16 +1093,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updatePolicy(id: string, tenantId: string, policy: Partial<InsertPolicy>): Promise<Policy | undefined> {
+    const [before] = await db.select().from(policies)
+      .where(and(eq(policies.id, id), eq(policies.tenantId, tenantId)));
     const [updated] = await db.update(policies)
       .set(sanitizeUpdate(policy))
       .where(and(eq(policies.id, id), eq(policies.tenantId, tenantId)))
       .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "policy", id, before, updated);
+    }
     return updated;
   }
 
   async deletePolicy(id: string, tenantId: string): Promise<void> {
-    await db.delete(policies)
-      .where(and(eq(policies.id, id), eq(policies.tenantId, tenantId)));
+    const [deleted] = await db.delete(policies)
+      .where(and(eq(policies.id, id), eq(policies.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "policy", deleted);
+    }
   }
 
   async getPoliciesWithOverdueInvoices(insurerId: string, tenantId: string): Promise<any[]> {
@@ -561,8 +1126,11 @@ export class DatabaseStorage implements IStorage {
         invoiceId: invoices.id,
         invoiceNumber: invoices.number,
         invoiceDueDate: invoices.dueDate,
+        invoiceTax: invoices.tax,
+        invoiceWithholdings: invoices.withholdings,
         invoiceTotal: invoices.totalAmount,
         invoiceAmountPaid: invoices.amountPaid,
+        invoiceCreditedAmount: invoices.creditedAmount,
         tenantContactId: contracts.tenantContactId,
       })
       .from(policies)
@@ -580,45 +1148,959 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  // Property Photos
-  async getPropertyPhotos(propertyId: string, tenantId: string): Promise<PropertyPhoto[]> {
-    return await db.query.propertyPhotos.findMany({
-      where: and(eq(propertyPhotos.propertyId, propertyId), eq(propertyPhotos.tenantId, tenantId)),
-      orderBy: [propertyPhotos.displayOrder, propertyPhotos.createdAt],
+  // Invoices issued up to a date on contracts covered by one of the insurer's policies,
+  // with the payments and credit notes needed to rebuild their balance on any date
+  async getInsuredInvoices(insurerId: string, tenantId: string, to: string): Promise<any[]> {
+    const insured = await db
+      .select({ id: contracts.id })
+      .from(contracts)
+      .innerJoin(policies, eq(contracts.policyId, policies.id))
+      .where(and(eq(contracts.tenantId, tenantId), eq(policies.insurerId, insurerId)));
+    if (insured.length === 0) {
+      return [];
+    }
+
+    return await db.query.invoices.findMany({
+      where: and(
+        eq(invoices.tenantId, tenantId),
+        ne(invoices.status, "draft"),
+        lte(invoices.issueDate, to),
+        inArray(invoices.contractId, insured.map((contract) => contract.id)),
+      ),
+      with: {
+        contract: {
+          with: {
+            property: true,
+            policy: true,
+          },
+        },
+        tenantContact: true,
+        charges: true,
+        payments: true,
+        creditNotes: true,
+      },
+      orderBy: [invoices.dueDate],
     });
   }
 
-  async createPropertyPhoto(photo: InsertPropertyPhoto): Promise<PropertyPhoto> {
-    // Get the max display order for this property
-    const result = await db.select({ maxOrder: sql<number>`COALESCE(MAX(display_order), -1)` })
-      .from(propertyPhotos)
-      .where(and(eq(propertyPhotos.propertyId, photo.propertyId), eq(propertyPhotos.tenantId, photo.tenantId)));
-    
-    const nextOrder = (result[0]?.maxOrder ?? -1) + 1;
-    
-    const [newPhoto] = await db.insert(propertyPhotos).values({
-      ...photo,
-      displayOrder: nextOrder,
-    }).returning();
-    return newPhoto;
+  // Rent escalation
+  async getPriceIndexValues(tenantId: string, indexType?: PriceIndexValue["indexType"]): Promise<PriceIndexValue[]> {
+    const conditions = [eq(priceIndexValues.tenantId, tenantId)];
+    if (indexType) {
+      conditions.push(eq(priceIndexValues.indexType, indexType));
+    }
+    return await db.query.priceIndexValues.findMany({
+      where: and(...conditions),
+      orderBy: [desc(priceIndexValues.year), desc(priceIndexValues.month)],
+    });
   }
 
-  async deletePropertyPhoto(id: string, tenantId: string): Promise<void> {
-    await db.delete(propertyPhotos)
-      .where(and(eq(propertyPhotos.id, id), eq(propertyPhotos.tenantId, tenantId)));
+  async upsertPriceIndexValue(value: InsertPriceIndexValue): Promise<PriceIndexValue> {
+    const [before] = await db.select().from(priceIndexValues)
+      .where(and(
+        eq(priceIndexValues.tenantId, value.tenantId),
+        eq(priceIndexValues.indexType, value.indexType),
+        eq(priceIndexValues.year, value.year),
+        eq(priceIndexValues.month, value.month),
+      ));
+    const [saved] = await db.insert(priceIndexValues)
+      .values(value)
+      .onConflictDoUpdate({
+        target: [priceIndexValues.tenantId, priceIndexValues.indexType, priceIndexValues.year, priceIndexValues.month],
+        set: { annualChange: value.annualChange },
+      })
+      .returning();
+    if (before) {
+      await this.recordUpdate(saved.tenantId, "price_index_value", saved.id, before, saved);
+    } else {
+      await this.recordCreate(saved.tenantId, "price_index_value", saved);
+    }
+    return saved;
   }
 
-  async updatePhotoOrder(photoId: string, newOrder: number, tenantId: string): Promise<void> {
-    await db.update(propertyPhotos)
-      .set({ displayOrder: newOrder })
-      .where(and(eq(propertyPhotos.id, photoId), eq(propertyPhotos.tenantId, tenantId)));
+  async getRentEscalations(contractId: string, tenantId: string): Promise<RentEscalation[]> {
+    return await db.query.rentEscalations.findMany({
+      where: and(eq(rentEscalations.contractId, contractId), eq(rentEscalations.tenantId, tenantId)),
+      orderBy: [rentEscalations.effectiveDate],
+    });
   }
 
-  async getPropertyPhotosCount(propertyId: string, tenantId: string): Promise<number> {
-    const result = await db.select({ count: sql<number>`count(*)` })
-      .from(propertyPhotos)
-      .where(and(eq(propertyPhotos.propertyId, propertyId), eq(propertyPhotos.tenantId, tenantId)));
-    return result[0]?.count || 0;
+  // Tax profiles
+  async getTaxProfiles(tenantId: string): Promise<TaxProfile[]> {
+    return await db.query.taxProfiles.findMany({
+      where: eq(taxProfiles.tenantId, tenantId),
+      orderBy: [taxProfiles.name],
+    });
+  }
+
+  async getTaxProfile(id: string, tenantId: string): Promise<TaxProfile | undefined> {
+    return await db.query.taxProfiles.findFirst({
+      where: and(eq(taxProfiles.id, id), eq(taxProfiles.tenantId, tenantId)),
+    });
+  }
+
+  async createTaxProfile(profile: InsertTaxProfile): Promise<TaxProfile> {
+    const [newProfile] = await db.insert(taxProfiles).values(profile).returning();
+    await this.recordCreate(newProfile.tenantId, "tax_profile", newProfile);
+    return newProfile;
+  }
+
+  async updateTaxProfile(id: string, tenantId: string, profile: Partial<InsertTaxProfile>): Promise<TaxProfile | undefined> {
+    const [before] = await db.select().from(taxProfiles)
+      .where(and(eq(taxProfiles.id, id), eq(taxProfiles.tenantId, tenantId)));
+    const [updated] = await db.update(taxProfiles)
+      .set(sanitizeUpdate(profile))
+      .where(and(eq(taxProfiles.id, id), eq(taxProfiles.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "tax_profile", id, before, updated);
+    }
+    return updated;
+  }
+
+  async deleteTaxProfile(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(taxProfiles)
+      .where(and(eq(taxProfiles.id, id), eq(taxProfiles.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "tax_profile", deleted);
+    }
+  }
+
+  // Recurring charges
+  async getRecurringCharges(contractId: string, tenantId: string): Promise<RecurringCharge[]> {
+    return await db.query.recurringCharges.findMany({
+      where: and(eq(recurringCharges.contractId, contractId), eq(recurringCharges.tenantId, tenantId)),
+      orderBy: [recurringCharges.startDate, recurringCharges.createdAt],
+    });
+  }
+
+  async getRecurringCharge(id: string, tenantId: string): Promise<RecurringCharge | undefined> {
+    return await db.query.recurringCharges.findFirst({
+      where: and(eq(recurringCharges.id, id), eq(recurringCharges.tenantId, tenantId)),
+    });
+  }
+
+  async createRecurringCharge(charge: InsertRecurringCharge): Promise<RecurringCharge> {
+    const [newCharge] = await db.insert(recurringCharges).values(charge).returning();
+    await this.recordCreate(newCharge.tenantId, "recurring_charge", newCharge);
+    return newCharge;
+  }
+
+  async updateRecurringCharge(id: string, tenantId: string, charge: Partial<InsertRecurringCharge>): Promise<RecurringCharge | undefined> {
+    const [before] = await db.select().from(recurringCharges)
+      .where(and(eq(recurringCharges.id, id), eq(recurringCharges.tenantId, tenantId)));
+    const [updated] = await db.update(recurringCharges)
+      .set(sanitizeUpdate(charge))
+      .where(and(eq(recurringCharges.id, id), eq(recurringCharges.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "recurring_charge", id, before, updated);
+    }
+    return updated;
+  }
+
+  async deleteRecurringCharge(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(recurringCharges)
+      .where(and(eq(recurringCharges.id, id), eq(recurringCharges.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "recurring_charge", deleted);
+    }
+  }
+
+  // Security deposits
+  async getDepositEntries(contractId: string, tenantId: string): Promise<DepositEntry[]> {
+    return await db.query.depositEntries.findMany({
+      where: and(eq(depositEntries.contractId, contractId), eq(depositEntries.tenantId, tenantId)),
+      orderBy: [depositEntries.entryDate, depositEntries.createdAt],
+    });
+  }
+
+  async getAllDepositEntries(tenantId: string): Promise<any[]> {
+    return await db.query.depositEntries.findMany({
+      where: eq(depositEntries.tenantId, tenantId),
+      with: {
+        contract: {
+          with: { property: true, tenantContact: true },
+        },
+      },
+      orderBy: [depositEntries.contractId, depositEntries.entryDate, depositEntries.createdAt],
+    });
+  }
+
+  async createDepositEntry(entry: InsertDepositEntry): Promise<DepositEntry> {
+    const [newEntry] = await db.insert(depositEntries).values(entry).returning();
+    await this.recordCreate(newEntry.tenantId, "deposit_entry", newEntry);
+    return newEntry;
+  }
+
+  async deleteDepositEntry(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(depositEntries)
+      .where(and(eq(depositEntries.id, id), eq(depositEntries.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "deposit_entry", deleted);
+    }
+  }
+
+  // Owner statements
+  // Payments received up to a date on contracts we manage for owners, with the fee rate that applies to each
+  async getOwnerCollections(tenantId: string, to: string, ownerContactId?: string): Promise<any[]> {
+    const conditions = [eq(payments.tenantId, tenantId), lte(payments.paymentDate, to)];
+    if (ownerContactId) {
+      conditions.push(eq(contracts.ownerContactId, ownerContactId));
+    }
+    return await db
+      .select({
+        paymentId: payments.id,
+        paymentDate: payments.paymentDate,
+        amount: payments.amount,
+        method: payments.method,
+        paymentFeeRate: payments.managementFeeRate,
+        invoiceId: invoices.id,
+        invoiceNumber: invoices.number,
+        invoiceTotal: invoices.totalAmount,
+        rentAmount: sql<string>`coalesce((select sum(${invoiceCharges.amount}) from ${invoiceCharges} where ${invoiceCharges.invoiceId} = ${invoices.id} and ${invoiceCharges.category} = 'rent'), 0)`,
+        contractId: contracts.id,
+        contractNumber: contracts.number,
+        ownerContactId: contracts.ownerContactId,
+        propertyId: properties.id,
+        propertyName: properties.name,
+        propertyFeeRate: properties.managementFeeRate,
+        ownerFeeRate: contacts.managementFeeRate,
+      })
+      .from(payments)
+      .innerJoin(invoices, eq(payments.invoiceId, invoices.id))
+      .innerJoin(contracts, eq(invoices.contractId, contracts.id))
+      .innerJoin(properties, eq(contracts.propertyId, properties.id))
+      .innerJoin(contacts, eq(contracts.ownerContactId, contacts.id))
+      .where(and(...conditions))
+      .orderBy(payments.paymentDate, payments.createdAt);
+  }
+
+  async getOwnerExpenses(tenantId: string, ownerContactId?: string): Promise<any[]> {
+    const conditions = [eq(ownerExpenses.tenantId, tenantId)];
+    if (ownerContactId) {
+      conditions.push(eq(ownerExpenses.ownerContactId, ownerContactId));
+    }
+    return await db.query.ownerExpenses.findMany({
+      where: and(...conditions),
+      with: {
+        property: {
+          columns: { id: true, name: true },
+        },
+      },
+      orderBy: [ownerExpenses.expenseDate, ownerExpenses.createdAt],
+    });
+  }
+
+  async createOwnerExpense(expense: InsertOwnerExpense): Promise<OwnerExpense> {
+    const [newExpense] = await db.insert(ownerExpenses).values(expense).returning();
+    await this.recordCreate(newExpense.tenantId, "owner_expense", newExpense);
+    return newExpense;
+  }
+
+  async deleteOwnerExpense(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(ownerExpenses)
+      .where(and(eq(ownerExpenses.id, id), eq(ownerExpenses.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "owner_expense", deleted);
+    }
+  }
+
+  async getOwnerDisbursements(tenantId: string, ownerContactId?: string): Promise<OwnerDisbursement[]> {
+    const conditions = [eq(ownerDisbursements.tenantId, tenantId)];
+    if (ownerContactId) {
+      conditions.push(eq(ownerDisbursements.ownerContactId, ownerContactId));
+    }
+    return await db.query.ownerDisbursements.findMany({
+      where: and(...conditions),
+      orderBy: [ownerDisbursements.disbursementDate, ownerDisbursements.createdAt],
+    });
+  }
+
+  async createOwnerDisbursement(disbursement: InsertOwnerDisbursement): Promise<OwnerDisbursement> {
+    const [newDisbursement] = await db.insert(ownerDisbursements).values(disbursement).returning();
+    await this.recordCreate(newDisbursement.tenantId, "owner_disbursement", newDisbursement);
+    return newDisbursement;
+  }
+
+  async deleteOwnerDisbursement(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(ownerDisbursements)
+      .where(and(eq(ownerDisbursements.id, id), eq(ownerDisbursements.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "owner_disbursement", deleted);
+    }
+  }
+
+  // Maintenance work orders
+  async getWorkOrders(
+    tenantId: string,
+    filters: { propertyId?: string; providerContactId?: string; status?: WorkOrderStatus } = {},
+  ): Promise<any[]> {
+    const conditions = [eq(workOrders.tenantId, tenantId)];
+    if (filters.propertyId) {
+      conditions.push(eq(workOrders.propertyId, filters.propertyId));
+    }
+    if (filters.providerContactId) {
+      conditions.push(eq(workOrders.providerContactId, filters.providerContactId));
+    }
+    if (filters.status) {
+      conditions.push(eq(workOrders.status, filters.status));
+    }
+    return await db.query.workOrders.findMany({
+      where: and(...conditions),
+      with: {
+        property: {
+          columns: { id: true, code: true, name: true },
+        },
+        provider: {
+          columns: { id: true, fullName: true },
+        },
+      },
+      orderBy: [desc(workOrders.sequence)],
+    });
+  }
+
+  async getWorkOrder(id: string, tenantId: string): Promise<any | undefined> {
+    return await db.query.workOrders.findFirst({
+      where: and(eq(workOrders.id, id), eq(workOrders.tenantId, tenantId)),
+      with: {
+        property: {
+          with: {
+            owner: true,
+          },
+        },
+        contract: {
+          with: {
+            tenantContact: true,
+          },
+        },
+        provider: true,
+        invoiceCharge: true,
+        ownerExpense: true,
+        photos: {
+          orderBy: [workOrderPhotos.createdAt],
+        },
+      },
+    });
+  }
+
+  // Numbers are consecutive per tenant, like credit notes
+  async createWorkOrder(order: Omit<InsertWorkOrder, "sequence" | "number">): Promise<WorkOrder> {
+    for (let attempt = 0; ; attempt++) {
+      const [last] = await db.select({ sequence: sql<number>`coalesce(max(${workOrders.sequence}), 0)` })
+        .from(workOrders)
+        .where(eq(workOrders.tenantId, order.tenantId));
+      const sequence = Number(last.sequence) + 1;
+
+      try {
+        const [newOrder] = await db.insert(workOrders).values({
+          ...order,
+          sequence,
+          number: `OT-${String(sequence).padStart(5, '0')}`,
+        }).returning();
+        await this.recordCreate(newOrder.tenantId, "work_order", newOrder);
+        return newOrder;
+      } catch (error: unknown) {
+        if (!isUniqueViolation(error) || attempt >= 2) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  async updateWorkOrder(id: string, tenantId: string, order: Partial<InsertWorkOrder>): Promise<WorkOrder | undefined> {
+    const [before] = await db.select().from(workOrders)
+      .where(and(eq(workOrders.id, id), eq(workOrders.tenantId, tenantId)));
+    const [updated] = await db.update(workOrders)
+      .set(sanitizeUpdate(order))
+      .where(and(eq(workOrders.id, id), eq(workOrders.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "work_order", id, before, updated);
+    }
+    return updated;
+  }
+
+  // Links the ticket to what billed it unless another request already did
+  async claimWorkOrderBilling(
+    id: string,
+    tenantId: string,
+    billing: Pick<InsertWorkOrder, "billedTo" | "invoiceChargeId" | "ownerExpenseId">,
+  ): Promise<WorkOrder | undefined> {
+    const [claimed] = await db.update(workOrders)
+      .set(billing)
+      .where(and(
+        eq(workOrders.id, id),
+        eq(workOrders.tenantId, tenantId),
+        isNull(workOrders.invoiceChargeId),
+        isNull(workOrders.ownerExpenseId),
+      ))
+      .returning();
+    if (claimed) {
+      const { billedTo, invoiceChargeId, ownerExpenseId } = claimed;
+      await this.recordUpdate(tenantId, "work_order", id,
+        { billedTo: null, invoiceChargeId: null, ownerExpenseId: null },
+        { billedTo, invoiceChargeId, ownerExpenseId });
+    }
+    return claimed;
+  }
+
+  async deleteWorkOrder(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(workOrders)
+      .where(and(eq(workOrders.id, id), eq(workOrders.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "work_order", deleted);
+    }
+  }
+
+  async createWorkOrderPhoto(photo: InsertWorkOrderPhoto): Promise<WorkOrderPhoto> {
+    const [newPhoto] = await db.insert(workOrderPhotos).values(photo).returning();
+    await this.recordCreate(newPhoto.tenantId, "work_order_photo", newPhoto);
+    return newPhoto;
+  }
+
+  async deleteWorkOrderPhoto(id: string, tenantId: string): Promise<WorkOrderPhoto | undefined> {
+    const [deleted] = await db.delete(workOrderPhotos)
+      .where(and(eq(workOrderPhotos.id, id), eq(workOrderPhotos.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "work_order_photo", deleted);
+    }
+    return deleted;
+  }
+
+  // Inspections
+  async getInspections(contractId: string, tenantId: string): Promise<any[]> {
+    return await db.query.inspections.findMany({
+      where: and(eq(inspections.contractId, contractId), eq(inspections.tenantId, tenantId)),
+      columns: { tenantSignature: false, inspectorSignature: false },
+      with: {
+        items: {
+          columns: { id: true, condition: true },
+        },
+      },
+      orderBy: [desc(inspections.inspectionDate), desc(inspections.createdAt)],
+    });
+  }
+
+  async getInspection(id: string, tenantId: string): Promise<any | undefined> {
+    return await db.query.inspections.findFirst({
+      where: and(eq(inspections.id, id), eq(inspections.tenantId, tenantId)),
+      with: {
+        contract: {
+          with: {
+            property: true,
+            tenantContact: true,
+            owner: true,
+          },
+        },
+        items: {
+          orderBy: [inspectionItems.displayOrder, inspectionItems.createdAt],
+        },
+        photos: {
+          orderBy: [inspectionPhotos.createdAt],
+        },
+      },
+    });
+  }
+
+  async createInspection(
+    inspection: InsertInspection,
+    items: Omit<InsertInspectionItem, "tenantId" | "inspectionId">[],
+  ): Promise<Inspection> {
+    const [newInspection] = await db.insert(inspections).values(inspection).returning();
+    if (items.length > 0) {
+      await db.insert(inspectionItems).values(items.map((item, index) => ({
+        ...item,
+        tenantId: newInspection.tenantId,
+        inspectionId: newInspection.id,
+        displayOrder: item.displayOrder ?? index,
+      })));
+    }
+    await this.recordCreate(newInspection.tenantId, "inspection", newInspection);
+    return newInspection;
+  }
+
+  async updateInspection(id: string, tenantId: string, inspection: Partial<InsertInspection>): Promise<Inspection | undefined> {
+    const [before] = await db.select().from(inspections)
+      .where(and(eq(inspections.id, id), eq(inspections.tenantId, tenantId)));
+    const [updated] = await db.update(inspections)
+      .set(sanitizeUpdate(inspection))
+      .where(and(eq(inspections.id, id), eq(inspections.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "inspection", id, withoutSignatures(before), withoutSignatures(updated));
+    }
+    return updated;
+  }
+
+  async deleteInspection(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(inspections)
+      .where(and(eq(inspections.id, id), eq(inspections.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "inspection", withoutSignatures(deleted));
+    }
+  }
+
+  async getInspectionItem(id: string, tenantId: string): Promise<any | undefined> {
+    return await db.query.inspectionItems.findFirst({
+      where: and(eq(inspectionItems.id, id), eq(inspectionItems.tenantId, tenantId)),
+      with: {
+        inspection: {
+          columns: { id: true, contractId: true, type: true, status: true, inspectionDate: true },
+        },
+      },
+    });
+  }
+
+  // New items go to the end of the checklist unless an order is given
+  async createInspectionItem(item: InsertInspectionItem): Promise<InspectionItem> {
+    const [last] = await db.select({ maxOrder: sql<number>`coalesce(max(${inspectionItems.displayOrder}), -1)` })
+      .from(inspectionItems)
+      .where(eq(inspectionItems.inspectionId, item.inspectionId));
+    const [newItem] = await db.insert(inspectionItems).values({
+      ...item,
+      displayOrder: item.displayOrder ?? Number(last.maxOrder) + 1,
+    }).returning();
+    await this.recordCreate(newItem.tenantId, "inspection_item", newItem);
+    return newItem;
+  }
+
+  async updateInspectionItem(id: string, tenantId: string, item: Partial<InsertInspectionItem>): Promise<InspectionItem | undefined> {
+    const [before] = await db.select().from(inspectionItems)
+      .where(and(eq(inspectionItems.id, id), eq(inspectionItems.tenantId, tenantId)));
+    const [updated] = await db.update(inspectionItems)
+      .set(sanitizeUpdate(item))
+      .where(and(eq(inspectionItems.id, id), eq(inspectionItems.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "inspection_item", id, before, updated);
+    }
+    return updated;
+  }
+
+  async deleteInspectionItem(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(inspectionItems)
+      .where(and(eq(inspectionItems.id, id), eq(inspectionItems.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "inspection_item", deleted);
+    }
+  }
+
+  async getInspectionPhoto(id: string, tenantId: string): Promise<InspectionPhoto | undefined> {
+    const [photo] = await db.select().from(inspectionPhotos)
+      .where(and(eq(inspectionPhotos.id, id), eq(inspectionPhotos.tenantId, tenantId)));
+    return photo;
+  }
+
+  async createInspectionPhoto(photo: InsertInspectionPhoto): Promise<InspectionPhoto> {
+    const [newPhoto] = await db.insert(inspectionPhotos).values(photo).returning();
+    await this.recordCreate(newPhoto.tenantId, "inspection_photo", newPhoto);
+    return newPhoto;
+  }
+
+  async deleteInspectionPhoto(id: string, tenantId: string): Promise<InspectionPhoto | undefined> {
+    const [deleted] = await db.delete(inspectionPhotos)
+      .where(and(eq(inspectionPhotos.id, id), eq(inspectionPhotos.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "inspection_photo", deleted);
+    }
+    return deleted;
+  }
+
+  // Dunning
+  async getDunningSteps(tenantId: string): Promise<DunningStep[]> {
+    return await db.query.dunningSteps.findMany({
+      where: eq(dunningSteps.tenantId, tenantId),
+      orderBy: [dunningSteps.offsetDays, dunningSteps.recipient],
+    });
+  }
+
+  async getDunningStep(id: string, tenantId: string): Promise<DunningStep | undefined> {
+    const [step] = await db.select().from(dunningSteps)
+      .where(and(eq(dunningSteps.id, id), eq(dunningSteps.tenantId, tenantId)));
+    return step;
+  }
+
+  async createDunningStep(step: InsertDunningStep): Promise<DunningStep> {
+    const [newStep] = await db.insert(dunningSteps).values(step).returning();
+    await this.recordCreate(newStep.tenantId, "dunning_step", newStep);
+    return newStep;
+  }
+
+  async updateDunningStep(id: string, tenantId: string, step: Partial<InsertDunningStep>): Promise<DunningStep | undefined> {
+    const [before] = await db.select().from(dunningSteps)
+      .where(and(eq(dunningSteps.id, id), eq(dunningSteps.tenantId, tenantId)));
+    const [updated] = await db.update(dunningSteps)
+      .set(sanitizeUpdate(step))
+      .where(and(eq(dunningSteps.id, id), eq(dunningSteps.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "dunning_step", id, before, updated);
+    }
+    return updated;
+  }
+
+  async deleteDunningStep(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(dunningSteps)
+      .where(and(eq(dunningSteps.id, id), eq(dunningSteps.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "dunning_step", deleted);
+    }
+  }
+
+  // Open invoices due within the ladder's reach, with who to notify and what already fired
+  async getDunningCandidates(tenantId: string, dueFrom: string, dueTo: string): Promise<any[]> {
+    return await db.query.invoices.findMany({
+      where: and(
+        eq(invoices.tenantId, tenantId),
+        inArray(invoices.status, ["issued", "partial", "overdue"]),
+        gte(invoices.dueDate, dueFrom),
+        lte(invoices.dueDate, dueTo),
+      ),
+      with: {
+        contract: {
+          with: {
+            guarantor: true,
+            property: true,
+          },
+        },
+        tenantContact: true,
+        dunningEvents: true,
+      },
+      orderBy: [invoices.dueDate],
+    });
+  }
+
+  async getInvoiceDunningEvents(invoiceId: string, tenantId: string): Promise<DunningEvent[]> {
+    return await db.query.dunningEvents.findMany({
+      where: and(eq(dunningEvents.invoiceId, invoiceId), eq(dunningEvents.tenantId, tenantId)),
+      orderBy: [desc(dunningEvents.firedAt)],
+    });
+  }
+
+  // Inserts the event only if this step has not fired for the invoice yet; undefined means it already had
+  async claimDunningEvent(event: InsertDunningEvent): Promise<DunningEvent | undefined> {
+    const [claimed] = await db.insert(dunningEvents)
+      .values(event)
+      .onConflictDoNothing({ target: [dunningEvents.invoiceId, dunningEvents.stepId] })
+      .returning();
+    return claimed;
+  }
+
+  async updateDunningEvent(id: string, tenantId: string, event: Partial<InsertDunningEvent>): Promise<DunningEvent | undefined> {
+    const [updated] = await db.update(dunningEvents)
+      .set(event)
+      .where(and(eq(dunningEvents.id, id), eq(dunningEvents.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  // Scheduler Runs
+  // Claims the job for the period unless it already ran for it or another instance is running it;
+  // a failed run, or one left running for over an hour by a crash, is claimed again
+  async claimSchedulerRun(tenantId: string, job: SchedulerJob, period: string): Promise<SchedulerRun | undefined> {
+    const [claimed] = await db.insert(schedulerRuns)
+      .values({ tenantId, job, period, status: "running" })
+      .onConflictDoUpdate({
+        target: [schedulerRuns.tenantId, schedulerRuns.job],
+        set: { period, status: "running", error: null, startedAt: new Date(), finishedAt: null },
+        setWhere: or(
+          lt(schedulerRuns.period, period),
+          and(eq(schedulerRuns.period, period), eq(schedulerRuns.status, "failed")),
+          and(eq(schedulerRuns.status, "running"), lt(schedulerRuns.startedAt, sql`now() - interval '1 hour'`)),
+        ),
+      })
+      .returning();
+    return claimed;
+  }
+
+  async finishSchedulerRun(id: string, tenantId: string, error: string | null): Promise<void> {
+    await db.update(schedulerRuns)
+      .set({ status: error ? "failed" : "done", error, finishedAt: new Date() })
+      .where(and(eq(schedulerRuns.id, id), eq(schedulerRuns.tenantId, tenantId)));
+  }
+
+  // Notifications
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const [created] = await db.insert(notifications).values(notification).returning();
+    return created;
+  }
+
+  async updateNotification(id: string, tenantId: string, notification: Partial<InsertNotification>): Promise<Notification | undefined> {
+    const [updated] = await db.update(notifications)
+      .set(notification)
+      .where(and(eq(notifications.id, id), eq(notifications.tenantId, tenantId)))
+      .returning();
+    return updated;
+  }
+
+  async getInvoiceNotifications(invoiceId: string, tenantId: string): Promise<Notification[]> {
+    return await db.query.notifications.findMany({
+      where: and(eq(notifications.invoiceId, invoiceId), eq(notifications.tenantId, tenantId)),
+      orderBy: [desc(notifications.createdAt)],
+    });
+  }
+
+  // Provider webhooks are not tenant-scoped: the notification id we sent as a custom arg, or
+  // failing that the provider's message id, identifies the row and with it the tenant
+  async findNotificationForDeliveryEvent(notificationId?: string, providerMessageId?: string): Promise<Notification | undefined> {
+    if (notificationId) {
+      const notification = await db.query.notifications.findFirst({ where: eq(notifications.id, notificationId) });
+      if (notification) {
+        return notification;
+      }
+    }
+    if (providerMessageId) {
+      return await db.query.notifications.findFirst({ where: eq(notifications.providerMessageId, providerMessageId) });
+    }
+    return undefined;
+  }
+
+  // Email Templates
+  async getEmailTemplates(tenantId: string): Promise<EmailTemplate[]> {
+    return await db.select().from(emailTemplates).where(eq(emailTemplates.tenantId, tenantId));
+  }
+
+  async getEmailTemplate(tenantId: string, key: EmailTemplateKey): Promise<EmailTemplate | undefined> {
+    const [template] = await db.select().from(emailTemplates)
+      .where(and(eq(emailTemplates.tenantId, tenantId), eq(emailTemplates.key, key)));
+    return template;
+  }
+
+  async upsertEmailTemplate(template: InsertEmailTemplate): Promise<EmailTemplate> {
+    const [before] = await db.select().from(emailTemplates)
+      .where(and(eq(emailTemplates.tenantId, template.tenantId), eq(emailTemplates.key, template.key)));
+    const [saved] = await db.insert(emailTemplates)
+      .values(template)
+      .onConflictDoUpdate({
+        target: [emailTemplates.tenantId, emailTemplates.key],
+        set: { subject: template.subject, html: template.html, text: template.text ?? null, updatedAt: new Date() },
+      })
+      .returning();
+    if (before) {
+      await this.recordUpdate(saved.tenantId, "email_template", saved.id, before, saved);
+    } else {
+      await this.recordCreate(saved.tenantId, "email_template", saved);
+    }
+    return saved;
+  }
+
+  async deleteEmailTemplate(tenantId: string, key: EmailTemplateKey): Promise<void> {
+    const [deleted] = await db.delete(emailTemplates)
+      .where(and(eq(emailTemplates.tenantId, tenantId), eq(emailTemplates.key, key)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "email_template", deleted);
+    }
+  }
+
+  // Email Settings
+  async getEmailSettings(tenantId: string): Promise<EmailSettings | undefined> {
+    const [settings] = await db.select().from(emailSettings).where(eq(emailSettings.tenantId, tenantId));
+    return settings && withDecryptedPassword(settings);
+  }
+
+  async upsertEmailSettings(settings: InsertEmailSettings): Promise<EmailSettings> {
+    const [before] = await db.select().from(emailSettings).where(eq(emailSettings.tenantId, settings.tenantId));
+    const values = { ...settings, smtpPassword: settings.smtpPassword ? encryptSecret(settings.smtpPassword) : null };
+    const [saved] = await db.insert(emailSettings)
+      .values(values)
+      .onConflictDoUpdate({
+        target: emailSettings.tenantId,
+        set: { ...sanitizeUpdate(values), updatedAt: new Date() },
+      })
+      .returning();
+    if (before) {
+      await this.recordUpdate(saved.tenantId, "email_settings", saved.id, withoutPassword(before), withoutPassword(saved));
+    } else {
+      await this.recordCreate(saved.tenantId, "email_settings", withoutPassword(saved));
+    }
+    return withDecryptedPassword(saved);
+  }
+
+  async deleteEmailSettings(tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(emailSettings)
+      .where(eq(emailSettings.tenantId, tenantId))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "email_settings", withoutPassword(deleted));
+    }
+  }
+
+  // Messaging Consents
+  async getMessagingConsents(contactId: string, tenantId: string): Promise<MessagingConsent[]> {
+    return await db.select().from(messagingConsents)
+      .where(and(eq(messagingConsents.contactId, contactId), eq(messagingConsents.tenantId, tenantId)));
+  }
+
+  async upsertMessagingConsent(consent: InsertMessagingConsent): Promise<MessagingConsent> {
+    const [before] = await db.select().from(messagingConsents)
+      .where(and(eq(messagingConsents.contactId, consent.contactId), eq(messagingConsents.channel, consent.channel)));
+    const [saved] = await db.insert(messagingConsents)
+      .values(consent)
+      .onConflictDoUpdate({
+        target: [messagingConsents.contactId, messagingConsents.channel],
+        set: { status: consent.status, phone: consent.phone, source: consent.source ?? "manual", updatedAt: new Date() },
+      })
+      .returning();
+    if (before) {
+      await this.recordUpdate(saved.tenantId, "messaging_consent", saved.id, before, saved);
+    } else {
+      await this.recordCreate(saved.tenantId, "messaging_consent", saved);
+    }
+    return saved;
+  }
+
+  // A STOP reply is not tenant-scoped: every contact opted in with that number, in any tenant, is opted out
+  async optOutPhone(channel: MessagingChannel, phone: string): Promise<MessagingConsent[]> {
+    const before = await db.select().from(messagingConsents)
+      .where(and(eq(messagingConsents.channel, channel), eq(messagingConsents.phone, phone), eq(messagingConsents.status, "opted_in")));
+    if (before.length === 0) {
+      return [];
+    }
+    const updated = await db.update(messagingConsents)
+      .set({ status: "opted_out", source: "reply", updatedAt: new Date() })
+      .where(inArray(messagingConsents.id, before.map((consent) => consent.id)))
+      .returning();
+    for (const consent of updated) {
+      await this.recordUpdate(consent.tenantId, "messaging_consent", consent.id, before.find((row) => row.id === consent.id)!, consent);
+    }
+    return updated;
+  }
+
+  // Property Photos
+  async getPropertyPhotos(propertyId: string, tenantId: string): Promise<PropertyPhoto[]> {
+    return await db.query.propertyPhotos.findMany({
+      where: and(eq(propertyPhotos.propertyId, propertyId), eq(propertyPhotos.tenantId, tenantId)),
+      orderBy: [propertyPhotos.displayOrder, propertyPhotos.createdAt],
+    });
+  }
+
+  async createPropertyPhoto(photo: InsertPropertyPhoto): Promise<PropertyPhoto> {
+    // Get the max display order for this property
+    const result = await db.select({ maxOrder: sql<number>`COALESCE(MAX(display_order), -1)` })
+      .from(propertyPhotos)
+      .where(and(eq(propertyPhotos.propertyId, photo.propertyId), eq(propertyPhotos.tenantId, photo.tenantId)));
+    
+    const nextOrder = (result[0]?.maxOrder ?? -1) + 1;
+    
+    const [newPhoto] = await db.insert(propertyPhotos).values({
+      ...photo,
+      displayOrder: nextOrder,
+    }).returning();
+    await this.recordCreate(newPhoto.tenantId, "property_photo", newPhoto);
+    return newPhoto;
+  }
+
+  async deletePropertyPhoto(id: string, tenantId: string): Promise<void> {
+    const [deleted] = await db.delete(propertyPhotos)
+      .where(and(eq(propertyPhotos.id, id), eq(propertyPhotos.tenantId, tenantId)))
+      .returning();
+    if (deleted) {
+      await this.recordDelete(tenantId, "property_photo", deleted);
+    }
+  }
+
+  async updatePhotoOrder(photoId: string, newOrder: number, tenantId: string): Promise<void> {
+    const [before] = await db.select().from(propertyPhotos)
+      .where(and(eq(propertyPhotos.id, photoId), eq(propertyPhotos.tenantId, tenantId)));
+    const [updated] = await db.update(propertyPhotos)
+      .set({ displayOrder: newOrder })
+      .where(and(eq(propertyPhotos.id, photoId), eq(propertyPhotos.tenantId, tenantId)))
+      .returning();
+    if (before && updated) {
+      await this.recordUpdate(tenantId, "property_photo", photoId, before, updated);
+    }
+  }
+
+  async getPropertyPhotosCount(propertyId: string, tenantId: string): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)` })
+      .from(propertyPhotos)
+      .where(and(eq(propertyPhotos.propertyId, propertyId), eq(propertyPhotos.tenantId, tenantId)));
+    return result[0]?.count || 0;
+  }
+
+  // Audit Logs
+  async getAuditLogs(tenantId: string, filters: AuditLogFilters = {}): Promise<AuditLog[]> {
+    const conditions = [eq(auditLogs.tenantId, tenantId)];
+
+    if (filters.entity) {
+      conditions.push(eq(auditLogs.entity, filters.entity));
+    }
+    if (filters.entityId) {
+      conditions.push(eq(auditLogs.entityId, filters.entityId));
+    }
+    if (filters.actorUserId) {
+      conditions.push(eq(auditLogs.actorUserId, filters.actorUserId));
+    }
+    if (filters.from) {
+      conditions.push(gte(auditLogs.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(auditLogs.createdAt, filters.to));
+    }
+
+    return await db.query.auditLogs.findMany({
+      where: and(...conditions),
+      with: {
+        actor: {
+          columns: { id: true, email: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: [desc(auditLogs.createdAt)],
+      limit: filters.limit ?? 200,
+    });
+  }
+
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [log] = await db.insert(auditLogs).values({
+      ...entry,
+      actorUserId: entry.actorUserId ?? getAuditActor(),
+    }).returning();
+    return log;
+  }
+
+  private async recordCreate(tenantId: string, entity: string, row: { id: string; [key: string]: unknown }): Promise<void> {
+    await this.recordAudit(tenantId, "create", entity, row.id, { after: row });
+  }
+
+  private async recordUpdate(
+    tenantId: string,
+    entity: string,
+    entityId: string,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+  ): Promise<void> {
+    const diff = diffRecords(before, after);
+    if (Object.keys(diff.after).length === 0) {
+      return;
+    }
+    await this.recordAudit(tenantId, "update", entity, entityId, diff);
+  }
+
+  private async recordDelete(tenantId: string, entity: string, row: { id: string; [key: string]: unknown }): Promise<void> {
+    await this.recordAudit(tenantId, "delete", entity, row.id, { before: row });
+  }
+
+  private async recordAudit(
+    tenantId: string,
+    action: AuditAction,
+    entity: string,
+    entityId: string,
+    meta: Record<string, unknown>,
+  ): Promise<void> {
+    await this.createAuditLog({ tenantId, action, entity, entityId, meta });
   }
 }
 
@@ -0,0 +1,18 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { withTransactionContext } from "../transactionContext";
+
+// drizzle-kit's ESM build cannot load its bundled CommonJS dependencies, so its API is required
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// An in-memory Postgres with the current schema, standing in for server/db in tests
+export async function createTestDb() {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return { client, db: withTransactionContext(drizzle(client, { schema })) };
+}
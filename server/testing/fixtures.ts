@@ -0,0 +1,80 @@
+import { eq } from "drizzle-orm";
+import { contacts, contracts, insurers, invoices, policies, properties, tenants, type Invoice } from "@shared/schema";
+import type { createTestDb } from "./db";
+
+type TestDb = Awaited<ReturnType<typeof createTestDb>>["db"];
+
+// A tenant with one lease: an owner, a renter, a property and an active contract
+export async function seedTenant(db: TestDb, name: string, options: { tenantEmail?: string | null; timezone?: string } = {}) {
+  const [tenant] = await db.insert(tenants).values({ name, ...(options.timezone && { timezone: options.timezone }) }).returning();
+  const [owner] = await db.insert(contacts).values({
+    tenantId: tenant.id,
+    fullName: `Propietario ${name}`,
+    email: `owner@${tenant.id}.test`,
+    roles: ["owner"],
+  }).returning();
+  const [renter] = await db.insert(contacts).values({
+    tenantId: tenant.id,
+    fullName: `Inquilino ${name}`,
+    email: options.tenantEmail === undefined ? `renter@${tenant.id}.test` : options.tenantEmail,
+    roles: ["tenant"],
+  }).returning();
+  const [property] = await db.insert(properties).values({
+    tenantId: tenant.id,
+    code: "P-1",
+    name: `Apartamento ${name}`,
+    ownerContactId: owner.id,
+  }).returning();
+  const [contract] = await db.insert(contracts).values({
+    tenantId: tenant.id,
+    number: "C-1",
+    propertyId: property.id,
+    ownerContactId: owner.id,
+    tenantContactId: renter.id,
+    startDate: "2025-01-01",
+    endDate: "2025-12-31",
+    rentAmount: "1500000",
+    paymentDay: 5,
+    lateFeeType: "fixed",
+    lateFeeValue: "50000",
+    status: "active",
+  }).returning();
+  return { tenant, owner, renter, property, contract };
+}
+
+export async function seedInvoice(
+  db: TestDb,
+  lease: Awaited<ReturnType<typeof seedTenant>>,
+  values: Partial<typeof invoices.$inferInsert> & { number: string; dueDate: string },
+): Promise<Invoice> {
+  const [invoice] = await db.insert(invoices).values({
+    tenantId: lease.tenant.id,
+    contractId: lease.contract.id,
+    tenantContactId: lease.renter.id,
+    issueDate: values.dueDate,
+    subtotal: "1500000",
+    totalAmount: "1500000",
+    status: "issued",
+    ...values,
+  }).returning();
+  return invoice;
+}
+
+// Covers the lease with a policy from an insurer of the tenant that receives monthly reports
+export async function seedPolicy(db: TestDb, lease: Awaited<ReturnType<typeof seedTenant>>, insurerName: string) {
+  const [insurer] = await db.insert(insurers).values({
+    tenantId: lease.tenant.id,
+    name: insurerName,
+    emailReports: `reportes@${lease.tenant.id}.test`,
+  }).returning();
+  const [policy] = await db.insert(policies).values({
+    tenantId: lease.tenant.id,
+    policyNumber: "POL-1",
+    insurerId: insurer.id,
+    contractId: lease.contract.id,
+    startDate: "2025-01-01",
+    endDate: "2025-12-31",
+  }).returning();
+  await db.update(contracts).set({ policyId: policy.id }).where(eq(contracts.id, lease.contract.id));
+  return { insurer, policy };
+}
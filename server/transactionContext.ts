@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+// Carries the open transaction through a unit of work so storage methods and services
+// that use `db` join it without every one of them taking a transaction argument.
+// Outside db.transaction() queries go straight to the pool.
+const transactionStorage = new AsyncLocalStorage<object>();
+
+interface Transactional {
+  transaction(run: (tx: any) => Promise<unknown>, config?: unknown): Promise<unknown>;
+}
+
+// The database as seen from the current transaction, if any. Calling transaction() inside
+// another opens a savepoint, so a failed step can be retried without losing the outer work
+export function withTransactionContext<T extends Transactional>(database: T): T {
+  return new Proxy(database, {
+    get(target, property) {
+      const current = (transactionStorage.getStore() ?? target) as Transactional;
+      if (property === "transaction") {
+        return (run: (tx: unknown) => Promise<unknown>, config?: unknown) =>
+          current.transaction((tx) => transactionStorage.run(tx, () => run(tx)), config);
+      }
+      const value = Reflect.get(current, property);
+      return typeof value === "function" ? value.bind(current) : value;
+    },
+  });
+}
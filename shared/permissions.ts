@@ -0,0 +1,114 @@
+import type { User } from "./schema";
+
+export type UserRole = User["role"];
+
+// Permission matrix: every protected action and the roles allowed to perform it.
+// Server routes enforce it through requirePermission(); the client reads the
+// effective list from /api/auth/user to hide actions the user cannot perform.
+export const permissionMatrix = {
+  // Tenant settings & billing
+  "tenant:update": ["owner", "admin"],
+  "billing:manage": ["owner"],
+  "taxes:manage": ["owner", "admin"],
+
+  // Team members & invitations
+  "team:view": ["owner", "admin"],
+  "team:invite": ["owner", "admin"],
+  "team:manage": ["owner"],
+
+  // CSV imports
+  "import:run": ["owner", "admin"],
+
+  // Contacts
+  "contacts:view": ["owner", "admin", "collections"],
+  "contacts:create": ["owner", "admin", "collections"],
+  "contacts:update": ["owner", "admin", "collections"],
+  "contacts:delete": ["owner", "admin"],
+
+  // Properties & photos
+  "properties:view": ["owner", "admin", "collections"],
+  "properties:create": ["owner", "admin"],
+  "properties:update": ["owner", "admin"],
+  "properties:delete": ["owner", "admin"],
+
+  // Contracts
+  "contracts:view": ["owner", "admin", "collections"],
+  "contracts:create": ["owner", "admin"],
+  "contracts:update": ["owner", "admin"],
+  "contracts:delete": ["owner"],
+  "contracts:activate": ["owner", "admin"],
+  "contracts:terminate": ["owner", "admin"],
+
+  // Security deposits
+  "deposits:view": ["owner", "admin", "collections"],
+  "deposits:manage": ["owner", "admin"],
+
+  // Invoices
+  "invoices:view": ["owner", "admin", "collections"],
+  "invoices:create": ["owner", "admin"],
+  "invoices:update": ["owner", "admin"],
+  "invoices:delete": ["owner", "admin"],
+  "invoices:void": ["owner", "admin"],
+  "invoices:credit": ["owner", "admin"],
+  "invoices:remind": ["owner", "admin", "collections"],
+  "invoices:recalc": ["owner", "admin", "collections"],
+
+  // Payments
+  "payments:view": ["owner", "admin", "collections"],
+  "payments:create": ["owner", "admin", "collections"],
+  "payments:update": ["owner", "admin"],
+  "payments:delete": ["owner", "admin"],
+
+  // Owner statements, expenses & disbursements
+  "owners:view": ["owner", "admin"],
+  "owners:manage": ["owner", "admin"],
+
+  // Maintenance work orders
+  "maintenance:view": ["owner", "admin", "collections"],
+  "maintenance:manage": ["owner", "admin"],
+  "maintenance:bill": ["owner", "admin"],
+
+  // Move-in, periodic & move-out inspections
+  "inspections:view": ["owner", "admin", "collections"],
+  "inspections:manage": ["owner", "admin"],
+
+  // Collections ladder (dunning steps) and per-invoice reminder history
+  "dunning:view": ["owner", "admin", "collections"],
+  "dunning:manage": ["owner", "admin"],
+
+  // Per-tenant wording of the reminder and insurer emails
+  "templates:manage": ["owner", "admin"],
+
+  // Insurers & policies
+  "insurers:view": ["owner", "admin", "collections"],
+  "insurers:manage": ["owner", "admin"],
+  "policies:view": ["owner", "admin", "collections"],
+  "policies:manage": ["owner", "admin"],
+  "reports:view": ["owner", "admin", "collections"],
+
+  // OCR
+  "ocr:process": ["owner", "admin", "collections"],
+  "ocr:approve": ["owner", "admin"],
+
+  // Activity history
+  "audit:view": ["owner", "admin"],
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof permissionMatrix;
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  if (!role) {
+    return false;
+  }
+  return (permissionMatrix[permission] as readonly UserRole[]).includes(role);
+}
+
+export function getAllowedRoles(permission: Permission): readonly UserRole[] {
+  return permissionMatrix[permission];
+}
+
+export function getPermissionsForRole(role: UserRole | null | undefined): Permission[] {
+  return (Object.keys(permissionMatrix) as Permission[]).filter((permission) =>
+    hasPermission(role, permission),
+  );
+}
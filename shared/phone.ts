@@ -0,0 +1,45 @@
+// Calling code and national number lengths (without trunk prefix) of the countries we serve
+const countries: Record<string, { code: string; lengths: number[] }> = {
+  CO: { code: "57", lengths: [10] }, // mobiles 3xx xxx xxxx, landlines 60x xxx xxxx
+  MX: { code: "52", lengths: [10] },
+  PE: { code: "51", lengths: [8, 9] },
+  CL: { code: "56", lengths: [9] },
+  AR: { code: "54", lengths: [10, 11] }, // 11 with the 9 WhatsApp expects before mobile numbers
+  EC: { code: "593", lengths: [8, 9] },
+  PA: { code: "507", lengths: [7, 8] },
+  ES: { code: "34", lengths: [9] },
+  US: { code: "1", lengths: [10] },
+};
+
+// "es-CO" -> "CO"; tenants without a region in their locale are treated as Colombian
+export function countryFromLocale(locale: string | null | undefined): string {
+  const region = locale?.split("-")[1]?.toUpperCase();
+  return region && countries[region] ? region : "CO";
+}
+
+// A phone number as typed ("300 123 4567", "(55) 1234-5678", "0057 300...") in E.164 ("+573001234567"),
+// reading national numbers as being from the given country; null when it cannot be a valid number
+export function toE164(phone: string | null | undefined, country: string): string | null {
+  if (!phone) {
+    return null;
+  }
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (trimmed.startsWith("+") || digits.startsWith("00")) {
+    const international = digits.replace(/^00/, "");
+    return international.length >= 8 && international.length <= 15 && !international.startsWith("0")
+      ? `+${international}`
+      : null;
+  }
+
+  const { code, lengths } = countries[country] ?? countries.CO;
+  const national = digits.replace(/^0+/, "");
+  if (lengths.includes(national.length)) {
+    return `+${code}${national}`;
+  }
+  // Already carries the calling code, just without the "+"
+  if (national.startsWith(code) && lengths.includes(national.length - code.length)) {
+    return `+${national}`;
+  }
+  return null;
+}
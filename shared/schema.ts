@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, numeric, date, timestamp, boolean, pgEnum, json, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, numeric, date, timestamp, boolean, pgEnum, json, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -10,10 +10,42 @@ export const planEnum = pgEnum("plan", ["trial", "starter", "growth", "pro"]);
 export const tenantStatusEnum = pgEnum("tenant_status", ["active", "paused", "cancelled"]);
 export const propertyStatusEnum = pgEnum("property_status", ["available", "rented", "maintenance", "reserved"]);
 export const contractStatusEnum = pgEnum("contract_status", ["draft", "signed", "active", "expiring", "expired", "closed"]);
-export const invoiceStatusEnum = pgEnum("invoice_status", ["draft", "issued", "overdue", "partial", "paid"]);
+export const invoiceStatusEnum = pgEnum("invoice_status", ["draft", "issued", "overdue", "partial", "paid", "void"]);
 export const policyStatusEnum = pgEnum("policy_status", ["active", "expired"]);
 export const ocrStatusEnum = pgEnum("ocr_status", ["pending", "ok", "needs_review", "error"]);
 export const lateFeeTypeEnum = pgEnum("late_fee_type", ["percent", "fixed", "none"]);
+export const invitationStatusEnum = pgEnum("invitation_status", ["pending", "accepted", "revoked"]);
+export const escalationTypeEnum = pgEnum("escalation_type", ["none", "fixed", "ipc", "inpc"]);
+export const priceIndexEnum = pgEnum("price_index", ["ipc", "inpc"]);
+export const prorationMethodEnum = pgEnum("proration_method", ["actual_days", "days_30"]);
+export const depositEntryTypeEnum = pgEnum("deposit_entry_type", ["receipt", "deduction", "refund"]);
+export const chargeCategoryEnum = pgEnum("charge_category", ["rent", "late_fee", "utility", "maintenance", "tax", "discount", "deposit", "other"]);
+export const creditNoteReasonEnum = pgEnum("credit_note_reason", ["billing_error", "price_adjustment", "discount", "service_not_provided", "void", "other"]);
+export const chargeSourceEnum = pgEnum("charge_source", ["contract", "recurring_charge", "ocr_log", "manual", "work_order"]);
+export const workOrderCategoryEnum = pgEnum("work_order_category", ["plumbing", "electrical", "appliances", "locksmith", "painting", "structural", "cleaning", "other"]);
+export const workOrderPriorityEnum = pgEnum("work_order_priority", ["low", "medium", "high", "urgent"]);
+export const workOrderStatusEnum = pgEnum("work_order_status", ["open", "assigned", "in_progress", "completed", "cancelled"]);
+export const workOrderBillToEnum = pgEnum("work_order_bill_to", ["tenant", "owner"]);
+export const inspectionTypeEnum = pgEnum("inspection_type", ["move_in", "periodic", "move_out"]);
+export const inspectionStatusEnum = pgEnum("inspection_status", ["draft", "signed"]);
+export const inspectionConditionEnum = pgEnum("inspection_condition", ["excellent", "good", "fair", "poor", "damaged"]); // best to worst
+export const schedulerJobEnum = pgEnum("scheduler_job", ["overdue_status", "late_fee", "dunning", "insurer_reports"]);
+export const schedulerRunStatusEnum = pgEnum("scheduler_run_status", ["running", "done", "failed"]);
+export const dunningChannelEnum = pgEnum("dunning_channel", ["email", "whatsapp", "sms", "auto"]); // auto: WhatsApp if opted in, else email, else SMS
+export const dunningRecipientEnum = pgEnum("dunning_recipient", ["tenant", "guarantor"]);
+export const dunningTemplateEnum = pgEnum("dunning_template", ["friendly", "due_today", "overdue", "firm", "final", "guarantor_notice"]); // mildest to harshest
+export const dunningStopConditionEnum = pgEnum("dunning_stop_condition", ["partial_payment", "promise_to_pay"]);
+export const dunningEventStatusEnum = pgEnum("dunning_event_status", ["sent", "skipped", "failed"]);
+export const notificationTemplateEnum = pgEnum("notification_template", [
+  "friendly", "due_today", "overdue", "firm", "final", "guarantor_notice", // dunning templates
+  "insurer_report", "account_statement", "owner_statement", "team_invitation", "contract_expiring", "contract_expired",
+]);
+export const notificationStatusEnum = pgEnum("notification_status", ["queued", "sent", "failed", "bounced"]);
+export const emailTransportEnum = pgEnum("email_transport", ["sendgrid", "smtp", "outbox"]);
+export const notificationChannelEnum = pgEnum("notification_channel", ["email", "whatsapp", "sms"]);
+export const messagingChannelEnum = pgEnum("messaging_channel", ["whatsapp", "sms"]);
+export const messagingProviderEnum = pgEnum("messaging_provider", ["whatsapp_cloud", "sms_http", "stub"]);
+export const messagingConsentStatusEnum = pgEnum("messaging_consent_status", ["opted_in", "opted_out"]);
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -36,6 +68,14 @@ export const tenants = pgTable("tenants", {
   status: tenantStatusEnum("status").notNull().default("active"),
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
+  invoiceLeadDays: integer("invoice_lead_days").notNull().default(5), // days before a period starts that its invoice is issued
+  renewalNoticeDays: integer("renewal_notice_days").notNull().default(60), // days before the end date that a contract becomes expiring
+  prorationMethod: prorationMethodEnum("proration_method").notNull().default("actual_days"), // how partial months are billed
+  timezone: text("timezone").notNull().default("America/Bogota"), // IANA zone; scheduled jobs run on the tenant's local day and hour
+  locale: text("locale").notNull().default("es-CO"), // BCP 47 tag for dates and numbers in emails
+  currency: text("currency").notNull().default("COP"), // ISO 4217 code amounts are shown in
+  enabledJobs: schedulerJobEnum("enabled_jobs").array().notNull()
+    .default(sql`ARRAY['overdue_status', 'late_fee', 'dunning', 'insurer_reports']::scheduler_job[]`),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -52,6 +92,23 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+// Team Invitations (single-use, expiring tokens to join an existing tenant)
+export const teamInvitations = pgTable("team_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: userRoleEnum("role").notNull().default("collections"),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token sent by email
+  status: invitationStatusEnum("status").notNull().default("pending"),
+  invitedByUserId: varchar("invited_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  acceptedByUserId: varchar("accepted_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  tenantEmailIdx: index("IDX_team_invitations_tenant_email").on(table.tenantId, table.email),
+}));
+
 // Contacts (multi-role: owner, tenant, guarantor, provider)
 export const contacts = pgTable("contacts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -62,6 +119,7 @@ export const contacts = pgTable("contacts", {
   roles: text("roles").array().notNull(), // ["owner", "tenant", "guarantor", "provider"]
   docType: text("doc_type"),
   docNumber: text("doc_number"),
+  managementFeeRate: numeric("management_fee_rate", { precision: 5, scale: 2 }), // % we keep from rent collected for this owner
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -77,6 +135,7 @@ export const properties = pgTable("properties", {
   listRent: numeric("list_rent", { precision: 15, scale: 2 }),
   status: propertyStatusEnum("status").notNull().default("available"),
   ownerContactId: varchar("owner_contact_id").references(() => contacts.id),
+  managementFeeRate: numeric("management_fee_rate", { precision: 5, scale: 2 }), // overrides the owner's rate; null uses it
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   uniquePropertyCode: uniqueIndex("unique_property_code_per_tenant").on(table.tenantId, table.code),
@@ -109,6 +168,19 @@ export const policies = pgTable("policies", {
   uniquePolicyNumber: uniqueIndex("unique_policy_number_per_tenant").on(table.tenantId, table.policyNumber),
 }));
 
+// Tax Profiles (IVA and withholding rates a contract is billed with, in %)
+export const taxProfiles = pgTable("tax_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  ivaRate: numeric("iva_rate", { precision: 7, scale: 4 }).notNull().default("0"),
+  withholdingRate: numeric("withholding_rate", { precision: 7, scale: 4 }).notNull().default("0"), // retención en la fuente
+  icaRate: numeric("ica_rate", { precision: 7, scale: 4 }).notNull().default("0"), // reteICA
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueTaxProfileName: uniqueIndex("unique_tax_profile_name_per_tenant").on(table.tenantId, table.name),
+}));
+
 // Contracts
 export const contracts = pgTable("contracts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -117,6 +189,7 @@ export const contracts = pgTable("contracts", {
   propertyId: varchar("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
   ownerContactId: varchar("owner_contact_id").notNull().references(() => contacts.id),
   tenantContactId: varchar("tenant_contact_id").notNull().references(() => contacts.id),
+  guarantorContactId: varchar("guarantor_contact_id").references(() => contacts.id, { onDelete: "set null" }), // notified by the dunning ladder
   startDate: date("start_date").notNull(),
   endDate: date("end_date").notNull(),
   rentAmount: numeric("rent_amount", { precision: 15, scale: 2 }).notNull(),
@@ -125,9 +198,21 @@ export const contracts = pgTable("contracts", {
   lateFeeValue: numeric("late_fee_value", { precision: 15, scale: 2 }),
   status: contractStatusEnum("status").notNull().default("draft"),
   policyId: varchar("policy_id").references(() => policies.id),
+  escalationType: escalationTypeEnum("escalation_type").notNull().default("none"),
+  escalationRate: numeric("escalation_rate", { precision: 7, scale: 4 }), // fixed: yearly %; ipc/inpc: points added on top of the index
+  escalationCap: numeric("escalation_cap", { precision: 7, scale: 4 }), // max yearly % increase
+  escalationMonth: integer("escalation_month"), // 1-12; defaults to the start month
+  depositAmount: numeric("deposit_amount", { precision: 15, scale: 2 }), // agreed security deposit
+  depositReceivedDate: date("deposit_received_date"),
+  terminationDate: date("termination_date"), // last day in force when closed early
+  terminationReason: text("termination_reason"),
+  renewedFromContractId: varchar("renewed_from_contract_id").references((): AnyPgColumn => contracts.id, { onDelete: "set null" }),
+  taxProfileId: varchar("tax_profile_id").references(() => taxProfiles.id, { onDelete: "set null" }), // no profile: untaxed
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   uniqueContractNumber: uniqueIndex("unique_contract_number_per_tenant").on(table.tenantId, table.number),
+  // A lease is renewed at most once; further renewals chain from the successor
+  uniqueRenewal: uniqueIndex("unique_contract_renewal").on(table.renewedFromContractId),
 }));
 
 // Invoices
@@ -139,16 +224,44 @@ export const invoices = pgTable("invoices", {
   tenantContactId: varchar("tenant_contact_id").notNull().references(() => contacts.id),
   issueDate: date("issue_date").notNull(),
   dueDate: date("due_date").notNull(),
+  periodStart: date("period_start"), // billing period covered; null for manual one-off invoices
+  periodEnd: date("period_end"),
   subtotal: numeric("subtotal", { precision: 15, scale: 2 }).notNull(),
   tax: numeric("tax", { precision: 15, scale: 2 }).notNull().default("0"),
+  withholdings: numeric("withholdings", { precision: 15, scale: 2 }).notNull().default("0"), // retained by the tenant; deducted from the total
   otherCharges: numeric("other_charges", { precision: 15, scale: 2 }).notNull().default("0"),
   lateFee: numeric("late_fee", { precision: 15, scale: 2 }).notNull().default("0"),
   totalAmount: numeric("total_amount", { precision: 15, scale: 2 }).notNull(),
   amountPaid: numeric("amount_paid", { precision: 15, scale: 2 }).notNull().default("0"),
+  creditedAmount: numeric("credited_amount", { precision: 15, scale: 2 }).notNull().default("0"), // sum of its credit notes; balance = total - paid - credited
+  // Tax profile rates in force when the invoice was issued; null when it carries no taxes
+  ivaRate: numeric("iva_rate", { precision: 7, scale: 4 }),
+  withholdingRate: numeric("withholding_rate", { precision: 7, scale: 4 }),
+  icaRate: numeric("ica_rate", { precision: 7, scale: 4 }),
   status: invoiceStatusEnum("status").notNull().default("draft"),
+  promisedPaymentDate: date("promised_payment_date"), // tenant's promise to pay; pauses dunning steps that stop on it
+  promiseNote: text("promise_note"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
   uniqueInvoiceNumber: uniqueIndex("unique_invoice_number_per_tenant").on(table.tenantId, table.number),
+  uniqueContractPeriod: uniqueIndex("unique_invoice_period_per_contract").on(table.contractId, table.periodStart),
+}));
+
+// Credit Notes (corrections that reduce an issued invoice's balance without editing it)
+export const creditNotes = pgTable("credit_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(), // consecutive per tenant, never reused
+  number: text("number").notNull(),
+  issueDate: date("issue_date").notNull(),
+  reasonCode: creditNoteReasonEnum("reason_code").notNull(),
+  reason: text("reason").notNull(),
+  amount: numeric("amount", { precision: 15, scale: 2 }).notNull(), // always positive
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueSequence: uniqueIndex("unique_credit_note_sequence_per_tenant").on(table.tenantId, table.sequence),
+  invoiceIdx: index("IDX_credit_notes_invoice").on(table.invoiceId),
 }));
 
 // Invoice Charges (line items)
@@ -156,9 +269,21 @@ export const invoiceCharges = pgTable("invoice_charges", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
   description: text("description").notNull(),
-  amount: numeric("amount", { precision: 15, scale: 2 }).notNull(),
+  category: chargeCategoryEnum("category").notNull().default("other"),
+  quantity: numeric("quantity", { precision: 12, scale: 3 }),
+  unitPrice: numeric("unit_price", { precision: 15, scale: 2 }), // amount = quantity × unitPrice when both are set
+  amount: numeric("amount", { precision: 15, scale: 2 }).notNull(), // discounts and credits are negative
+  sourceType: chargeSourceEnum("source_type"), // null only on lines created before categories, until backfilled
+  sourceId: varchar("source_id"), // contract, recurring charge or OCR log the line comes from
+  taxable: boolean("taxable").notNull().default(true),
+  taxAmount: numeric("tax_amount", { precision: 15, scale: 2 }).notNull().default("0"), // IVA on the line
+  withholdingAmount: numeric("withholding_amount", { precision: 15, scale: 2 }).notNull().default("0"), // retención en la fuente + ICA
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  // The contract's late fee is charged once per invoice, however often the job runs
+  uniqueLateFee: uniqueIndex("unique_late_fee_per_invoice").on(table.invoiceId)
+    .where(sql`${table.category} = 'late_fee' and ${table.sourceType} = 'contract'`),
+}));
 
 // Payments
 export const payments = pgTable("payments", {
@@ -169,6 +294,7 @@ export const payments = pgTable("payments", {
   paymentDate: date("payment_date").notNull(),
   method: text("method").notNull(),
   receiptUrl: text("receipt_url"),
+  managementFeeRate: numeric("management_fee_rate", { precision: 5, scale: 2 }), // owner fee % in force when received; null on payments recorded before rates were kept
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -199,7 +325,10 @@ export const auditLogs = pgTable("audit_logs", {
   entityId: varchar("entity_id"),
   meta: json("meta"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => ({
+  tenantEntityIdx: index("IDX_audit_logs_tenant_entity").on(table.tenantId, table.entity, table.entityId),
+  tenantCreatedIdx: index("IDX_audit_logs_tenant_created").on(table.tenantId, table.createdAt),
+}));
 
 // Property Photos
 export const propertyPhotos = pgTable("property_photos", {
@@ -212,9 +341,306 @@ export const propertyPhotos = pgTable("property_photos", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Price Index Values (IPC Colombia, INPC México), maintained per tenant
+export const priceIndexValues = pgTable("price_index_values", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  indexType: priceIndexEnum("index_type").notNull(),
+  year: integer("year").notNull(),
+  month: integer("month").notNull(), // 1-12
+  annualChange: numeric("annual_change", { precision: 7, scale: 4 }).notNull(), // 12-month variation in %
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueIndexPeriod: uniqueIndex("unique_price_index_period").on(table.tenantId, table.indexType, table.year, table.month),
+}));
+
+// Rent Escalations (history of yearly rent increases applied to a contract)
+export const rentEscalations = pgTable("rent_escalations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  effectiveDate: date("effective_date").notNull(),
+  previousRent: numeric("previous_rent", { precision: 15, scale: 2 }).notNull(),
+  newRent: numeric("new_rent", { precision: 15, scale: 2 }).notNull(),
+  escalationType: escalationTypeEnum("escalation_type").notNull(),
+  indexYear: integer("index_year"),
+  indexMonth: integer("index_month"),
+  indexChange: numeric("index_change", { precision: 7, scale: 4 }),
+  appliedRate: numeric("applied_rate", { precision: 7, scale: 4 }).notNull(),
+  capped: boolean("capped").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueContractEscalation: uniqueIndex("unique_rent_escalation_per_contract").on(table.contractId, table.effectiveDate),
+}));
+
+// Recurring Charges (fixed monthly extras billed with the rent: administración, parking, storage)
+export const recurringCharges = pgTable("recurring_charges", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  category: chargeCategoryEnum("category").notNull(),
+  amount: numeric("amount", { precision: 15, scale: 2 }).notNull(), // monthly; discounts are entered positive and billed negative
+  startDate: date("start_date").notNull(), // first billing period that includes it
+  endDate: date("end_date"), // null while it runs to the end of the contract
+  taxable: boolean("taxable").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  contractIdx: index("IDX_recurring_charges_contract").on(table.contractId),
+}));
+
+// Deposit Entries (security deposit ledger; balance = receipts - deductions - refunds)
+export const depositEntries = pgTable("deposit_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  type: depositEntryTypeEnum("type").notNull(),
+  amount: numeric("amount", { precision: 15, scale: 2 }).notNull(), // always positive; the type gives the sign
+  entryDate: date("entry_date").notNull(),
+  description: text("description").notNull(),
+  invoiceChargeId: varchar("invoice_charge_id").references(() => invoiceCharges.id, { onDelete: "set null" }), // charge a deduction covers
+  inspectionItemId: varchar("inspection_item_id").references(() => inspectionItems.id, { onDelete: "set null" }), // damage a deduction covers
+  paymentId: varchar("payment_id").references(() => payments.id, { onDelete: "set null" }), // payment that applied a deduction to its invoice
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  contractIdx: index("IDX_deposit_entries_contract").on(table.contractId, table.entryDate),
+}));
+
+// Owner Expenses (paid on an owner's behalf and deducted from what we disburse to them)
+export const ownerExpenses = pgTable("owner_expenses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  ownerContactId: varchar("owner_contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+  propertyId: varchar("property_id").references(() => properties.id, { onDelete: "set null" }),
+  expenseDate: date("expense_date").notNull(),
+  description: text("description").notNull(),
+  amount: numeric("amount", { precision: 15, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  ownerIdx: index("IDX_owner_expenses_owner").on(table.ownerContactId, table.expenseDate),
+}));
+
+// Owner Disbursements (money transferred to an owner against their statement balance)
+export const ownerDisbursements = pgTable("owner_disbursements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  ownerContactId: varchar("owner_contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+  disbursementDate: date("disbursement_date").notNull(),
+  amount: numeric("amount", { precision: 15, scale: 2 }).notNull(),
+  method: text("method").notNull(),
+  reference: text("reference"), // bank transfer or check number
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  ownerIdx: index("IDX_owner_disbursements_owner").on(table.ownerContactId, table.disbursementDate),
+}));
+
+// Work Orders (maintenance tickets on a property; the cost can be billed to the tenant or the owner)
+export const workOrders = pgTable("work_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  sequence: integer("sequence").notNull(), // consecutive per tenant, never reused
+  number: text("number").notNull(),
+  propertyId: varchar("property_id").notNull().references(() => properties.id, { onDelete: "cascade" }),
+  contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "set null" }), // lease in force when reported
+  providerContactId: varchar("provider_contact_id").references(() => contacts.id, { onDelete: "set null" }),
+  title: text("title").notNull(),
+  description: text("description"),
+  category: workOrderCategoryEnum("category").notNull().default("other"),
+  priority: workOrderPriorityEnum("priority").notNull().default("medium"),
+  status: workOrderStatusEnum("status").notNull().default("open"),
+  reportedDate: date("reported_date").notNull(),
+  scheduledDate: date("scheduled_date"),
+  completedDate: date("completed_date"),
+  estimatedCost: numeric("estimated_cost", { precision: 15, scale: 2 }),
+  cost: numeric("cost", { precision: 15, scale: 2 }), // final cost, required to bill
+  billedTo: workOrderBillToEnum("billed_to"), // null until billed
+  invoiceChargeId: varchar("invoice_charge_id").references(() => invoiceCharges.id, { onDelete: "set null" }),
+  ownerExpenseId: varchar("owner_expense_id").references(() => ownerExpenses.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueSequence: uniqueIndex("unique_work_order_sequence_per_tenant").on(table.tenantId, table.sequence),
+  propertyIdx: index("IDX_work_orders_property").on(table.propertyId, table.status),
+}));
+
+// Work Order Photos
+export const workOrderPhotos = pgTable("work_order_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  workOrderId: varchar("work_order_id").notNull().references(() => workOrders.id, { onDelete: "cascade" }),
+  objectPath: text("object_path").notNull(),
+  caption: text("caption"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Inspections (move-in, periodic and move-out walk-throughs of a leased property)
+export const inspections = pgTable("inspections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  contractId: varchar("contract_id").notNull().references(() => contracts.id, { onDelete: "cascade" }),
+  type: inspectionTypeEnum("type").notNull(),
+  status: inspectionStatusEnum("status").notNull().default("draft"),
+  inspectionDate: date("inspection_date").notNull(),
+  inspectorName: text("inspector_name").notNull(),
+  notes: text("notes"),
+  tenantSignedName: text("tenant_signed_name"), // who signed for the tenant
+  tenantSignature: text("tenant_signature"), // PNG data URL drawn on screen
+  inspectorSignature: text("inspector_signature"),
+  signedAt: timestamp("signed_at"), // signed inspections can no longer change
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  contractIdx: index("IDX_inspections_contract").on(table.contractId, table.inspectionDate),
+}));
+
+// Inspection Items (one checklist line per room element; condition stays null until rated)
+export const inspectionItems = pgTable("inspection_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  inspectionId: varchar("inspection_id").notNull().references(() => inspections.id, { onDelete: "cascade" }),
+  room: text("room").notNull(),
+  item: text("item").notNull(),
+  condition: inspectionConditionEnum("condition"),
+  notes: text("notes"),
+  displayOrder: integer("display_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  inspectionIdx: index("IDX_inspection_items_inspection").on(table.inspectionId, table.displayOrder),
+}));
+
+// Inspection Photos (evidence for the whole inspection or for a single checklist item)
+export const inspectionPhotos = pgTable("inspection_photos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  inspectionId: varchar("inspection_id").notNull().references(() => inspections.id, { onDelete: "cascade" }),
+  inspectionItemId: varchar("inspection_item_id").references(() => inspectionItems.id, { onDelete: "set null" }),
+  objectPath: text("object_path").notNull(),
+  caption: text("caption"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Dunning Steps (a tenant's collections ladder: each step fires offsetDays from an invoice's due date)
+export const dunningSteps = pgTable("dunning_steps", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  offsetDays: integer("offset_days").notNull(), // negative before the due date, 0 on it, positive after
+  channel: dunningChannelEnum("channel").notNull().default("email"),
+  recipient: dunningRecipientEnum("recipient").notNull().default("tenant"),
+  template: dunningTemplateEnum("template").notNull(),
+  stopConditions: dunningStopConditionEnum("stop_conditions").array().notNull()
+    .default(sql`ARRAY['promise_to_pay']::dunning_stop_condition[]`), // paid and void invoices always stop
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueStep: uniqueIndex("unique_dunning_step_per_tenant").on(table.tenantId, table.offsetDays, table.recipient),
+}));
+
+// Dunning Events (each step fires at most once per invoice; the unique index survives restarts)
+export const dunningEvents = pgTable("dunning_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  stepId: varchar("step_id").references(() => dunningSteps.id, { onDelete: "set null" }),
+  stepName: text("step_name").notNull(), // copied so history reads the same after the ladder changes
+  offsetDays: integer("offset_days").notNull(),
+  channel: dunningChannelEnum("channel").notNull(),
+  recipient: dunningRecipientEnum("recipient").notNull(),
+  template: dunningTemplateEnum("template").notNull(),
+  status: dunningEventStatusEnum("status").notNull(),
+  sentTo: text("sent_to"), // email address or phone number used
+  error: text("error"), // why it was skipped or failed
+  firedAt: timestamp("fired_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueFiring: uniqueIndex("unique_dunning_event_per_step").on(table.invoiceId, table.stepId),
+}));
+
+// Scheduler Runs (the last period each daily or monthly job was claimed for, per tenant)
+export const schedulerRuns = pgTable("scheduler_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  job: schedulerJobEnum("job").notNull(),
+  period: text("period").notNull(), // the tenant's local date for daily jobs, YYYY-MM for monthly ones
+  status: schedulerRunStatusEnum("status").notNull(),
+  error: text("error"), // why the last run failed; it is retried on the next tick
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  uniqueJob: uniqueIndex("unique_scheduler_run_per_job").on(table.tenantId, table.job),
+}));
+
+// Notifications (every outbound email or message, with the provider's delivery status)
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  channel: notificationChannelEnum("channel").notNull().default("email"),
+  recipient: text("recipient").notNull(), // email address, or E.164 phone number for WhatsApp and SMS
+  contactId: varchar("contact_id").references(() => contacts.id, { onDelete: "set null" }),
+  template: notificationTemplateEnum("template").notNull(),
+  subject: text("subject").notNull(), // the message text for WhatsApp and SMS
+  transport: emailTransportEnum("transport"), // how an email was sent; only SendGrid reports delivery
+  provider: messagingProviderEnum("provider"), // how a message was sent; only WhatsApp reports delivery
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  contractId: varchar("contract_id").references(() => contracts.id, { onDelete: "set null" }),
+  providerMessageId: text("provider_message_id"),
+  status: notificationStatusEnum("status").notNull().default("queued"),
+  error: text("error"), // send failure, or the bounce/drop reason reported by the provider
+  sentAt: timestamp("sent_at"), // accepted by the provider
+  deliveredAt: timestamp("delivered_at"), // reported delivered by the provider's webhook
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  providerMessageIdx: index("IDX_notifications_provider_message").on(table.providerMessageId),
+  invoiceIdx: index("IDX_notifications_invoice").on(table.invoiceId, table.createdAt),
+}));
+
+// Email Templates (a tenant's own version of a default email; without a row the default is used)
+export const emailTemplates = pgTable("email_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  key: notificationTemplateEnum("key").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text"), // plain-text part; derived from the HTML when empty
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueTemplate: uniqueIndex("unique_email_template_per_tenant").on(table.tenantId, table.key),
+}));
+
+// Messaging Consents (a contact's opt-in or opt-out for WhatsApp or SMS, for the number it was given on)
+export const messagingConsents = pgTable("messaging_consents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().references(() => tenants.id, { onDelete: "cascade" }),
+  contactId: varchar("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+  channel: messagingChannelEnum("channel").notNull(),
+  status: messagingConsentStatusEnum("status").notNull(),
+  phone: text("phone").notNull(), // E.164; an opt-in lapses when the contact's number changes
+  source: text("source").notNull().default("manual"), // "manual", or "reply" when the contact answered STOP
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  uniqueConsent: uniqueIndex("unique_messaging_consent_per_contact").on(table.contactId, table.channel),
+  phoneIdx: index("IDX_messaging_consents_phone").on(table.channel, table.phone),
+}));
+
+// Email Settings (a tenant's own way of sending email; without a row the environment's transport is used)
+export const emailSettings = pgTable("email_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  tenantId: varchar("tenant_id").notNull().unique().references(() => tenants.id, { onDelete: "cascade" }),
+  transport: emailTransportEnum("transport").notNull(),
+  smtpHost: text("smtp_host"),
+  smtpPort: integer("smtp_port"),
+  smtpSecure: boolean("smtp_secure").notNull().default(false), // TLS from the start (465); otherwise STARTTLS when offered
+  smtpUser: text("smtp_user"),
+  smtpPassword: text("smtp_password"), // encrypted with EMAIL_SETTINGS_KEY; never returned by the API nor written to the audit log
+  fromEmail: text("from_email"), // required for SMTP; SendGrid uses the platform sender
+  fromName: text("from_name"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Relations
 export const tenantsRelations = relations(tenants, ({ many }) => ({
   users: many(users),
+  teamInvitations: many(teamInvitations),
   contacts: many(contacts),
   properties: many(properties),
   contracts: many(contracts),
@@ -225,6 +651,9 @@ export const tenantsRelations = relations(tenants, ({ many }) => ({
   ocrLogs: many(ocrLogs),
   auditLogs: many(auditLogs),
   propertyPhotos: many(propertyPhotos),
+  priceIndexValues: many(priceIndexValues),
+  rentEscalations: many(rentEscalations),
+  taxProfiles: many(taxProfiles),
 }));
 
 export const usersRelations = relations(users, ({ one }) => ({
@@ -234,6 +663,28 @@ export const usersRelations = relations(users, ({ one }) => ({
   }),
 }));
 
+export const teamInvitationsRelations = relations(teamInvitations, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [teamInvitations.tenantId],
+    references: [tenants.id],
+  }),
+  invitedBy: one(users, {
+    fields: [teamInvitations.invitedByUserId],
+    references: [users.id],
+  }),
+}));
+
+export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [auditLogs.tenantId],
+    references: [tenants.id],
+  }),
+  actor: one(users, {
+    fields: [auditLogs.actorUserId],
+    references: [users.id],
+  }),
+}));
+
 export const contactsRelations = relations(contacts, ({ one, many }) => ({
   tenant: one(tenants, {
     fields: [contacts.tenantId],
@@ -242,6 +693,11 @@ export const contactsRelations = relations(contacts, ({ one, many }) => ({
   ownedProperties: many(properties, { relationName: "propertyOwner" }),
   contractsAsOwner: many(contracts, { relationName: "contractOwner" }),
   contractsAsTenant: many(contracts, { relationName: "contractTenant" }),
+  contractsAsGuarantor: many(contracts, { relationName: "contractGuarantor" }),
+  ownerExpenses: many(ownerExpenses),
+  ownerDisbursements: many(ownerDisbursements),
+  workOrdersAsProvider: many(workOrders),
+  messagingConsents: many(messagingConsents),
 }));
 
 export const propertiesRelations = relations(properties, ({ one, many }) => ({
@@ -256,6 +712,7 @@ export const propertiesRelations = relations(properties, ({ one, many }) => ({
   }),
   contracts: many(contracts),
   photos: many(propertyPhotos),
+  workOrders: many(workOrders),
 }));
 
 export const contractsRelations = relations(contracts, ({ one, many }) => ({
@@ -277,11 +734,32 @@ export const contractsRelations = relations(contracts, ({ one, many }) => ({
     references: [contacts.id],
     relationName: "contractTenant",
   }),
+  guarantor: one(contacts, {
+    fields: [contracts.guarantorContactId],
+    references: [contacts.id],
+    relationName: "contractGuarantor",
+  }),
   policy: one(policies, {
     fields: [contracts.policyId],
     references: [policies.id],
   }),
+  taxProfile: one(taxProfiles, {
+    fields: [contracts.taxProfileId],
+    references: [taxProfiles.id],
+  }),
   invoices: many(invoices),
+  rentEscalations: many(rentEscalations),
+  recurringCharges: many(recurringCharges),
+  depositEntries: many(depositEntries),
+  inspections: many(inspections),
+  renewedFrom: one(contracts, {
+    fields: [contracts.renewedFromContractId],
+    references: [contracts.id],
+    relationName: "contractRenewal",
+  }),
+  renewals: many(contracts, {
+    relationName: "contractRenewal",
+  }),
 }));
 
 export const invoicesRelations = relations(invoices, ({ one, many }) => ({
@@ -299,6 +777,20 @@ export const invoicesRelations = relations(invoices, ({ one, many }) => ({
   }),
   charges: many(invoiceCharges),
   payments: many(payments),
+  creditNotes: many(creditNotes),
+  dunningEvents: many(dunningEvents),
+  notifications: many(notifications),
+}));
+
+export const creditNotesRelations = relations(creditNotes, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [creditNotes.tenantId],
+    references: [tenants.id],
+  }),
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
 }));
 
 export const invoiceChargesRelations = relations(invoiceCharges, ({ one }) => ({
@@ -349,40 +841,552 @@ export const propertyPhotosRelations = relations(propertyPhotos, ({ one }) => ({
   }),
 }));
 
+export const rentEscalationsRelations = relations(rentEscalations, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [rentEscalations.tenantId],
+    references: [tenants.id],
+  }),
+  contract: one(contracts, {
+    fields: [rentEscalations.contractId],
+    references: [contracts.id],
+  }),
+}));
+
+export const taxProfilesRelations = relations(taxProfiles, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [taxProfiles.tenantId],
+    references: [tenants.id],
+  }),
+  contracts: many(contracts),
+}));
+
+export const recurringChargesRelations = relations(recurringCharges, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [recurringCharges.tenantId],
+    references: [tenants.id],
+  }),
+  contract: one(contracts, {
+    fields: [recurringCharges.contractId],
+    references: [contracts.id],
+  }),
+}));
+
+export const depositEntriesRelations = relations(depositEntries, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [depositEntries.tenantId],
+    references: [tenants.id],
+  }),
+  contract: one(contracts, {
+    fields: [depositEntries.contractId],
+    references: [contracts.id],
+  }),
+  invoiceCharge: one(invoiceCharges, {
+    fields: [depositEntries.invoiceChargeId],
+    references: [invoiceCharges.id],
+  }),
+  inspectionItem: one(inspectionItems, {
+    fields: [depositEntries.inspectionItemId],
+    references: [inspectionItems.id],
+  }),
+  payment: one(payments, {
+    fields: [depositEntries.paymentId],
+    references: [payments.id],
+  }),
+}));
+
+export const ownerExpensesRelations = relations(ownerExpenses, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [ownerExpenses.tenantId],
+    references: [tenants.id],
+  }),
+  owner: one(contacts, {
+    fields: [ownerExpenses.ownerContactId],
+    references: [contacts.id],
+  }),
+  property: one(properties, {
+    fields: [ownerExpenses.propertyId],
+    references: [properties.id],
+  }),
+}));
+
+export const ownerDisbursementsRelations = relations(ownerDisbursements, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [ownerDisbursements.tenantId],
+    references: [tenants.id],
+  }),
+  owner: one(contacts, {
+    fields: [ownerDisbursements.ownerContactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const workOrdersRelations = relations(workOrders, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [workOrders.tenantId],
+    references: [tenants.id],
+  }),
+  property: one(properties, {
+    fields: [workOrders.propertyId],
+    references: [properties.id],
+  }),
+  contract: one(contracts, {
+    fields: [workOrders.contractId],
+    references: [contracts.id],
+  }),
+  provider: one(contacts, {
+    fields: [workOrders.providerContactId],
+    references: [contacts.id],
+  }),
+  invoiceCharge: one(invoiceCharges, {
+    fields: [workOrders.invoiceChargeId],
+    references: [invoiceCharges.id],
+  }),
+  ownerExpense: one(ownerExpenses, {
+    fields: [workOrders.ownerExpenseId],
+    references: [ownerExpenses.id],
+  }),
+  photos: many(workOrderPhotos),
+}));
+
+export const workOrderPhotosRelations = relations(workOrderPhotos, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [workOrderPhotos.tenantId],
+    references: [tenants.id],
+  }),
+  workOrder: one(workOrders, {
+    fields: [workOrderPhotos.workOrderId],
+    references: [workOrders.id],
+  }),
+}));
+
+export const inspectionsRelations = relations(inspections, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [inspections.tenantId],
+    references: [tenants.id],
+  }),
+  contract: one(contracts, {
+    fields: [inspections.contractId],
+    references: [contracts.id],
+  }),
+  items: many(inspectionItems),
+  photos: many(inspectionPhotos),
+}));
+
+export const inspectionItemsRelations = relations(inspectionItems, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [inspectionItems.tenantId],
+    references: [tenants.id],
+  }),
+  inspection: one(inspections, {
+    fields: [inspectionItems.inspectionId],
+    references: [inspections.id],
+  }),
+  photos: many(inspectionPhotos),
+  depositEntries: many(depositEntries),
+}));
+
+export const inspectionPhotosRelations = relations(inspectionPhotos, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [inspectionPhotos.tenantId],
+    references: [tenants.id],
+  }),
+  inspection: one(inspections, {
+    fields: [inspectionPhotos.inspectionId],
+    references: [inspections.id],
+  }),
+  item: one(inspectionItems, {
+    fields: [inspectionPhotos.inspectionItemId],
+    references: [inspectionItems.id],
+  }),
+}));
+
+export const dunningStepsRelations = relations(dunningSteps, ({ one, many }) => ({
+  tenant: one(tenants, {
+    fields: [dunningSteps.tenantId],
+    references: [tenants.id],
+  }),
+  events: many(dunningEvents),
+}));
+
+export const dunningEventsRelations = relations(dunningEvents, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [dunningEvents.tenantId],
+    references: [tenants.id],
+  }),
+  invoice: one(invoices, {
+    fields: [dunningEvents.invoiceId],
+    references: [invoices.id],
+  }),
+  step: one(dunningSteps, {
+    fields: [dunningEvents.stepId],
+    references: [dunningSteps.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [notifications.tenantId],
+    references: [tenants.id],
+  }),
+  contact: one(contacts, {
+    fields: [notifications.contactId],
+    references: [contacts.id],
+  }),
+  invoice: one(invoices, {
+    fields: [notifications.invoiceId],
+    references: [invoices.id],
+  }),
+  contract: one(contracts, {
+    fields: [notifications.contractId],
+    references: [contracts.id],
+  }),
+}));
+
 // Insert Schemas
 export const insertTenantSchema = createInsertSchema(tenants).omit({ id: true, createdAt: true });
-export const updateTenantLogoSchema = z.object({
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+const isLocale = (value: string) => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([value]).length > 0;
+  } catch {
+    return false;
+  }
+};
+const isCurrency = (value: string) => {
+  try {
+    new Intl.NumberFormat("en-US", { style: "currency", currency: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+export const updateTenantSettingsSchema = z.object({
   logo: z.string().optional(),
+  invoiceLeadDays: z.number().int().min(0).max(60).optional(),
+  renewalNoticeDays: z.number().int().min(1).max(365).optional(),
+  prorationMethod: z.enum(prorationMethodEnum.enumValues).optional(),
+  timezone: z.string().refine(isTimeZone, "unknown time zone").optional(),
+  enabledJobs: z.array(z.enum(schedulerJobEnum.enumValues)).optional(),
+  locale: z.string().refine(isLocale, "unknown locale").optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/).refine(isCurrency, "unknown currency").optional(),
 }).strict();
 export const insertUserSchema = createInsertSchema(users).omit({ createdAt: true, updatedAt: true });
-export const insertContactSchema = createInsertSchema(contacts).omit({ id: true, createdAt: true });
-export const insertPropertySchema = createInsertSchema(properties).omit({ id: true, createdAt: true });
-export const insertContractSchema = createInsertSchema(contracts).omit({ id: true, createdAt: true });
+export const insertTeamInvitationSchema = createInsertSchema(teamInvitations).omit({ id: true, createdAt: true });
+export const createTeamInvitationSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(userRoleEnum.enumValues),
+}).strict();
+export const updateMemberRoleSchema = z.object({
+  role: z.enum(userRoleEnum.enumValues),
+}).strict();
+const rateSchema = z.string().regex(/^\d{1,3}(\.\d{1,4})?$/).refine((value) => parseFloat(value) <= 100, "rate must be at most 100");
+export const insertContactSchema = createInsertSchema(contacts, {
+  managementFeeRate: () => rateSchema.nullable().optional(),
+}).omit({ id: true, createdAt: true });
+export const insertPropertySchema = createInsertSchema(properties, {
+  managementFeeRate: () => rateSchema.nullable().optional(),
+}).omit({ id: true, createdAt: true });
+export const insertContractSchema = createInsertSchema(contracts, {
+  escalationMonth: (schema) => schema.int().min(1).max(12),
+}).omit({ id: true, createdAt: true });
+const moneySchema = z.string().regex(/^\d+(\.\d{1,2})?$/);
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+export const renewContractSchema = z.object({
+  number: z.string().trim().min(1).optional(),
+  startDate: dateSchema.optional(), // defaults to the day after the original ends
+  endDate: dateSchema,
+  rentAmount: moneySchema.optional(), // overrides the computed rent
+  applyEscalation: z.boolean().default(false), // escalate the rent in force by the contract's own rule
+}).strict();
+export const terminateContractSchema = z.object({
+  terminationDate: dateSchema,
+  reason: z.string().trim().min(1),
+  penaltyAmount: moneySchema.optional(),
+  utilities: z.array(z.object({
+    description: z.string().trim().min(1),
+    amount: moneySchema,
+  })).default([]),
+  depositOffset: moneySchema.optional(), // deposit applied against the settlement
+  dueDate: dateSchema.optional(),
+}).strict();
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true, createdAt: true });
 export const insertInvoiceChargeSchema = createInsertSchema(invoiceCharges).omit({ id: true, createdAt: true });
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({ id: true, createdAt: true });
 export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, createdAt: true });
 export const insertInsurerSchema = createInsertSchema(insurers).omit({ id: true, createdAt: true });
 export const insertPolicySchema = createInsertSchema(policies).omit({ id: true, createdAt: true });
 export const insertOcrLogSchema = createInsertSchema(ocrLogs).omit({ id: true, createdAt: true });
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, createdAt: true });
 export const insertPropertyPhotoSchema = createInsertSchema(propertyPhotos).omit({ id: true, createdAt: true });
+export const insertPriceIndexValueSchema = createInsertSchema(priceIndexValues).omit({ id: true, createdAt: true });
+export const insertRentEscalationSchema = createInsertSchema(rentEscalations).omit({ id: true, createdAt: true });
+export const insertRecurringChargeSchema = createInsertSchema(recurringCharges).omit({ id: true, createdAt: true });
+export const insertDepositEntrySchema = createInsertSchema(depositEntries).omit({ id: true, createdAt: true });
+export const insertOwnerExpenseSchema = createInsertSchema(ownerExpenses).omit({ id: true, createdAt: true });
+export const insertOwnerDisbursementSchema = createInsertSchema(ownerDisbursements).omit({ id: true, createdAt: true });
+export const insertWorkOrderSchema = createInsertSchema(workOrders).omit({ id: true, createdAt: true });
+export const insertWorkOrderPhotoSchema = createInsertSchema(workOrderPhotos).omit({ id: true, createdAt: true });
+export const insertInspectionSchema = createInsertSchema(inspections).omit({ id: true, createdAt: true });
+export const insertInspectionItemSchema = createInsertSchema(inspectionItems).omit({ id: true, createdAt: true });
+export const insertInspectionPhotoSchema = createInsertSchema(inspectionPhotos).omit({ id: true, createdAt: true });
+export const insertDunningStepSchema = createInsertSchema(dunningSteps).omit({ id: true, createdAt: true });
+export const insertDunningEventSchema = createInsertSchema(dunningEvents).omit({ id: true, firedAt: true });
+export const insertSchedulerRunSchema = createInsertSchema(schedulerRuns).omit({ id: true, startedAt: true });
+export const insertNotificationSchema = createInsertSchema(notifications).omit({ id: true, createdAt: true });
+export const insertEmailTemplateSchema = createInsertSchema(emailTemplates).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertMessagingConsentSchema = createInsertSchema(messagingConsents).omit({ id: true, createdAt: true, updatedAt: true });
+export const messagingChannelSchema = z.enum(messagingChannelEnum.enumValues);
+export const messagingConsentInputSchema = z.object({
+  status: z.enum(messagingConsentStatusEnum.enumValues),
+}).strict();
+export const insertEmailSettingsSchema = createInsertSchema(emailSettings).omit({ id: true, createdAt: true, updatedAt: true });
+// Mail submission ports; anything else would let the settings probe other services
+export const smtpPorts = [25, 465, 587, 2525] as const;
+// smtpPassword is optional on update: leaving it out keeps the saved one
+export const emailSettingsInputSchema = z.object({
+  transport: z.enum(emailTransportEnum.enumValues),
+  smtpHost: z.string().trim().min(1).max(253).regex(/^[A-Za-z0-9.-]+$/, "smtpHost must be a host name or IPv4 address").nullable().optional(),
+  smtpPort: z.number().int().refine((port) => (smtpPorts as readonly number[]).includes(port), `smtpPort must be one of ${smtpPorts.join(", ")}`).nullable().optional(),
+  smtpSecure: z.boolean().optional(),
+  smtpUser: z.string().trim().nullable().optional(),
+  smtpPassword: z.string().optional(),
+  fromEmail: z.string().trim().email().nullable().optional(),
+  fromName: z.string().trim().max(100).nullable().optional(),
+}).strict().refine(
+  (settings) => settings.transport !== "smtp" || (!!settings.smtpHost && !!settings.smtpPort && !!settings.fromEmail),
+  { message: "smtpHost, smtpPort and fromEmail are required for SMTP", path: ["transport"] },
+);
+// The emails a tenant can rewrite: the dunning ladder's and the insurer report's
+export const editableEmailTemplates = [...dunningTemplateEnum.enumValues, "insurer_report"] as const;
+export const emailTemplateKeySchema = z.enum(editableEmailTemplates);
+export const emailTemplateInputSchema = z.object({
+  subject: z.string().trim().min(1).max(300),
+  html: z.string().trim().min(1).max(100_000),
+  text: z.string().trim().max(50_000).nullable().optional(),
+}).strict();
+// Renders a draft against a real record: an invoice for the dunning emails, an insurer for its report
+export const emailTemplatePreviewSchema = emailTemplateInputSchema.extend({
+  invoiceId: z.string().optional(),
+  insurerId: z.string().optional(),
+}).strict();
+export const insertTaxProfileSchema = createInsertSchema(taxProfiles, {
+  name: (schema) => schema.trim().min(1),
+  ivaRate: () => rateSchema,
+  withholdingRate: () => rateSchema,
+  icaRate: () => rateSchema,
+}).omit({ id: true, createdAt: true });
+export const createInvoiceChargeSchema = z.object({
+  category: z.enum(chargeCategoryEnum.enumValues),
+  description: z.string().trim().min(1),
+  quantity: z.string().regex(/^\d+(\.\d{1,3})?$/).refine((value) => parseFloat(value) > 0, "quantity must be greater than 0").optional(),
+  unitPrice: moneySchema.optional(),
+  amount: moneySchema.optional(), // required unless quantity and unitPrice are given
+  taxable: z.boolean().optional(), // defaults by category
+}).strict().refine(
+  (data) => data.amount !== undefined || (data.quantity !== undefined && data.unitPrice !== undefined),
+  { message: "amount or quantity and unitPrice are required", path: ["amount"] },
+);
+// Rent is billed from the contract itself, late fees by the overdue job and deposits
+// through the deposit ledger, so none of them can recur as an extra
+const recurringChargeCategories = ["utility", "maintenance", "tax", "discount", "other"] as const;
+export const recurringChargeSchema = z.object({
+  description: z.string().trim().min(1),
+  category: z.enum(recurringChargeCategories),
+  amount: moneySchema.refine((value) => parseFloat(value) > 0, "amount must be greater than 0"),
+  startDate: dateSchema,
+  endDate: dateSchema.nullable().optional(),
+  taxable: z.boolean().optional(), // defaults by category
+}).strict();
+export const updateRecurringChargeSchema = recurringChargeSchema.partial();
+export const createCreditNoteSchema = z.object({
+  amount: moneySchema.refine((value) => parseFloat(value) > 0, "amount must be greater than 0"),
+  reasonCode: z.enum(creditNoteReasonEnum.enumValues).refine((value) => value !== "void", "use the void endpoint to void an invoice"),
+  reason: z.string().trim().min(1),
+  issueDate: dateSchema.optional(), // defaults to today
+}).strict();
+export const voidInvoiceSchema = z.object({
+  reason: z.string().trim().min(1),
+}).strict();
+// Both ends are inclusive; statements default to the current year to date
+export const statementRangeSchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+}).refine((data) => !data.from || !data.to || data.from <= data.to, { message: "from must be on or before to", path: ["from"] });
+export const reportPeriodSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  month: z.coerce.number().int().min(1).max(12),
+});
+export const agingGroupings = ["contact", "property", "owner", "insurer"] as const;
+export const agingReportQuerySchema = z.object({
+  asOf: dateSchema.optional(), // defaults to today
+  groupBy: z.enum(agingGroupings).default("contact"),
+});
+export const createOwnerExpenseSchema = z.object({
+  expenseDate: dateSchema,
+  description: z.string().trim().min(1),
+  amount: moneySchema.refine((value) => parseFloat(value) > 0, "amount must be greater than 0"),
+  propertyId: z.string().nullable().optional(),
+}).strict();
+export const createOwnerDisbursementSchema = z.object({
+  disbursementDate: dateSchema,
+  amount: moneySchema.refine((value) => parseFloat(value) > 0, "amount must be greater than 0"),
+  method: z.string().trim().min(1),
+  reference: z.string().trim().nullable().optional(),
+}).strict();
+export const createWorkOrderSchema = z.object({
+  propertyId: z.string().min(1),
+  contractId: z.string().nullable().optional(), // defaults to the property's active lease
+  providerContactId: z.string().nullable().optional(),
+  title: z.string().trim().min(1),
+  description: z.string().trim().nullable().optional(),
+  category: z.enum(workOrderCategoryEnum.enumValues).default("other"),
+  priority: z.enum(workOrderPriorityEnum.enumValues).default("medium"),
+  reportedDate: dateSchema.optional(), // defaults to today
+  scheduledDate: dateSchema.nullable().optional(),
+  estimatedCost: moneySchema.nullable().optional(),
+}).strict();
+// Property and billing are fixed once the ticket is open; billing has its own endpoint
+export const updateWorkOrderSchema = z.object({
+  providerContactId: z.string().nullable().optional(),
+  title: z.string().trim().min(1).optional(),
+  description: z.string().trim().nullable().optional(),
+  category: z.enum(workOrderCategoryEnum.enumValues).optional(),
+  priority: z.enum(workOrderPriorityEnum.enumValues).optional(),
+  status: z.enum(workOrderStatusEnum.enumValues).optional(),
+  scheduledDate: dateSchema.nullable().optional(),
+  completedDate: dateSchema.nullable().optional(), // defaults to today when completing
+  estimatedCost: moneySchema.nullable().optional(),
+  cost: moneySchema.nullable().optional(),
+}).strict();
+export const billWorkOrderSchema = z.discriminatedUnion("billTo", [
+  z.object({
+    billTo: z.literal("tenant"),
+    invoiceId: z.string().min(1), // open invoice on the work order's contract
+    description: z.string().trim().min(1).optional(),
+  }).strict(),
+  z.object({
+    billTo: z.literal("owner"),
+    expenseDate: dateSchema.optional(), // defaults to the completion date
+    description: z.string().trim().min(1).optional(),
+  }).strict(),
+]);
+export const workOrderQuerySchema = z.object({
+  propertyId: z.string().optional(),
+  providerContactId: z.string().optional(),
+  status: z.enum(workOrderStatusEnum.enumValues).optional(),
+});
+export const createDepositEntrySchema = z.object({
+  type: z.enum(depositEntryTypeEnum.enumValues),
+  amount: moneySchema.refine((value) => parseFloat(value) > 0, "amount must be greater than 0"),
+  entryDate: dateSchema,
+  description: z.string().trim().min(1),
+  invoiceChargeId: z.string().optional(),
+  inspectionItemId: z.string().optional(), // damaged inspection item a deduction covers
+}).strict();
+const inspectionItemInputSchema = z.object({
+  room: z.string().trim().min(1),
+  item: z.string().trim().min(1),
+  condition: z.enum(inspectionConditionEnum.enumValues).nullable().optional(),
+  notes: z.string().trim().nullable().optional(),
+}).strict();
+export const createInspectionSchema = z.object({
+  type: z.enum(inspectionTypeEnum.enumValues),
+  inspectionDate: dateSchema.optional(), // defaults to today
+  inspectorName: z.string().trim().min(1),
+  notes: z.string().trim().nullable().optional(),
+  // Defaults to the rooms of the contract's last inspection, or the standard checklist
+  items: z.array(inspectionItemInputSchema).optional(),
+}).strict();
+export const updateInspectionSchema = z.object({
+  inspectionDate: dateSchema.optional(),
+  inspectorName: z.string().trim().min(1).optional(),
+  notes: z.string().trim().nullable().optional(),
+}).strict();
+export const createInspectionItemSchema = inspectionItemInputSchema;
+export const updateInspectionItemSchema = inspectionItemInputSchema.partial().extend({
+  displayOrder: z.number().int().min(0).optional(),
+}).strict();
+const signatureSchema = z.string().regex(/^data:image\/png;base64,[A-Za-z0-9+/=]+$/, "signature must be a PNG data URL").max(500_000);
+export const signInspectionSchema = z.object({
+  tenantSignedName: z.string().trim().min(1),
+  tenantSignature: signatureSchema,
+  inspectorSignature: signatureSchema,
+}).strict();
+export const messagingConsentsRelations = relations(messagingConsents, ({ one }) => ({
+  tenant: one(tenants, {
+    fields: [messagingConsents.tenantId],
+    references: [tenants.id],
+  }),
+  contact: one(contacts, {
+    fields: [messagingConsents.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const inspectionComparisonQuerySchema = z.object({
+  from: z.string().optional(), // defaults to the latest signed move-in
+  to: z.string().optional(), // defaults to the latest move-out
+});
+export const dunningStepInputSchema = z.object({
+  name: z.string().trim().min(1),
+  offsetDays: z.number().int().min(-60).max(365),
+  channel: z.enum(dunningChannelEnum.enumValues).default("email"),
+  recipient: z.enum(dunningRecipientEnum.enumValues).default("tenant"),
+  template: z.enum(dunningTemplateEnum.enumValues),
+  stopConditions: z.array(z.enum(dunningStopConditionEnum.enumValues)).default(["promise_to_pay"]),
+  active: z.boolean().default(true),
+}).strict();
+export const updateDunningStepSchema = dunningStepInputSchema.partial();
+// A manual reminder goes out on the chosen channel; auto picks one like a dunning step does
+export const remindInvoiceSchema = z.object({
+  channel: z.enum(dunningChannelEnum.enumValues).default("auto"),
+}).strict();
+export const promiseToPaySchema = z.object({
+  promisedPaymentDate: dateSchema,
+  promiseNote: z.string().trim().max(500).nullable().optional(),
+}).strict();
 
 // Select Types
 export type Tenant = typeof tenants.$inferSelect;
 export type InsertTenant = z.infer<typeof insertTenantSchema>;
+export type SchedulerJob = Tenant["enabledJobs"][number];
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpsertUser = typeof users.$inferInsert;
+export type TeamInvitation = typeof teamInvitations.$inferSelect;
+export type InsertTeamInvitation = z.infer<typeof insertTeamInvitationSchema>;
 export type Contact = typeof contacts.$inferSelect;
 export type InsertContact = z.infer<typeof insertContactSchema>;
 export type Property = typeof properties.$inferSelect;
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
 export type Contract = typeof contracts.$inferSelect;
 export type InsertContract = z.infer<typeof insertContractSchema>;
+export type RenewContract = z.infer<typeof renewContractSchema>;
+export type TerminateContract = z.infer<typeof terminateContractSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type InvoiceCharge = typeof invoiceCharges.$inferSelect;
+export type ChargeCategory = InvoiceCharge["category"];
 export type InsertInvoiceCharge = z.infer<typeof insertInvoiceChargeSchema>;
+export type CreateInvoiceCharge = z.infer<typeof createInvoiceChargeSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type CreateCreditNote = z.infer<typeof createCreditNoteSchema>;
+export type CreditNoteReason = CreditNote["reasonCode"];
+export type StatementRange = z.infer<typeof statementRangeSchema>;
+export type ReportPeriod = z.infer<typeof reportPeriodSchema>;
+export type AgingGrouping = typeof agingGroupings[number];
+export type AgingReportQuery = z.infer<typeof agingReportQuerySchema>;
+export type RecurringCharge = typeof recurringCharges.$inferSelect;
+export type InsertRecurringCharge = z.infer<typeof insertRecurringChargeSchema>;
+export type RecurringChargeInput = z.infer<typeof recurringChargeSchema>;
 export type Payment = typeof payments.$inferSelect;
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Insurer = typeof insurers.$inferSelect;
@@ -393,5 +1397,78 @@ export type OcrLog = typeof ocrLogs.$inferSelect;
 export type InsertOcrLog = z.infer<typeof insertOcrLogSchema>;
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
+export type AuditAction = "create" | "update" | "delete" | "approve";
 export type PropertyPhoto = typeof propertyPhotos.$inferSelect;
 export type InsertPropertyPhoto = z.infer<typeof insertPropertyPhotoSchema>;
+export type PriceIndexValue = typeof priceIndexValues.$inferSelect;
+export type InsertPriceIndexValue = z.infer<typeof insertPriceIndexValueSchema>;
+export type RentEscalation = typeof rentEscalations.$inferSelect;
+export type InsertRentEscalation = z.infer<typeof insertRentEscalationSchema>;
+export type TaxProfile = typeof taxProfiles.$inferSelect;
+export type InsertTaxProfile = z.infer<typeof insertTaxProfileSchema>;
+export type DepositEntry = typeof depositEntries.$inferSelect;
+export type InsertDepositEntry = z.infer<typeof insertDepositEntrySchema>;
+export type CreateDepositEntry = z.infer<typeof createDepositEntrySchema>;
+export type OwnerExpense = typeof ownerExpenses.$inferSelect;
+export type InsertOwnerExpense = z.infer<typeof insertOwnerExpenseSchema>;
+export type CreateOwnerExpense = z.infer<typeof createOwnerExpenseSchema>;
+export type OwnerDisbursement = typeof ownerDisbursements.$inferSelect;
+export type InsertOwnerDisbursement = z.infer<typeof insertOwnerDisbursementSchema>;
+export type CreateOwnerDisbursement = z.infer<typeof createOwnerDisbursementSchema>;
+export type WorkOrder = typeof workOrders.$inferSelect;
+export type InsertWorkOrder = z.infer<typeof insertWorkOrderSchema>;
+export type CreateWorkOrder = z.infer<typeof createWorkOrderSchema>;
+export type UpdateWorkOrder = z.infer<typeof updateWorkOrderSchema>;
+export type BillWorkOrder = z.infer<typeof billWorkOrderSchema>;
+export type WorkOrderStatus = WorkOrder["status"];
+export type WorkOrderCategory = WorkOrder["category"];
+export type WorkOrderPriority = WorkOrder["priority"];
+export type WorkOrderPhoto = typeof workOrderPhotos.$inferSelect;
+export type InsertWorkOrderPhoto = z.infer<typeof insertWorkOrderPhotoSchema>;
+export type Inspection = typeof inspections.$inferSelect;
+export type InsertInspection = z.infer<typeof insertInspectionSchema>;
+export type CreateInspection = z.infer<typeof createInspectionSchema>;
+export type UpdateInspection = z.infer<typeof updateInspectionSchema>;
+export type SignInspection = z.infer<typeof signInspectionSchema>;
+export type InspectionType = Inspection["type"];
+export type InspectionStatus = Inspection["status"];
+export type InspectionItem = typeof inspectionItems.$inferSelect;
+export type InsertInspectionItem = z.infer<typeof insertInspectionItemSchema>;
+export type CreateInspectionItem = z.infer<typeof createInspectionItemSchema>;
+export type UpdateInspectionItem = z.infer<typeof updateInspectionItemSchema>;
+export type InspectionCondition = NonNullable<InspectionItem["condition"]>;
+export type InspectionPhoto = typeof inspectionPhotos.$inferSelect;
+export type InsertInspectionPhoto = z.infer<typeof insertInspectionPhotoSchema>;
+export type DunningStep = typeof dunningSteps.$inferSelect;
+export type InsertDunningStep = z.infer<typeof insertDunningStepSchema>;
+export type DunningStepInput = z.infer<typeof dunningStepInputSchema>;
+export type UpdateDunningStep = z.infer<typeof updateDunningStepSchema>;
+export type DunningChannel = DunningStep["channel"];
+export type DunningRecipient = DunningStep["recipient"];
+export type DunningTemplate = DunningStep["template"];
+export type DunningStopCondition = DunningStep["stopConditions"][number];
+export type DunningEvent = typeof dunningEvents.$inferSelect;
+export type InsertDunningEvent = z.infer<typeof insertDunningEventSchema>;
+export type DunningEventStatus = DunningEvent["status"];
+export type SchedulerRun = typeof schedulerRuns.$inferSelect;
+export type InsertSchedulerRun = z.infer<typeof insertSchedulerRunSchema>;
+export type PromiseToPay = z.infer<typeof promiseToPaySchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationTemplate = Notification["template"];
+export type NotificationStatus = Notification["status"];
+export type NotificationChannel = Notification["channel"];
+export type EmailTransportName = Notification["transport"] & string;
+export type MessagingProviderName = Notification["provider"] & string;
+export type MessagingConsent = typeof messagingConsents.$inferSelect;
+export type InsertMessagingConsent = z.infer<typeof insertMessagingConsentSchema>;
+export type MessagingChannel = MessagingConsent["channel"];
+export type MessagingConsentStatus = MessagingConsent["status"];
+export type EmailSettings = typeof emailSettings.$inferSelect;
+export type InsertEmailSettings = z.infer<typeof insertEmailSettingsSchema>;
+export type EmailSettingsInput = z.infer<typeof emailSettingsInputSchema>;
+export type EmailTemplate = typeof emailTemplates.$inferSelect;
+export type InsertEmailTemplate = z.infer<typeof insertEmailTemplateSchema>;
+export type EmailTemplateKey = z.infer<typeof emailTemplateKeySchema>;
+export type EmailTemplateInput = z.infer<typeof emailTemplateInputSchema>;
+export type EmailTemplatePreview = z.infer<typeof emailTemplatePreviewSchema>;